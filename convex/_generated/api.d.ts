@@ -8,10 +8,13 @@
  * @module
  */
 
+import type * as assets from "../assets.js";
 import type * as chat from "../chat.js";
+import type * as dependencies from "../dependencies.js";
 import type * as exports from "../exports.js";
 import type * as projects from "../projects.js";
 import type * as templates from "../templates.js";
+import type * as usage from "../usage.js";
 import type * as versions from "../versions.js";
 
 import type {
@@ -21,10 +24,13 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  assets: typeof assets;
   chat: typeof chat;
+  dependencies: typeof dependencies;
   exports: typeof exports;
   projects: typeof projects;
   templates: typeof templates;
+  usage: typeof usage;
   versions: typeof versions;
 }>;
 
@@ -0,0 +1,92 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+async function ensureProjectOwner(ctx: { db: any }, projectId: string, ownerId: string) {
+  const project = await ctx.db.get(projectId);
+  if (!project || project.ownerId !== ownerId) {
+    throw new Error("Project not found");
+  }
+  return project;
+}
+
+export const list = query({
+  args: {
+    projectId: v.id("projects"),
+    ownerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const project = await ctx.db.get(args.projectId);
+    if (!project || project.ownerId !== args.ownerId) {
+      return [];
+    }
+
+    const rows = await ctx.db
+      .query("assets")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const assets = await Promise.all(
+      rows.map(async (row) => ({ ...row, url: await ctx.storage.getUrl(row.fileId) }))
+    );
+    return assets.sort((a, b) => a.path.localeCompare(b.path));
+  },
+});
+
+export const generateUploadUrl = mutation({
+  args: {
+    projectId: v.id("projects"),
+    ownerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ensureProjectOwner(ctx, args.projectId, args.ownerId);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Uploading to a path that already exists replaces the mesh behind it.
+export const create = mutation({
+  args: {
+    projectId: v.id("projects"),
+    ownerId: v.string(),
+    path: v.string(),
+    fileName: v.string(),
+    format: v.union(v.literal("stl"), v.literal("obj"), v.literal("3mf"), v.literal("svg"), v.literal("dxf")),
+    fileId: v.id("_storage"),
+    fileSizeBytes: v.optional(v.number()),
+    triangleCount: v.optional(v.number()),
+    outlineCount: v.optional(v.number()),
+    layers: v.optional(v.array(v.string())),
+    bounds: v.optional(v.any()),
+  },
+  handler: async (ctx, args) => {
+    await ensureProjectOwner(ctx, args.projectId, args.ownerId);
+    if (!/^assets\/[a-z0-9._-]+$/.test(args.path)) {
+      throw new Error(`Invalid asset path: ${args.path}`);
+    }
+
+    const { ownerId, ...row } = args;
+    const existing = await ctx.db
+      .query("assets")
+      .withIndex("by_project_path", (q) => q.eq("projectId", args.projectId).eq("path", args.path))
+      .first();
+    if (existing) {
+      if (existing.fileId !== args.fileId) await ctx.storage.delete(existing.fileId);
+      await ctx.db.patch(existing._id, row);
+      return existing._id;
+    }
+    return await ctx.db.insert("assets", row);
+  },
+});
+
+export const remove = mutation({
+  args: {
+    id: v.id("assets"),
+    ownerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const asset = await ctx.db.get(args.id);
+    if (!asset) return;
+    await ensureProjectOwner(ctx, asset.projectId, args.ownerId);
+    await ctx.storage.delete(asset.fileId);
+    await ctx.db.delete(args.id);
+  },
+});
@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
+import { tokenUsage } from "./usage";
 
 async function ensureProjectOwner(ctx: { db: any }, projectId: string, ownerId: string) {
   const project = await ctx.db.get(projectId);
@@ -37,6 +38,9 @@ export const send = mutation({
     versionId: v.optional(v.id("versions")),
     toolCalls: v.optional(v.any()),
     toolResults: v.optional(v.any()),
+    // Model usage of the prompt this message concludes, for display only; the
+    // codegen server records the totals that budgets are checked against.
+    usage: v.optional(tokenUsage),
   },
   handler: async (ctx, args) => {
     await ensureProjectOwner(ctx, args.projectId, args.ownerId);
@@ -48,6 +52,7 @@ export const send = mutation({
       versionId: args.versionId,
       toolCalls: args.toolCalls,
       toolResults: args.toolResults,
+      usage: args.usage,
     });
   },
 });
@@ -268,6 +273,33 @@ export const failPrompt = mutation({
   },
 });
 
+export const cancelPrompt = mutation({
+  args: {
+    queueId: v.id("promptQueue"),
+    projectId: v.id("projects"),
+    ownerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ensureProjectOwner(ctx, args.projectId, args.ownerId);
+    const item = await ctx.db.get(args.queueId);
+    if (!item || item.projectId !== args.projectId) {
+      return;
+    }
+    if (item.status === "completed" || item.status === "failed") {
+      return;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(item._id, {
+      status: "cancelled",
+      completedAt: now,
+      heartbeatAt: now,
+      updatedAt: now,
+      error: undefined,
+    });
+  },
+});
+
 export const clearHistory = mutation({
   args: { projectId: v.id("projects"), ownerId: v.string() },
   handler: async (ctx, args) => {
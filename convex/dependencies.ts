@@ -0,0 +1,97 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+async function ensureProjectOwner(ctx: { db: any }, projectId: string, ownerId: string) {
+  const project = await ctx.db.get(projectId);
+  if (!project || project.ownerId !== ownerId) {
+    throw new Error("Project not found");
+  }
+  return project;
+}
+
+export const list = query({
+  args: {
+    projectId: v.id("projects"),
+    ownerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const project = await ctx.db.get(args.projectId);
+    if (!project || project.ownerId !== args.ownerId) {
+      return [];
+    }
+
+    const rows = await ctx.db
+      .query("dependencies")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const dependencies = await Promise.all(
+      rows.map(async (row) => ({ ...row, url: await ctx.storage.getUrl(row.fileId) }))
+    );
+    return dependencies.sort((a, b) => a.moduleId.localeCompare(b.moduleId));
+  },
+});
+
+export const generateUploadUrl = mutation({
+  args: {
+    projectId: v.id("projects"),
+    ownerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ensureProjectOwner(ctx, args.projectId, args.ownerId);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Pins a module to an uploaded snapshot. An existing pin is only replaced with
+// `replace` (the "Update dependencies" action); otherwise the upload is dropped
+// so concurrent evaluations cannot silently move a pin.
+export const pin = mutation({
+  args: {
+    projectId: v.id("projects"),
+    ownerId: v.string(),
+    moduleId: v.string(),
+    hash: v.string(),
+    fileId: v.id("_storage"),
+    sizeBytes: v.number(),
+    replace: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    await ensureProjectOwner(ctx, args.projectId, args.ownerId);
+    if (!/^(?:https?:\/\/|\/jscad-libs\/)/.test(args.moduleId)) {
+      throw new Error(`Only remote and /jscad-libs modules can be pinned: ${args.moduleId}`);
+    }
+
+    const { ownerId, replace, ...row } = args;
+    const existing = await ctx.db
+      .query("dependencies")
+      .withIndex("by_project_module", (q) => q.eq("projectId", args.projectId).eq("moduleId", args.moduleId))
+      .first();
+    if (existing) {
+      // A pin whose snapshot went missing is repaired even when the hash is unchanged.
+      const intact = (await ctx.storage.getUrl(existing.fileId)) !== null;
+      if (!replace || (existing.hash === args.hash && intact)) {
+        await ctx.storage.delete(args.fileId);
+        return { id: existing._id, changed: false };
+      }
+      if (intact) await ctx.storage.delete(existing.fileId);
+      await ctx.db.patch(existing._id, { ...row, updatedAt: Date.now() });
+      return { id: existing._id, changed: true };
+    }
+    const id = await ctx.db.insert("dependencies", { ...row, updatedAt: Date.now() });
+    return { id, changed: true };
+  },
+});
+
+export const remove = mutation({
+  args: {
+    id: v.id("dependencies"),
+    ownerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const dependency = await ctx.db.get(args.id);
+    if (!dependency) return;
+    await ensureProjectOwner(ctx, dependency.projectId, args.ownerId);
+    await ctx.storage.delete(dependency.fileId);
+    await ctx.db.delete(args.id);
+  },
+});
@@ -1,16 +1,82 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation, type QueryCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+
+const exportFormat = v.union(
+  v.literal("stl"),
+  v.literal("3mf"),
+  v.literal("amf"),
+  v.literal("obj"),
+  v.literal("glb"),
+  v.literal("svg"),
+  v.literal("dxf"),
+  v.literal("gif"),
+  v.literal("zip")
+);
+
+async function ensureProjectOwner(ctx: { db: any }, projectId: string, ownerId: string) {
+  const project = await ctx.db.get(projectId);
+  if (!project || project.ownerId !== ownerId) {
+    throw new Error("Project not found");
+  }
+  return project;
+}
+
+async function withUrl(ctx: { storage: QueryCtx["storage"] }, row: Doc<"exports">) {
+  return { ...row, url: row.fileId ? await ctx.storage.getUrl(row.fileId) : null };
+}
 
 export const list = query({
   args: {
     projectId: v.id("projects"),
+    ownerId: v.string(),
   },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const project = await ctx.db.get(args.projectId);
+    if (!project || project.ownerId !== args.ownerId) {
+      return [];
+    }
+
+    const rows = await ctx.db
       .query("exports")
       .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
       .order("desc")
       .collect();
+    return await Promise.all(rows.map((row) => withUrl(ctx, row)));
+  },
+});
+
+// An earlier export of the same version with the same key, if its file is still stored.
+export const findExisting = query({
+  args: {
+    versionId: v.id("versions"),
+    ownerId: v.string(),
+    exportKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const version = await ctx.db.get(args.versionId);
+    if (!version) return null;
+    const project = await ctx.db.get(version.projectId);
+    if (!project || project.ownerId !== args.ownerId) return null;
+
+    const row = await ctx.db
+      .query("exports")
+      .withIndex("by_version_key", (q) => q.eq("versionId", args.versionId).eq("exportKey", args.exportKey))
+      .first();
+    if (!row?.fileId) return null;
+    const stored = await withUrl(ctx, row);
+    return stored.url ? stored : null;
+  },
+});
+
+export const generateUploadUrl = mutation({
+  args: {
+    projectId: v.id("projects"),
+    ownerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ensureProjectOwner(ctx, args.projectId, args.ownerId);
+    return await ctx.storage.generateUploadUrl();
   },
 });
 
@@ -18,19 +84,35 @@ export const create = mutation({
   args: {
     versionId: v.id("versions"),
     projectId: v.id("projects"),
-    format: v.union(
-      v.literal("stl"),
-      v.literal("3mf"),
-      v.literal("obj"),
-      v.literal("svg"),
-      v.literal("dxf")
-    ),
+    ownerId: v.string(),
+    format: exportFormat,
     fileName: v.string(),
     fileId: v.optional(v.id("_storage")),
     fileSizeBytes: v.optional(v.number()),
     resolution: v.optional(v.any()),
+    parameters: v.optional(v.any()),
+    exportKey: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.insert("exports", args);
+    await ensureProjectOwner(ctx, args.projectId, args.ownerId);
+    const version = await ctx.db.get(args.versionId);
+    if (!version || version.projectId !== args.projectId) {
+      throw new Error("Version not found");
+    }
+
+    // Two tabs can race past findExisting; keep the first file and drop the duplicate upload.
+    if (args.exportKey) {
+      const existing = await ctx.db
+        .query("exports")
+        .withIndex("by_version_key", (q) => q.eq("versionId", args.versionId).eq("exportKey", args.exportKey))
+        .first();
+      if (existing) {
+        if (args.fileId && args.fileId !== existing.fileId) await ctx.storage.delete(args.fileId);
+        return existing._id;
+      }
+    }
+
+    const { ownerId, ...row } = args;
+    return await ctx.db.insert("exports", row);
   },
 });
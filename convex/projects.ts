@@ -151,6 +151,24 @@ export const remove = mutation({
       await ctx.db.delete(exp._id);
     }
 
+    const assets = await ctx.db
+      .query("assets")
+      .withIndex("by_project", (q) => q.eq("projectId", args.id))
+      .collect();
+    for (const asset of assets) {
+      await ctx.storage.delete(asset.fileId);
+      await ctx.db.delete(asset._id);
+    }
+
+    const dependencies = await ctx.db
+      .query("dependencies")
+      .withIndex("by_project", (q) => q.eq("projectId", args.id))
+      .collect();
+    for (const dependency of dependencies) {
+      await ctx.storage.delete(dependency.fileId);
+      await ctx.db.delete(dependency._id);
+    }
+
     await ctx.db.delete(args.id);
   },
 });
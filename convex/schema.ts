@@ -20,6 +20,8 @@ export default defineSchema({
     parentVersionId: v.optional(v.id("versions")),
     versionNumber: v.number(),
     jscadCode: v.string(),
+    // Project files besides main.jscad (e.g. lib/fasteners.jscad), loaded with relative require().
+    files: v.optional(v.array(v.object({ path: v.string(), content: v.string() }))),
     prompt: v.optional(v.string()),
     source: v.union(v.literal("ai"), v.literal("manual"), v.literal("parameter-tweak")),
     parameters: v.optional(v.any()),
@@ -45,6 +47,14 @@ export default defineSchema({
     versionId: v.optional(v.id("versions")),
     toolCalls: v.optional(v.any()),
     toolResults: v.optional(v.any()),
+    usage: v.optional(
+      v.object({
+        promptTokens: v.number(),
+        completionTokens: v.number(),
+        reasoningTokens: v.number(),
+        cost: v.optional(v.number()),
+      })
+    ),
   })
     .index("by_project", ["projectId"]),
 
@@ -65,7 +75,8 @@ export default defineSchema({
       v.literal("queued"),
       v.literal("running"),
       v.literal("completed"),
-      v.literal("failed")
+      v.literal("failed"),
+      v.literal("cancelled")
     ),
     attempts: v.number(),
     error: v.optional(v.string()),
@@ -84,17 +95,83 @@ export default defineSchema({
     format: v.union(
       v.literal("stl"),
       v.literal("3mf"),
+      v.literal("amf"),
       v.literal("obj"),
+      v.literal("glb"),
       v.literal("svg"),
-      v.literal("dxf")
+      v.literal("dxf"),
+      v.literal("gif"),
+      v.literal("zip")
     ),
     fileName: v.string(),
     fileId: v.optional(v.id("_storage")),
     fileSizeBytes: v.optional(v.number()),
     resolution: v.optional(v.any()),
+    // Parameter values the file was generated with.
+    parameters: v.optional(v.any()),
+    // Hash of code, parameters, format and export options; equal keys mean an identical file.
+    exportKey: v.optional(v.string()),
+  })
+    .index("by_project", ["projectId"])
+    .index("by_version", ["versionId"])
+    .index("by_version_key", ["versionId", "exportKey"]),
+
+  // Uploaded meshes and 2D drawings, stored as parsed JSON and required from code as "./assets/<name>".
+  assets: defineTable({
+    projectId: v.id("projects"),
+    // Project-relative path, e.g. "assets/pcb.stl".
+    path: v.string(),
+    fileName: v.string(),
+    format: v.union(v.literal("stl"), v.literal("obj"), v.literal("3mf"), v.literal("svg"), v.literal("dxf")),
+    fileId: v.id("_storage"),
+    fileSizeBytes: v.optional(v.number()),
+    // Meshes only.
+    triangleCount: v.optional(v.number()),
+    // Drawings only: closed outlines and layer names.
+    outlineCount: v.optional(v.number()),
+    layers: v.optional(v.array(v.string())),
+    bounds: v.optional(v.any()),
   })
     .index("by_project", ["projectId"])
-    .index("by_version", ["versionId"]),
+    .index("by_project_path", ["projectId", "path"]),
+
+  // Dependency manifest: every remote or /jscad-libs module a project has loaded,
+  // pinned to a stored snapshot of its source.
+  dependencies: defineTable({
+    projectId: v.id("projects"),
+    // Remote URL or "/jscad-libs/..." path, as resolved by the evaluator.
+    moduleId: v.string(),
+    // SHA-256 of the source, hex.
+    hash: v.string(),
+    fileId: v.id("_storage"),
+    sizeBytes: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_project", ["projectId"])
+    .index("by_project_module", ["projectId", "moduleId"]),
+
+  // One row per owner, project and UTC month ("2026-10").
+  usageTotals: defineTable({
+    ownerId: v.string(),
+    // Unset for runs outside a saved project (the playground).
+    projectId: v.optional(v.id("projects")),
+    month: v.string(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    reasoningTokens: v.number(),
+    cost: v.number(),
+    prompts: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_owner_month", ["ownerId", "month"])
+    .index("by_project_month", ["projectId", "month"]),
+
+  usageBudgets: defineTable({
+    ownerId: v.string(),
+    monthlyLimitUsd: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_owner", ["ownerId"]),
 
   templates: defineTable({
     name: v.string(),
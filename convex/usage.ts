@@ -0,0 +1,204 @@
+import { v, type Infer } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { query, mutation, type MutationCtx, type QueryCtx } from "./_generated/server";
+
+export const tokenUsage = v.object({
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+  reasoningTokens: v.number(),
+  cost: v.optional(v.number()),
+});
+
+type TokenUsage = Infer<typeof tokenUsage>;
+
+/** Calendar month key (UTC) that usage totals and budgets are grouped by. */
+function currentMonth() {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function sumTotals(rows: Array<TokenUsage & { cost: number; prompts: number }>) {
+  return rows.reduce(
+    (total, row) => ({
+      promptTokens: total.promptTokens + row.promptTokens,
+      completionTokens: total.completionTokens + row.completionTokens,
+      reasoningTokens: total.reasoningTokens + row.reasoningTokens,
+      cost: total.cost + row.cost,
+      prompts: total.prompts + row.prompts,
+    }),
+    { promptTokens: 0, completionTokens: 0, reasoningTokens: 0, cost: 0, prompts: 0 }
+  );
+}
+
+async function getBudget(ctx: { db: QueryCtx["db"] }, ownerId: string) {
+  return await ctx.db
+    .query("usageBudgets")
+    .withIndex("by_owner", (q) => q.eq("ownerId", ownerId))
+    .first();
+}
+
+/** Adds one prompt's usage to the owner/project/month totals. */
+async function recordUsage(
+  ctx: { db: MutationCtx["db"] },
+  args: { ownerId: string; projectId?: Id<"projects">; usage: TokenUsage }
+) {
+  const month = currentMonth();
+  const existing = await ctx.db
+    .query("usageTotals")
+    .withIndex("by_owner_month", (q) => q.eq("ownerId", args.ownerId).eq("month", month))
+    .filter((q) => q.eq(q.field("projectId"), args.projectId))
+    .first();
+
+  const now = Date.now();
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      promptTokens: existing.promptTokens + args.usage.promptTokens,
+      completionTokens: existing.completionTokens + args.usage.completionTokens,
+      reasoningTokens: existing.reasoningTokens + args.usage.reasoningTokens,
+      cost: existing.cost + (args.usage.cost ?? 0),
+      prompts: existing.prompts + 1,
+      updatedAt: now,
+    });
+    return;
+  }
+
+  await ctx.db.insert("usageTotals", {
+    ownerId: args.ownerId,
+    projectId: args.projectId,
+    month,
+    promptTokens: args.usage.promptTokens,
+    completionTokens: args.usage.completionTokens,
+    reasoningTokens: args.usage.reasoningTokens,
+    cost: args.usage.cost ?? 0,
+    prompts: 1,
+    updatedAt: now,
+  });
+}
+
+// Usage is recorded by the codegen server, which measured it, never by the
+// browser: the server authenticates with the secret shared through the
+// CONVEX_SERVER_SECRET environment variable of both deployments.
+export const record = mutation({
+  args: {
+    serverSecret: v.string(),
+    ownerId: v.string(),
+    projectId: v.optional(v.id("projects")),
+    usage: tokenUsage,
+  },
+  handler: async (ctx, args) => {
+    const expected = process.env.CONVEX_SERVER_SECRET;
+    if (!expected || args.serverSecret !== expected) {
+      throw new Error("Unauthorized");
+    }
+    if (args.projectId) {
+      const project = await ctx.db.get(args.projectId);
+      if (!project || project.ownerId !== args.ownerId) {
+        throw new Error("Project not found");
+      }
+    }
+    await recordUsage(ctx, { ownerId: args.ownerId, projectId: args.projectId, usage: args.usage });
+  },
+});
+
+export const summary = query({
+  args: {
+    ownerId: v.string(),
+    month: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const month = args.month ?? currentMonth();
+    const rows = await ctx.db
+      .query("usageTotals")
+      .withIndex("by_owner_month", (q) => q.eq("ownerId", args.ownerId).eq("month", month))
+      .collect();
+
+    const projects = await Promise.all(
+      rows.map(async (row) => {
+        const project = row.projectId ? await ctx.db.get(row.projectId) : null;
+        return {
+          projectId: row.projectId,
+          name: row.projectId ? project?.name ?? "Deleted project" : "Playground",
+          ...sumTotals([row]),
+        };
+      })
+    );
+    projects.sort((a, b) => b.cost - a.cost || b.promptTokens - a.promptTokens);
+
+    const budget = await getBudget(ctx, args.ownerId);
+    return {
+      month,
+      total: sumTotals(rows),
+      projects,
+      monthlyLimitUsd: budget?.monthlyLimitUsd ?? null,
+    };
+  },
+});
+
+export const projectUsage = query({
+  args: {
+    projectId: v.id("projects"),
+    ownerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const project = await ctx.db.get(args.projectId);
+    if (!project || project.ownerId !== args.ownerId) {
+      return null;
+    }
+
+    const rows = await ctx.db
+      .query("usageTotals")
+      .withIndex("by_project_month", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const month = currentMonth();
+
+    return {
+      month: sumTotals(rows.filter((row) => row.month === month)),
+      allTime: sumTotals(rows),
+    };
+  },
+});
+
+export const budgetStatus = query({
+  args: { ownerId: v.string() },
+  handler: async (ctx, args) => {
+    const month = currentMonth();
+    const budget = await getBudget(ctx, args.ownerId);
+    if (!budget) {
+      return { month, spent: 0, limit: null };
+    }
+
+    const rows = await ctx.db
+      .query("usageTotals")
+      .withIndex("by_owner_month", (q) => q.eq("ownerId", args.ownerId).eq("month", month))
+      .collect();
+    return { month, spent: sumTotals(rows).cost, limit: budget.monthlyLimitUsd };
+  },
+});
+
+export const setBudget = mutation({
+  args: {
+    ownerId: v.string(),
+    // Omit to remove the limit.
+    monthlyLimitUsd: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await getBudget(ctx, args.ownerId);
+    if (args.monthlyLimitUsd === undefined) {
+      if (existing) await ctx.db.delete(existing._id);
+      return;
+    }
+    if (!Number.isFinite(args.monthlyLimitUsd) || args.monthlyLimitUsd < 0) {
+      throw new Error("Monthly limit must be a non-negative number");
+    }
+
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, { monthlyLimitUsd: args.monthlyLimitUsd, updatedAt: now });
+    } else {
+      await ctx.db.insert("usageBudgets", {
+        ownerId: args.ownerId,
+        monthlyLimitUsd: args.monthlyLimitUsd,
+        updatedAt: now,
+      });
+    }
+  },
+});
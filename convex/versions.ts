@@ -9,6 +9,8 @@ async function ensureProjectOwner(ctx: { db: any }, projectId: string, ownerId:
   return project;
 }
 
+const projectFiles = v.array(v.object({ path: v.string(), content: v.string() }));
+
 export const list = query({
   args: {
     projectId: v.id("projects"),
@@ -40,6 +42,7 @@ export const create = mutation({
     projectId: v.id("projects"),
     ownerId: v.string(),
     jscadCode: v.string(),
+    files: v.optional(projectFiles),
     prompt: v.optional(v.string()),
     source: v.union(v.literal("ai"), v.literal("manual"), v.literal("parameter-tweak")),
     parameters: v.optional(v.any()),
@@ -70,6 +73,7 @@ export const create = mutation({
       parentVersionId,
       versionNumber,
       jscadCode: args.jscadCode,
+      files: args.files,
       prompt: args.prompt,
       source: args.source,
       parameters: args.parameters,
@@ -113,6 +117,7 @@ export const saveDraft = mutation({
     id: v.id("versions"),
     ownerId: v.string(),
     jscadCode: v.string(),
+    files: v.optional(projectFiles),
   },
   handler: async (ctx, args) => {
     const version = await ctx.db.get(args.id);
@@ -125,11 +130,12 @@ export const saveDraft = mutation({
       throw new Error("Project not found");
     }
 
-    if (version.jscadCode === args.jscadCode) {
+    const files = args.files ?? version.files;
+    if (version.jscadCode === args.jscadCode && JSON.stringify(version.files) === JSON.stringify(files)) {
       return args.id;
     }
 
-    await ctx.db.patch(args.id, { jscadCode: args.jscadCode });
+    await ctx.db.patch(args.id, { jscadCode: args.jscadCode, files });
     return args.id;
   },
 });
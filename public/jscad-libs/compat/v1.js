@@ -1101,6 +1101,21 @@ const CAG = {
   },
 };
 
+// Attaches pitch features to a model built by a mechanics library. They are
+// copied along by later transforms (which only replace `transforms`), and the
+// worker maps them into world space relative to `frame`, the matrix they were
+// declared in.
+const withKinematics = (model, features, defaults) => {
+  if (!model || typeof model !== "object") return model;
+  const frame = model.transforms;
+  model.kinematics = {
+    features: [features],
+    defaults,
+    frame: frame && typeof frame.length === "number" ? Array.prototype.slice.call(frame) : undefined,
+  };
+  return model;
+};
+
 function CSG() {
   return wrap(geometries.geom3.create());
 }
@@ -1130,6 +1145,7 @@ const api = {
   booleans: booleansCompat,
   coord,
   linkage,
+  withKinematics,
 };
 
 // Helper to unwrap geometries before serialization (removes wrapper methods)
@@ -7,8 +7,14 @@ const modeling = jscadModeling;
 self.window = self;
 
 const remoteModuleCache = new Map();
+const assetCache = new Map();
 const evaluatingModules = new Set();
+// Verified snapshot sources by hash; snapshots are immutable, so each is fetched once.
+const pinnedSourceCache = new Map();
 let lastEvaluatedCode = null;
+// Per evaluation: the project's dependency lock and the unpinned modules fetched live.
+let activeDependencies = null;
+let liveModules = null;
 
 function isRemoteSpec(path) {
   return /^https?:\/\//i.test(path);
@@ -52,7 +58,7 @@ function sanitizeGeometry(value) {
 
   const clean = {};
   for (const key of Object.keys(value)) {
-    if (key === '__v1Wrapped') continue;
+    if (key === '__v1Wrapped' || key === 'kinematics') continue;
     const prop = value[key];
     if (typeof prop === 'function') continue;
     clean[key] = sanitizeGeometry(prop);
@@ -60,6 +66,91 @@ function sanitizeGeometry(value) {
   return clean;
 }
 
+// Mirrors transformFeature() in src/lib/kinematics/features.ts.
+function transformPoint(m, p) {
+  const w = m[3] * p[0] + m[7] * p[1] + m[11] * p[2] + m[15] || 1;
+  return [
+    (m[0] * p[0] + m[4] * p[1] + m[8] * p[2] + m[12]) / w,
+    (m[1] * p[0] + m[5] * p[1] + m[9] * p[2] + m[13]) / w,
+    (m[2] * p[0] + m[6] * p[1] + m[10] * p[2] + m[14]) / w,
+  ];
+}
+
+function transformDirection(m, d) {
+  const v = [
+    m[0] * d[0] + m[4] * d[1] + m[8] * d[2],
+    m[1] * d[0] + m[5] * d[1] + m[9] * d[2],
+    m[2] * d[0] + m[6] * d[1] + m[10] * d[2],
+  ];
+  const length = Math.hypot(v[0], v[1], v[2]) || 1;
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+function transformFeature(feature, m) {
+  if (feature.type === 'pitch_circle') {
+    const { center, axis, radius } = feature.pitchCircle;
+    const origin = transformPoint(m, center);
+    const radial = Math.abs(axis[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+    const dot = radial[0] * axis[0] + radial[1] * axis[1] + radial[2] * axis[2];
+    const inPlane = [radial[0] - dot * axis[0], radial[1] - dot * axis[1], radial[2] - dot * axis[2]];
+    const unit = Math.hypot(inPlane[0], inPlane[1], inPlane[2]);
+    const moved = transformPoint(m, [
+      center[0] + inPlane[0] / unit,
+      center[1] + inPlane[1] / unit,
+      center[2] + inPlane[2] / unit,
+    ]);
+    const scale = Math.hypot(moved[0] - origin[0], moved[1] - origin[1], moved[2] - origin[2]);
+    return {
+      ...feature,
+      pitchCircle: {
+        center: origin,
+        axis: transformDirection(m, axis),
+        radius: radius * scale,
+        diameter: 2 * radius * scale,
+      },
+    };
+  }
+  if (feature.type === 'pitch_line') {
+    const { point, direction, normal } = feature.pitchLine;
+    return {
+      ...feature,
+      pitchLine: {
+        point: transformPoint(m, point),
+        direction: transformDirection(m, direction),
+        normal: transformDirection(m, normal),
+      },
+    };
+  }
+  return feature;
+}
+
+// Pitch features attached by the mechanics libraries (see withKinematics() in
+// gears.jscad/racks.jscad), moved by every transform applied since they were
+// declared. Must run before canonicalizeGeometry() bakes the transforms.
+function collectLibraryFeatures(geometries) {
+  const mat4 = modeling?.maths?.mat4;
+  const features = [];
+  geometries.forEach((geometry, partIndex) => {
+    const kinematics = geometry && geometry.kinematics;
+    if (!kinematics || !Array.isArray(kinematics.features)) return;
+    let placement = null;
+    try {
+      if (mat4 && geometry.transforms && kinematics.frame) {
+        const inverseFrame = mat4.invert(mat4.create(), kinematics.frame);
+        placement = mat4.multiply(mat4.create(), geometry.transforms, inverseFrame);
+      }
+    } catch (_) {
+      placement = null;
+    }
+    for (const feature of kinematics.features) {
+      if (!feature || typeof feature !== 'object') continue;
+      const placed = placement ? transformFeature(feature, placement) : feature;
+      features.push({ ...sanitizeGeometry(placed), source: placed.source || 'metadata', partIndex });
+    }
+  });
+  return features;
+}
+
 function canonicalizeGeometry(geometry) {
   if (!geometry || typeof geometry !== 'object') return geometry;
 
@@ -108,6 +199,44 @@ function readSourceSync(url, cacheHints) {
   throw new Error('Failed to load module ' + url + ' (status ' + xhr.status + ')');
 }
 
+// Manifest id of a module: "/jscad-libs/..." for the app's libraries, the URL otherwise.
+function dependencyId(normalized) {
+  const localPrefix = self.location.origin + '/jscad-libs/';
+  return normalized.startsWith(localPrefix) ? normalized.slice(self.location.origin.length) : normalized;
+}
+
+function recordLiveModule(id, source) {
+  if (liveModules) liveModules.set(id, source);
+}
+
+// Mirrors hashSource() and loadPinnedSource() in src/lib/dependencies.ts.
+async function hashSource(source) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function loadPinnedSources(dependencies) {
+  for (const [id, pin] of Object.entries(dependencies)) {
+    if (pinnedSourceCache.has(pin.hash)) continue;
+    if (!pin.url) {
+      throw new Error('The pinned snapshot of ' + id + ' is missing. Run "Update dependencies" to re-pin it.');
+    }
+    const response = await fetch(pin.url);
+    if (!response.ok) {
+      throw new Error('Failed to load the pinned snapshot of ' + id + ' (' + response.status + ')');
+    }
+    const source = await response.text();
+    const hash = await hashSource(source);
+    if (hash !== pin.hash) {
+      throw new Error(
+        'Dependency ' + id + ' does not match the project manifest (pinned sha256 ' + pin.hash.slice(0, 12) +
+          ', snapshot ' + hash.slice(0, 12) + '). Run "Update dependencies" to re-pin it.'
+      );
+    }
+    pinnedSourceCache.set(pin.hash, source);
+  }
+}
+
 function executeExternalModule(path, parentUrl) {
   const normalized = normalizeSpec(path, parentUrl);
   const cached = remoteModuleCache.get(normalized);
@@ -115,15 +244,27 @@ function executeExternalModule(path, parentUrl) {
     throw new Error('Circular external module reference: ' + normalized);
   }
 
-  const response = readSourceSync(normalized, cached);
-  if (response.status === 304) {
-    if (!cached) {
-      throw new Error('Received 304 for uncached module ' + normalized);
+  const id = dependencyId(normalized);
+  const pin = activeDependencies && activeDependencies[id];
+  let response;
+  if (pin) {
+    if (cached && cached.hash === pin.hash) return cached.exports;
+    response = { source: pinnedSourceCache.get(pin.hash) };
+  } else {
+    // Exports evaluated from a snapshot are never revalidated against the live URL.
+    const liveCached = cached && !cached.hash ? cached : undefined;
+    response = readSourceSync(normalized, liveCached);
+    if (response.status === 304) {
+      if (!liveCached) {
+        throw new Error('Received 304 for uncached module ' + normalized);
+      }
+      recordLiveModule(id, liveCached.source);
+      return liveCached.exports;
     }
-    return cached.exports;
+    recordLiveModule(id, response.source);
   }
 
-  const externalModule = { exports: {} };
+  const externalModule = { exports: {}, hash: pin ? pin.hash : undefined, source: response.source };
   remoteModuleCache.set(normalized, externalModule);
   evaluatingModules.add(normalized);
 
@@ -162,6 +303,120 @@ function executeExternalModule(path, parentUrl) {
   }
 }
 
+function parseAssetSpec(spec) {
+  if (typeof spec !== 'string') return null;
+  const relative = spec.startsWith('./') ? spec.slice(2) : spec;
+  if (!relative.startsWith('assets/')) return null;
+  const hash = relative.indexOf('#');
+  if (hash === -1) return { path: relative };
+  return { path: relative.slice(0, hash), layer: decodeURIComponent(relative.slice(hash + 1)) };
+}
+
+// Project file resolution mirrors src/lib/project-files.ts.
+function resolveProjectPath(fromPath, spec) {
+  const hash = spec.indexOf('#');
+  const target = hash === -1 ? spec : spec.slice(0, hash);
+  const segments = fromPath.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) throw new Error('Module path escapes the project: ' + spec);
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/') + (hash === -1 ? '' : spec.slice(hash));
+}
+
+function findProjectModule(files, path) {
+  const candidates = [path, path + '.jscad', path + '.js', path + '/index.jscad', path + '/index.js'];
+  return candidates.find((candidate) => Object.prototype.hasOwnProperty.call(files, candidate));
+}
+
+function loadAssetData(path, assets) {
+  const url = assets && assets[path];
+  if (!url) {
+    throw new Error('Unknown asset: ./' + path + '. Upload it to the project before requiring it.');
+  }
+
+  let data = assetCache.get(url);
+  if (!data) {
+    // No custom headers: storage URLs are cross-origin and must not need a preflight.
+    const xhr = new XMLHttpRequest();
+    xhr.open('GET', url, false);
+    xhr.send(null);
+    if (xhr.status < 200 || xhr.status >= 300) {
+      throw new Error('Failed to load asset ./' + path + ' (status ' + xhr.status + ')');
+    }
+    data = { value: JSON.parse(xhr.responseText), geometries: new Map() };
+    assetCache.set(url, data);
+  }
+  return data;
+}
+
+// Meshes become geom3 solids (see src/lib/mesh-import.ts).
+function meshGeometry(mesh) {
+  const point = (index) => mesh.positions.slice(index * 3, index * 3 + 3);
+  const polygons = [];
+  for (let i = 0; i < mesh.triangles.length; i += 3) {
+    polygons.push([point(mesh.triangles[i]), point(mesh.triangles[i + 1]), point(mesh.triangles[i + 2])]);
+  }
+  return modeling.geometries.geom3.fromPoints(polygons);
+}
+
+// Drawings become geom2 shapes, holes wound by the even-odd rule (see outlineLoops in src/lib/outline-import.ts).
+function outlineGeometry(outlines, layer) {
+  const selected = layer === undefined ? outlines.layers : outlines.layers.filter((entry) => entry.name === layer);
+  if (selected.length === 0) {
+    throw new Error('Unknown layer "' + layer + '". Layers: ' + outlines.layers.map((entry) => entry.name).join(', '));
+  }
+  const loops = [];
+  for (const entry of selected) {
+    for (const outline of entry.outlines) {
+      if (outline.closed && outline.points.length > 2) loops.push(outline.points);
+    }
+  }
+  if (loops.length === 0) throw new Error('Drawing has no closed outlines to build a 2D shape from');
+
+  const signedArea = (points) => {
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+      const next = points[(i + 1) % points.length];
+      area += points[i][0] * next[1] - next[0] * points[i][1];
+    }
+    return area / 2;
+  };
+  const contains = (points, [x, y]) => {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const [xi, yi] = points[i];
+      const [xj, yj] = points[j];
+      if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+  };
+
+  const sides = [];
+  loops.forEach((points, index) => {
+    const depth = loops.filter((other, j) => j !== index && contains(other, points[0])).length;
+    const oriented = (signedArea(points) > 0) === (depth % 2 === 0) ? points : points.slice().reverse();
+    oriented.forEach((point, i) => sides.push([point, oriented[(i + 1) % oriented.length]]));
+  });
+  return modeling.geometries.geom2.create(sides);
+}
+
+function loadAsset(asset, assets) {
+  const data = loadAssetData(asset.path, assets);
+  const key = asset.layer === undefined ? '' : '#' + asset.layer;
+  let geometry = data.geometries.get(key);
+  if (!geometry) {
+    geometry = data.value.layers ? outlineGeometry(data.value, asset.layer) : meshGeometry(data.value);
+    data.geometries.set(key, geometry);
+  }
+  return geometry;
+}
+
 function invalidateLocalModuleCache() {
   for (const key of Array.from(remoteModuleCache.keys())) {
     if (typeof key === 'string' && key.startsWith(self.location.origin + '/jscad-libs/')) {
@@ -175,40 +430,91 @@ console.log('[JSCAD Worker] JSCAD loaded');
 // Signal ready
 self.postMessage({ type: 'ready' });
 
+// Evaluations run one at a time: loading pinned snapshots awaits, and the
+// module state above belongs to the evaluation in progress.
+let messageQueue = Promise.resolve();
 self.onmessage = function(e) {
-  const { type, code, parameters } = e.data;
+  messageQueue = messageQueue.then(() => handleMessage(e.data));
+};
+
+async function handleMessage(data) {
+  const { type, id, code, parameters, assets, files, dependencies } = data;
   
   if (type === 'evaluate') {
     try {
+      activeDependencies = dependencies || null;
+      liveModules = dependencies ? new Map() : null;
+      if (dependencies) await loadPinnedSources(dependencies);
+
       if (code !== lastEvaluatedCode) {
         invalidateLocalModuleCache();
         lastEvaluatedCode = code;
       }
 
-      // Main-file require/include implementation
-      const require = function(path) {
-        if (path === '@jscad/modeling') return modeling;
-        if (path.startsWith('@jscad/modeling/')) {
-          const subpath = path.replace('@jscad/modeling/', '');
-          const parts = subpath.split('/');
-          let result = modeling;
-          for (const part of parts) result = result?.[part];
-          return result;
+      const projectFiles = files || {};
+      const projectModules = new Map();
+      const evaluatingProjectModules = new Set();
+
+      const executeProjectModule = function(fromPath, spec) {
+        const target = resolveProjectPath(fromPath, spec);
+        const filePath = findProjectModule(projectFiles, target);
+        if (filePath === undefined) {
+          throw new Error('Unknown module: ' + spec + ' (no project file ' + target + '.jscad)');
         }
-        if (isRemoteSpec(path) || isLocalSpec(path)) {
-          return executeExternalModule(path);
+        if (evaluatingProjectModules.has(filePath)) {
+          throw new Error('Circular project module reference: ' + filePath);
+        }
+        const cached = projectModules.get(filePath);
+        if (cached) return cached.exports;
+
+        const projectModule = { exports: {} };
+        projectModules.set(filePath, projectModule);
+        evaluatingProjectModules.add(filePath);
+        try {
+          const scope = createProjectScope(filePath);
+          const fn = new Function('require', 'module', 'exports', 'include', 'window', projectFiles[filePath] + '\n//# sourceURL=' + filePath);
+          fn(scope.require, projectModule, projectModule.exports, scope.include, self.window);
+          return projectModule.exports;
+        } finally {
+          evaluatingProjectModules.delete(filePath);
         }
-        throw new Error('Unknown module: ' + path);
       };
 
-      const include = function(path) {
-        if (!path) return;
-        if (isRemoteSpec(path) || isLocalSpec(path)) {
-          executeExternalModule(path);
-          return;
-        }
-        throw new Error('include() requires a remote URL or /jscad-libs path: ' + path);
+      // require/include for main.jscad and the project's other files
+      const createProjectScope = function(fromPath) {
+        return {
+          require: function(path) {
+            if (path === '@jscad/modeling') return modeling;
+            if (path.startsWith('@jscad/modeling/')) {
+              const subpath = path.replace('@jscad/modeling/', '');
+              const parts = subpath.split('/');
+              let result = modeling;
+              for (const part of parts) result = result?.[part];
+              return result;
+            }
+            if (isRemoteSpec(path) || isLocalSpec(path)) {
+              return executeExternalModule(path);
+            }
+            const asset = parseAssetSpec(isRelativeSpec(path) ? resolveProjectPath(fromPath, path) : path);
+            if (asset) return loadAsset(asset, assets);
+            if (isRelativeSpec(path)) return executeProjectModule(fromPath, path);
+            throw new Error('Unknown module: ' + path);
+          },
+          include: function(path) {
+            if (!path) return;
+            if (isRemoteSpec(path) || isLocalSpec(path)) {
+              executeExternalModule(path);
+              return;
+            }
+            if (isRelativeSpec(path)) {
+              executeProjectModule(fromPath, path);
+              return;
+            }
+            throw new Error('include() requires a remote URL, /jscad-libs path or project file: ' + path);
+          },
+        };
       };
+      const { require, include } = createProjectScope('main.jscad');
 
       // Create module context
       const module = { exports: {} };
@@ -246,17 +552,28 @@ self.onmessage = function(e) {
       if (invalidIndex !== -1) {
         throw new Error('main() array contains an invalid geometry at index ' + invalidIndex + '.');
       }
+      const features = collectLibraryFeatures(geometries);
       const canonicalGeometries = geometries.map(canonicalizeGeometry);
       const sanitizedGeometries = sanitizeGeometry(canonicalGeometries);
+      const modules = liveModules
+        ? await Promise.all(
+            Array.from(liveModules, async ([id, source]) => ({ id, hash: await hashSource(source), source }))
+          )
+        : undefined;
       
+      // Responses echo the request id so the pool can drop answers it no longer waits for.
       self.postMessage({ 
         type: 'result', 
+        id,
         geometries: sanitizedGeometries, 
+        features,
+        modules,
         metadata: { polygonCount: geometries.length } 
       });
     } catch (error) {
       self.postMessage({
         type: 'error',
+        id,
         error: {
           message: error.message || String(error),
           stack: error.stack,
@@ -264,4 +581,4 @@ self.onmessage = function(e) {
       });
     }
   }
-};
+}
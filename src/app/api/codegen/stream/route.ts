@@ -1,3 +1,4 @@
+import { auth } from "@clerk/nextjs/server";
 import { generateInputSchema, runCodegen, type GenerateStreamEvent } from "@/server/routers/codegen";
 
 function toSse(event: GenerateStreamEvent) {
@@ -15,24 +16,39 @@ export async function POST(req: Request) {
       );
     }
 
+    const { userId } = await auth();
+
+    // Stop the agent when the client disconnects or stops reading.
+    const streamAbort = new AbortController();
+    const signal = AbortSignal.any([req.signal, streamAbort.signal]);
+    let closed = false;
+
     const stream = new ReadableStream({
       start(controller) {
         const encoder = new TextEncoder();
 
         const send = async (event: GenerateStreamEvent) => {
+          if (closed) return;
           controller.enqueue(encoder.encode(toSse(event)));
         };
 
-        void runCodegen(parsed.data, send)
+        void runCodegen(parsed.data, send, { signal, ownerId: userId })
           .catch((error: unknown) => {
+            if (closed) return;
             const message = error instanceof Error ? error.message : "Unknown streaming error";
             const payload = { type: "error", message };
             controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
           })
           .finally(() => {
+            if (closed) return;
+            closed = true;
             controller.close();
           });
       },
+      cancel() {
+        closed = true;
+        streamAbort.abort();
+      },
     });
 
     return new Response(stream, {
@@ -5,18 +5,36 @@ import { useRouter, usePathname, useSearchParams } from "next/navigation";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
 import { useQuery, useMutation } from "convex/react";
-import { ArrowLeft, Play, Pause, Settings, Download, History, MessageSquare, Code, BarChart3, Box, Camera, RotateCcw, SlidersHorizontal } from "lucide-react";
+import { ArrowLeft, Play, Pause, Settings, Download, History, MessageSquare, Code, BarChart3, Box, Camera, RotateCcw, SlidersHorizontal, Package } from "lucide-react";
 import { ChatPanel, type ChatPanelHandle } from "@/components/chat-panel";
 import { CodeEditor, type CodeEditorHandle } from "@/components/code-editor";
 import { Viewport3D, type Viewport3DHandle } from "@/components/viewport-3d";
 import { ParameterSliders, type ParameterSlidersHandle } from "@/components/parameter-sliders";
+import { AnimationTimeline } from "@/components/animation-timeline";
 import { VersionHistory } from "@/components/version-history";
+import { ProjectAssetsPanel } from "@/components/project-assets";
+import { ProjectDependenciesPanel } from "@/components/project-dependencies";
+import { ProjectFileTree } from "@/components/project-files";
 import { ExportDialog } from "@/components/export-dialog";
 import { SettingsDialog } from "@/components/settings-dialog";
 import { GeometryInfo } from "@/components/geometry-info";
 import { KeyboardShortcutsDialog } from "@/components/keyboard-shortcuts-dialog";
 import { extractParameters, type ExtractedParameter } from "@/lib/parameter-extractor";
-import { useJscadWorker, type JscadExecutionError } from "@/lib/jscad-worker";
+import {
+  animatableParameters,
+  createFrameCache,
+  PROGRESS_PARAM_NAME,
+  timeForValue,
+  type FrameValues,
+} from "@/lib/animation-timeline";
+import { collisionsAt } from "@/lib/collision-sweep";
+import { useAnimationTimeline } from "@/lib/use-animation-timeline";
+import { useCollisionSweep } from "@/lib/use-collision-sweep";
+import { useExportHistory } from "@/lib/use-export-history";
+import { useProjectAssets } from "@/lib/use-project-assets";
+import { useProjectDependencies } from "@/lib/use-project-dependencies";
+import { setProjectFiles, useJscadWorker, type JscadExecutionError } from "@/lib/jscad-worker";
+import { entriesToFiles, filesToEntries, MAIN_FILE, type ProjectFileEntry, type ProjectFiles } from "@/lib/project-files";
 import { useKeyboardShortcuts, type KeyboardShortcut } from "@/lib/use-keyboard-shortcuts";
 import { useUndoRedo } from "@/lib/use-undo-redo";
 import { useAuth } from "@/lib/auth-client";
@@ -80,14 +98,6 @@ function main(params) {
 module.exports = { main, getParameterDefinitions }
 `;
 
-const PROGRESS_PARAM_NAME = "progress";
-const PROGRESS_ANIMATION_DURATION_MS = 2000;
-const PROGRESS_ANIMATION_FPS = 30;
-const PROGRESS_ANIMATION_STEPS = Math.max(
-  1,
-  Math.round((PROGRESS_ANIMATION_DURATION_MS / 1000) * PROGRESS_ANIMATION_FPS)
-);
-
 const LEGACY_LINKAGE_TEMPLATE_SNIPPET =
   "{ initial: coord(10, 0, 0, 0, 0, 0), final: coord(10, 0, 0, 0, 0, 18) }";
 
@@ -179,7 +189,6 @@ export default function ProjectPage({ id }: ProjectPageProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [isManualRunPending, setIsManualRunPending] = useState(false);
   const [isSnapshotting, setIsSnapshotting] = useState(false);
-  const [isProgressAnimating, setIsProgressAnimating] = useState(false);
   
   // Undo/redo for code editor
   const {
@@ -191,9 +200,13 @@ export default function ProjectPage({ id }: ProjectPageProps) {
     canRedo,
     reset: resetCode,
   } = useUndoRedo<string>("", 50);
+  // Files besides main.jscad; each keeps its own undo stack in the editor.
+  const [files, setFiles] = useState<ProjectFiles>({});
+  const [activeFile, setActiveFile] = useState(MAIN_FILE);
   
   const [showChat, setShowChat] = useState(!isPlaygroundProject);
   const [showVersions, setShowVersions] = useState(false);
+  const [showAssets, setShowAssets] = useState(false);
   const [showExport, setShowExport] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showGeometryInfo, setShowGeometryInfo] = useState(false);
@@ -217,6 +230,7 @@ export default function ProjectPage({ id }: ProjectPageProps) {
   const autosaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const executionTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastPersistedCodeRef = useRef("");
+  const lastPersistedFilesRef = useRef<ProjectFiles>({});
   const hasLoadedInitialCodeRef = useRef(false);
   const layoutRef = useRef<HTMLDivElement>(null);
   const resizeRef = useRef<{
@@ -239,9 +253,9 @@ export default function ProjectPage({ id }: ProjectPageProps) {
   const hasAutoCompactedInitialLayoutRef = useRef(false);
   const latestCodeRef = useRef(code);
   const latestParametersRef = useRef(parameters);
-  const isExecutingRef = useRef(false);
-  const hasQueuedExecutionRef = useRef(false);
-  const isProgressAnimatingRef = useRef(false);
+  const previewRunRef = useRef(0);
+  const isTimelinePlayingRef = useRef(false);
+  const frameCacheRef = useRef(createFrameCache<unknown[]>());
 
   const { execute } = useJscadWorker();
   const geometryCount = geometry.length;
@@ -268,8 +282,11 @@ export default function ProjectPage({ id }: ProjectPageProps) {
       return;
     }
     if (project && project.currentVersion?.jscadCode) {
+      const initialFiles = entriesToFiles(project.currentVersion.files);
       resetCode(project.currentVersion.jscadCode);
+      setFiles(initialFiles);
       lastPersistedCodeRef.current = project.currentVersion.jscadCode;
+      lastPersistedFilesRef.current = initialFiles;
       hasLoadedInitialCodeRef.current = true;
     }
   }, [isPlaygroundProject, project, resetCode]);
@@ -325,8 +342,8 @@ export default function ProjectPage({ id }: ProjectPageProps) {
   }, [parameters]);
 
   useEffect(() => {
-    isProgressAnimatingRef.current = isProgressAnimating;
-  }, [isProgressAnimating]);
+    frameCacheRef.current.clear();
+  }, [code]);
 
   useEffect(() => {
     return () => {
@@ -353,28 +370,44 @@ export default function ProjectPage({ id }: ProjectPageProps) {
     }
   }, [code]);
 
+  const projectDependencies = useProjectDependencies({ projectId, ownerId: userId });
+  const recordModules = projectDependencies?.record;
+  const dependencyLock = projectDependencies?.lock;
+
+  // Each run supersedes the one in flight (the worker pool cancels it), so
+  // only the latest run updates the preview.
   const executeCode = useCallback(async () => {
     if (!latestCodeRef.current) return;
+    const runId = ++previewRunRef.current;
 
-    if (isExecutingRef.current) {
-      hasQueuedExecutionRef.current = true;
+    const frameParameters = latestParametersRef.current;
+    const cachedFrame = frameCacheRef.current.get(frameParameters);
+    if (cachedFrame) {
+      setError(null);
+      setGeometry(cachedFrame);
+      setIsGenerating(false);
       return;
     }
 
-    isExecutingRef.current = true;
     setIsGenerating(true);
     setError(null);
 
     try {
-      const result = await execute(latestCodeRef.current, latestParametersRef.current);
+      const result = await execute(latestCodeRef.current, frameParameters);
+      if (result.cancelled || runId !== previewRunRef.current) return;
 
       if (result.error) {
         setError(result.error);
         setGeometry([]);
       } else if (result.geometry) {
         setGeometry(result.geometry);
+        if (isTimelinePlayingRef.current) {
+          frameCacheRef.current.set(frameParameters, result.geometry);
+        }
+        void recordModules?.(result.modules);
       }
     } catch (err) {
+      if (runId !== previewRunRef.current) return;
       setError(
         err instanceof Error
           ? { message: err.message, stack: err.stack }
@@ -382,32 +415,9 @@ export default function ProjectPage({ id }: ProjectPageProps) {
       );
       setGeometry([]);
     } finally {
-      isExecutingRef.current = false;
-      setIsGenerating(false);
-      if (isProgressAnimatingRef.current) {
-        const currentProgress = Number(latestParametersRef.current[PROGRESS_PARAM_NAME] ?? 0);
-        const progressStep = 1 / PROGRESS_ANIMATION_STEPS;
-        const nextProgress = Math.min(currentProgress + progressStep, 1);
-
-        if (nextProgress >= 1) {
-          setParameters((prev) => ({
-            ...prev,
-            [PROGRESS_PARAM_NAME]: 1,
-          }));
-          setIsProgressAnimating(false);
-        } else {
-          setParameters((prev) => ({
-            ...prev,
-            [PROGRESS_PARAM_NAME]: nextProgress,
-          }));
-        }
-      }
-      if (hasQueuedExecutionRef.current) {
-        hasQueuedExecutionRef.current = false;
-        void executeCode();
-      }
+      if (runId === previewRunRef.current) setIsGenerating(false);
     }
-  }, [execute]);
+  }, [execute, recordModules]);
 
   const scheduleExecution = useCallback((delayMs: number) => {
     if (executionTimeoutRef.current) {
@@ -419,9 +429,78 @@ export default function ProjectPage({ id }: ProjectPageProps) {
     }, delayMs);
   }, [executeCode]);
 
+  const handleTimelineFrame = useCallback((values: FrameValues) => {
+    setParameters((prev) => ({ ...prev, ...values }));
+  }, []);
+
+  // Evaluates timeline frames into the frame cache as background jobs, so
+  // interactive runs preempt them; aborting stops the frame in flight.
+  const prepareTimelineFrames = useCallback(async (
+    frames: FrameValues[],
+    signal: AbortSignal,
+    onProgress: (done: number) => void
+  ) => {
+    const frameCode = latestCodeRef.current;
+    if (!frameCode) return;
+
+    try {
+      for (const [index, frame] of frames.entries()) {
+        if (signal.aborted || latestCodeRef.current !== frameCode) return;
+        const frameParameters = { ...latestParametersRef.current, ...frame };
+        if (!frameCacheRef.current.has(frameParameters)) {
+          const result = await execute(frameCode, frameParameters, { priority: "background", signal });
+          // Errors surface through the regular run once playback reaches the frame.
+          if (result.error || !result.geometry) return;
+          if (latestCodeRef.current !== frameCode) return;
+          frameCacheRef.current.set(frameParameters, result.geometry);
+        }
+        onProgress(index + 1);
+      }
+    } catch (err) {
+      console.error("Failed to prepare animation frames:", err);
+    }
+  }, [execute]);
+
+  const timeline = useAnimationTimeline({
+    parameters: parameterDefs,
+    values: parameters,
+    onFrame: handleTimelineFrame,
+    prepareFrames: prepareTimelineFrames,
+  });
+  const isTimelinePlaying = timeline.isPlaying;
+
+  const collisionSweep = useCollisionSweep({ code, parameters, parameterDefs });
+  const progressValue = Number(parameters[PROGRESS_PARAM_NAME]);
+  const collisionFrames = collisionSweep.isStale ? undefined : collisionSweep.result?.frames;
+  const collidingPartsKey = collisionFrames
+    ? [...new Set(collisionsAt(collisionFrames, progressValue).flatMap((collision) => collision.parts))].join(",")
+    : "";
+  const collidingParts = useMemo(
+    () => (collidingPartsKey ? collidingPartsKey.split(",").map(Number) : undefined),
+    [collidingPartsKey]
+  );
+
+  // Seeks the timeline when the progress track reaches the value, so the
+  // other keyframed params follow; otherwise sets `progress` directly.
+  const handleJumpToProgress = useCallback(
+    (progress: number) => {
+      timeline.pause();
+      const track = timeline.tracks.find((candidate) => candidate.param === PROGRESS_PARAM_NAME);
+      const time = track ? timeForValue(track, progress) : null;
+      if (time !== null) timeline.seek(time);
+      else setParameters((prev) => ({ ...prev, [PROGRESS_PARAM_NAME]: progress }));
+    },
+    [timeline]
+  );
+  const pauseTimeline = timeline.pause;
+
+  useEffect(() => {
+    isTimelinePlayingRef.current = isTimelinePlaying;
+  }, [isTimelinePlaying]);
+
   useEffect(() => {
-    scheduleExecution(isProgressAnimating ? 0 : 500);
-  }, [code, parameters, isProgressAnimating, scheduleExecution]);
+    scheduleExecution(isTimelinePlaying ? 0 : 500);
+  }, [code, parameters, isTimelinePlaying, scheduleExecution]);
 
   const getActiveVersionId = useCallback(() => {
     if (currentVersionId) return currentVersionId as Id<"versions">;
@@ -429,11 +508,45 @@ export default function ProjectPage({ id }: ProjectPageProps) {
     return null;
   }, [currentVersionId, project]);
 
+  const projectAssets = useProjectAssets({ projectId, ownerId: userId });
+  const assetUrls = projectAssets?.urls;
+  const exportHistory = useExportHistory({
+    projectId,
+    versionId: getActiveVersionId(),
+    ownerId: userId,
+    code,
+    files,
+    assets: assetUrls,
+    dependencies: projectDependencies?.lock,
+    parameters,
+  });
+
+  // Module edits change the model without changing main's code.
+  useEffect(() => {
+    setProjectFiles(files);
+    frameCacheRef.current.clear();
+    scheduleExecution(500);
+  }, [files, scheduleExecution]);
+
+  useEffect(() => () => setProjectFiles({}), []);
+
+  // A new or replaced mesh, or a moved dependency pin, changes the model without changing its code.
+  useEffect(() => {
+    if (!assetUrls) return;
+    frameCacheRef.current.clear();
+    scheduleExecution(0);
+  }, [assetUrls, dependencyLock, scheduleExecution]);
+
+  const versionNumbers = useMemo(
+    () => Object.fromEntries((versions ?? []).map((version) => [version._id, version.versionNumber])),
+    [versions]
+  );
+
   const autosaveDraft = useCallback(async () => {
     if (isPlaygroundProject) return;
     if (!code || !userId) return;
 
-    if (code === lastPersistedCodeRef.current) {
+    if (code === lastPersistedCodeRef.current && files === lastPersistedFilesRef.current) {
       return;
     }
 
@@ -446,13 +559,15 @@ export default function ProjectPage({ id }: ProjectPageProps) {
       await saveDraft({
         id: activeVersionId,
         jscadCode: code,
+        files: filesToEntries(files),
         ownerId: userId,
       });
       lastPersistedCodeRef.current = code;
+      lastPersistedFilesRef.current = files;
     } catch (err) {
       console.error("Failed to autosave draft:", err);
     }
-  }, [code, getActiveVersionId, isPlaygroundProject, saveDraft, userId]);
+  }, [code, files, getActiveVersionId, isPlaygroundProject, saveDraft, userId]);
 
   const scheduleAutosaveDraft = useCallback((delayMs: number) => {
     if (autosaveTimeoutRef.current) {
@@ -468,15 +583,19 @@ export default function ProjectPage({ id }: ProjectPageProps) {
     if (isPlaygroundProject) return;
     if (!hasLoadedInitialCodeRef.current || !code || !userId) return;
     if (!getActiveVersionId()) return;
-    if (code === lastPersistedCodeRef.current) return;
+    if (code === lastPersistedCodeRef.current && files === lastPersistedFilesRef.current) return;
 
     scheduleAutosaveDraft(1000);
-  }, [code, getActiveVersionId, isPlaygroundProject, scheduleAutosaveDraft, userId]);
+  }, [code, files, getActiveVersionId, isPlaygroundProject, scheduleAutosaveDraft, userId]);
 
-  const handleLoadVersion = useCallback((versionCode: string, versionId: string) => {
+  const handleLoadVersion = useCallback((versionCode: string, versionId: string, versionFiles?: ProjectFileEntry[]) => {
+    const nextFiles = entriesToFiles(versionFiles);
     setCode(versionCode);
+    setFiles(nextFiles);
+    setActiveFile((current) => (current in nextFiles ? current : MAIN_FILE));
     setCurrentVersionId(versionId);
     lastPersistedCodeRef.current = versionCode;
+    lastPersistedFilesRef.current = nextFiles;
   }, [setCode]);
 
   const handleSelectVersion = useCallback((offset: number) => {
@@ -495,49 +614,75 @@ export default function ProjectPage({ id }: ProjectPageProps) {
     
     if (newIndex >= 0 && newIndex < versions.length) {
       const v = versions[newIndex];
-      handleLoadVersion(v.jscadCode, v._id);
+      handleLoadVersion(v.jscadCode, v._id, v.files);
     }
   }, [versions, currentVersionId, handleLoadVersion]);
 
   const handleParameterChange = (name: string, value: number | boolean | string) => {
-    if (name === PROGRESS_PARAM_NAME && isProgressAnimating) {
-      setIsProgressAnimating(false);
+    if (isTimelinePlaying && timeline.tracks.some((track) => track.param === name)) {
+      pauseTimeline();
     }
     setParameters((prev) => ({ ...prev, [name]: value }));
   };
 
   const handleResetParameters = useCallback(() => {
-    setIsProgressAnimating(false);
+    pauseTimeline();
     const defaults: ParameterValues = {};
     parameterDefs.forEach((def) => {
       defaults[def.name] = (def.initial ?? def.value) as number | boolean | string;
     });
     setParameters(defaults);
-  }, [parameterDefs]);
+  }, [parameterDefs, pauseTimeline]);
 
   const handleResetParameter = useCallback((name: string) => {
     const def = parameterDefs.find((d) => d.name === name);
     if (def) {
-      if (name === PROGRESS_PARAM_NAME) {
-        setIsProgressAnimating(false);
-      }
+      pauseTimeline();
       setParameters((prev) => ({
         ...prev,
         [name]: (def.initial ?? def.value) as number | boolean | string,
       }));
     }
-  }, [parameterDefs]);
+  }, [parameterDefs, pauseTimeline]);
 
   const handleCodeChange = (newCode: string) => {
     if (newCode.trim() === "" && code.trim() !== "") {
       return;
     }
-    if (isProgressAnimating) {
-      stopAndResetProgressAnimation();
+    if (isTimelinePlaying) {
+      pauseTimeline();
+      timeline.seek(0);
     }
     setCode(newCode);
   };
 
+  const handleFilesChange = useCallback((nextFiles: ProjectFiles) => {
+    setFiles(nextFiles);
+    setActiveFile((current) => (current === MAIN_FILE || current in nextFiles ? current : MAIN_FILE));
+  }, []);
+
+  const handleEditorChange = (newCode: string) => {
+    if (activeFile === MAIN_FILE) {
+      handleCodeChange(newCode);
+      return;
+    }
+    if (files[activeFile] === newCode) return;
+    setFiles((prev) => ({ ...prev, [activeFile]: newCode }));
+  };
+
+  const handleCreateFile = (path: string) => {
+    setFiles((prev) => ({ ...prev, [path]: "const { primitives } = require('@jscad/modeling')\n\nmodule.exports = {}\n" }));
+    setActiveFile(path);
+  };
+
+  const handleDeleteFile = (path: string) => {
+    setFiles((prev) => {
+      const { [path]: _removed, ...rest } = prev;
+      return rest;
+    });
+    if (activeFile === path) setActiveFile(MAIN_FILE);
+  };
+
   const handleRun = useCallback(async () => {
     setIsManualRunPending(true);
     try {
@@ -551,46 +696,6 @@ export default function ProjectPage({ id }: ProjectPageProps) {
     void autosaveDraft();
   }, [autosaveDraft]);
 
-  const stopProgressAnimation = useCallback(() => {
-    setIsProgressAnimating(false);
-  }, []);
-
-  const stopAndResetProgressAnimation = useCallback(() => {
-    setIsProgressAnimating(false);
-    setParameters((prev) => {
-      if (prev[PROGRESS_PARAM_NAME] === undefined) {
-        return prev;
-      }
-      return {
-        ...prev,
-        [PROGRESS_PARAM_NAME]: 0,
-      };
-    });
-  }, []);
-
-  const handleToggleProgressAnimation = useCallback(() => {
-    const progressDef = parameterDefs.find((def) => def.name === PROGRESS_PARAM_NAME && def.type === "number");
-    if (!progressDef) return;
-
-    if (isProgressAnimating) {
-      stopProgressAnimation();
-      return;
-    }
-
-    setParameters((prev) => ({
-      ...prev,
-      [PROGRESS_PARAM_NAME]: progressDef.min ?? 0,
-    }));
-    setIsProgressAnimating(true);
-  }, [isProgressAnimating, parameterDefs, stopProgressAnimation]);
-
-  useEffect(() => {
-    const hasProgressParameter = parameterDefs.some((def) => def.name === PROGRESS_PARAM_NAME && def.type === "number");
-    if (!hasProgressParameter && isProgressAnimating) {
-      stopProgressAnimation();
-    }
-  }, [isProgressAnimating, parameterDefs, stopProgressAnimation]);
-
   const handleInsertViewportSnapshot = useCallback(() => {
     if (!viewportRef.current?.captureImage) {
       console.warn("Viewport renderer is not ready for capture yet.");
@@ -1251,7 +1356,8 @@ export default function ProjectPage({ id }: ProjectPageProps) {
   const displayProjectName = isPlaygroundProject
     ? "Linkage Playground"
     : (project?.name ?? "Guest Project");
-  const hasProgressParameter = parameterDefs.some((def) => def.name === PROGRESS_PARAM_NAME && def.type === "number");
+  const hasTimelineTracks = timeline.tracks.length > 0;
+  const hasAnimatableParameters = animatableParameters(parameterDefs).length > 0;
 
   const activeDropPane = dropTarget?.paneId ?? null;
   const activeDropZone = dropTarget?.zone ?? null;
@@ -1282,6 +1388,8 @@ export default function ProjectPage({ id }: ProjectPageProps) {
             projectName={displayProjectName}
             currentCode={code}
             onCodeChange={handleCodeChange}
+            files={files}
+            onFilesChange={handleFilesChange}
             onPromptComplete={handlePromptComplete}
             inputRef={chatInputRef}
             requestViewportSnapshot={requestViewportSnapshot}
@@ -1296,8 +1404,19 @@ export default function ProjectPage({ id }: ProjectPageProps) {
 
         {paneId === "code" && (
           <CodeEditor
-            code={code}
-            onChange={handleCodeChange}
+            code={activeFile === MAIN_FILE ? code : files[activeFile] ?? ""}
+            onChange={handleEditorChange}
+            filePath={activeFile}
+            sidebar={
+              <ProjectFileTree
+                files={files}
+                activeFile={activeFile}
+                onSelect={setActiveFile}
+                onCreate={handleCreateFile}
+                onDelete={handleDeleteFile}
+                className="w-44 shrink-0 border-r border-border"
+              />
+            }
             error={error}
             ref={editorRef}
             headerDraggable={visiblePaneIds.length > 1}
@@ -1323,32 +1442,33 @@ export default function ProjectPage({ id }: ProjectPageProps) {
                 <div className="absolute top-2 left-2 z-10 flex items-center gap-2">
                   <button
                     onClick={handleInsertViewportSnapshot}
-                    disabled={isSnapshotting || isProgressAnimating || geometryCount === 0 || isGenerating}
+                    disabled={isSnapshotting || isTimelinePlaying || geometryCount === 0 || isGenerating}
                     className="p-2 rounded-md bg-background/90 border border-border text-muted-foreground hover:text-foreground hover:bg-secondary/70 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
                     title={
                       geometryCount === 0
                         ? "Run code to capture a model snapshot"
-                        : isProgressAnimating
+                        : isTimelinePlaying
                           ? "Pause animation to capture a snapshot"
                           : "Insert the current view into your next prompt"
                     }
                   >
                     <Camera className="w-4 h-4" />
                   </button>
-                  {hasProgressParameter && (
+                  {hasTimelineTracks && (
                     <button
                       type="button"
-                      onClick={handleToggleProgressAnimation}
+                      onClick={timeline.toggle}
                       className="p-2 rounded-md bg-background/90 border border-border text-muted-foreground hover:text-foreground hover:bg-secondary/70 transition-colors"
-                      title={isProgressAnimating ? "Pause progress animation" : "Play progress animation"}
+                      title={isTimelinePlaying ? "Pause animation" : "Play animation"}
                     >
-                      {isProgressAnimating ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                      {isTimelinePlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
                     </button>
                   )}
                 </div>
                 <Viewport3D
                   geometry={geometry}
                   isGenerating={isGenerating}
+                  highlightParts={collidingParts}
                   ref={viewportRef}
                 />
               </div>
@@ -1368,6 +1488,17 @@ export default function ProjectPage({ id }: ProjectPageProps) {
                       Reset
                     </button>
                   </div>
+                  {hasAnimatableParameters && (
+                    <div className="px-3 py-2 border-b border-border">
+                      <AnimationTimeline
+                        timeline={timeline}
+                        parameters={parameterDefs}
+                        collisions={collisionSweep}
+                        onJumpToProgress={handleJumpToProgress}
+                        progress={Number.isFinite(progressValue) ? progressValue : undefined}
+                      />
+                    </div>
+                  )}
                   <div className="flex-1 overflow-y-auto p-3">
                     <ParameterSliders
                       parameters={parameterDefs}
@@ -1387,6 +1518,15 @@ export default function ProjectPage({ id }: ProjectPageProps) {
               </div>
             )}
 
+            {showAssets && projectAssets && (
+              <div className="border-t border-border p-4 max-h-64 overflow-y-auto">
+                <ProjectAssetsPanel assets={projectAssets} />
+                {projectDependencies && (
+                  <ProjectDependenciesPanel dependencies={projectDependencies} className="mt-4 pt-4 border-t border-border" />
+                )}
+              </div>
+            )}
+
             {showVersions && versions && !isPlaygroundProject && (
               <div className="border-t border-border p-4 max-h-64 overflow-y-auto">
                 <VersionHistory
@@ -1432,6 +1572,15 @@ export default function ProjectPage({ id }: ProjectPageProps) {
               <History className="w-5 h-5" />
             </button>
           )}
+          {!isPlaygroundProject && (
+            <button
+              onClick={() => setShowAssets(!showAssets)}
+              className={`p-2 rounded-lg transition-colors ${showAssets ? "bg-primary/20 text-primary" : "hover:bg-secondary"}`}
+              title="Assets"
+            >
+              <Package className="w-5 h-5" />
+            </button>
+          )}
           <button
             onClick={() => setShowGeometryInfo(!showGeometryInfo)}
             className={`p-2 rounded-lg transition-colors ${showGeometryInfo ? "bg-primary/20 text-primary" : "hover:bg-secondary"}`}
@@ -1585,6 +1734,14 @@ export default function ProjectPage({ id }: ProjectPageProps) {
         onClose={() => setShowExport(false)}
         geometry={geometry}
         projectName={displayProjectName}
+        code={code}
+        parameters={parameters}
+        parameterDefs={parameterDefs}
+        renderFrames={(frames, size, onProgress) =>
+          viewportRef.current?.renderFrames(frames, size, onProgress) ?? Promise.resolve([])
+        }
+        history={exportHistory}
+        versionNumbers={versionNumbers}
       />
       <SettingsDialog
         isOpen={showSettings}
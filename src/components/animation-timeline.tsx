@@ -0,0 +1,312 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowLeft, ArrowRight, Diamond, Loader2, Pause, Play, RotateCcw, ShieldAlert, X } from "lucide-react";
+import { animatableParameters, type PlaybackMode } from "@/lib/animation-timeline";
+import type { ExtractedParameter } from "@/lib/parameter-extractor";
+import type { AnimationTimeline as Timeline } from "@/lib/use-animation-timeline";
+import type { CollisionSweep } from "@/lib/use-collision-sweep";
+
+const MODE_LABELS: Record<PlaybackMode, string> = {
+  once: "Once",
+  loop: "Loop",
+  pingpong: "Ping-pong",
+};
+
+interface AnimationTimelineProps {
+  timeline: Timeline;
+  parameters: ExtractedParameter[];
+  collisions?: CollisionSweep;
+  /** Shows the model at a swept `progress` value. */
+  onJumpToProgress?: (progress: number) => void;
+  /** Current `progress` value, marked on the collision strip. */
+  progress?: number;
+  className?: string;
+}
+
+function partPairLabel([a, b]: [number, number]) {
+  return `part ${a + 1} × part ${b + 1}`;
+}
+
+/**
+ * One cell per swept sample, shaded by total shared volume. Clicking a cell
+ * jumps the model to that sample.
+ */
+function CollisionStrip({
+  collisions,
+  onJumpToProgress,
+  progress,
+}: {
+  collisions: CollisionSweep;
+  onJumpToProgress?: (progress: number) => void;
+  progress?: number;
+}) {
+  const { result } = collisions;
+  const volumes = result?.frames.map((frame) => frame.collisions.reduce((sum, c) => sum + c.volume, 0)) ?? [];
+  const peak = Math.max(0, ...volumes);
+  const [min, max] = result?.range ?? [0, 1];
+  const marker = progress !== undefined && max > min ? (progress - min) / (max - min) : null;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <ShieldAlert className="w-3 h-3" />
+          Collisions
+        </span>
+        <label className="flex items-center gap-1 text-muted-foreground">
+          <input
+            type="number"
+            min={3}
+            max={201}
+            value={collisions.resolution}
+            onChange={(e) => {
+              const samples = parseInt(e.target.value, 10);
+              if (Number.isFinite(samples)) collisions.setResolution(Math.min(201, Math.max(3, samples)));
+            }}
+            className="w-12 bg-background border border-input rounded px-1 py-0.5 text-foreground text-right"
+            aria-label="Collision sweep samples"
+          />
+          samples
+        </label>
+        <button
+          type="button"
+          onClick={collisions.isRunning ? collisions.cancel : collisions.run}
+          className="ml-auto flex items-center gap-1 rounded px-2 py-0.5 border border-border text-muted-foreground hover:text-foreground hover:bg-secondary/70 transition-colors"
+        >
+          {collisions.isRunning ? (
+            <>
+              <Loader2 className="w-3 h-3 animate-spin" />
+              {collisions.checked.done}/{collisions.checked.total}
+            </>
+          ) : result ? (
+            "Re-sweep"
+          ) : (
+            "Sweep"
+          )}
+        </button>
+      </div>
+
+      {result && (
+        <div className={`relative flex h-3 rounded overflow-hidden bg-secondary ${collisions.isStale ? "opacity-50" : ""}`}>
+          {result.frames.map((frame, index) => {
+            const volume = volumes[index];
+            const title =
+              volume > 0
+                ? `progress ${frame.progress}: ${frame.collisions.map((c) => partPairLabel(c.parts)).join(", ")}`
+                : `progress ${frame.progress}: clear`;
+            return (
+              <button
+                key={frame.progress}
+                type="button"
+                onClick={() => onJumpToProgress?.(frame.progress)}
+                className="flex-1 h-full hover:outline hover:outline-1 hover:outline-foreground"
+                style={{
+                  backgroundColor: volume > 0 ? `rgba(239, 68, 68, ${0.35 + 0.65 * (volume / peak)})` : undefined,
+                }}
+                title={title}
+                aria-label={title}
+              />
+            );
+          })}
+          {marker !== null && marker >= 0 && marker <= 1 && (
+            <span
+              className="pointer-events-none absolute top-0 h-full w-0.5 bg-foreground"
+              style={{ left: `calc(${marker * 100}% - 1px)` }}
+            />
+          )}
+        </div>
+      )}
+
+      {collisions.error && <p className="text-destructive">{collisions.error}</p>}
+      {result && !collisions.isRunning && (
+        <div className="flex flex-wrap gap-1">
+          {result.intervals.length === 0 ? (
+            <span className="text-muted-foreground">
+              No collisions in {result.frames.length} samples{collisions.isStale ? " (code changed since)" : ""}
+            </span>
+          ) : (
+            result.intervals.map((interval) => (
+              <button
+                key={interval.start}
+                type="button"
+                onClick={() => onJumpToProgress?.(interval.peakProgress)}
+                className="rounded bg-red-500/10 px-1.5 py-0.5 text-red-500 hover:bg-red-500/20 tabular-nums"
+                title={`Peak overlap ${interval.peakVolume.toFixed(3)} mm³ at progress ${interval.peakProgress}`}
+              >
+                {interval.start === interval.end ? interval.start : `${interval.start}–${interval.end}`}:{" "}
+                {interval.pairs.map(partPairLabel).join(", ")}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Play/pause, scrubbing and keyframes for the model's numeric parameters.
+ * Frames are evaluated ahead of playback, so the cache count shows how much
+ * of the pass will play without waiting on the worker.
+ */
+export function AnimationTimeline({
+  timeline,
+  parameters,
+  collisions,
+  onJumpToProgress,
+  progress,
+  className = "",
+}: AnimationTimelineProps) {
+  const animatable = animatableParameters(parameters);
+  const [keyParam, setKeyParam] = useState<string | null>(null);
+  const selectedParam = animatable.some((parameter) => parameter.name === keyParam)
+    ? keyParam!
+    : animatable[0]?.name ?? "";
+
+  const { settings, time, frames } = timeline;
+  const step = 1 / (frames - 1);
+
+  return (
+    <div className={`space-y-2 text-xs ${className}`}>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={timeline.toggle}
+          disabled={timeline.tracks.length === 0}
+          className="flex h-7 w-7 items-center justify-center rounded-md border border-border text-muted-foreground hover:text-foreground hover:bg-secondary/70 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          title={timeline.isPlaying ? "Pause" : "Play"}
+        >
+          {timeline.isPlaying ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={step}
+          value={time}
+          onChange={(e) => timeline.seek(parseFloat(e.target.value))}
+          className="flex-1 h-1 bg-muted rounded-lg appearance-none cursor-pointer accent-primary"
+          aria-label="Timeline position"
+        />
+        <span className="w-20 text-right tabular-nums text-muted-foreground">
+          {(time * settings.durationSec).toFixed(2)}s / {settings.durationSec}s
+        </span>
+      </div>
+
+      {collisions?.available && (
+        <CollisionStrip collisions={collisions} onJumpToProgress={onJumpToProgress} progress={progress} />
+      )}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={settings.mode}
+          onChange={(e) => timeline.updateSettings({ mode: e.target.value as PlaybackMode })}
+          className="bg-background border border-input rounded px-1 py-1 text-foreground"
+          aria-label="Playback mode"
+        >
+          {(Object.keys(MODE_LABELS) as PlaybackMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() =>
+            timeline.updateSettings({ direction: settings.direction === "forward" ? "reverse" : "forward" })
+          }
+          className="flex h-6 w-6 items-center justify-center rounded text-muted-foreground hover:text-foreground transition-colors"
+          title={settings.direction === "forward" ? "Playing forward" : "Playing in reverse"}
+        >
+          {settings.direction === "forward" ? <ArrowRight className="w-3.5 h-3.5" /> : <ArrowLeft className="w-3.5 h-3.5" />}
+        </button>
+        <label className="flex items-center gap-1 text-muted-foreground">
+          Duration
+          <input
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={settings.durationSec}
+            onChange={(e) => {
+              const durationSec = parseFloat(e.target.value);
+              if (Number.isFinite(durationSec) && durationSec > 0) timeline.updateSettings({ durationSec });
+            }}
+            className="w-14 bg-background border border-input rounded px-1 py-1 text-foreground text-right"
+          />
+          s
+        </label>
+        <span className="ml-auto text-muted-foreground tabular-nums" title="Frames evaluated ahead of playback">
+          {timeline.isPreparing
+            ? `Caching ${timeline.prepared.done}/${timeline.prepared.total}`
+            : `${frames} frames`}
+        </span>
+      </div>
+
+      {animatable.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedParam}
+              onChange={(e) => setKeyParam(e.target.value)}
+              className="flex-1 bg-background border border-input rounded px-1 py-1 text-foreground"
+              aria-label="Parameter to keyframe"
+            >
+              {animatable.map((parameter) => (
+                <option key={parameter.name} value={parameter.name}>
+                  {parameter.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => timeline.addKeyframe(selectedParam)}
+              className="flex items-center gap-1 rounded px-2 py-1 border border-border text-muted-foreground hover:text-foreground hover:bg-secondary/70 transition-colors"
+              title="Keyframe the parameter's current value at this time"
+            >
+              <Diamond className="w-3 h-3" />
+              Key
+            </button>
+            <button
+              type="button"
+              onClick={timeline.resetTracks}
+              className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+              title="Reset keyframes"
+            >
+              <RotateCcw className="w-3 h-3" />
+            </button>
+          </div>
+
+          {timeline.tracks.map((track) => (
+            <div key={track.param} className="flex items-center gap-1 flex-wrap">
+              <span className="min-w-[60px] truncate text-muted-foreground">{track.param}</span>
+              {track.keyframes.map((keyframe, index) => (
+                <span
+                  key={`${keyframe.time}-${index}`}
+                  className="flex items-center gap-1 rounded bg-secondary px-1.5 py-0.5 tabular-nums"
+                >
+                  <button
+                    type="button"
+                    onClick={() => timeline.seek(keyframe.time)}
+                    className="hover:text-foreground"
+                    title="Go to keyframe"
+                  >
+                    {(keyframe.time * settings.durationSec).toFixed(2)}s = {Number(keyframe.value.toFixed(3))}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => timeline.removeKeyframe(track.param, index)}
+                    className="text-muted-foreground hover:text-foreground"
+                    title="Remove keyframe"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,8 +15,11 @@ import {
   RefreshCw,
   Copy,
   X,
+  Square,
 } from "lucide-react";
-import { getOpenRouterSettings } from "@/lib/openrouter";
+import { getAgentModelRequest, getOpenRouterSettings } from "@/lib/openrouter";
+import { formatCost, formatTokenCount, type CodegenUsage, type TokenUsage } from "@/lib/token-usage";
+import type { ProjectFiles } from "@/lib/project-files";
 import { api } from "@/convex/_generated/api";
 import { useQuery, useMutation } from "convex/react";
 import { Id } from "@/convex/_generated/dataModel";
@@ -31,6 +34,8 @@ interface ChatMessage {
     args: Record<string, unknown>;
     result: unknown;
   }>;
+  /** Model usage of the prompt this message concludes. */
+  usage?: TokenUsage;
 }
 
 type PendingStatus = "sending" | "sent" | "failed";
@@ -68,6 +73,7 @@ type StreamEvent =
       parseError?: string;
     }
   | { type: "diagnostics"; iteration: number; errors: number; warnings: number; info: number }
+  | { type: "usage"; iteration: number; usage: TokenUsage; total: TokenUsage }
   | { type: "assistant_message_delta"; delta: string }
   | { type: "assistant_message"; content: string }
   | {
@@ -77,6 +83,16 @@ type StreamEvent =
         toolResults: Array<{ toolName: string; args: Record<string, unknown>; result: unknown }>;
         iterations: number;
         assistantMessage?: string;
+        usage?: CodegenUsage;
+      };
+    }
+  | {
+      type: "cancelled";
+      iteration: number;
+      payload: {
+        code: string;
+        toolResults: Array<{ toolName: string; args: Record<string, unknown>; result: unknown }>;
+        iterations: number;
       };
     }
   | { type: "error"; message: string };
@@ -97,6 +113,9 @@ interface ChatPanelProps {
   projectName?: string;
   currentCode: string;
   onCodeChange: (code: string) => void;
+  /** The project's files besides main.jscad; the agent can read, edit and create them. */
+  files?: ProjectFiles;
+  onFilesChange?: (files: ProjectFiles) => void;
   onPromptComplete?: () => void;
   inputRef?: React.RefObject<HTMLTextAreaElement | null>;
   requestViewportSnapshot?: () => { url: string; altText?: string } | null;
@@ -159,6 +178,8 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
     projectName,
     currentCode,
     onCodeChange,
+    files,
+    onFilesChange,
     onPromptComplete,
     inputRef: externalInputRef,
     requestViewportSnapshot,
@@ -180,7 +201,9 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
   const [liveToolCalls, setLiveToolCalls] = useState<LiveToolCall[]>([]);
   const [streamStatus, setStreamStatus] = useState<string>("");
   const [liveAssistantMessage, setLiveAssistantMessage] = useState("");
+  const [liveUsage, setLiveUsage] = useState<TokenUsage | null>(null);
   const queueWorkerActiveRef = useRef(false);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const internalInputRef = useRef<HTMLTextAreaElement>(null);
   
@@ -216,6 +239,7 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
   const heartbeatPrompt = useMutation(api.chat.heartbeatPrompt);
   const completePrompt = useMutation(api.chat.completePrompt);
   const failPrompt = useMutation(api.chat.failPrompt);
+  const cancelPrompt = useMutation(api.chat.cancelPrompt);
   const updateProject = useMutation(api.projects.update);
   const queueStateArgs = canUseAgent && projectId && ownerId
     ? { projectId: projectId as Id<"projects">, ownerId }
@@ -224,11 +248,12 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
 
   const loadedMessages = useMemo<ChatMessage[]>(() => {
     if (!convexMessages) return [];
-    return convexMessages.map((msg: { _id: string; role: string; content: string; toolCalls?: unknown }) => ({
+    return convexMessages.map((msg: { _id: string; role: string; content: string; toolCalls?: unknown; usage?: TokenUsage }) => ({
       id: msg._id,
       role: msg.role as "user" | "assistant" | "system" | "tool",
       content: msg.content,
       toolCalls: msg.toolCalls as Array<{ toolName: string; args: Record<string, unknown>; result: unknown }> | undefined,
+      usage: msg.usage,
     }));
   }, [convexMessages]);
 
@@ -265,6 +290,7 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
           role: message.role,
           content: message.content,
           toolCalls: message.toolCalls,
+          usage: message.usage,
         });
         if (persisted && typeof pendingId === "string") {
           setPendingMessages((prev) =>
@@ -385,7 +411,12 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
     setIsGenerating(true);
     setLiveToolCalls([]);
     setLiveAssistantMessage("");
+    setLiveUsage(null);
     setStreamStatus("Starting agent...");
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+    // Running total from `usage` events, recorded even when the run fails or is stopped.
+    let runUsage: TokenUsage | undefined;
 
     try {
       const settings = getOpenRouterSettings();
@@ -393,14 +424,16 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
 
       const response = await fetch("/api/codegen/stream", {
         method: "POST",
+        signal: abortController.signal,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           prompt,
           promptImages,
           viewportSnapshot,
           currentCode,
-          openRouterApiKey: settings.apiKey.trim(),
-          model: settings.model,
+          files,
+          projectContext: projectId && ownerId ? { projectId, ownerId } : undefined,
+          ...getAgentModelRequest(settings),
           maxIterations: 5,
         }),
       });
@@ -423,6 +456,7 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
             toolResults: Array<{ toolName: string; args: Record<string, unknown>; result: unknown }>;
             iterations: number;
             assistantMessage?: string;
+            usage?: CodegenUsage;
           }
         | null = null;
       let latestAssistantMessage: string | undefined;
@@ -487,6 +521,12 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
           return;
         }
 
+        if (event.type === "usage") {
+          runUsage = event.total;
+          setLiveUsage(event.total);
+          return;
+        }
+
         if (event.type === "assistant_message") {
           latestAssistantMessage = event.content;
           setLiveAssistantMessage(event.content);
@@ -505,12 +545,17 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
           return;
         }
 
+        if (event.type === "cancelled") {
+          abortController.abort();
+          return;
+        }
+
         if (event.type === "error") {
           throw new Error(event.message);
         }
       };
 
-      while (true) {
+      while (!abortController.signal.aborted) {
         const { value, done } = await reader.read();
         if (done) break;
         buffer += decoder.decode(value, { stream: true });
@@ -532,51 +577,77 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
         }
       }
 
+      if (abortController.signal.aborted) {
+        throw new DOMException("Generation stopped", "AbortError");
+      }
+
       if (!finalPayload) {
         throw new Error("Stream ended before completion payload.");
       }
 
       const donePayload = finalPayload as {
         code: string;
+        files?: ProjectFiles;
         toolResults: Array<{ toolName: string; args: Record<string, unknown>; result: unknown }>;
         iterations: number;
         assistantMessage?: string;
+        usage?: CodegenUsage;
       };
+      runUsage = donePayload.usage?.total ?? runUsage;
 
+      const assistant = donePayload.assistantMessage || latestAssistantMessage;
       if (donePayload.toolResults.length > 0) {
         await onAddMessage({
           role: "tool",
           content: `Tool calls (${donePayload.toolResults.length})`,
           toolCalls: donePayload.toolResults,
+          // Usage is stored once per prompt, on its last message.
+          usage: assistant ? undefined : runUsage,
         });
       }
 
-      const assistant = donePayload.assistantMessage || latestAssistantMessage;
       if (assistant) {
         await onAddMessage({
           role: "assistant",
           content: assistant,
+          usage: runUsage,
         });
       }
 
       if (donePayload.code && donePayload.code !== currentCode) {
         onCodeUpdate(donePayload.code);
       }
+      if (donePayload.files && JSON.stringify(donePayload.files) !== JSON.stringify(files ?? {})) {
+        onFilesChange?.(donePayload.files);
+      }
       return { ok: true as const };
     } catch (error) {
+      if (abortController.signal.aborted) {
+        await onAddMessage({
+          role: "system",
+          content: "Generation stopped.",
+          usage: runUsage,
+        });
+        return { ok: false as const, cancelled: true as const, error: "Cancelled" };
+      }
       const message = error instanceof Error ? error.message : "Failed to generate code";
       await onAddMessage({
         role: "system",
         content: `Error: ${message}`,
+        usage: runUsage,
       });
       return { ok: false as const, error: message };
     } finally {
+      if (generationAbortRef.current === abortController) {
+        generationAbortRef.current = null;
+      }
       setStreamStatus("");
       setIsGenerating(false);
       setLiveAssistantMessage("");
+      setLiveUsage(null);
       onPromptComplete?.();
     }
-  }, [currentCode, onAddMessage, onCodeUpdate, onPromptComplete, requestViewportSnapshot]);
+  }, [currentCode, files, onAddMessage, onCodeUpdate, onFilesChange, onPromptComplete, ownerId, projectId, requestViewportSnapshot]);
 
   useEffect(() => {
     if (!canUseAgent || !projectId || !ownerId) return;
@@ -618,6 +689,12 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
                 projectId: projectId as Id<"projects">,
                 ownerId,
               });
+            } else if ("cancelled" in result) {
+              await cancelPrompt({
+                queueId: next.queueId,
+                projectId: projectId as Id<"projects">,
+                ownerId,
+              });
             } else {
               await failPrompt({
                 queueId: next.queueId,
@@ -638,6 +715,7 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
     })();
   }, [
     canUseAgent,
+    cancelPrompt,
     claimNextPrompt,
     completePrompt,
     failPrompt,
@@ -648,6 +726,13 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
     queueState,
   ]);
 
+  // Closing the chat stops the server-side run as well.
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
+
+  const handleStop = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() && pendingImages.length === 0) return;
@@ -768,6 +853,21 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(function Ch
                   ? ` (${queueState.queuedCount} queued)`
                   : ""}
               </span>
+              {liveUsage && (
+                <span className="text-xs text-emerald-700/70 dark:text-emerald-200/60">
+                  {formatTokenCount(liveUsage.promptTokens + liveUsage.completionTokens)} tokens · {formatCost(liveUsage.cost)}
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={handleStop}
+                className="ml-auto inline-flex items-center gap-1 rounded-md border border-emerald-500/30 px-2 py-0.5 text-xs hover:bg-emerald-500/10 transition-colors"
+                aria-label="Stop generation"
+                title="Stop generation"
+              >
+                <Square className="h-3 w-3" />
+                Stop
+              </button>
             </div>
             {liveAssistantMessage && (
               <div className="rounded-md border border-emerald-500/20 bg-background/50 dark:border-emerald-900/40 dark:bg-zinc-950/40 p-2 text-sm text-emerald-800 dark:text-emerald-100/90 prose prose-sm dark:prose-invert max-w-none">
@@ -948,6 +1048,15 @@ function MessageBubble({
         {message.toolCalls && message.toolCalls.length > 0 && (
           <ToolCallsDisplay toolCalls={message.toolCalls} />
         )}
+
+        {message.usage && (
+          <div
+            className="mt-1 text-[10px] text-muted-foreground"
+            title={`${message.usage.promptTokens} prompt, ${message.usage.completionTokens} completion (${message.usage.reasoningTokens} reasoning) tokens`}
+          >
+            {formatTokenCount(message.usage.promptTokens + message.usage.completionTokens)} tokens · {formatCost(message.usage.cost)}
+          </div>
+        )}
       </div>
       {message.role === "user" && retryPrompt && onRetry && (
         <div className="mt-2 flex justify-end">
@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState, useImperativeHandle, forwardRef, type DragEvent } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, useImperativeHandle, forwardRef, type DragEvent, type ReactNode } from "react";
 import { useTheme } from "@/lib/theme-provider";
 import Editor, { type OnMount } from "@monaco-editor/react";
 import { ChevronRight, Code2 } from "lucide-react";
@@ -13,6 +13,10 @@ export interface CodeEditorHandle {
 interface CodeEditorProps {
   code: string;
   onChange: (code: string) => void;
+  /** Project path of the open file; each path keeps its own Monaco model and undo stack. */
+  filePath?: string;
+  /** Rendered beside the editor, e.g. the project's file tree. */
+  sidebar?: ReactNode;
   readOnly?: boolean;
   error?: JscadExecutionError | null;
   className?: string;
@@ -24,6 +28,8 @@ interface CodeEditorProps {
 export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({
   code,
   onChange,
+  filePath,
+  sidebar,
   readOnly = false,
   error,
   className = "",
@@ -164,6 +170,7 @@ export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({
       >
         <Code2 className="w-4 h-4 text-emerald-500" />
         <h2 className="text-sm font-medium text-foreground">Code</h2>
+        {filePath && <span className="text-xs font-mono text-muted-foreground truncate">{filePath}</span>}
         {readOnly && (
           <span className="text-xs text-muted-foreground ml-auto">Read Only</span>
         )}
@@ -202,33 +209,37 @@ export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({
       )}
 
       {/* Monaco Editor */}
-      <div className="flex-1 min-h-0">
-        <Editor
-          height="100%"
-          defaultLanguage="javascript"
-          value={code}
-          onChange={handleEditorChange}
-          onMount={handleEditorDidMount}
-          theme={monacoTheme}
-          options={{
-            minimap: { enabled: false },
-            fontSize: 13,
-            fontFamily: "var(--font-geist-mono), monospace",
-            lineNumbers: "on",
-            tabSize: 2,
-            scrollBeyondLastLine: false,
-            automaticLayout: true,
-            wordWrap: "on",
-            readOnly,
-            padding: { top: 12 },
-            bracketPairColorization: { enabled: true },
-              guides: {
-                bracketPairs: true,
-                indentation: true,
-              },
-              glyphMargin: true,
-            }}
-        />
+      <div className="flex-1 min-h-0 flex">
+        {sidebar}
+        <div className="flex-1 min-w-0">
+          <Editor
+            height="100%"
+            defaultLanguage="javascript"
+            path={filePath}
+            value={code}
+            onChange={handleEditorChange}
+            onMount={handleEditorDidMount}
+            theme={monacoTheme}
+            options={{
+              minimap: { enabled: false },
+              fontSize: 13,
+              fontFamily: "var(--font-geist-mono), monospace",
+              lineNumbers: "on",
+              tabSize: 2,
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+              wordWrap: "on",
+              readOnly,
+              padding: { top: 12 },
+              bracketPairColorization: { enabled: true },
+                guides: {
+                  bracketPairs: true,
+                  indentation: true,
+                },
+                glyphMargin: true,
+              }}
+          />
+        </div>
       </div>
     </div>
   );
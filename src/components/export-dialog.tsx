@@ -1,20 +1,117 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
   Download,
   FileBox,
   Loader2,
   X,
 } from "lucide-react";
+import { ExportHistoryList } from "./export-history";
 import { ThumbnailPreview } from "./thumbnail-preview";
+import type { RenderedFrame, Viewport3DHandle } from "./viewport-3d";
 import { polygonVertices } from "@/lib/jscad-geometry";
+import { createZip, encodeGif, frameFileName, sweepValues } from "@/lib/animation-export";
+import { PROGRESS_PARAM_NAME } from "@/lib/animation-timeline";
+import type { ExportRequest } from "@/lib/export-history";
+import { buildAnimatedScene, buildGlb, buildStaticScene } from "@/lib/gltf";
+import { getJscadWorkerPool } from "@/lib/jscad-worker";
+import { exportParts, serialize3mf, serializeAmf } from "@/lib/model-export";
+import {
+  has2dGeometry,
+  outlineLayers,
+  serializeDxf,
+  serializeSvg,
+  solidZRange,
+  zSectionPlane,
+  type SectionPlane,
+} from "@/lib/vector-export";
+import type { ExtractedParameter } from "@/lib/parameter-extractor";
+import type { ExportHistory } from "@/lib/use-export-history";
 
 interface ExportDialogProps {
   isOpen: boolean;
   onClose: () => void;
   geometry: unknown[];
   projectName: string;
+  /** Needed for animation export, which re-evaluates the code at each frame. */
+  code?: string;
+  parameters?: Record<string, number | boolean | string>;
+  parameterDefs?: ExtractedParameter[];
+  renderFrames?: Viewport3DHandle["renderFrames"];
+  /** Stores exports with the active version; omitted for unsaved projects. */
+  history?: ExportHistory | null;
+  /** Version numbers by id, for labelling history entries. */
+  versionNumbers?: Record<string, number>;
+}
+
+type ModelFormat = "stl" | "3mf" | "amf" | "obj" | "glb" | "svg" | "dxf";
+
+const MODEL_FORMATS: Array<{ id: ModelFormat; hint: string }> = [
+  { id: "stl", hint: "Single mesh, no colors" },
+  { id: "3mf", hint: "Separate named parts with colors" },
+  { id: "amf", hint: "Separate parts with colors, for slicers without 3MF" },
+  { id: "obj", hint: "Single mesh, no colors" },
+  { id: "glb", hint: "Named parts with colors, for web and AR viewers" },
+  { id: "svg", hint: "2D outlines in mm, one group per part" },
+  { id: "dxf", hint: "2D outlines in mm, one layer per part" },
+];
+
+type SectionMode = "none" | "z" | "plane";
+
+type AnimationFormat = "png" | "gif" | "glb";
+
+const ANIMATION_FORMATS: Array<{ id: AnimationFormat; label: string }> = [
+  { id: "png", label: "PNG frames (.zip)" },
+  { id: "gif", label: "GIF" },
+  { id: "glb", label: "glTF (.glb)" },
+];
+
+const MAX_ANIMATION_FRAMES = 240;
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+async function encodePng(frame: RenderedFrame) {
+  const canvas = document.createElement("canvas");
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  canvas.getContext("2d")?.putImageData(new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height), 0, 0);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("PNG encoding failed");
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+// Evaluates the code once per progress value as background jobs, so the
+// export yields to the interactive viewport instead of holding it up.
+// Aborting `signal` drops the queued frame and stops the one in flight.
+async function evaluateProgressFrames(
+  code: string,
+  parameters: Record<string, unknown>,
+  values: number[],
+  signal: AbortSignal,
+  onProgress: (done: number) => void
+) {
+  const frames: unknown[][] = [];
+  for (const value of values) {
+    const result = await getJscadWorkerPool().evaluate(
+      code,
+      { ...parameters, [PROGRESS_PARAM_NAME]: value },
+      { priority: "background", signal }
+    );
+    if (result.error) throw new Error(`Frame ${frames.length + 1}: ${result.error}`);
+    frames.push((result.geometries as unknown[] | undefined) ?? []);
+    onProgress(frames.length);
+  }
+  return frames;
 }
 
 // Simple OBJ serializer for JSCAD geometries
@@ -61,12 +158,127 @@ export function ExportDialog({
   onClose,
   geometry,
   projectName,
+  code,
+  parameters = {},
+  parameterDefs = [],
+  renderFrames,
+  history,
+  versionNumbers = {},
 }: ExportDialogProps) {
-  const [format, setFormat] = useState<"stl" | "obj">("stl");
+  const [format, setFormat] = useState<ModelFormat>("stl");
+  const [stlBinary, setStlBinary] = useState(true);
+  const [sectionMode, setSectionMode] = useState<SectionMode | null>(null);
+  const [sectionZ, setSectionZ] = useState<number | null>(null);
+  const [customPlane, setCustomPlane] = useState<SectionPlane>({ origin: [0, 0, 0], normal: [1, 0, 0] });
   const [isExporting, setIsExporting] = useState(false);
+  const [mode, setMode] = useState<"model" | "animation">("model");
+  const [animationFormat, setAnimationFormat] = useState<AnimationFormat>("gif");
+  const [frameTotal, setFrameTotal] = useState(30);
+  const [fps, setFps] = useState(15);
+  const [frameSize, setFrameSize] = useState({ width: 640, height: 480 });
+  const [status, setStatus] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing or unmounting the dialog cancels an animation export still evaluating frames.
+  useEffect(() => {
+    if (!isOpen) return;
+    return () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+    };
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
+  const progressDef = parameterDefs.find((def) => def.name === PROGRESS_PARAM_NAME && def.type === "number");
+  const canExportAnimation = Boolean(code && progressDef);
+  const activeMode = canExportAnimation ? mode : "model";
+  const baseName = projectName.toLowerCase().replace(/\s+/g, "-");
+  const isVectorFormat = format === "svg" || format === "dxf";
+  const zRange = isVectorFormat ? solidZRange(geometry) : null;
+  const activeSectionMode = sectionMode ?? (zRange && !has2dGeometry(geometry) ? "z" : "none");
+  const activeSectionZ = sectionZ ?? (zRange ? Number(((zRange[0] + zRange[1]) / 2).toFixed(3)) : 0);
+
+  // Reuses a stored copy of an identical export when there is one; otherwise
+  // builds the file, downloads it and records it in the export history.
+  const deliver = async (request: ExportRequest, build: () => Promise<Blob>) => {
+    const existing = await history?.findExisting(request).catch(() => null);
+    if (existing?.url) {
+      setStatus("Downloading stored copy");
+      const response = await fetch(existing.url);
+      if (response.ok) {
+        downloadBlob(await response.blob(), request.fileName);
+        return;
+      }
+    }
+
+    const blob = await build();
+    downloadBlob(blob, request.fileName);
+    if (history) {
+      setStatus("Saving to export history");
+      try {
+        await history.save(request, blob);
+      } catch (error) {
+        console.error("Failed to store export:", error);
+      }
+    }
+  };
+
+  const handleExportAnimation = async () => {
+    if (!code || !progressDef) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsExporting(true);
+    try {
+      const request: ExportRequest = {
+        format: animationFormat === "png" ? "zip" : animationFormat,
+        fileName: `${baseName}-${animationFormat === "png" ? "frames.zip" : `animation.${animationFormat}`}`,
+        options: {
+          animation: true,
+          frames: frameTotal,
+          fps,
+          ...(animationFormat === "glb" ? {} : { size: frameSize }),
+        },
+      };
+      await deliver(request, async () => {
+        const values = sweepValues(frameTotal, [progressDef.min ?? 0, progressDef.max ?? 1]);
+        const frames = await evaluateProgressFrames(code, parameters, values, controller.signal, (done) =>
+          setStatus(`Evaluating frame ${done}/${values.length}`)
+        );
+
+        if (animationFormat === "glb") {
+          setStatus("Building glTF");
+          const { nodes, animations } = buildAnimatedScene(frames, values.length / fps);
+          return new Blob([buildGlb(nodes, animations) as BlobPart], { type: "model/gltf-binary" });
+        }
+        if (!renderFrames) throw new Error("Viewport renderer is not available");
+        const rendered = await renderFrames(frames, frameSize, (done) =>
+          setStatus(`Rendering frame ${done}/${frames.length}`)
+        );
+        if (animationFormat === "gif") {
+          setStatus("Encoding GIF");
+          return new Blob([encodeGif(rendered, { delayMs: 1000 / fps }) as BlobPart], { type: "image/gif" });
+        }
+        const entries = [];
+        for (const [index, frame] of rendered.entries()) {
+          setStatus(`Encoding PNG ${index + 1}/${rendered.length}`);
+          entries.push({ name: frameFileName(index, rendered.length, "png"), data: await encodePng(frame) });
+        }
+        return new Blob([createZip(entries) as BlobPart], { type: "application/zip" });
+      });
+      onClose();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      alert(
+        `Animation export failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setStatus(null);
+      setIsExporting(false);
+    }
+  };
+
   const handleExport = async () => {
     setIsExporting(true);
     try {
@@ -74,43 +286,69 @@ export function ExportDialog({
         throw new Error("No geometry to export");
       }
 
-      let blob: Blob;
-      const filename = `${projectName.toLowerCase().replace(/\s+/g, "-")}.${format}`;
+      const plane = !isVectorFormat
+        ? undefined
+        : activeSectionMode === "z"
+          ? zSectionPlane(activeSectionZ)
+          : activeSectionMode === "plane"
+            ? customPlane
+            : undefined;
+      const request: ExportRequest = {
+        format,
+        fileName: `${baseName}.${format}`,
+        options: format === "stl" ? { binary: stlBinary } : isVectorFormat ? { plane: plane ?? null } : {},
+      };
 
-      if (format === "stl") {
-        // Dynamically import JSCAD STL serializer
-        const { serialize } = await import("@jscad/stl-serializer");
-        const result = serialize({ binary: true }, ...geometry);
-        blob = new Blob([result.data as BlobPart], { type: "application/octet-stream" });
-      } else {
+      await deliver(request, async () => {
+        if (format === "stl") {
+          // Dynamically import JSCAD STL serializer
+          const { serialize } = await import("@jscad/stl-serializer");
+          const result = serialize({ binary: stlBinary }, ...geometry);
+          return new Blob(result, { type: stlBinary ? "application/octet-stream" : "model/stl" });
+        }
+        if (format === "3mf" || format === "amf") {
+          const parts = exportParts(geometry);
+          if (parts.length === 0) throw new Error("No solid parts to export");
+          return format === "3mf"
+            ? new Blob([serialize3mf(parts, { title: projectName }) as BlobPart], { type: "model/3mf" })
+            : new Blob([serializeAmf(parts)], { type: "application/x-amf" });
+        }
+        if (format === "glb") {
+          const nodes = buildStaticScene(geometry);
+          if (nodes.length === 0) throw new Error("No solid parts to export");
+          return new Blob([buildGlb(nodes) as BlobPart], { type: "model/gltf-binary" });
+        }
+        if (isVectorFormat) {
+          if (plane && plane.normal.every((component) => component === 0)) {
+            throw new Error("The section plane normal must not be zero");
+          }
+          const layers = outlineLayers(geometry, plane);
+          if (layers.length === 0) {
+            throw new Error(
+              plane ? "The section plane does not cut any part" : "No 2D shapes to export; choose a section plane"
+            );
+          }
+          return format === "svg"
+            ? new Blob([serializeSvg(layers)], { type: "image/svg+xml" })
+            : new Blob([serializeDxf(layers)], { type: "application/dxf" });
+        }
         // OBJ export
-        const objContent = serializeOBJ(geometry);
-        blob = new Blob([objContent], { type: "text/plain" });
-      }
-
-      // Download
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-
+        return new Blob([serializeOBJ(geometry)], { type: "text/plain" });
+      });
       onClose();
     } catch (error) {
       alert(
         `Export failed: ${error instanceof Error ? error.message : "Unknown error"}`
       );
     } finally {
+      setStatus(null);
       setIsExporting(false);
     }
   };
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-      <div className="bg-card border border-border rounded-xl w-full max-w-md p-6">
+      <div className="bg-card border border-border rounded-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6">
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center gap-2">
             <FileBox className="w-5 h-5 text-indigo-500" />
@@ -135,46 +373,232 @@ export function ExportDialog({
           />
         </div>
 
-        {/* Format selection */}
-        <div className="mb-6">
-          <label className="text-sm font-medium text-muted-foreground mb-2 block">
-            Format
-          </label>
-          <div className="grid grid-cols-2 gap-2">
-            {(["stl", "obj"] as const).map((f) => (
+        {canExportAnimation && (
+          <div className="mb-6 grid grid-cols-2 gap-2">
+            {(["model", "animation"] as const).map((m) => (
               <button
-                key={f}
-                onClick={() => setFormat(f)}
-                className={`px-4 py-3 rounded-lg border text-sm font-medium transition-colors ${
-                  format === f
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-4 py-2 rounded-lg border text-sm font-medium capitalize transition-colors ${
+                  activeMode === m
                     ? "bg-primary/10 border-primary text-primary"
                     : "bg-secondary border-border text-muted-foreground hover:border-muted-foreground"
                 }`}
               >
-                .{f.toUpperCase()}
+                {m}
               </button>
             ))}
           </div>
-        </div>
+        )}
+
+        {activeMode === "animation" ? (
+          <div className="mb-6 space-y-4">
+            <div>
+              <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                Format
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                {ANIMATION_FORMATS.map((f) => (
+                  <button
+                    key={f.id}
+                    onClick={() => setAnimationFormat(f.id)}
+                    className={`px-3 py-3 rounded-lg border text-xs font-medium transition-colors ${
+                      animationFormat === f.id
+                        ? "bg-primary/10 border-primary text-primary"
+                        : "bg-secondary border-border text-muted-foreground hover:border-muted-foreground"
+                    }`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <label className="flex flex-col gap-1 text-muted-foreground">
+                Frames
+                <input
+                  type="number"
+                  min={2}
+                  max={MAX_ANIMATION_FRAMES}
+                  value={frameTotal}
+                  onChange={(e) =>
+                    setFrameTotal(Math.min(MAX_ANIMATION_FRAMES, Math.max(2, Number(e.target.value) || 2)))
+                  }
+                  className="px-2 py-1.5 bg-secondary border border-border rounded-md text-foreground"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-muted-foreground">
+                FPS
+                <input
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={fps}
+                  onChange={(e) => setFps(Math.min(60, Math.max(1, Number(e.target.value) || 1)))}
+                  className="px-2 py-1.5 bg-secondary border border-border rounded-md text-foreground"
+                />
+              </label>
+              {animationFormat !== "glb" && (
+                <>
+                  <label className="flex flex-col gap-1 text-muted-foreground">
+                    Width
+                    <input
+                      type="number"
+                      min={64}
+                      max={1920}
+                      value={frameSize.width}
+                      onChange={(e) =>
+                        setFrameSize((size) => ({ ...size, width: Math.min(1920, Math.max(64, Number(e.target.value) || 64)) }))
+                      }
+                      className="px-2 py-1.5 bg-secondary border border-border rounded-md text-foreground"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1 text-muted-foreground">
+                    Height
+                    <input
+                      type="number"
+                      min={64}
+                      max={1080}
+                      value={frameSize.height}
+                      onChange={(e) =>
+                        setFrameSize((size) => ({ ...size, height: Math.min(1080, Math.max(64, Number(e.target.value) || 64)) }))
+                      }
+                      className="px-2 py-1.5 bg-secondary border border-border rounded-md text-foreground"
+                    />
+                  </label>
+                </>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Sweeps <code>{PROGRESS_PARAM_NAME}</code> from {progressDef?.min ?? 0} to {progressDef?.max ?? 1}.
+              {animationFormat === "glb" &&
+                " Rigidly moving parts are animated by transform; other parts use morph targets."}
+            </p>
+          </div>
+        ) : (
+          <div className="mb-6">
+            <label className="text-sm font-medium text-muted-foreground mb-2 block">
+              Format
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {MODEL_FORMATS.map((f) => (
+                <button
+                  key={f.id}
+                  onClick={() => setFormat(f.id)}
+                  title={f.hint}
+                  className={`px-4 py-3 rounded-lg border text-sm font-medium transition-colors ${
+                    format === f.id
+                      ? "bg-primary/10 border-primary text-primary"
+                      : "bg-secondary border-border text-muted-foreground hover:border-muted-foreground"
+                  }`}
+                >
+                  .{f.id.toUpperCase()}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-muted-foreground">
+              {MODEL_FORMATS.find((f) => f.id === format)?.hint}
+            </p>
+            {format === "stl" && (
+              <div className="mt-2 grid grid-cols-2 gap-2">
+                {([true, false] as const).map((binary) => (
+                  <button
+                    key={String(binary)}
+                    onClick={() => setStlBinary(binary)}
+                    className={`px-3 py-1.5 rounded-md border text-xs font-medium transition-colors ${
+                      stlBinary === binary
+                        ? "bg-primary/10 border-primary text-primary"
+                        : "bg-secondary border-border text-muted-foreground hover:border-muted-foreground"
+                    }`}
+                  >
+                    {binary ? "Binary" : "ASCII"}
+                  </button>
+                ))}
+              </div>
+            )}
+            {isVectorFormat && zRange && (
+              <div className="mt-3 space-y-2 text-xs">
+                <label className="flex items-center gap-2 text-muted-foreground">
+                  Section 3D parts
+                  <select
+                    value={activeSectionMode}
+                    onChange={(e) => setSectionMode(e.target.value as SectionMode)}
+                    className="bg-secondary border border-border rounded-md px-2 py-1 text-foreground"
+                  >
+                    <option value="none">Off (2D shapes only)</option>
+                    <option value="z">At a Z height</option>
+                    <option value="plane">By a custom plane</option>
+                  </select>
+                </label>
+                {activeSectionMode === "z" && (
+                  <label className="flex items-center gap-2 text-muted-foreground">
+                    Z
+                    <input
+                      type="number"
+                      step={0.1}
+                      value={activeSectionZ}
+                      onChange={(e) => setSectionZ(Number(e.target.value))}
+                      className="w-24 px-2 py-1 bg-secondary border border-border rounded-md text-foreground"
+                    />
+                    mm (model spans {zRange[0].toFixed(2)} to {zRange[1].toFixed(2)})
+                  </label>
+                )}
+                {activeSectionMode === "plane" &&
+                  (["origin", "normal"] as const).map((key) => (
+                    <div key={key} className="flex items-center gap-2 text-muted-foreground">
+                      <span className="w-12 capitalize">{key}</span>
+                      {customPlane[key].map((value, axis) => (
+                        <input
+                          key={axis}
+                          type="number"
+                          step={0.1}
+                          value={value}
+                          aria-label={`${key} ${"xyz"[axis]}`}
+                          onChange={(e) =>
+                            setCustomPlane((plane) => {
+                              const next = [...plane[key]] as SectionPlane["origin"];
+                              next[axis] = Number(e.target.value);
+                              return { ...plane, [key]: next };
+                            })
+                          }
+                          className="w-20 px-2 py-1 bg-secondary border border-border rounded-md text-foreground"
+                        />
+                      ))}
+                    </div>
+                  ))}
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Export button */}
         <button
-          onClick={handleExport}
+          onClick={activeMode === "animation" ? handleExportAnimation : handleExport}
           disabled={isExporting}
           className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
           {isExporting ? (
             <>
               <Loader2 className="w-4 h-4 animate-spin" />
-              Exporting...
+              {status ?? "Exporting..."}
             </>
           ) : (
             <>
               <Download className="w-4 h-4" />
-              Export as .{format.toUpperCase()}
+              {activeMode === "animation"
+                ? `Export ${ANIMATION_FORMATS.find((f) => f.id === animationFormat)?.label}`
+                : `Export as .${format.toUpperCase()}`}
             </>
           )}
         </button>
+
+        {history && (
+          <ExportHistoryList
+            entries={history.entries}
+            versionNumbers={versionNumbers}
+            className="mt-6 pt-4 border-t border-border"
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,62 @@
+"use client";
+
+import { Download, FileClock } from "lucide-react";
+import type { StoredExport } from "@/lib/export-history";
+
+interface ExportHistoryListProps {
+  entries: StoredExport[];
+  versionNumbers: Record<string, number>;
+  className?: string;
+}
+
+function formatBytes(bytes?: number) {
+  if (bytes === undefined) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function ExportHistoryList({ entries, versionNumbers, className = "" }: ExportHistoryListProps) {
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-2 mb-2">
+        <FileClock className="w-4 h-4 text-indigo-500" />
+        <h3 className="text-sm font-medium text-foreground">Export History</h3>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Exports are saved here with the version they came from.</p>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {entries.map((entry) => (
+            <li
+              key={entry._id}
+              className="flex items-center gap-2 px-2 py-1.5 rounded-md text-xs hover:bg-secondary text-muted-foreground"
+            >
+              <span className="font-medium uppercase text-foreground w-8">{entry.format}</span>
+              <span className="truncate flex-1" title={entry.fileName}>
+                {entry.fileName}
+              </span>
+              {versionNumbers[entry.versionId] !== undefined && <span>v{versionNumbers[entry.versionId]}</span>}
+              <span className="tabular-nums">{formatBytes(entry.fileSizeBytes)}</span>
+              <span className="text-muted-foreground/60" title={new Date(entry._creationTime).toLocaleString()}>
+                {new Date(entry._creationTime).toLocaleDateString()}
+              </span>
+              {entry.url ? (
+                <a
+                  href={entry.url}
+                  download={entry.fileName}
+                  className="p-1 hover:text-foreground transition-colors"
+                  title="Download"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                </a>
+              ) : (
+                <span className="w-5" />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
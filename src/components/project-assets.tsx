@@ -0,0 +1,111 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Copy, Package, Trash2, Upload } from "lucide-react";
+import type { ProjectAssets } from "@/lib/use-project-assets";
+
+interface ProjectAssetsPanelProps {
+  assets: ProjectAssets;
+  className?: string;
+}
+
+function formatSize(bounds?: { min: number[]; max: number[] }) {
+  if (!bounds) return "";
+  return bounds.max.map((max, axis) => Number((max - bounds.min[axis]).toFixed(1))).join(" × ") + " mm";
+}
+
+export function ProjectAssetsPanel({ assets, className = "" }: ProjectAssetsPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [copiedPath, setCopiedPath] = useState<string | null>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    for (const file of Array.from(files ?? [])) {
+      await assets.upload(file);
+    }
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const copyRequire = (path: string) => {
+    void navigator.clipboard.writeText(`require('./${path}')`);
+    setCopiedPath(path);
+    setTimeout(() => setCopiedPath((current) => (current === path ? null : current)), 1500);
+  };
+
+  return (
+    <div
+      className={className}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        void handleFiles(e.dataTransfer.files);
+      }}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <Package className="w-4 h-4 text-indigo-500" />
+        <h3 className="text-sm font-medium text-foreground flex-1">Assets</h3>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={assets.isUploading}
+          className="flex items-center gap-1.5 px-2 py-1 text-xs rounded-md hover:bg-secondary text-muted-foreground hover:text-foreground disabled:opacity-50 transition-colors"
+        >
+          <Upload className="w-3.5 h-3.5" />
+          {assets.isUploading ? "Importing…" : "Import file"}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".stl,.obj,.3mf,.svg,.dxf"
+          multiple
+          className="hidden"
+          onChange={(e) => void handleFiles(e.target.files)}
+        />
+      </div>
+      {assets.error && <p className="text-xs text-red-500 mb-2">{assets.error}</p>}
+      {assets.entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Drop an STL, OBJ or 3MF mesh (solid) or an SVG or DXF drawing (2D profile) here, then use it in code
+          with <code className="font-mono">require(&apos;./assets/name.stl&apos;)</code>.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {assets.entries.map((entry) => (
+            <li
+              key={entry._id}
+              className="flex items-center gap-2 px-2 py-1.5 rounded-md text-xs hover:bg-secondary text-muted-foreground"
+            >
+              <span className="font-mono text-foreground truncate flex-1" title={entry.fileName}>
+                ./{entry.path}
+              </span>
+              {entry.triangleCount !== undefined ? (
+                <span className="tabular-nums">{entry.triangleCount.toLocaleString()} tris</span>
+              ) : (
+                <span
+                  className="tabular-nums"
+                  title={entry.layers?.length ? `Layers (append #layer to the path): ${entry.layers.join(", ")}` : undefined}
+                >
+                  {entry.outlineCount ?? 0} outlines
+                  {entry.layers && entry.layers.length > 1 ? ` · ${entry.layers.length} layers` : ""}
+                </span>
+              )}
+              <span className="tabular-nums">{formatSize(entry.bounds)}</span>
+              <button
+                onClick={() => copyRequire(entry.path)}
+                className="p-1 hover:text-foreground transition-colors"
+                title={copiedPath === entry.path ? "Copied" : "Copy require()"}
+              >
+                <Copy className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => void assets.remove(entry._id)}
+                className="p-1 hover:text-red-500 transition-colors"
+                title="Delete asset"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
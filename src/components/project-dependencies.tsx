@@ -0,0 +1,72 @@
+"use client";
+
+import { Lock, RefreshCw, Trash2 } from "lucide-react";
+import type { ProjectDependencies } from "@/lib/use-project-dependencies";
+
+interface ProjectDependenciesPanelProps {
+  dependencies: ProjectDependencies;
+  className?: string;
+}
+
+function formatBytes(bytes: number) {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export function ProjectDependenciesPanel({ dependencies, className = "" }: ProjectDependenciesPanelProps) {
+  const { lastUpdate } = dependencies;
+
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-2 mb-2">
+        <Lock className="w-4 h-4 text-amber-500" />
+        <h3 className="text-sm font-medium text-foreground flex-1">Dependencies</h3>
+        <button
+          onClick={() => void dependencies.update()}
+          disabled={dependencies.isUpdating || dependencies.entries.length === 0}
+          className="flex items-center gap-1.5 px-2 py-1 text-xs rounded-md hover:bg-secondary text-muted-foreground hover:text-foreground disabled:opacity-50 transition-colors"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${dependencies.isUpdating ? "animate-spin" : ""}`} />
+          {dependencies.isUpdating ? "Checking…" : "Update dependencies"}
+        </button>
+      </div>
+      {dependencies.error && <p className="text-xs text-red-500 mb-2">{dependencies.error}</p>}
+      {lastUpdate && !dependencies.error && (
+        <p className="text-xs text-muted-foreground mb-2">
+          {lastUpdate.changed.length === 0
+            ? `All ${lastUpdate.checked} pinned modules are up to date.`
+            : `Re-pinned ${lastUpdate.changed.join(", ")}.`}
+        </p>
+      )}
+      {dependencies.entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Remote and <code className="font-mono">/jscad-libs</code> modules are pinned here the first time the
+          model loads them, so later changes upstream cannot alter this project until you update.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {dependencies.entries.map((entry) => (
+            <li
+              key={entry._id}
+              className="flex items-center gap-2 px-2 py-1.5 rounded-md text-xs hover:bg-secondary text-muted-foreground"
+            >
+              <span className="font-mono text-foreground truncate flex-1" title={entry.moduleId}>
+                {entry.moduleId}
+              </span>
+              <span className={`font-mono ${entry.url ? "" : "text-red-500"}`} title={`sha256 ${entry.hash}`}>
+                {entry.url ? entry.hash.slice(0, 8) : "missing"}
+              </span>
+              <span className="tabular-nums">{formatBytes(entry.sizeBytes)}</span>
+              <button
+                onClick={() => void dependencies.remove(entry._id)}
+                className="p-1 hover:text-red-500 transition-colors"
+                title="Unpin (the next run pins the live version)"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
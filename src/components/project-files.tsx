@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { FileCode2, Folder, Plus, Trash2 } from "lucide-react";
+import { MAIN_FILE, normalizeModulePath, type ProjectFiles } from "@/lib/project-files";
+
+interface ProjectFileTreeProps {
+  files: ProjectFiles;
+  activeFile: string;
+  onSelect: (path: string) => void;
+  onCreate: (path: string) => void;
+  onDelete: (path: string) => void;
+  readOnly?: boolean;
+  className?: string;
+}
+
+type TreeRow = { kind: "folder" | "file"; path: string; name: string; depth: number };
+
+/** Folder rows followed by their files, main.jscad first. */
+function treeRows(files: ProjectFiles): TreeRow[] {
+  const rows: TreeRow[] = [{ kind: "file", path: MAIN_FILE, name: MAIN_FILE, depth: 0 }];
+  const folders = new Set<string>();
+  for (const path of Object.keys(files).sort()) {
+    const segments = path.split("/");
+    segments.slice(0, -1).forEach((name, depth) => {
+      const folder = segments.slice(0, depth + 1).join("/");
+      if (folders.has(folder)) return;
+      folders.add(folder);
+      rows.push({ kind: "folder", path: folder, name, depth });
+    });
+    rows.push({ kind: "file", path, name: segments[segments.length - 1], depth: segments.length - 1 });
+  }
+  return rows;
+}
+
+export function ProjectFileTree({
+  files,
+  activeFile,
+  onSelect,
+  onCreate,
+  onDelete,
+  readOnly = false,
+  className = "",
+}: ProjectFileTreeProps) {
+  const [draftPath, setDraftPath] = useState<string | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const commitDraft = () => {
+    if (draftPath === null) return;
+    if (!draftPath.trim()) {
+      setDraftPath(null);
+      return;
+    }
+    const path = normalizeModulePath(draftPath);
+    if (!path || path === MAIN_FILE) {
+      setDraftError("Use a path like lib/fasteners.jscad");
+      return;
+    }
+    if (path in files) {
+      setDraftError(`${path} already exists`);
+      return;
+    }
+    onCreate(path);
+    setDraftPath(null);
+    setDraftError(null);
+  };
+
+  return (
+    <div className={`flex flex-col text-xs ${className}`}>
+      <div className="flex items-center gap-1 px-2 py-1.5 border-b border-border">
+        <span className="flex-1 font-medium text-muted-foreground">Files</span>
+        {!readOnly && (
+          <button
+            onClick={() => {
+              setDraftPath("");
+              setDraftError(null);
+            }}
+            className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
+            title="New file"
+          >
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+      <ul className="flex-1 min-h-0 overflow-auto py-1">
+        {treeRows(files).map((row) =>
+          row.kind === "folder" ? (
+            <li
+              key={`folder:${row.path}`}
+              className="flex items-center gap-1.5 px-2 py-1 text-muted-foreground"
+              style={{ paddingLeft: 8 + row.depth * 12 }}
+            >
+              <Folder className="w-3.5 h-3.5 shrink-0" />
+              <span className="truncate">{row.name}</span>
+            </li>
+          ) : (
+            <li
+              key={row.path}
+              className={`group flex items-center gap-1.5 px-2 py-1 cursor-pointer ${
+                row.path === activeFile
+                  ? "bg-secondary text-foreground"
+                  : "text-muted-foreground hover:bg-secondary/60 hover:text-foreground"
+              }`}
+              style={{ paddingLeft: 8 + row.depth * 12 }}
+              onClick={() => onSelect(row.path)}
+              title={row.path}
+            >
+              <FileCode2 className="w-3.5 h-3.5 shrink-0 text-emerald-500" />
+              <span className="truncate flex-1 font-mono">{row.name}</span>
+              {!readOnly && row.path !== MAIN_FILE && (
+                <button
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onDelete(row.path);
+                  }}
+                  className="p-0.5 opacity-0 group-hover:opacity-100 hover:text-red-500 transition-opacity"
+                  title="Delete file"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </li>
+          )
+        )}
+      </ul>
+      {draftPath !== null && (
+        <div className="px-2 py-1.5 border-t border-border">
+          <input
+            autoFocus
+            value={draftPath}
+            onChange={(event) => {
+              setDraftPath(event.target.value);
+              setDraftError(null);
+            }}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") commitDraft();
+              if (event.key === "Escape") setDraftPath(null);
+            }}
+            onBlur={commitDraft}
+            placeholder="lib/fasteners.jscad"
+            className="w-full px-1.5 py-1 rounded border border-border bg-background font-mono text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+          {draftError && <p className="mt-1 text-red-500">{draftError}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,16 @@
 "use client";
 
 import { useState } from "react";
-import { Settings, X, Key, Cpu, Sun, Moon, Monitor } from "lucide-react";
+import { Settings, X, Key, Cpu, Server, Sun, Moon, Monitor } from "lucide-react";
 import {
   getOpenRouterSettings,
   saveOpenRouterSettings,
   AVAILABLE_MODELS,
+  type OpenRouterSettings,
 } from "@/lib/openrouter";
+import { LLM_PROVIDERS, getProviderInfo, type LlmProviderId } from "@/lib/llm-providers";
 import { useTheme } from "@/lib/theme-provider";
+import { UsagePanel } from "./usage-panel";
 
 interface SettingsDialogProps {
   isOpen: boolean;
@@ -20,6 +23,8 @@ export function SettingsDialog({ isOpen, onClose }: SettingsDialogProps) {
 
   if (!isOpen) return null;
 
+  const providerInfo = getProviderInfo(settings.provider);
+
   const handleSave = () => {
     saveOpenRouterSettings(settings);
     onClose();
@@ -27,7 +32,7 @@ export function SettingsDialog({ isOpen, onClose }: SettingsDialogProps) {
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-      <div className="bg-card border border-border rounded-xl w-full max-w-md p-6">
+      <div className="bg-card border border-border rounded-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6">
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center gap-2">
             <Settings className="w-5 h-5 text-muted-foreground" />
@@ -41,55 +46,170 @@ export function SettingsDialog({ isOpen, onClose }: SettingsDialogProps) {
           </button>
         </div>
 
-        {/* OpenRouter API Key */}
-        <div className="mb-5">
-          <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
-            <Key className="w-3.5 h-3.5" />
-            OpenRouter API Key
-          </label>
-          <input
-            type="password"
-            value={settings.apiKey}
-            onChange={(e) =>
-              setSettings({ ...settings, apiKey: e.target.value })
-            }
-            placeholder="sk-or-..."
-            className="w-full bg-secondary border border-input rounded-lg px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring"
-          />
-          <p className="text-xs text-muted-foreground mt-1">
-            Get your key at{" "}
-            <a
-              href="https://openrouter.ai/keys"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-primary hover:underline"
-            >
-              openrouter.ai/keys
-            </a>
-          </p>
-        </div>
-
-        {/* Model selection */}
+        {/* Provider selection */}
         <div className="mb-5">
           <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
-            <Cpu className="w-3.5 h-3.5" />
-            Model
+            <Server className="w-3.5 h-3.5" />
+            Provider
           </label>
           <select
-            value={settings.model}
+            value={settings.provider}
             onChange={(e) =>
-              setSettings({ ...settings, model: e.target.value })
+              setSettings({ ...settings, provider: e.target.value as LlmProviderId })
             }
             className="w-full bg-secondary border border-input rounded-lg px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
           >
-            {AVAILABLE_MODELS.map((m) => (
-              <option key={m.id} value={m.id}>
-                {m.name} ({m.provider})
+            {LLM_PROVIDERS.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
               </option>
             ))}
           </select>
         </div>
 
+        {settings.provider === "openrouter" ? (
+          <>
+            {/* OpenRouter API Key */}
+            <div className="mb-5">
+              <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
+                <Key className="w-3.5 h-3.5" />
+                OpenRouter API Key
+              </label>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) =>
+                  setSettings({ ...settings, apiKey: e.target.value })
+                }
+                placeholder="sk-or-..."
+                className="w-full bg-secondary border border-input rounded-lg px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Get your key at{" "}
+                <a
+                  href="https://openrouter.ai/keys"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  openrouter.ai/keys
+                </a>
+              </p>
+            </div>
+
+            {/* Model selection */}
+            <div className="mb-5">
+              <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
+                <Cpu className="w-3.5 h-3.5" />
+                Model
+              </label>
+              <select
+                value={settings.model}
+                onChange={(e) =>
+                  setSettings({ ...settings, model: e.target.value })
+                }
+                className="w-full bg-secondary border border-input rounded-lg px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              >
+                {AVAILABLE_MODELS.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.name} ({m.provider})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </>
+        ) : (
+          <>
+            {/* Provider API Key */}
+            <div className="mb-5">
+              <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
+                <Key className="w-3.5 h-3.5" />
+                {providerInfo.name} API Key
+              </label>
+              <input
+                type="password"
+                value={settings.providerApiKeys[settings.provider] ?? ""}
+                onChange={(e) =>
+                  setSettings({
+                    ...settings,
+                    providerApiKeys: {
+                      ...settings.providerApiKeys,
+                      [settings.provider]: e.target.value,
+                    },
+                  })
+                }
+                placeholder={providerInfo.apiKeyPlaceholder}
+                className="w-full bg-secondary border border-input rounded-lg px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Leave empty to use {providerInfo.apiKeyEnv} on the server.
+              </p>
+            </div>
+
+            {/* Base URL (OpenAI-compatible servers only) */}
+            {settings.provider === "openai-compatible" && (
+              <div className="mb-5">
+                <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
+                  <Server className="w-3.5 h-3.5" />
+                  Base URL
+                </label>
+                <input
+                  type="text"
+                  value={settings.providerBaseUrl}
+                  onChange={(e) =>
+                    setSettings({ ...settings, providerBaseUrl: e.target.value })
+                  }
+                  placeholder={providerInfo.defaultBaseUrl}
+                  className="w-full bg-secondary border border-input rounded-lg px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  llama.cpp, vLLM, Ollama or any server exposing /chat/completions
+                </p>
+              </div>
+            )}
+
+            {/* Model id and reasoning */}
+            <div className="mb-5">
+              <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
+                <Cpu className="w-3.5 h-3.5" />
+                Model
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={settings.providerModels[settings.provider] ?? ""}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      providerModels: {
+                        ...settings.providerModels,
+                        [settings.provider]: e.target.value,
+                      },
+                    })
+                  }
+                  placeholder={providerInfo.defaultModel}
+                  className="flex-1 min-w-0 bg-secondary border border-input rounded-lg px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                />
+                <select
+                  value={settings.providerReasoning}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      providerReasoning: e.target.value as OpenRouterSettings["providerReasoning"],
+                    })
+                  }
+                  title="Reasoning effort"
+                  className="bg-secondary border border-input rounded-lg px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                >
+                  <option value="off">No reasoning</option>
+                  <option value="low">Reasoning: low</option>
+                  <option value="high">Reasoning: high</option>
+                </select>
+              </div>
+            </div>
+          </>
+        )}
+
         {/* Theme selection */}
         <div className="mb-5">
           <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
@@ -144,6 +264,8 @@ export function SettingsDialog({ isOpen, onClose }: SettingsDialogProps) {
           </div>
         </div>
 
+        <UsagePanel />
+
         {/* Save */}
         <div className="flex gap-3">
           <button
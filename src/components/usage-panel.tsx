@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { BarChart3 } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { useAuth } from "@/lib/auth-client";
+import { formatCost, formatTokenCount } from "@/lib/token-usage";
+
+/**
+ * Monthly token usage and cost for the signed-in owner, with the optional
+ * budget that `runCodegen` enforces before each model request.
+ */
+export function UsagePanel() {
+  const { userId } = useAuth();
+  const summary = useQuery(api.usage.summary, userId ? { ownerId: userId } : "skip");
+  const setBudget = useMutation(api.usage.setBudget);
+  const [limitDraft, setLimitDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!userId) return null;
+
+  const limit = summary?.monthlyLimitUsd ?? null;
+  const limitInput = limitDraft ?? (limit === null ? "" : String(limit));
+  const spent = summary?.total.cost ?? 0;
+
+  const handleSaveLimit = async () => {
+    const trimmed = limitInput.trim();
+    const value = trimmed === "" ? undefined : Number(trimmed);
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      setError("Enter a non-negative amount, or leave empty for no limit.");
+      return;
+    }
+    try {
+      await setBudget({ ownerId: userId, monthlyLimitUsd: value });
+      setLimitDraft(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save limit");
+    }
+  };
+
+  return (
+    <div className="mb-5">
+      <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
+        <BarChart3 className="w-3.5 h-3.5" />
+        Usage {summary ? `(${summary.month})` : ""}
+      </label>
+
+      {summary === undefined ? (
+        <p className="text-xs text-muted-foreground">Loading usage...</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="rounded-lg bg-secondary px-2 py-1.5">
+              <div className="text-sm font-medium text-foreground">{formatCost(spent)}</div>
+              <div className="text-[10px] text-muted-foreground">
+                {limit === null ? "spent" : `of ${formatCost(limit)}`}
+              </div>
+            </div>
+            <div className="rounded-lg bg-secondary px-2 py-1.5">
+              <div className="text-sm font-medium text-foreground">
+                {formatTokenCount(summary.total.promptTokens + summary.total.completionTokens)}
+              </div>
+              <div className="text-[10px] text-muted-foreground">tokens</div>
+            </div>
+            <div className="rounded-lg bg-secondary px-2 py-1.5">
+              <div className="text-sm font-medium text-foreground">{summary.total.prompts}</div>
+              <div className="text-[10px] text-muted-foreground">prompts</div>
+            </div>
+          </div>
+
+          {limit !== null && limit > 0 && (
+            <div className="h-1 rounded-full bg-muted overflow-hidden">
+              <div
+                className={`h-full ${spent >= limit ? "bg-destructive" : "bg-primary"}`}
+                style={{ width: `${Math.min(100, (spent / limit) * 100)}%` }}
+              />
+            </div>
+          )}
+
+          {summary.projects.length > 0 && (
+            <ul className="max-h-28 overflow-y-auto text-xs divide-y divide-border">
+              {summary.projects.map((project) => (
+                <li key={project.projectId ?? "playground"} className="flex items-center justify-between gap-2 py-1">
+                  <span className="truncate text-foreground">{project.name}</span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {formatTokenCount(project.promptTokens + project.completionTokens)} · {formatCost(project.cost)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={limitInput}
+              onChange={(e) => setLimitDraft(e.target.value)}
+              placeholder="Monthly limit (USD), empty for none"
+              className="flex-1 min-w-0 bg-secondary border border-input rounded-lg px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+            />
+            <button
+              type="button"
+              onClick={handleSaveLimit}
+              disabled={limitDraft === null}
+              className="px-3 py-2 border border-border text-muted-foreground rounded-lg text-sm hover:bg-secondary transition-colors disabled:opacity-50"
+            >
+              Set limit
+            </button>
+          </div>
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          <p className="text-xs text-muted-foreground">
+            Costs are reported by OpenRouter or estimated from list prices; local models count tokens only.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
 "use client";
 
 import { History, GitBranch } from "lucide-react";
+import type { ProjectFileEntry } from "@/lib/project-files";
 
 interface Version {
   _id: string;
   versionNumber: number;
   source: "ai" | "manual" | "parameter-tweak";
   prompt?: string;
-  code?: string;
+  jscadCode?: string;
+  files?: ProjectFileEntry[];
   isValid: boolean;
   errorMessage?: string;
   _creationTime: number;
@@ -16,7 +18,7 @@ interface Version {
 interface VersionHistoryProps {
   versions: Version[];
   currentVersionId?: string | null;
-  onLoadVersion: (code: string, versionId: string) => void;
+  onLoadVersion: (code: string, versionId: string, files?: ProjectFileEntry[]) => void;
   className?: string;
 }
 
@@ -43,7 +45,7 @@ export function VersionHistory({
       {versions.map((version) => (
         <button
           key={version._id}
-          onClick={() => onLoadVersion(version.code || "", version._id)}
+          onClick={() => onLoadVersion(version.jscadCode || "", version._id, version.files)}
           className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
             version._id === currentVersionId
               ? "bg-primary/20 border border-primary/30 text-primary"
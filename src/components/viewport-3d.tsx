@@ -33,17 +33,35 @@ export interface Viewport3DHandle {
   zoomOut: () => void;
   reset: () => void;
   captureImage: () => string | null;
+  /**
+   * Renders each geometry set offscreen from the current camera angle and
+   * theme, without touching the on-screen view.
+   */
+  renderFrames: (
+    frames: unknown[][],
+    size: { width: number; height: number },
+    onProgress?: (done: number) => void
+  ) => Promise<RenderedFrame[]>;
+}
+
+export interface RenderedFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
 }
 
 interface Viewport3DProps {
   geometry: unknown[];
   isGenerating?: boolean;
   className?: string;
+  /** Indices into `geometry` drawn in the collision color, e.g. a colliding part pair. */
+  highlightParts?: number[];
 }
 
 type Vertex3 = [number, number, number];
 
 const EDGE_NORMAL_DOT_THRESHOLD = 0.999;
+const HIGHLIGHT_COLOR = 0xef4444;
 
 function disposeObject3D(object: Object3D) {
   object.traverse((child) => {
@@ -200,7 +218,42 @@ function jscadToThreeEdgeGeometry(geom: unknown): BufferGeometry | null {
   return edgeGeometry;
 }
 
-export const Viewport3D = forwardRef<Viewport3DHandle, Viewport3DProps>(({ geometry, isGenerating, className = "" }, ref) => {
+function addGeometryMeshes(
+  group: Group,
+  geometry: unknown[],
+  colors = { solid: 0xc0c0c0, edge: 0x000000 },
+  highlight: number[] = []
+) {
+  for (const [index, geom] of geometry.entries()) {
+    const threeGeom = jscadToThreeGeometry(geom);
+    if (!threeGeom) continue;
+    const edgeGeom = jscadToThreeEdgeGeometry(geom);
+    const highlighted = highlight.includes(index);
+
+    const solidMaterial = new MeshPhongMaterial({
+      color: highlighted ? HIGHLIGHT_COLOR : colors.solid,
+      opacity: highlighted ? 0.9 : 0.75,
+      transparent: true,
+      side: DoubleSide,
+    });
+    const mesh = new Mesh(threeGeom, solidMaterial);
+    group.add(mesh);
+
+    if (edgeGeom) {
+      const edgeMaterial = new LineBasicMaterial({
+        color: colors.edge,
+        depthTest: true,
+        depthWrite: false,
+        transparent: true,
+        opacity: 0.9,
+      });
+      const edges = new LineSegments(edgeGeom, edgeMaterial);
+      group.add(edges);
+    }
+  }
+}
+
+export const Viewport3D = forwardRef<Viewport3DHandle, Viewport3DProps>(({ geometry, isGenerating, className = "", highlightParts }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<Scene | null>(null);
   const cameraRef = useRef<PerspectiveCamera | null>(null);
@@ -213,6 +266,12 @@ export const Viewport3D = forwardRef<Viewport3DHandle, Viewport3DProps>(({ geome
   const isDraggingRef = useRef(false);
   const lastPos = useRef({ x: 0, y: 0 });
   const renderFrameRef = useRef<number | null>(null);
+  const { resolvedTheme } = useTheme();
+  const resolvedThemeRef = useRef(resolvedTheme);
+
+  useEffect(() => {
+    resolvedThemeRef.current = resolvedTheme;
+  }, [resolvedTheme]);
 
   const renderScene = useCallback(() => {
     const renderer = rendererRef.current;
@@ -284,7 +343,57 @@ export const Viewport3D = forwardRef<Viewport3DHandle, Viewport3DProps>(({ geome
         return null;
       }
     },
-  }), [renderScene, syncCamera]);
+    renderFrames: async (frames, { width, height }, onProgress) => {
+      const scene = sceneRef.current;
+      const camera = cameraRef.current;
+      const meshGroup = meshGroupRef.current;
+      if (!scene || !camera || !meshGroup) {
+        throw new Error("Viewport renderer is not ready yet.");
+      }
+
+      const renderer = new WebGLRenderer({ antialias: true, preserveDrawingBuffer: true });
+      renderer.setPixelRatio(1);
+      renderer.setSize(width, height, false);
+      const frameCamera = camera.clone();
+      frameCamera.aspect = width / height;
+      frameCamera.updateProjectionMatrix();
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext("2d", { willReadFrequently: true });
+      if (!context) {
+        renderer.dispose();
+        throw new Error("2D canvas is not available for frame capture.");
+      }
+
+      const isDark = resolvedThemeRef.current === "dark";
+      const colors = isDark ? { solid: 0xc0c0c0, edge: 0x000000 } : { solid: 0x2f2f2f, edge: 0x111827 };
+      const rendered: RenderedFrame[] = [];
+      meshGroup.visible = false;
+      try {
+        for (const [index, frame] of frames.entries()) {
+          const frameGroup = new Group();
+          addGeometryMeshes(frameGroup, frame, colors);
+          scene.add(frameGroup);
+          renderer.render(scene, frameCamera);
+          scene.remove(frameGroup);
+          disposeObject3D(frameGroup);
+
+          context.clearRect(0, 0, width, height);
+          context.drawImage(renderer.domElement, 0, 0, width, height);
+          rendered.push({ width, height, data: context.getImageData(0, 0, width, height).data });
+          onProgress?.(index + 1);
+          // Let the page paint progress between frames.
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+      } finally {
+        meshGroup.visible = true;
+        renderer.dispose();
+        requestRender();
+      }
+      return rendered;
+    },
+  }), [renderScene, requestRender, syncCamera]);
 
   // Initialize Three.js scene
   useEffect(() => {
@@ -400,7 +509,6 @@ export const Viewport3D = forwardRef<Viewport3DHandle, Viewport3DProps>(({ geome
     };
   }, [requestRender, syncCamera]);
 
-  const { resolvedTheme } = useTheme();
 
   // Apply theme to scene, renderer and helpers without recreating the whole scene.
   useEffect(() => {
@@ -540,34 +648,9 @@ export const Viewport3D = forwardRef<Viewport3DHandle, Viewport3DProps>(({ geome
       return;
     }
 
-    for (const geom of geometry) {
-      const threeGeom = jscadToThreeGeometry(geom);
-      if (!threeGeom) continue;
-      const edgeGeom = jscadToThreeEdgeGeometry(geom);
-
-      const solidMaterial = new MeshPhongMaterial({
-        color: 0xc0c0c0,
-        opacity: 0.75,
-        transparent: true,
-        side: DoubleSide,
-      });
-      const mesh = new Mesh(threeGeom, solidMaterial);
-      group.add(mesh);
-
-      if (edgeGeom) {
-        const edgeMaterial = new LineBasicMaterial({
-          color: 0x000000,
-          depthTest: true,
-          depthWrite: false,
-          transparent: true,
-          opacity: 0.9,
-        });
-        const edges = new LineSegments(edgeGeom, edgeMaterial);
-        group.add(edges);
-      }
-    }
+    addGeometryMeshes(group, geometry, undefined, highlightParts);
     requestRender();
-  }, [geometry, isGenerating, requestRender]);
+  }, [geometry, highlightParts, isGenerating, requestRender]);
 
   // Mouse interaction
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -0,0 +1,315 @@
+/**
+ * Encoders for animation exports: a store-only ZIP for PNG frame sequences
+ * and an animated GIF encoder. Both work on plain byte arrays so they run in
+ * the browser and in tests without extra dependencies.
+ */
+
+export interface RgbaFrame {
+  width: number;
+  height: number;
+  /** Row-major RGBA, top row first (as in `ImageData.data`). */
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+/** `count` evenly spaced values from `min` to `max`, both included. */
+export function sweepValues(count: number, [min, max]: [number, number] = [0, 1]) {
+  const frames = Math.max(2, Math.floor(count));
+  return Array.from({ length: frames }, (_, i) => Number((min + ((max - min) * i) / (frames - 1)).toFixed(6)));
+}
+
+/** `frame-001.png` style names, padded to the frame count. */
+export function frameFileName(index: number, total: number, extension: string) {
+  return `frame-${String(index + 1).padStart(Math.max(3, String(total).length), "0")}.${extension}`;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private current: number[] = [];
+  length = 0;
+
+  byte(value: number) {
+    this.current.push(value & 0xff);
+    this.length += 1;
+    if (this.current.length >= 65536) this.flush();
+  }
+
+  u16(value: number) {
+    this.byte(value);
+    this.byte(value >>> 8);
+  }
+
+  u32(value: number) {
+    this.u16(value & 0xffff);
+    this.u16(value >>> 16);
+  }
+
+  bytes(data: Uint8Array) {
+    this.flush();
+    this.chunks.push(data);
+    this.length += data.length;
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  private flush() {
+    if (this.current.length === 0) return;
+    this.chunks.push(Uint8Array.from(this.current));
+    this.current = [];
+  }
+
+  toBytes() {
+    this.flush();
+    const out = new Uint8Array(this.length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+}
+
+/** Uncompressed ZIP archive. PNG frames are already compressed, so deflate would gain little. */
+export function createZip(entries: ZipEntry[], date = new Date()) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  const encoder = new TextEncoder();
+  const out = new ByteWriter();
+  const central = new ByteWriter();
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const offset = out.length;
+    const header = (signature: number) => {
+      const writer = signature === 0x04034b50 ? out : central;
+      writer.u32(signature);
+      if (writer === central) writer.u16(20);
+      writer.u16(20);
+      writer.u16(0x0800); // UTF-8 names
+      writer.u16(0);
+      writer.u16(time);
+      writer.u16(day);
+      writer.u32(crc);
+      writer.u32(entry.data.length);
+      writer.u32(entry.data.length);
+      writer.u16(name.length);
+      writer.u16(0);
+    };
+
+    header(0x04034b50);
+    out.bytes(name);
+    out.bytes(entry.data);
+
+    header(0x02014b50);
+    central.u16(0); // comment length
+    central.u16(0); // disk number
+    central.u16(0); // internal attributes
+    central.u32(0); // external attributes
+    central.u32(offset);
+    central.bytes(name);
+  }
+
+  const centralOffset = out.length;
+  const directory = central.toBytes();
+  out.bytes(directory);
+  out.u32(0x06054b50);
+  out.u16(0);
+  out.u16(0);
+  out.u16(entries.length);
+  out.u16(entries.length);
+  out.u32(directory.length);
+  out.u32(centralOffset);
+  out.u16(0);
+  return out.toBytes();
+}
+
+/**
+ * Popularity palette over 15-bit color buckets, shared by every frame so
+ * colors do not flicker between frames.
+ */
+function buildPalette(frames: RgbaFrame[]) {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  for (const frame of frames) {
+    const pixels = frame.width * frame.height;
+    const stride = Math.max(1, Math.floor(pixels / 65536));
+    for (let p = 0; p < pixels; p += stride) {
+      const i = p * 4;
+      const key = ((frame.data[i] >> 3) << 10) | ((frame.data[i + 1] >> 3) << 5) | (frame.data[i + 2] >> 3);
+      counts[key] += 1;
+      sums[key * 3] += frame.data[i];
+      sums[key * 3 + 1] += frame.data[i + 1];
+      sums[key * 3 + 2] += frame.data[i + 2];
+    }
+  }
+  const used = [...counts.keys()].filter((key) => counts[key] > 0).sort((a, b) => counts[b] - counts[a]);
+  const palette = new Uint8Array(256 * 3);
+  const colors = used.slice(0, 256);
+  colors.forEach((key, index) => {
+    for (let c = 0; c < 3; c++) palette[index * 3 + c] = Math.round(sums[key * 3 + c] / counts[key]);
+  });
+  return { palette, size: Math.max(1, colors.length) };
+}
+
+function indexFrame(frame: RgbaFrame, palette: Uint8Array, size: number, lookup: Int16Array) {
+  const pixels = frame.width * frame.height;
+  const indices = new Uint8Array(pixels);
+  for (let p = 0; p < pixels; p++) {
+    const i = p * 4;
+    const key = ((frame.data[i] >> 3) << 10) | ((frame.data[i + 1] >> 3) << 5) | (frame.data[i + 2] >> 3);
+    let index = lookup[key];
+    if (index < 0) {
+      const r = ((key >> 10) << 3) + 4;
+      const g = (((key >> 5) & 31) << 3) + 4;
+      const b = ((key & 31) << 3) + 4;
+      let best = Infinity;
+      for (let candidate = 0; candidate < size; candidate++) {
+        const dr = palette[candidate * 3] - r;
+        const dg = palette[candidate * 3 + 1] - g;
+        const db = palette[candidate * 3 + 2] - b;
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < best) {
+          best = distance;
+          index = candidate;
+        }
+      }
+      lookup[key] = index;
+    }
+    indices[p] = index;
+  }
+  return indices;
+}
+
+/** GIF LZW with variable code size, split into data sub-blocks. */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number) {
+  const out = new ByteWriter();
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emitByte = (value: number) => {
+    block.push(value);
+    if (block.length === 255) {
+      out.byte(255);
+      for (const byte of block) out.byte(byte);
+      block.length = 0;
+    }
+  };
+  let codeSize = minCodeSize + 1;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      emitByte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  emit(clearCode);
+
+  let prefix = indices.length > 0 ? indices[0] : 0;
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i];
+    const key = (prefix << 8) | value;
+    const known = table.get(key);
+    if (known !== undefined) {
+      prefix = known;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode === 1 << codeSize) codeSize += 1;
+      table.set(key, nextCode++);
+    }
+    prefix = value;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) emitByte(bitBuffer & 0xff);
+  if (block.length > 0) {
+    out.byte(block.length);
+    for (const byte of block) out.byte(byte);
+  }
+  out.byte(0);
+  return out.toBytes();
+}
+
+/** Animated GIF with one global palette. `loop` 0 repeats forever. */
+export function encodeGif(frames: RgbaFrame[], options: { delayMs: number; loop?: number }) {
+  if (frames.length === 0) throw new Error("No frames to encode");
+  const { width, height } = frames[0];
+  if (frames.some((frame) => frame.width !== width || frame.height !== height)) {
+    throw new Error("All GIF frames must have the same size");
+  }
+
+  const { palette, size } = buildPalette(frames);
+  const lookup = new Int16Array(32768).fill(-1);
+  const delay = Math.max(2, Math.round(options.delayMs / 10));
+  const out = new ByteWriter();
+
+  out.ascii("GIF89a");
+  out.u16(width);
+  out.u16(height);
+  out.byte(0xf7); // global color table, 8 bits per channel, 256 entries
+  out.byte(0);
+  out.byte(0);
+  out.bytes(palette);
+
+  out.bytes(Uint8Array.from([0x21, 0xff, 0x0b]));
+  out.ascii("NETSCAPE2.0");
+  out.bytes(Uint8Array.from([0x03, 0x01]));
+  out.u16(options.loop ?? 0);
+  out.byte(0);
+
+  for (const frame of frames) {
+    out.bytes(Uint8Array.from([0x21, 0xf9, 0x04, 0x04]));
+    out.u16(delay);
+    out.byte(0);
+    out.byte(0);
+
+    out.byte(0x2c);
+    out.u16(0);
+    out.u16(0);
+    out.u16(width);
+    out.u16(height);
+    out.byte(0);
+    out.byte(8);
+    out.bytes(lzwEncode(indexFrame(frame, palette, size, lookup), 8));
+  }
+
+  out.byte(0x3b);
+  return out.toBytes();
+}
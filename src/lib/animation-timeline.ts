@@ -0,0 +1,245 @@
+import type { ExtractedParameter } from "./parameter-extractor";
+
+/**
+ * Timeline math for animating model parameters. Time is normalized to [0, 1]
+ * over one pass; `durationSec` scales it to wall-clock time. Frames are
+ * quantized so that repeated passes hit the same parameter values and can be
+ * served from a frame cache.
+ */
+
+export const PROGRESS_PARAM_NAME = "progress";
+/** Optional playback params a model may declare (kinematics roadmap Phase 5). */
+export const PLAYBACK_PARAM_NAMES = ["autoPlay", "durationSec", "direction"] as const;
+
+export type PlaybackMode = "once" | "loop" | "pingpong";
+export type PlaybackDirection = "forward" | "reverse";
+
+export interface TimelineSettings {
+  durationSec: number;
+  mode: PlaybackMode;
+  direction: PlaybackDirection;
+  fps: number;
+}
+
+export interface TimelineKeyframe {
+  /** Normalized time in [0, 1]. */
+  time: number;
+  value: number;
+}
+
+export interface TimelineTrack {
+  param: string;
+  /** Sorted by `time`. */
+  keyframes: TimelineKeyframe[];
+}
+
+export type FrameValues = Record<string, number>;
+
+export const DEFAULT_TIMELINE_SETTINGS: TimelineSettings = {
+  durationSec: 2,
+  mode: "loop",
+  direction: "forward",
+  fps: 30,
+};
+
+/** Upper bound on frames per pass, which also bounds the frame cache. */
+export const MAX_TIMELINE_FRAMES = 240;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function isPlaybackParam(name: string) {
+  return (PLAYBACK_PARAM_NAMES as readonly string[]).includes(name);
+}
+
+/** Numeric params that can carry a keyframe track. */
+export function animatableParameters(parameters: ExtractedParameter[]) {
+  return parameters.filter((parameter) => parameter.type === "number" && !isPlaybackParam(parameter.name));
+}
+
+/**
+ * Playback settings declared by the model through `durationSec`, `direction`
+ * and `autoPlay`. `direction` accepts "forward", "reverse", or "pingpong".
+ */
+export function readPlaybackParams(values: Record<string, unknown>): {
+  settings: Partial<TimelineSettings>;
+  autoPlay: boolean;
+} {
+  const settings: Partial<TimelineSettings> = {};
+  const duration = Number(values.durationSec);
+  if (values.durationSec !== undefined && Number.isFinite(duration) && duration > 0) {
+    settings.durationSec = duration;
+  }
+  const direction = typeof values.direction === "string" ? values.direction.toLowerCase().replace(/[-_\s]/g, "") : "";
+  if (direction === "reverse" || direction === "backward") settings.direction = "reverse";
+  else if (direction === "forward") settings.direction = "forward";
+  else if (direction === "pingpong" || direction === "alternate") settings.mode = "pingpong";
+  return { settings, autoPlay: values.autoPlay === true || values.autoPlay === "true" };
+}
+
+/** The built-in track: `progress` from its min to its max over one pass. */
+export function defaultTracks(parameters: ExtractedParameter[]): TimelineTrack[] {
+  const progress = animatableParameters(parameters).find((parameter) => parameter.name === PROGRESS_PARAM_NAME);
+  if (!progress) return [];
+  return [
+    {
+      param: PROGRESS_PARAM_NAME,
+      keyframes: [
+        { time: 0, value: progress.min ?? 0 },
+        { time: 1, value: progress.max ?? 1 },
+      ],
+    },
+  ];
+}
+
+export function setKeyframe(tracks: TimelineTrack[], param: string, keyframe: TimelineKeyframe): TimelineTrack[] {
+  const time = clamp(keyframe.time, 0, 1);
+  const existing = tracks.find((track) => track.param === param);
+  const keyframes = [
+    ...(existing?.keyframes ?? []).filter((candidate) => Math.abs(candidate.time - time) > 1e-6),
+    { time, value: keyframe.value },
+  ].sort((a, b) => a.time - b.time);
+  return existing
+    ? tracks.map((track) => (track === existing ? { param, keyframes } : track))
+    : [...tracks, { param, keyframes }];
+}
+
+/** Removes one keyframe; a track left without keyframes is dropped. */
+export function removeKeyframe(tracks: TimelineTrack[], param: string, index: number): TimelineTrack[] {
+  return tracks
+    .map((track) =>
+      track.param === param ? { param, keyframes: track.keyframes.filter((_, i) => i !== index) } : track
+    )
+    .filter((track) => track.keyframes.length > 0);
+}
+
+/** Linear interpolation between keyframes, holding the first and last values outside them. */
+export function interpolateTrack(track: TimelineTrack, time: number) {
+  const { keyframes } = track;
+  if (keyframes.length === 0) return undefined;
+  if (time <= keyframes[0].time) return keyframes[0].value;
+  for (let i = 1; i < keyframes.length; i++) {
+    const next = keyframes[i];
+    if (time <= next.time) {
+      const previous = keyframes[i - 1];
+      const span = next.time - previous.time;
+      const t = span > 0 ? (time - previous.time) / span : 1;
+      return previous.value + (next.value - previous.value) * t;
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+}
+
+/** Earliest time at which the track passes through `value`, or null if it never does. */
+export function timeForValue(track: TimelineTrack, value: number) {
+  const { keyframes } = track;
+  if (keyframes.length === 1) return keyframes[0].value === value ? keyframes[0].time : null;
+  for (let i = 1; i < keyframes.length; i++) {
+    const previous = keyframes[i - 1];
+    const next = keyframes[i];
+    const low = Math.min(previous.value, next.value);
+    const high = Math.max(previous.value, next.value);
+    if (value < low || value > high) continue;
+    const span = next.value - previous.value;
+    const t = span === 0 ? 0 : (value - previous.value) / span;
+    return previous.time + (next.time - previous.time) * t;
+  }
+  return null;
+}
+
+export function frameValuesAt(tracks: TimelineTrack[], time: number): FrameValues {
+  const values: FrameValues = {};
+  for (const track of tracks) {
+    const value = interpolateTrack(track, time);
+    if (value !== undefined) values[track.param] = Number(value.toFixed(6));
+  }
+  return values;
+}
+
+export function frameCount(settings: Pick<TimelineSettings, "durationSec" | "fps">) {
+  return clamp(Math.round(settings.durationSec * settings.fps) + 1, 2, MAX_TIMELINE_FRAMES);
+}
+
+/** Snaps `time` to the nearest frame so every pass reuses the same values. */
+export function quantizeTime(time: number, frames: number) {
+  return Math.round(clamp(time, 0, 1) * (frames - 1)) / (frames - 1);
+}
+
+/**
+ * Timeline time after `elapsedSec` of playback. `finished` is only ever set
+ * in "once" mode.
+ */
+export function timelineTimeAt(elapsedSec: number, settings: TimelineSettings) {
+  const cycles = Math.max(0, elapsedSec) / settings.durationSec;
+  let raw: number;
+  let finished = false;
+  if (settings.mode === "once") {
+    raw = Math.min(cycles, 1);
+    finished = cycles >= 1;
+  } else if (settings.mode === "loop") {
+    raw = cycles % 1;
+  } else {
+    const phase = cycles % 2;
+    raw = phase <= 1 ? phase : 2 - phase;
+  }
+  return { time: settings.direction === "reverse" ? 1 - raw : raw, finished };
+}
+
+/** Elapsed seconds that `timelineTimeAt` maps to `time`, for resuming after a scrub. */
+export function elapsedForTime(time: number, settings: TimelineSettings) {
+  const raw = settings.direction === "reverse" ? 1 - time : time;
+  return clamp(raw, 0, 1) * settings.durationSec;
+}
+
+/** Every frame of one pass, in playback order. */
+export function timelineFrames(tracks: TimelineTrack[], settings: TimelineSettings) {
+  const frames = frameCount(settings);
+  return Array.from({ length: frames }, (_, i) => {
+    const raw = i / (frames - 1);
+    const time = settings.direction === "reverse" ? 1 - raw : raw;
+    return { time, values: frameValuesAt(tracks, time) };
+  });
+}
+
+export interface FrameCache<T> {
+  get: (values: Record<string, unknown>) => T | undefined;
+  set: (values: Record<string, unknown>, frame: T) => void;
+  has: (values: Record<string, unknown>) => boolean;
+  clear: () => void;
+  readonly size: number;
+}
+
+/** Evaluated frames keyed by the full parameter set, least recently used first out. */
+export function createFrameCache<T>(limit = MAX_TIMELINE_FRAMES): FrameCache<T> {
+  const frames = new Map<string, T>();
+  const keyOf = (values: Record<string, unknown>) =>
+    JSON.stringify(Object.keys(values).sort().map((name) => [name, values[name]]));
+
+  return {
+    get(values) {
+      const key = keyOf(values);
+      const frame = frames.get(key);
+      if (frame !== undefined) {
+        frames.delete(key);
+        frames.set(key, frame);
+      }
+      return frame;
+    },
+    set(values, frame) {
+      const key = keyOf(values);
+      frames.delete(key);
+      frames.set(key, frame);
+      while (frames.size > limit) {
+        frames.delete(frames.keys().next().value as string);
+      }
+    },
+    has(values) {
+      return frames.has(keyOf(values));
+    },
+    clear() {
+      frames.clear();
+    },
+    get size() {
+      return frames.size;
+    },
+  };
+}
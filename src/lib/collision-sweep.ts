@@ -0,0 +1,131 @@
+import { measureIntersection, type BoundingRegion } from "./geometry-analyzer";
+
+/**
+ * Pairwise collision checks across sampled animation frames. Parts are the
+ * top-level solids returned by `main()`, identified by their index.
+ */
+
+export interface PartCollision {
+  parts: [number, number];
+  /** Shared volume in mm³ */
+  volume: number;
+  region: BoundingRegion | null;
+}
+
+export interface CollisionFrame {
+  progress: number;
+  collisions: PartCollision[];
+}
+
+export interface CollisionInterval {
+  start: number;
+  end: number;
+  /** Every part pair that collides somewhere in the interval */
+  pairs: Array<[number, number]>;
+  peakVolume: number;
+  peakProgress: number;
+}
+
+export interface CollisionSweepOptions {
+  /** Shared volumes below this (mm³) count as touching, not colliding. */
+  minVolume?: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number) => void;
+}
+
+export const DEFAULT_COLLISION_MIN_VOLUME = 1e-3;
+
+function isSolid(geometry: unknown) {
+  return Array.isArray((geometry as { polygons?: unknown }).polygons);
+}
+
+export async function detectFrameCollisions(
+  geometries: unknown[],
+  minVolume = DEFAULT_COLLISION_MIN_VOLUME
+): Promise<PartCollision[]> {
+  const parts = geometries.map((geometry, index) => ({ geometry, index })).filter((part) => isSolid(part.geometry));
+  const collisions: PartCollision[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    for (let j = i + 1; j < parts.length; j++) {
+      const report = await measureIntersection([parts[i].geometry], [parts[j].geometry]);
+      if (report.intersectionVolume > minVolume) {
+        collisions.push({
+          parts: [parts[i].index, parts[j].index],
+          volume: report.intersectionVolume,
+          region: report.overlapRegion,
+        });
+      }
+    }
+  }
+  return collisions;
+}
+
+/**
+ * Evaluates each progress value and checks every part pair. Stops early,
+ * returning the frames checked so far, once `signal` is aborted.
+ */
+export async function sweepCollisions(
+  evaluate: (progress: number) => Promise<unknown[]>,
+  values: number[],
+  { minVolume = DEFAULT_COLLISION_MIN_VOLUME, signal, onProgress }: CollisionSweepOptions = {}
+): Promise<CollisionFrame[]> {
+  const frames: CollisionFrame[] = [];
+  for (const progress of values) {
+    if (signal?.aborted) break;
+    const geometries = await evaluate(progress);
+    if (signal?.aborted) break;
+    frames.push({ progress, collisions: await detectFrameCollisions(geometries, minVolume) });
+    onProgress?.(frames.length);
+  }
+  return frames;
+}
+
+const pairKey = ([a, b]: [number, number]) => `${a}:${b}`;
+
+/** Merges consecutive colliding samples into intervals. */
+export function collisionIntervals(frames: CollisionFrame[]): CollisionInterval[] {
+  const intervals: CollisionInterval[] = [];
+  let current: CollisionInterval | null = null;
+  const seen = new Set<string>();
+  for (const frame of frames) {
+    if (frame.collisions.length === 0) {
+      current = null;
+      continue;
+    }
+    const volume = frame.collisions.reduce((sum, collision) => sum + collision.volume, 0);
+    if (!current) {
+      current = {
+        start: frame.progress,
+        end: frame.progress,
+        pairs: [],
+        peakVolume: volume,
+        peakProgress: frame.progress,
+      };
+      seen.clear();
+      intervals.push(current);
+    }
+    current.end = frame.progress;
+    if (volume > current.peakVolume) {
+      current.peakVolume = volume;
+      current.peakProgress = frame.progress;
+    }
+    for (const collision of frame.collisions) {
+      const key = pairKey(collision.parts);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      current.pairs.push(collision.parts);
+    }
+  }
+  return intervals;
+}
+
+/** Collisions of the sample nearest `progress`, if it lies within half a sample step. */
+export function collisionsAt(frames: CollisionFrame[], progress: number): PartCollision[] {
+  if (frames.length === 0) return [];
+  const step = frames.length > 1 ? Math.abs(frames[1].progress - frames[0].progress) : 0;
+  let nearest = frames[0];
+  for (const frame of frames) {
+    if (Math.abs(frame.progress - progress) < Math.abs(nearest.progress - progress)) nearest = frame;
+  }
+  return Math.abs(nearest.progress - progress) <= step / 2 + 1e-9 ? nearest.collisions : [];
+}
@@ -0,0 +1,57 @@
+/**
+ * Project dependency manifest. Every remote or `/jscad-libs` module an
+ * evaluation loads is pinned to a snapshot of its source in Convex storage,
+ * identified by its SHA-256. Pinned modules are read from the snapshot instead
+ * of the live URL, and a snapshot that no longer hashes to its pin fails the
+ * evaluation. Only the explicit "Update dependencies" action moves a pin.
+ * `public/jscad-worker.js` mirrors the checks here.
+ */
+
+export interface DependencyPin {
+  /** SHA-256 of the module source, hex. */
+  hash: string;
+  /** Download URL of the stored snapshot; null when storage lost the file. */
+  url: string | null;
+}
+
+/** Pins by module id: a remote URL or a "/jscad-libs/..." path. */
+export type DependencyLock = Record<string, DependencyPin>;
+
+/** A module an evaluation fetched live because the lock did not pin it yet. */
+export interface ResolvedModule {
+  id: string;
+  hash: string;
+  source: string;
+}
+
+export async function hashSource(source: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(source));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function dependencyMismatchError(id: string, pinned: string, actual: string) {
+  return new Error(
+    `Dependency ${id} does not match the project manifest (pinned sha256 ${pinned.slice(0, 12)}, snapshot ${actual.slice(0, 12)}). Run "Update dependencies" to re-pin it.`
+  );
+}
+
+export function lockFromManifest(entries: Array<{ moduleId: string; hash: string; url: string | null }>): DependencyLock {
+  const lock: DependencyLock = {};
+  for (const entry of entries) lock[entry.moduleId] = { hash: entry.hash, url: entry.url };
+  return lock;
+}
+
+/** Reads a pinned snapshot and checks it against the pin. */
+export async function loadPinnedSource(id: string, pin: DependencyPin) {
+  if (!pin.url) {
+    throw new Error(`The pinned snapshot of ${id} is missing. Run "Update dependencies" to re-pin it.`);
+  }
+  const response = await fetch(pin.url);
+  if (!response.ok) {
+    throw new Error(`Failed to load the pinned snapshot of ${id} (${response.status})`);
+  }
+  const source = await response.text();
+  const hash = await hashSource(source);
+  if (hash !== pin.hash) throw dependencyMismatchError(id, pin.hash, hash);
+  return source;
+}
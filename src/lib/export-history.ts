@@ -0,0 +1,96 @@
+/**
+ * Keys and uploads for exports stored in Convex file storage. An export is
+ * identified by everything that shapes the file, so re-exporting the same
+ * version, parameters and options reuses the stored copy.
+ */
+
+import type { DependencyLock } from "./dependencies";
+
+export type StoredExportFormat = "stl" | "3mf" | "amf" | "obj" | "glb" | "svg" | "dxf" | "gif" | "zip";
+
+export interface ExportRequest {
+  format: StoredExportFormat;
+  fileName: string;
+  /** Format-specific settings (STL encoding, section plane, frame count, ...). */
+  options?: Record<string, unknown>;
+}
+
+export interface StoredExport {
+  _id: string;
+  _creationTime: number;
+  versionId: string;
+  format: StoredExportFormat;
+  fileName: string;
+  fileSizeBytes?: number;
+  parameters?: Record<string, unknown>;
+  url: string | null;
+}
+
+/**
+ * GIF and PNG-zip frames are rendered from the live viewport, so their look
+ * depends on the camera and theme at export time; they are stored without a
+ * key and never reused.
+ */
+export function isRenderedExport(request: ExportRequest) {
+  return request.format === "gif" || request.format === "zip";
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function nonEmpty<T extends object>(value: T | undefined) {
+  return value && Object.keys(value).length > 0 ? value : undefined;
+}
+
+/**
+ * SHA-256 over code, project files, asset URLs, dependency pins, parameters,
+ * format and options, independent of key order.
+ */
+export async function exportKey(input: {
+  code: string;
+  files?: Record<string, string>;
+  /** Asset URLs by path; a re-uploaded asset gets a new storage URL. */
+  assets?: Record<string, string>;
+  dependencies?: DependencyLock;
+  parameters: Record<string, unknown>;
+  format: StoredExportFormat;
+  options?: Record<string, unknown>;
+}) {
+  const bytes = new TextEncoder().encode(
+    stableStringify({
+      code: input.code,
+      // Empty inputs are left out so keys match those stored before these inputs existed.
+      files: nonEmpty(input.files),
+      assets: nonEmpty(input.assets),
+      dependencies: nonEmpty(
+        input.dependencies &&
+          Object.fromEntries(Object.entries(input.dependencies).map(([id, pin]) => [id, pin.hash]))
+      ),
+      parameters: input.parameters,
+      format: input.format,
+      options: input.options ?? {},
+    })
+  );
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Posts a file to a Convex upload URL and returns its storage id. */
+export async function uploadToStorage(uploadUrl: string, blob: Blob) {
+  const response = await fetch(uploadUrl, {
+    method: "POST",
+    headers: { "Content-Type": blob.type || "application/octet-stream" },
+    body: blob,
+  });
+  if (!response.ok) throw new Error(`Upload failed (${response.status})`);
+  const { storageId } = (await response.json()) as { storageId: string };
+  return storageId;
+}
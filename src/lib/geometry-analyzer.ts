@@ -1,4 +1,4 @@
-import { polygonVertices } from "@/lib/jscad-geometry"
+import { polygonVertices, type Vec3 } from "@/lib/jscad-geometry"
 
 /**
  * Geometry analysis utilities using JSCAD measurement functions.
@@ -260,6 +260,304 @@ export async function analyzePrintability(geometries: unknown[]): Promise<Printa
   }
 }
 
+export interface BoundingRegion {
+  min: number[];
+  max: number[];
+}
+
+export interface IntersectionReport {
+  boundingBoxesOverlap: boolean;
+  /** Intersection of the two axis-aligned bounding boxes, if any */
+  boundingBoxOverlapRegion: BoundingRegion | null;
+  intersects: boolean;
+  intersectionVolume: number;
+  /** Bounding box of the actual shared volume */
+  overlapRegion: BoundingRegion | null;
+}
+
+/**
+ * Measure the shared volume between two sets of 3D geometries.
+ * Each side is unioned first so multi-body parts are treated as one solid.
+ */
+export async function measureIntersection(
+  geometriesA: unknown[],
+  geometriesB: unknown[]
+): Promise<IntersectionReport> {
+  const jscad = await import("@jscad/modeling");
+  const { booleans, measurements, geometries: geometryTypes } = jscad;
+  type Geom3 = Parameters<typeof geometryTypes.geom3.invert>[0];
+
+  // Some library output (e.g. v1 racks) is wound inside-out, which booleans
+  // treat as the complement of the solid. Flip those before combining.
+  const orientOutward = (geometry: unknown) => {
+    const volume = measurements.measureVolume(geometry as Geom3) as number;
+    return volume < 0 ? geometryTypes.geom3.invert(geometry as Geom3) : (geometry as Geom3);
+  };
+
+  const combine = (geometries: unknown[]) => {
+    const oriented = geometries.map(orientOutward);
+    return (oriented.length === 1 ? oriented[0] : booleans.union(...oriented)) as Geom3;
+  };
+
+  const solidA = combine(geometriesA);
+  const solidB = combine(geometriesB);
+  const [minA, maxA] = measurements.measureBoundingBox(solidA);
+  const [minB, maxB] = measurements.measureBoundingBox(solidB);
+  const boundingBoxesOverlap = [0, 1, 2].every(
+    (axis) => minA[axis] <= maxB[axis] && minB[axis] <= maxA[axis]
+  );
+
+  if (!boundingBoxesOverlap) {
+    return {
+      boundingBoxesOverlap,
+      boundingBoxOverlapRegion: null,
+      intersects: false,
+      intersectionVolume: 0,
+      overlapRegion: null,
+    };
+  }
+
+  const boundingBoxOverlapRegion = {
+    min: [0, 1, 2].map((axis) => Math.max(minA[axis], minB[axis])),
+    max: [0, 1, 2].map((axis) => Math.min(maxA[axis], maxB[axis])),
+  };
+
+  const shared = booleans.intersect(solidA, solidB);
+  const intersectionVolume = Math.abs(measurements.measureVolume(shared) as number);
+  const intersects = intersectionVolume > 1e-6;
+
+  let overlapRegion: BoundingRegion | null = null;
+  if (intersects) {
+    const [min, max] = measurements.measureBoundingBox(shared);
+    overlapRegion = { min: [...min], max: [...max] };
+  }
+
+  return {
+    boundingBoxesOverlap,
+    boundingBoxOverlapRegion,
+    intersects,
+    intersectionVolume,
+    overlapRegion,
+  };
+}
+
+export interface ClearanceReport {
+  /** Minimum surface-to-surface distance in mm (0 when touching) */
+  distance: number;
+  closestPoints: [Vec3, Vec3] | null;
+}
+
+type Triangle = [Vec3, Vec3, Vec3];
+
+interface BoxedTriangle {
+  triangle: Triangle;
+  min: Vec3;
+  max: Vec3;
+}
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const scaleVec = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const distanceSq = (a: Vec3, b: Vec3) => {
+  const d = sub(a, b);
+  return dot(d, d);
+};
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+function collectTriangles(geometries: unknown[]): BoxedTriangle[] {
+  const triangles: BoxedTriangle[] = [];
+  for (const geom of geometries) {
+    const polygons = (geom as Record<string, unknown>)?.polygons;
+    if (!Array.isArray(polygons)) continue;
+    for (const polygon of polygons as Array<Record<string, unknown>>) {
+      const verts = polygonVertices(polygon);
+      // JSCAD polygons are convex, so a fan triangulation is exact.
+      for (let i = 1; i < verts.length - 1; i++) {
+        const triangle: Triangle = [verts[0], verts[i], verts[i + 1]];
+        const min = [0, 1, 2].map((axis) => Math.min(...triangle.map((v) => v[axis]))) as Vec3;
+        const max = [0, 1, 2].map((axis) => Math.max(...triangle.map((v) => v[axis]))) as Vec3;
+        triangles.push({ triangle, min, max });
+      }
+    }
+  }
+  return triangles;
+}
+
+// Closest point on triangle abc to p (Ericson, Real-Time Collision Detection 5.1.5)
+function closestPointOnTriangle(p: Vec3, [a, b, c]: Triangle): Vec3 {
+  const ab = sub(b, a);
+  const ac = sub(c, a);
+  const ap = sub(p, a);
+  const d1 = dot(ab, ap);
+  const d2 = dot(ac, ap);
+  if (d1 <= 0 && d2 <= 0) return a;
+
+  const bp = sub(p, b);
+  const d3 = dot(ab, bp);
+  const d4 = dot(ac, bp);
+  if (d3 >= 0 && d4 <= d3) return b;
+
+  const vc = d1 * d4 - d3 * d2;
+  if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+    return add(a, scaleVec(ab, d1 / (d1 - d3)));
+  }
+
+  const cp = sub(p, c);
+  const d5 = dot(ab, cp);
+  const d6 = dot(ac, cp);
+  if (d6 >= 0 && d5 <= d6) return c;
+
+  const vb = d5 * d2 - d1 * d6;
+  if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+    return add(a, scaleVec(ac, d2 / (d2 - d6)));
+  }
+
+  const va = d3 * d6 - d5 * d4;
+  if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+    return add(b, scaleVec(sub(c, b), (d4 - d3) / (d4 - d3 + (d5 - d6))));
+  }
+
+  const denom = 1 / (va + vb + vc);
+  return add(a, add(scaleVec(ab, vb * denom), scaleVec(ac, vc * denom)));
+}
+
+// Closest points between segments p1q1 and p2q2 (Ericson 5.1.9)
+function closestPointsOnSegments(p1: Vec3, q1: Vec3, p2: Vec3, q2: Vec3): [Vec3, Vec3] {
+  const d1 = sub(q1, p1);
+  const d2 = sub(q2, p2);
+  const r = sub(p1, p2);
+  const a = dot(d1, d1);
+  const e = dot(d2, d2);
+  const f = dot(d2, r);
+  let s = 0;
+  let t = 0;
+
+  if (a <= 1e-12 && e <= 1e-12) return [p1, p2];
+  if (a <= 1e-12) {
+    t = clamp01(f / e);
+  } else {
+    const c = dot(d1, r);
+    if (e <= 1e-12) {
+      s = clamp01(-c / a);
+    } else {
+      const b = dot(d1, d2);
+      const denom = a * e - b * b;
+      s = denom !== 0 ? clamp01((b * f - c * e) / denom) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) {
+        t = 0;
+        s = clamp01(-c / a);
+      } else if (t > 1) {
+        t = 1;
+        s = clamp01((b - c) / a);
+      }
+    }
+  }
+
+  return [add(p1, scaleVec(d1, s)), add(p2, scaleVec(d2, t))];
+}
+
+// Point where segment pq crosses triangle abc, if it does (Moller-Trumbore,
+// limited to the segment). Segments lying in the triangle's plane are left to
+// the edge and vertex checks.
+function segmentTriangleIntersection(p: Vec3, q: Vec3, [a, b, c]: Triangle): Vec3 | null {
+  const direction = sub(q, p);
+  const ab = sub(b, a);
+  const ac = sub(c, a);
+  const h = cross(direction, ac);
+  const det = dot(ab, h);
+  if (Math.abs(det) <= 1e-12) return null;
+  const inv = 1 / det;
+  const ap = sub(p, a);
+  const u = dot(ap, h) * inv;
+  if (u < 0 || u > 1) return null;
+  const qv = cross(ap, ab);
+  const v = dot(direction, qv) * inv;
+  if (v < 0 || u + v > 1) return null;
+  const t = dot(ac, qv) * inv;
+  if (t < 0 || t > 1) return null;
+  return add(p, scaleVec(direction, t));
+}
+
+function closestPointsBetweenTriangles(t1: Triangle, t2: Triangle): [Vec3, Vec3] {
+  // Crossing triangles touch along a segment that starts where an edge of one
+  // passes through the other, which the closest-point checks below miss.
+  for (let i = 0; i < 3; i++) {
+    const hit =
+      segmentTriangleIntersection(t1[i], t1[(i + 1) % 3], t2) ??
+      segmentTriangleIntersection(t2[i], t2[(i + 1) % 3], t1);
+    if (hit) return [hit, hit];
+  }
+
+  let best: [Vec3, Vec3] = [t1[0], t2[0]];
+  let bestDistance = Infinity;
+  const consider = (pair: [Vec3, Vec3]) => {
+    const d = distanceSq(pair[0], pair[1]);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = pair;
+    }
+  };
+
+  for (const vertex of t1) consider([vertex, closestPointOnTriangle(vertex, t2)]);
+  for (const vertex of t2) consider([closestPointOnTriangle(vertex, t1), vertex]);
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      consider(closestPointsOnSegments(t1[i], t1[(i + 1) % 3], t2[j], t2[(j + 1) % 3]));
+    }
+  }
+  return best;
+}
+
+function boxDistanceSq(a: BoxedTriangle, b: BoxedTriangle) {
+  let total = 0;
+  for (let axis = 0; axis < 3; axis++) {
+    const gap = Math.max(0, a.min[axis] - b.max[axis], b.min[axis] - a.max[axis]);
+    total += gap * gap;
+  }
+  return total;
+}
+
+/**
+ * Minimum surface distance between two sets of geometries; 0 where surfaces
+ * touch or cross. A solid nested inside another without crossing its surfaces
+ * still reports the gap between them, so pair this with measureIntersection()
+ * to tell touching from interpenetrating.
+ */
+export function measureClearance(
+  geometriesA: unknown[],
+  geometriesB: unknown[]
+): ClearanceReport {
+  const trianglesA = collectTriangles(geometriesA);
+  const trianglesB = collectTriangles(geometriesB);
+  if (trianglesA.length === 0 || trianglesB.length === 0) {
+    return { distance: Infinity, closestPoints: null };
+  }
+
+  let bestSq = Infinity;
+  let closestPoints: [Vec3, Vec3] | null = null;
+  for (const a of trianglesA) {
+    for (const b of trianglesB) {
+      if (boxDistanceSq(a, b) >= bestSq) continue;
+      const pair = closestPointsBetweenTriangles(a.triangle, b.triangle);
+      const d = distanceSq(pair[0], pair[1]);
+      if (d < bestSq) {
+        bestSq = d;
+        closestPoints = pair;
+        if (d === 0) return { distance: 0, closestPoints };
+      }
+    }
+  }
+
+  return { distance: Math.sqrt(bestSq), closestPoints };
+}
+
 /**
  * Format measurements for display
  */
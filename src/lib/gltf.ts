@@ -0,0 +1,477 @@
+import { polygonVertices } from "./jscad-geometry";
+
+/**
+ * Minimal binary glTF (GLB) writer for JSCAD geometry, with optional
+ * animation. JSCAD is Z-up and glTF is Y-up, so everything hangs under a root
+ * node rotated -90° about X.
+ */
+
+export interface GltfMesh {
+  /** xyz per vertex; a triangle list unless `indices` is given. */
+  positions: Float32Array;
+  /** Triangle vertex indices into `positions`. */
+  indices?: Uint32Array;
+  /** Per-vertex normals; flat normals are derived when omitted (non-indexed meshes only). */
+  normals?: Float32Array;
+  /** Absolute positions per morph target; stored as deltas from `positions`. */
+  morphTargets?: Float32Array[];
+  /** Linear RGBA in 0–1. */
+  color?: [number, number, number, number];
+}
+
+export interface GltfNode {
+  name: string;
+  mesh: GltfMesh;
+  translation?: [number, number, number];
+  rotation?: [number, number, number, number];
+  scale?: [number, number, number];
+  weights?: number[];
+}
+
+export interface GltfChannel {
+  node: number;
+  path: "translation" | "rotation" | "scale" | "weights";
+  /** Flattened output values, one group per keyframe time. */
+  values: number[];
+  interpolation?: "LINEAR" | "STEP";
+}
+
+export interface GltfAnimation {
+  name: string;
+  times: number[];
+  channels: GltfChannel[];
+}
+
+/** Per-part motion across a frame sequence, as found by `analyzeFrameMotion`. */
+export type PartMotionTrack =
+  | { kind: "rigid"; mesh: Float32Array; translations: number[][]; rotations: number[][] }
+  | { kind: "morph"; mesh: Float32Array; targets: Float32Array[] }
+  | { kind: "swap"; meshes: Array<Float32Array | null> };
+
+const Z_UP_TO_Y_UP: [number, number, number, number] = [-Math.SQRT1_2, 0, 0, Math.SQRT1_2];
+const DEFAULT_COLOR: [number, number, number, number] = [0.53, 0.53, 0.53, 1];
+
+/** Fan-triangulates a JSCAD geom3 into a flat position array. */
+export function triangulateGeometry(geometry: unknown): Float32Array | null {
+  const polygons = (geometry as { polygons?: unknown })?.polygons;
+  if (!Array.isArray(polygons)) return null;
+  const positions: number[] = [];
+  for (const polygon of polygons as Array<Record<string, unknown>>) {
+    const vertices = polygonVertices(polygon);
+    for (let i = 1; i < vertices.length - 1; i++) {
+      positions.push(...vertices[0], ...vertices[i], ...vertices[i + 1]);
+    }
+  }
+  return positions.length > 0 ? new Float32Array(positions) : null;
+}
+
+type Vec = [number, number, number];
+type Mat3 = [Vec, Vec, Vec]; // columns
+
+const at = (positions: Float32Array, index: number): Vec => [
+  positions[index * 3],
+  positions[index * 3 + 1],
+  positions[index * 3 + 2],
+];
+const sub = (a: Vec, b: Vec): Vec => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec, b: Vec) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec, b: Vec): Vec => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const scale = (a: Vec, s: number): Vec => [a[0] * s, a[1] * s, a[2] * s];
+const norm = (a: Vec) => Math.hypot(a[0], a[1], a[2]);
+
+/** Three well-spread vertex indices to anchor a rigid fit; null for degenerate parts. */
+function anchorIndices(positions: Float32Array): [number, number, number] | null {
+  const count = positions.length / 3;
+  const a = at(positions, 0);
+  let b = 0;
+  let bestB = 0;
+  for (let i = 1; i < count; i++) {
+    const distance = norm(sub(at(positions, i), a));
+    if (distance > bestB) [b, bestB] = [i, distance];
+  }
+  if (bestB < 1e-9) return null;
+  const axis = scale(sub(at(positions, b), a), 1 / bestB);
+  let c = 0;
+  let bestC = 0;
+  for (let i = 1; i < count; i++) {
+    const offset = sub(at(positions, i), a);
+    const distance = norm(sub(offset, scale(axis, dot(offset, axis))));
+    if (distance > bestC) [c, bestC] = [i, distance];
+  }
+  return bestC < 1e-6 * bestB ? null : [0, b, c];
+}
+
+function basis(positions: Float32Array, [a, b, c]: [number, number, number]): Mat3 {
+  const origin = at(positions, a);
+  const e1 = sub(at(positions, b), origin);
+  const u = scale(e1, 1 / norm(e1));
+  const e2 = sub(at(positions, c), origin);
+  const w = sub(e2, scale(u, dot(e2, u)));
+  const v = scale(w, 1 / norm(w));
+  return [u, v, cross(u, v)];
+}
+
+/** Column-major rotation that maps basis `from` onto basis `to`. */
+function rotationBetween(from: Mat3, to: Mat3): Mat3 {
+  const columns: Vec[] = [];
+  for (let j = 0; j < 3; j++) {
+    const column: Vec = [0, 0, 0];
+    for (let k = 0; k < 3; k++) {
+      // R = To * From^T, so R[:, j] = sum_k To[:, k] * From[j][k].
+      for (let i = 0; i < 3; i++) column[i] += to[k][i] * from[k][j];
+    }
+    columns.push(column);
+  }
+  return columns as Mat3;
+}
+
+const rotate = (r: Mat3, p: Vec): Vec => [
+  r[0][0] * p[0] + r[1][0] * p[1] + r[2][0] * p[2],
+  r[0][1] * p[0] + r[1][1] * p[1] + r[2][1] * p[2],
+  r[0][2] * p[0] + r[1][2] * p[1] + r[2][2] * p[2],
+];
+
+function quaternionFromRotation(r: Mat3): number[] {
+  const [m00, m10, m20] = r[0];
+  const [m01, m11, m21] = r[1];
+  const [m02, m12, m22] = r[2];
+  const trace = m00 + m11 + m22;
+  let q: number[];
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    q = [(m21 - m12) * s, (m02 - m20) * s, (m10 - m01) * s, 0.25 / s];
+  } else if (m00 > m11 && m00 > m22) {
+    const s = 2 * Math.sqrt(1 + m00 - m11 - m22);
+    q = [0.25 * s, (m01 + m10) / s, (m02 + m20) / s, (m21 - m12) / s];
+  } else if (m11 > m22) {
+    const s = 2 * Math.sqrt(1 + m11 - m00 - m22);
+    q = [(m01 + m10) / s, 0.25 * s, (m12 + m21) / s, (m02 - m20) / s];
+  } else {
+    const s = 2 * Math.sqrt(1 + m22 - m00 - m11);
+    q = [(m02 + m20) / s, (m12 + m21) / s, 0.25 * s, (m10 - m01) / s];
+  }
+  const length = Math.hypot(q[0], q[1], q[2], q[3]);
+  return q.map((value) => value / length);
+}
+
+/** Rotation and translation taking `base` onto `moved`, or null when the motion is not rigid. */
+function fitRigid(base: Float32Array, moved: Float32Array, anchors: [number, number, number], tolerance: number) {
+  const rotation = rotationBetween(basis(base, anchors), basis(moved, anchors));
+  const translation = sub(at(moved, anchors[0]), rotate(rotation, at(base, anchors[0])));
+  for (let i = 0; i < base.length / 3; i++) {
+    const predicted = rotate(rotation, at(base, i));
+    const actual = at(moved, i);
+    if (norm(sub(sub(actual, translation), predicted)) > tolerance) return null;
+  }
+  return { rotation: quaternionFromRotation(rotation), translation };
+}
+
+function extent(positions: Float32Array) {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i]);
+    max[i % 3] = Math.max(max[i % 3], positions[i]);
+  }
+  return Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+}
+
+/**
+ * Classifies each part (by index in `main()`'s result) across frames: rigid
+ * when one rotation plus translation explains every vertex, morph when the
+ * vertex count is stable but the shape changes, swap when the topology changes.
+ */
+export function analyzeFrameMotion(frames: unknown[][]): PartMotionTrack[] {
+  const partCount = Math.max(0, ...frames.map((frame) => frame.length));
+  const tracks: PartMotionTrack[] = [];
+  for (let part = 0; part < partCount; part++) {
+    const meshes = frames.map((frame) => (part < frame.length ? triangulateGeometry(frame[part]) : null));
+    const base = meshes[0];
+    const stable = base !== null && meshes.every((mesh) => mesh !== null && mesh.length === base.length);
+    if (!stable) {
+      tracks.push({ kind: "swap", meshes });
+      continue;
+    }
+
+    const tolerance = Math.max(1e-6, extent(base) * 1e-5);
+    const anchors = anchorIndices(base);
+    const fits = anchors ? meshes.map((mesh) => fitRigid(base, mesh!, anchors, tolerance)) : [];
+    if (anchors && fits.every((fit) => fit !== null)) {
+      tracks.push({
+        kind: "rigid",
+        mesh: base,
+        translations: fits.map((fit) => fit!.translation),
+        rotations: fits.map((fit) => fit!.rotation),
+      });
+    } else {
+      tracks.push({ kind: "morph", mesh: base, targets: meshes.slice(1) as Float32Array[] });
+    }
+  }
+  return tracks;
+}
+
+/** Nodes and an animation clip for a frame sequence played over `durationSec`. */
+export function buildAnimatedScene(frames: unknown[][], durationSec: number) {
+  const times = frames.map((_, i) => (frames.length > 1 ? (durationSec * i) / (frames.length - 1) : 0));
+  const nodes: GltfNode[] = [];
+  const channels: GltfChannel[] = [];
+  const motion = analyzeFrameMotion(frames);
+
+  motion.forEach((track, part) => {
+    if (track.kind === "rigid") {
+      channels.push(
+        { node: nodes.length, path: "translation", values: track.translations.flat() },
+        { node: nodes.length, path: "rotation", values: track.rotations.flat() }
+      );
+      nodes.push({ name: `part-${part}`, mesh: { positions: track.mesh } });
+    } else if (track.kind === "morph") {
+      const targets = track.targets.length;
+      // Frame k (k >= 1) shows target k - 1 at full weight.
+      const weights = times.flatMap((_, frame) =>
+        Array.from({ length: targets }, (__, target) => (target === frame - 1 ? 1 : 0))
+      );
+      channels.push({ node: nodes.length, path: "weights", values: weights });
+      nodes.push({
+        name: `part-${part}`,
+        mesh: { positions: track.mesh, morphTargets: track.targets },
+        weights: new Array(targets).fill(0),
+      });
+    } else {
+      track.meshes.forEach((mesh, frame) => {
+        if (!mesh) return;
+        const visible = times.flatMap((_, i) => (i === frame ? [1, 1, 1] : [0, 0, 0]));
+        channels.push({ node: nodes.length, path: "scale", values: visible, interpolation: "STEP" });
+        nodes.push({
+          name: `part-${part}-frame-${frame + 1}`,
+          mesh: { positions: mesh },
+          scale: frame === 0 ? [1, 1, 1] : [0, 0, 0],
+        });
+      });
+    }
+  });
+
+  return { nodes, animations: [{ name: "progress", times, channels }], motion: motion.map((track) => track.kind) };
+}
+
+const SMOOTHING_KEY_PRECISION = 1e5;
+
+/**
+ * Indexed mesh with smoothed normals for a JSCAD geom3. Faces meeting at less
+ * than `creaseAngleDeg` share vertices and normals; sharper edges stay hard.
+ */
+export function smoothIndexedMesh(geometry: unknown, creaseAngleDeg = 30) {
+  const triangles = triangulateGeometry(geometry);
+  if (!triangles) return null;
+  const triangleCount = triangles.length / 9;
+  const faceNormals: Vec[] = [];
+  for (let t = 0; t < triangleCount; t++) {
+    const a = at(triangles, t * 3);
+    faceNormals.push(cross(sub(at(triangles, t * 3 + 1), a), sub(at(triangles, t * 3 + 2), a)));
+  }
+
+  const positionKey = (p: Vec) => p.map((value) => Math.round(value * SMOOTHING_KEY_PRECISION)).join(",");
+  const corners = new Map<string, number[]>();
+  for (let corner = 0; corner < triangleCount * 3; corner++) {
+    const key = positionKey(at(triangles, corner));
+    const list = corners.get(key);
+    if (list) list.push(corner);
+    else corners.set(key, [corner]);
+  }
+
+  const cosCrease = Math.cos((creaseAngleDeg * Math.PI) / 180);
+  const unit = (n: Vec) => scale(n, 1 / (norm(n) || 1));
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const indices = new Uint32Array(triangleCount * 3);
+  const vertexIndex = new Map<string, number>();
+  for (let corner = 0; corner < triangleCount * 3; corner++) {
+    const point = at(triangles, corner);
+    const face = unit(faceNormals[Math.floor(corner / 3)]);
+    let sum: Vec = [0, 0, 0];
+    for (const other of corners.get(positionKey(point))!) {
+      const normal = faceNormals[Math.floor(other / 3)];
+      if (dot(unit(normal), face) >= cosCrease) sum = [sum[0] + normal[0], sum[1] + normal[1], sum[2] + normal[2]];
+    }
+    const normal = norm(sum) > 0 ? unit(sum) : face;
+    const key = `${positionKey(point)}|${positionKey(scale(normal, 100))}`;
+    let index = vertexIndex.get(key);
+    if (index === undefined) {
+      index = positions.length / 3;
+      vertexIndex.set(key, index);
+      positions.push(...point);
+      normals.push(...normal);
+    }
+    indices[corner] = index;
+  }
+  return { positions: new Float32Array(positions), normals: new Float32Array(normals), indices };
+}
+
+/** One node per geom3 part, named and colored from the model, for static GLB export. */
+export function buildStaticScene(geometries: unknown[], creaseAngleDeg = 30): GltfNode[] {
+  const nodes: GltfNode[] = [];
+  geometries.forEach((geometry, index) => {
+    const mesh = smoothIndexedMesh(geometry, creaseAngleDeg);
+    if (!mesh) return;
+    const g = geometry as { name?: unknown; color?: unknown };
+    const color = Array.isArray(g.color) && g.color.length >= 3 ? g.color.map(Number) : null;
+    nodes.push({
+      name: typeof g.name === "string" && g.name.trim() ? g.name.trim() : `part-${index}`,
+      mesh: { ...mesh, ...(color ? { color: [color[0], color[1], color[2], color[3] ?? 1] } : {}) },
+    });
+  });
+  return nodes;
+}
+
+function flatNormals(positions: Float32Array) {
+  const normals = new Float32Array(positions.length);
+  for (let i = 0; i < positions.length; i += 9) {
+    const a: Vec = [positions[i], positions[i + 1], positions[i + 2]];
+    const n = cross(sub([positions[i + 3], positions[i + 4], positions[i + 5]], a), sub([positions[i + 6], positions[i + 7], positions[i + 8]], a));
+    const length = norm(n) || 1;
+    for (let v = 0; v < 3; v++) normals.set(scale(n, 1 / length), i + v * 3);
+  }
+  return normals;
+}
+
+function bounds(values: ArrayLike<number>, components: number) {
+  const min = new Array(components).fill(Infinity);
+  const max = new Array(components).fill(-Infinity);
+  for (let i = 0; i < values.length; i++) {
+    min[i % components] = Math.min(min[i % components], values[i]);
+    max[i % components] = Math.max(max[i % components], values[i]);
+  }
+  return { min, max };
+}
+
+/** Serializes nodes and animations into a single GLB file. */
+export function buildGlb(nodes: GltfNode[], animations: GltfAnimation[] = [], options: { generator?: string } = {}) {
+  const chunks: Uint8Array[] = [];
+  let byteLength = 0;
+  const bufferViews: Array<Record<string, unknown>> = [];
+  const accessors: Array<Record<string, unknown>> = [];
+
+  const addAccessor = (
+    data: Float32Array | Uint32Array,
+    type: "SCALAR" | "VEC3" | "VEC4",
+    withBounds: boolean,
+    target?: number
+  ) => {
+    const bytes = new Uint8Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+    bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: bytes.length, ...(target ? { target } : {}) });
+    chunks.push(bytes);
+    byteLength += bytes.length; // 32-bit data keeps 4-byte alignment
+    const components = type === "SCALAR" ? 1 : type === "VEC3" ? 3 : 4;
+    accessors.push({
+      bufferView: bufferViews.length - 1,
+      componentType: data instanceof Uint32Array ? 5125 : 5126,
+      count: data.length / components,
+      type,
+      ...(withBounds ? bounds(data, components) : {}),
+    });
+    return accessors.length - 1;
+  };
+
+  const materials: Array<Record<string, unknown>> = [];
+  const materialFor = (color: [number, number, number, number]) => {
+    const key = JSON.stringify(color);
+    const index = materials.findIndex((material) => JSON.stringify((material.pbrMetallicRoughness as { baseColorFactor: number[] }).baseColorFactor) === key);
+    if (index >= 0) return index;
+    materials.push({
+      pbrMetallicRoughness: { baseColorFactor: color, metallicFactor: 0.1, roughnessFactor: 0.7 },
+      doubleSided: true,
+      ...(color[3] < 1 ? { alphaMode: "BLEND" } : {}),
+    });
+    return materials.length - 1;
+  };
+
+  const meshes = nodes.map((node) => {
+    const { positions, indices, normals, morphTargets, color = DEFAULT_COLOR } = node.mesh;
+    const primitive: Record<string, unknown> = {
+      attributes: {
+        POSITION: addAccessor(positions, "VEC3", true, 34962),
+        NORMAL: addAccessor(normals ?? flatNormals(positions), "VEC3", false, 34962),
+      },
+      ...(indices ? { indices: addAccessor(indices, "SCALAR", false, 34963) } : {}),
+      material: materialFor(color),
+    };
+    if (morphTargets?.length) {
+      primitive.targets = morphTargets.map((target) => {
+        const delta = new Float32Array(positions.length);
+        for (let i = 0; i < delta.length; i++) delta[i] = target[i] - positions[i];
+        return { POSITION: addAccessor(delta, "VEC3", true, 34962) };
+      });
+    }
+    return { name: node.name, primitives: [primitive], ...(node.weights ? { weights: node.weights } : {}) };
+  });
+
+  const gltfNodes: Array<Record<string, unknown>> = [
+    { name: "root", rotation: Z_UP_TO_Y_UP, children: nodes.map((_, i) => i + 1) },
+    ...nodes.map((node, i) => ({
+      name: node.name,
+      mesh: i,
+      ...(node.translation ? { translation: node.translation } : {}),
+      ...(node.rotation ? { rotation: node.rotation } : {}),
+      ...(node.scale ? { scale: node.scale } : {}),
+      ...(node.weights ? { weights: node.weights } : {}),
+    })),
+  ];
+
+  const gltfAnimations = animations
+    .filter((animation) => animation.channels.length > 0)
+    .map((animation) => {
+      const input = addAccessor(new Float32Array(animation.times), "SCALAR", true);
+      const samplers = animation.channels.map((channel) => ({
+        input,
+        output: addAccessor(
+          new Float32Array(channel.values),
+          channel.path === "rotation" ? "VEC4" : channel.path === "weights" ? "SCALAR" : "VEC3",
+          false
+        ),
+        interpolation: channel.interpolation ?? "LINEAR",
+      }));
+      return {
+        name: animation.name,
+        samplers,
+        channels: animation.channels.map((channel, i) => ({
+          sampler: i,
+          target: { node: channel.node + 1, path: channel.path },
+        })),
+      };
+    });
+
+  const json = {
+    asset: { version: "2.0", generator: options.generator ?? "OpenMech" },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: gltfNodes,
+    meshes,
+    materials,
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength }],
+    ...(gltfAnimations.length > 0 ? { animations: gltfAnimations } : {}),
+  };
+
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonPadded = Math.ceil(jsonBytes.length / 4) * 4;
+  const binPadded = Math.ceil(byteLength / 4) * 4;
+  const total = 12 + 8 + jsonPadded + 8 + binPadded;
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, 0x46546c67, true); // "glTF"
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+  view.setUint32(12, jsonPadded, true);
+  view.setUint32(16, 0x4e4f534a, true); // "JSON"
+  out.set(jsonBytes, 20);
+  out.fill(0x20, 20 + jsonBytes.length, 20 + jsonPadded);
+  let offset = 20 + jsonPadded;
+  view.setUint32(offset, binPadded, true);
+  view.setUint32(offset + 4, 0x004e4942, true); // "BIN"
+  offset += 8;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -1,6 +1,9 @@
 "use client";
 
 import { useCallback, useRef, useEffect } from "react";
+import type { DependencyLock, ResolvedModule } from "@/lib/dependencies";
+import type { MechanismFeature } from "@/lib/kinematics/types";
+import type { ProjectFiles } from "@/lib/project-files";
 
 /**
  * JSCAD Web Worker — evaluates JSCAD code in a sandboxed environment.
@@ -10,13 +13,27 @@ import { useCallback, useRef, useEffect } from "react";
 // Types for messages between main thread and worker
 export interface WorkerRequest {
   type: "evaluate";
+  /** Echoed on the response; unique per pool. */
+  id: number;
   code: string;
   parameters?: Record<string, unknown>;
+  /** Download URLs of uploaded meshes by project path ("assets/part.stl"). */
+  assets?: Record<string, string>;
+  /** The project's files besides main, by path ("lib/fasteners.jscad"). */
+  files?: ProjectFiles;
+  /** Pinned modules of the project; without it remote and /jscad-libs modules load live. */
+  dependencies?: DependencyLock;
 }
 
 export interface WorkerResponse {
   type: "result" | "error" | "parameters";
+  /** Id of the request this answers. */
+  id?: number;
   geometries?: unknown[];
+  /** Pitch features from the mechanics libraries, in world space, tagged with `partIndex`. */
+  features?: MechanismFeature[];
+  /** Modules fetched live because the request's lock did not pin them yet. */
+  modules?: ResolvedModule[];
   parameterDefinitions?: ParameterDefinition[];
   error?: JscadExecutionError;
   metadata?: {
@@ -61,22 +78,81 @@ class JscadWorkerError extends Error {
   }
 }
 
+let projectAssets: Record<string, string> = {};
+
 /**
- * Creates and manages a JSCAD evaluation Web Worker.
+ * Mesh assets of the open project, sent with every evaluation so
+ * `require('./assets/...')` resolves in all workers (preview, export, sweeps).
  */
-export class JscadWorker {
+export function setProjectAssets(assets: Record<string, string>) {
+  projectAssets = assets;
+}
+
+let projectFiles: ProjectFiles = {};
+
+/** Modules of the open project, sent alongside the assets so relative requires resolve everywhere. */
+export function setProjectFiles(files: ProjectFiles) {
+  projectFiles = files;
+}
+
+let projectDependencies: DependencyLock | undefined;
+
+/** The open project's dependency lock; undefined (the playground) loads libraries live. */
+export function setProjectDependencies(dependencies: DependencyLock | undefined) {
+  projectDependencies = dependencies;
+}
+
+/** Preview runs take an idle worker first and preempt background jobs (exports, sweeps, frame prefetch). */
+export type EvaluationPriority = "preview" | "background";
+
+export interface EvaluateOptions {
+  priority?: EvaluationPriority;
+  /**
+   * Evaluations sharing a key supersede each other: submitting one cancels the
+   * queued or running evaluation with the same key.
+   */
+  key?: string;
+  /** Aborting cancels the evaluation, terminating its worker if it is running. */
+  signal?: AbortSignal;
+}
+
+/** Rejection of an evaluation that was superseded, aborted or terminated before it finished. */
+export class JscadEvaluationCancelledError extends Error {
+  constructor() {
+    super("JSCAD evaluation cancelled");
+    this.name = "JscadEvaluationCancelledError";
+  }
+}
+
+interface PendingEvaluation {
+  request: WorkerRequest;
+  priority: EvaluationPriority;
+  key?: string;
+  resolve: (value: WorkerResponse) => void;
+  reject: (reason: Error) => void;
+  detachSignal?: () => void;
+}
+
+type EvaluationOutcome = { response: WorkerResponse } | { error: Error };
+
+const EVALUATION_TIMEOUT_MS = 30000;
+
+/**
+ * One JSCAD evaluation Web Worker, driven by `JscadWorkerPool`. Runs a single
+ * evaluation at a time; cancelling it terminates and respawns the worker,
+ * since a running evaluation cannot be interrupted any other way.
+ */
+class JscadWorker {
   private worker: Worker | null = null;
-  private pendingResolve: ((value: WorkerResponse) => void) | null = null;
-  private pendingReject: ((reason: JscadWorkerError) => void) | null = null;
   private evaluationTimeoutId: ReturnType<typeof setTimeout> | null = null;
-  private activeEvaluationId = 0;
   private isReady = false;
   private readyPromise: Promise<void> | null = null;
   private readyResolve: (() => void) | null = null;
   private readyTimeoutId: ReturnType<typeof setTimeout> | null = null;
   private staticWorkerUrl = '/jscad-worker.js';
+  current: PendingEvaluation | null = null;
 
-  constructor() {
+  constructor(private onSettled: (job: PendingEvaluation, outcome: EvaluationOutcome) => void) {
     this.initWorker();
   }
 
@@ -93,8 +169,6 @@ export class JscadWorker {
       clearTimeout(this.evaluationTimeoutId);
       this.evaluationTimeoutId = null;
     }
-    this.pendingResolve = null;
-    this.pendingReject = null;
 
     try {
       this.worker = new Worker(this.staticWorkerUrl, { type: 'classic' });
@@ -105,15 +179,11 @@ export class JscadWorker {
 
     this.worker.onerror = (e) => {
       console.error('[JSCAD Worker] Error:', e);
-      if (this.pendingReject) {
-        this.pendingReject(new JscadWorkerError({ 
-          message: `Worker error: ${e.message || 'Unknown worker error'}` 
-        }));
-        this.pendingResolve = null;
-        this.pendingReject = null;
-      }
-      this.terminate();
-      this.initWorker();
+      // Respawn first: settling hands the next queued evaluation to this worker.
+      this.restart();
+      this.settle(new JscadWorkerError({
+        message: `Worker error: ${e.message || 'Unknown worker error'}`
+      }));
     };
 
     this.worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
@@ -131,19 +201,15 @@ export class JscadWorker {
         }
         return;
       }
-      
+
       if (e.data.type === "parameters") return;
-      if (this.evaluationTimeoutId) {
-        clearTimeout(this.evaluationTimeoutId);
-        this.evaluationTimeoutId = null;
-      }
+      // An answer to a request the pool already gave up on.
+      if (!this.current || e.data.id !== this.current.request.id) return;
       if (e.data.type === "error") {
-        this.pendingReject?.(new JscadWorkerError(e.data.error ?? { message: "Unknown error" }));
+        this.settle(new JscadWorkerError(e.data.error ?? { message: "Unknown error" }));
       } else {
-        this.pendingResolve?.(e.data);
+        this.settle(e.data);
       }
-      this.pendingResolve = null;
-      this.pendingReject = null;
     };
   }
 
@@ -164,57 +230,49 @@ export class JscadWorker {
     return this.readyPromise;
   }
 
-  evaluate(
-    code: string,
-    parameters?: Record<string, unknown>,
-    attempt = 0
-  ): Promise<WorkerResponse> {
-    return new Promise(async (resolve, reject) => {
-      if (!this.worker) {
-        if (attempt < 2) {
-          this.initWorker();
-          setTimeout(() => {
-            this.evaluate(code, parameters, attempt + 1)
-              .then(resolve)
-              .catch(reject);
-          }, 500);
-          return;
-        }
-        reject(new JscadWorkerError({ message: "Worker failed to initialize after retries" }));
-        return;
-      }
-
-      // Wait for worker to be ready
-      await this.waitForReady();
-
-      this.pendingResolve = resolve;
-      this.pendingReject = reject;
-      const evaluationId = ++this.activeEvaluationId;
-
-      const request: WorkerRequest = {
-        type: "evaluate",
-        code,
-        parameters,
-      };
+  private settle(result: WorkerResponse | Error) {
+    const job = this.current;
+    if (!job) return;
+    this.current = null;
+    if (this.evaluationTimeoutId) {
+      clearTimeout(this.evaluationTimeoutId);
+      this.evaluationTimeoutId = null;
+    }
+    this.onSettled(job, result instanceof Error ? { error: result } : { response: result });
+  }
 
-      this.worker.postMessage(request);
+  run(job: PendingEvaluation) {
+    this.current = job;
+    if (!this.worker) this.initWorker();
+    if (!this.worker) {
+      this.settle(new JscadWorkerError({ message: "Worker failed to initialize" }));
+      return;
+    }
 
-      if (this.evaluationTimeoutId) {
-        clearTimeout(this.evaluationTimeoutId);
-      }
+    void this.waitForReady().then(() => {
+      if (this.current !== job || !this.worker) return;
+      this.worker.postMessage(job.request);
       this.evaluationTimeoutId = setTimeout(() => {
-        if (this.pendingReject && this.activeEvaluationId === evaluationId) {
-          this.pendingReject(new JscadWorkerError({ message: "JSCAD evaluation timed out (30s)" }));
-          this.pendingResolve = null;
-          this.pendingReject = null;
-          this.evaluationTimeoutId = null;
-          this.terminate();
-          this.initWorker();
-        }
-      }, 30000);
+        if (this.current !== job) return;
+        this.restart();
+        this.settle(new JscadWorkerError({ message: "JSCAD evaluation timed out (30s)" }));
+      }, EVALUATION_TIMEOUT_MS);
     });
   }
 
+  /** Stops the evaluation in flight without settling it and returns it. */
+  cancel(): PendingEvaluation | null {
+    const job = this.current;
+    this.current = null;
+    if (job) this.restart();
+    return job;
+  }
+
+  private restart() {
+    this.terminate();
+    this.initWorker();
+  }
+
   terminate() {
     if (this.readyTimeoutId) {
       clearTimeout(this.readyTimeoutId);
@@ -230,32 +288,190 @@ export class JscadWorker {
   }
 }
 
+function defaultPoolSize() {
+  const cores = typeof navigator === "undefined" ? 2 : navigator.hardwareConcurrency || 2;
+  return Math.min(4, Math.max(2, cores - 1));
+}
+
+/**
+ * Schedules evaluations over a few JSCAD workers, spawned on demand. Requests
+ * carry ids so a response is only ever matched to the evaluation that asked
+ * for it. Queued preview runs go before background jobs, and a preview run
+ * with no idle worker preempts a background job, which is queued again and
+ * re-run from scratch once a worker frees up.
+ */
+export class JscadWorkerPool {
+  private workers: JscadWorker[] = [];
+  private queue: PendingEvaluation[] = [];
+  private nextRequestId = 0;
+
+  constructor(private size = defaultPoolSize()) {}
+
+  evaluate(
+    code: string,
+    parameters?: Record<string, unknown>,
+    options: EvaluateOptions = {}
+  ): Promise<WorkerResponse> {
+    const { priority = "preview", key, signal } = options;
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new JscadEvaluationCancelledError());
+        return;
+      }
+      if (key !== undefined) this.cancel(key);
+
+      const job: PendingEvaluation = {
+        request: {
+          type: "evaluate",
+          id: ++this.nextRequestId,
+          code,
+          parameters,
+          assets: projectAssets,
+          files: projectFiles,
+          dependencies: projectDependencies,
+        },
+        priority,
+        key,
+        resolve,
+        reject,
+      };
+      if (signal) {
+        const onAbort = () => this.cancelJob(job);
+        signal.addEventListener("abort", onAbort, { once: true });
+        job.detachSignal = () => signal.removeEventListener("abort", onAbort);
+      }
+      this.enqueue(job);
+      this.dispatch();
+    });
+  }
+
+  /** Cancels the queued or running evaluation submitted with `key`. */
+  cancel(key: string) {
+    const job =
+      this.queue.find((queued) => queued.key === key) ??
+      this.workers.find((worker) => worker.current?.key === key)?.current;
+    if (job) this.cancelJob(job);
+  }
+
+  terminate() {
+    for (const job of this.queue.splice(0)) this.finish(job, { error: new JscadEvaluationCancelledError() });
+    for (const worker of this.workers) {
+      const job = worker.current;
+      worker.current = null;
+      worker.terminate();
+      if (job) this.finish(job, { error: new JscadEvaluationCancelledError() });
+    }
+    this.workers = [];
+  }
+
+  private cancelJob(job: PendingEvaluation) {
+    const index = this.queue.indexOf(job);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    } else {
+      const worker = this.workers.find((candidate) => candidate.current === job);
+      if (!worker) return;
+      worker.cancel();
+    }
+    this.finish(job, { error: new JscadEvaluationCancelledError() });
+    this.dispatch();
+  }
+
+  /** Preview runs ahead of background jobs, first come first served within each. */
+  private enqueue(job: PendingEvaluation, { front = false } = {}) {
+    const index = this.queue.findIndex((queued) =>
+      job.priority === "preview"
+        ? queued.priority === "background" || front
+        : queued.priority === "background" && front
+    );
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, job);
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const job = this.queue[0];
+      let worker = this.workers.find((candidate) => !candidate.current);
+      if (!worker && this.workers.length < this.size) {
+        worker = new JscadWorker((settled, outcome) => {
+          this.finish(settled, outcome);
+          this.dispatch();
+        });
+        this.workers.push(worker);
+      }
+      if (!worker && job.priority === "preview") {
+        worker = this.workers.find((candidate) => candidate.current?.priority === "background");
+        const preempted = worker?.cancel();
+        if (preempted) this.enqueue(preempted, { front: true });
+      }
+      if (!worker) return;
+      this.queue.splice(this.queue.indexOf(job), 1);
+      worker.run(job);
+    }
+  }
+
+  private finish(job: PendingEvaluation, outcome: EvaluationOutcome) {
+    job.detachSignal?.();
+    if ("error" in outcome) {
+      job.reject(outcome.error);
+    } else {
+      job.resolve(outcome.response);
+    }
+  }
+}
+
+let sharedPool: JscadWorkerPool | null = null;
+
+/** The page's worker pool, shared so preview runs can preempt background jobs. */
+export function getJscadWorkerPool() {
+  sharedPool ??= new JscadWorkerPool();
+  return sharedPool;
+}
+
+let nextPreviewKey = 0;
+
 // React hook for using the JSCAD worker
 export function useJscadWorker() {
-  const workerRef = useRef<JscadWorker | null>(null);
+  const previewKeyRef = useRef<string | null>(null);
+  previewKeyRef.current ??= `preview:${++nextPreviewKey}`;
 
   useEffect(() => {
-    workerRef.current = new JscadWorker();
+    const previewKey = previewKeyRef.current;
     return () => {
-      workerRef.current?.terminate();
+      if (previewKey) getJscadWorkerPool().cancel(previewKey);
     };
   }, []);
 
+  /**
+   * Preview runs (the default) supersede each other, so only the latest one
+   * reports a result and earlier ones come back `cancelled`. Background runs
+   * are neither superseded nor supersede anything; abort them with `signal`.
+   */
   const execute = useCallback(async (
     code: string,
-    parameters?: Record<string, unknown>
-  ): Promise<{ geometry?: unknown[]; error?: JscadExecutionError }> => {
-    if (!workerRef.current) {
-      return { error: { message: "Worker not initialized" } };
-    }
-
+    parameters?: Record<string, unknown>,
+    options: { priority?: EvaluationPriority; signal?: AbortSignal } = {}
+  ): Promise<{
+    geometry?: unknown[];
+    features?: MechanismFeature[];
+    modules?: ResolvedModule[];
+    error?: JscadExecutionError;
+    cancelled?: boolean;
+  }> => {
+    const { priority = "preview", signal } = options;
     try {
-      const result = await workerRef.current.evaluate(code, parameters);
+      const result = await getJscadWorkerPool().evaluate(code, parameters, {
+        priority,
+        key: priority === "preview" ? previewKeyRef.current ?? undefined : undefined,
+        signal,
+      });
       if (result.error) {
         return { error: result.error };
       }
-      return { geometry: result.geometries as unknown[] };
+      return { geometry: result.geometries as unknown[], features: result.features ?? [], modules: result.modules };
     } catch (err) {
+      if (err instanceof JscadEvaluationCancelledError) {
+        return { cancelled: true };
+      }
       if (err instanceof JscadWorkerError) {
         return {
           error: {
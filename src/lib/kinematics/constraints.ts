@@ -0,0 +1,298 @@
+import type {
+  KinematicConstraint,
+  MechanismPart,
+  MechanismSpec,
+  PitchCircleFeature,
+  PitchLineFeature,
+  Vec3,
+} from "./types";
+
+/**
+ * Constraint graph for gear/rack mechanisms (roadmap Phase 3).
+ *
+ * Every part moves linearly with the input `u`: rotating parts turn by
+ * `ratio * u` degrees about their pitch-circle axis, translating parts slide by
+ * `ratio * u` mm along their pitch-line direction. Meshes propagate ratios
+ * outward from the input part; constraints then express validity as residuals
+ * of `u`, with an exact interval wherever the residual is linear.
+ */
+
+export interface GraphConstraint {
+  id: string;
+  type: KinematicConstraint["type"] | "gear_rack_engagement";
+  parts: string[];
+  /** Violation at input `u` in mm (or degrees for angle limits); at most `tolerance` means satisfied. */
+  residual: (u: number) => number;
+  tolerance: number;
+  /** Exact feasible interval of `u`, when the constraint is linear in `u`. */
+  interval?: [number, number];
+  /** Nominal and measured distance for pose-independent mesh checks, in mm. */
+  measure?: { expected: number; actual: number };
+}
+
+interface Mesh {
+  id: string;
+  from: string;
+  to: string;
+  /** Motion of `to` per unit motion of `from`. */
+  factor: number;
+}
+
+export interface ConstraintGraph {
+  input: MechanismSpec["input"];
+  parts: Map<string, MechanismPart>;
+  /** Motion of each part per unit of input; parts not reached by a mesh are absent. */
+  ratios: Map<string, number>;
+  constraints: GraphConstraint[];
+  diagnostics: string[];
+  meshes: Mesh[];
+  /** Set when meshes disagree about a part's motion or drive a fixed part; nothing can move. */
+  locked: boolean;
+}
+
+const DEFAULT_TOLERANCE_MM = 0.05;
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+function meshTolerance(module: number | undefined) {
+  return Math.max(DEFAULT_TOLERANCE_MM, 0.02 * (module ?? 0));
+}
+
+function requirePart(graph: ConstraintGraph, id: string, constraintId: string) {
+  const part = graph.parts.get(id);
+  if (!part) throw new Error(`Constraint "${constraintId}" references unknown part "${id}".`);
+  return part;
+}
+
+function requireFeature<T extends "pitch_circle" | "pitch_line">(
+  part: MechanismPart,
+  type: T,
+  constraintId: string
+): T extends "pitch_circle" ? PitchCircleFeature : PitchLineFeature {
+  const feature = part.features.find((candidate) => candidate.type === type);
+  if (!feature) {
+    throw new Error(`Part "${part.id}" has no ${type} feature for constraint "${constraintId}".`);
+  }
+  return feature as T extends "pitch_circle" ? PitchCircleFeature : PitchLineFeature;
+}
+
+function ratioOf(graph: ConstraintGraph, partId: string) {
+  return graph.ratios.get(partId) ?? 0;
+}
+
+/** Feasible `u` for `ratio * u` within [min, max]; `null` when the value never changes. */
+function linearInterval(ratio: number, min: number, max: number): [number, number] | null {
+  if (ratio === 0) return null;
+  const a = min / ratio;
+  const b = max / ratio;
+  return a <= b ? [a, b] : [b, a];
+}
+
+// Diagnostics produced by ratio propagation, per graph, so a re-run can replace them.
+const ratioDiagnostics = new WeakMap<ConstraintGraph, Set<string>>();
+
+function reportRatio(graph: ConstraintGraph, message: string) {
+  graph.locked = true;
+  ratioDiagnostics.get(graph)?.add(message);
+  if (!graph.diagnostics.includes(message)) graph.diagnostics.push(message);
+}
+
+/** Re-derives every part's ratio from the input part through the recorded meshes. */
+function propagateRatios(graph: ConstraintGraph) {
+  graph.ratios = new Map([[graph.input.part, 1]]);
+  const previous = ratioDiagnostics.get(graph) ?? new Set<string>();
+  graph.diagnostics = graph.diagnostics.filter((line) => !previous.has(line));
+  ratioDiagnostics.set(graph, new Set());
+  graph.locked = false;
+  const queue = [graph.input.part];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const ratio = graph.ratios.get(current)!;
+    for (const mesh of graph.meshes) {
+      const [other, factor] =
+        mesh.from === current ? [mesh.to, mesh.factor] : mesh.to === current ? [mesh.from, 1 / mesh.factor] : [null, 0];
+      if (other === null) continue;
+      const expected = ratio * factor;
+      const known = graph.ratios.get(other);
+      if (known === undefined) {
+        graph.ratios.set(other, expected);
+        queue.push(other);
+      } else if (Math.abs(known - expected) > 1e-9 * Math.max(1, Math.abs(known))) {
+        reportRatio(
+          graph,
+          `Over-constrained: mesh "${mesh.id}" drives "${other}" at ${expected.toFixed(4)} per unit input, but another path gives ${known.toFixed(4)}.`
+        );
+      }
+    }
+  }
+  for (const part of graph.parts.values()) {
+    if (part.motion === "fixed" && ratioOf(graph, part.id) !== 0) {
+      reportRatio(graph, `Part "${part.id}" is fixed but is driven by a mesh; the mechanism is locked.`);
+    }
+  }
+}
+
+export function buildConstraintGraph(parts: MechanismPart[], input: MechanismSpec["input"]): ConstraintGraph {
+  const graph: ConstraintGraph = {
+    input,
+    parts: new Map(parts.map((part) => [part.id, part])),
+    ratios: new Map([[input.part, 1]]),
+    constraints: [],
+    diagnostics: [],
+    meshes: [],
+    locked: false,
+  };
+  if (!graph.parts.has(input.part)) {
+    throw new Error(`Input part "${input.part}" is not declared.`);
+  }
+  return graph;
+}
+
+/** External spur mesh: center distance `r1 + r2 + backlash` with parallel axes. */
+export function addGearGearConstraint(
+  graph: ConstraintGraph,
+  constraint: Extract<KinematicConstraint, { type: "gear_gear" }>
+) {
+  const { id, backlash = 0 } = constraint;
+  const a = requirePart(graph, constraint.a, id);
+  const b = requirePart(graph, constraint.b, id);
+  const featureA = requireFeature(a, "pitch_circle", id);
+  const ca = featureA.pitchCircle;
+  const cb = requireFeature(b, "pitch_circle", id).pitchCircle;
+
+  const alignment = dot(ca.axis, cb.axis);
+  if (Math.abs(alignment) < 0.999) {
+    graph.diagnostics.push(`Mesh "${id}": axes of "${a.id}" and "${b.id}" are not parallel.`);
+  }
+  // Project the center offset onto the plane of rotation so axial offsets do not count.
+  const offset = sub(cb.center, ca.center);
+  const axial = dot(offset, ca.axis);
+  const distance = Math.hypot(offset[0] - axial * ca.axis[0], offset[1] - axial * ca.axis[1], offset[2] - axial * ca.axis[2]);
+  const error = distance - (ca.radius + cb.radius + backlash);
+
+  graph.constraints.push({
+    id,
+    type: "gear_gear",
+    parts: [a.id, b.id],
+    residual: () => Math.abs(error),
+    tolerance: meshTolerance(featureA.module),
+    measure: { expected: distance - error, actual: distance },
+  });
+  graph.meshes.push({ id, from: a.id, to: b.id, factor: -(ca.radius / cb.radius) * Math.sign(alignment || 1) });
+  propagateRatios(graph);
+  return graph;
+}
+
+/**
+ * Rack on a fixed-center gear: the gear center sits `r + backlash` from the
+ * pitch line, and the contact point must stay on the toothed length (with
+ * half a circular pitch to spare) as the rack slides.
+ */
+export function addGearRackConstraint(
+  graph: ConstraintGraph,
+  constraint: Extract<KinematicConstraint, { type: "gear_rack" }>
+) {
+  const { id, backlash = 0 } = constraint;
+  const gear = requirePart(graph, constraint.gear, id);
+  const rack = requirePart(graph, constraint.rack, id);
+  const circleFeature = requireFeature(gear, "pitch_circle", id);
+  const lineFeature = requireFeature(rack, "pitch_line", id);
+  const circle = circleFeature.pitchCircle;
+  const line = lineFeature.pitchLine;
+
+  const fromLine = sub(circle.center, line.point);
+  const offset = dot(fromLine, line.normal);
+  const tangency = offset - (circle.radius + backlash);
+  const tolerance = meshTolerance(circleFeature.module ?? lineFeature.module);
+  graph.constraints.push({
+    id,
+    type: "gear_rack",
+    parts: [gear.id, rack.id],
+    residual: () => Math.abs(tangency),
+    tolerance,
+    measure: { expected: circle.radius + backlash, actual: offset },
+  });
+
+  // Rack travel per degree of gear rotation; zero when the axis lies along the rack.
+  const travelPerDegree = -circle.radius * dot(cross(circle.axis, line.normal), line.direction) * (Math.PI / 180);
+  if (Math.abs(travelPerDegree) < 1e-9) {
+    graph.diagnostics.push(`Mesh "${id}": gear axis is not perpendicular to the rack; the rack cannot be driven.`);
+  } else {
+    graph.meshes.push({ id, from: gear.id, to: rack.id, factor: travelPerDegree });
+    propagateRatios(graph);
+  }
+
+  const length = lineFeature.length;
+  if (length === undefined) {
+    graph.diagnostics.push(`Mesh "${id}": rack "${rack.id}" has no toothed length; engagement is not checked.`);
+    return graph;
+  }
+  const margin = (lineFeature.circularPitch ?? Math.PI * (lineFeature.module ?? 0)) / 2;
+  const contact = dot(fromLine, line.direction);
+  // Contact position measured from the start of the toothed length, after the rack has moved.
+  const along = (u: number) => contact - ratioOf(graph, rack.id) * u;
+  graph.constraints.push({
+    id: `${id}:engagement`,
+    type: "gear_rack_engagement",
+    parts: [gear.id, rack.id],
+    residual: (u) => Math.max(margin - along(u), along(u) - (length - margin), 0),
+    tolerance: 1e-6,
+    get interval() {
+      // Travel must keep margin <= contact - travel <= length - margin.
+      return linearInterval(ratioOf(graph, rack.id), contact - (length - margin), contact - margin) ?? undefined;
+    },
+  });
+  return graph;
+}
+
+/** Angle (degrees) or travel (mm) bounds on one part, relative to its pose at `u = 0`. */
+export function addLimitConstraint(
+  graph: ConstraintGraph,
+  constraint: Extract<KinematicConstraint, { type: "angle_limit" | "travel_limit" }>
+) {
+  const { id, min, max } = constraint;
+  const part = requirePart(graph, constraint.part, id);
+  const value = (u: number) => ratioOf(graph, part.id) * u;
+  graph.constraints.push({
+    id,
+    type: constraint.type,
+    parts: [part.id],
+    residual: (u) => Math.max(min - value(u), value(u) - max, 0),
+    tolerance: 1e-6,
+    get interval() {
+      return linearInterval(ratioOf(graph, part.id), min, max) ?? undefined;
+    },
+  });
+  return graph;
+}
+
+/** Builds the graph for a spec. Residuals read ratios lazily, so constraint order does not matter. */
+export function buildConstraintGraphFromSpec(spec: MechanismSpec): ConstraintGraph {
+  const graph = buildConstraintGraph(spec.parts, spec.input);
+  for (const constraint of spec.constraints) {
+    switch (constraint.type) {
+      case "gear_gear":
+        addGearGearConstraint(graph, constraint);
+        break;
+      case "gear_rack":
+        addGearRackConstraint(graph, constraint);
+        break;
+      case "angle_limit":
+      case "travel_limit":
+        addLimitConstraint(graph, constraint);
+        break;
+    }
+  }
+  for (const part of spec.parts) {
+    if (!graph.ratios.has(part.id) && part.motion !== "fixed") {
+      graph.diagnostics.push(`Part "${part.id}" is not connected to the input and will not move.`);
+    }
+  }
+  return graph;
+}
@@ -0,0 +1,453 @@
+import { polygonVertices } from "../jscad-geometry";
+import { mergeDeclaredAndDetectedFeatures } from "./features";
+import type { FeatureSource, MechanismFeature, PitchCircleFeature, PitchLineFeature, Vec3 } from "./types";
+
+/**
+ * Pitch-feature detection for parts that carry no library metadata (roadmap
+ * Phase 2). Order of trust: library metadata, then known constructor params,
+ * then heuristics over the evaluated polygons.
+ *
+ * Geometry heuristics expect canonicalized output (transforms already applied,
+ * as returned by the worker and `evaluateJscadCode`) and only look along the
+ * principal axes; gears tilted off-axis are not recognized.
+ */
+
+export interface GearParams {
+  kind: "gear";
+  partIndex?: number;
+  module: number;
+  teeth: number;
+  center?: Vec3;
+  axis?: Vec3;
+}
+
+export interface RackParams {
+  kind: "rack";
+  partIndex?: number;
+  module: number;
+  /** A point on the pitch line; defaults to the origin. */
+  point?: Vec3;
+  direction?: Vec3;
+  normal?: Vec3;
+  length?: number;
+}
+
+export interface DetectionContext {
+  geometries?: unknown[];
+  /** Features declared by library metadata, e.g. `evaluation.features`. */
+  metadata?: MechanismFeature[];
+  params?: Array<GearParams | RackParams>;
+  /** Limit geometry detection to these indices of `geometries`; defaults to all. */
+  partIndices?: number[];
+}
+
+export interface DetectionResult {
+  features: MechanismFeature[];
+  /** Lowest confidence among the returned features; 0 when nothing was found. */
+  confidence: number;
+  /** Least trusted source that contributed a feature. */
+  source: FeatureSource;
+  warnings: string[];
+}
+
+/** Below this, a detected feature should not be trusted for tight meshing. */
+export const LOW_CONFIDENCE = 0.6;
+// Below this the shape is not treated as toothed at all.
+const MIN_CONFIDENCE = 0.2;
+
+// Geometry estimates never claim more than this, even when perfectly regular.
+const MAX_GEOMETRY_CONFIDENCE = 0.85;
+const PARAMS_CONFIDENCE = 0.9;
+const MIN_TEETH = 3;
+const STANDARD_MODULES = [0.5, 0.6, 0.8, 1, 1.25, 1.5, 2, 2.5, 3, 4, 5, 6, 8, 10, 12, 16, 20];
+
+const SOURCE_RANK: Record<FeatureSource, number> = { metadata: 0, params: 1, geometry: 2 };
+const AXES: Vec3[] = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+function describePart(partIndex: number | undefined) {
+  return partIndex === undefined ? "Part" : `Part ${partIndex}`;
+}
+
+/** Overall source (least trusted) and confidence (lowest) for a set of features. */
+export function summarizeDetection(features: MechanismFeature[], warnings: string[]): DetectionResult {
+  if (features.length === 0) {
+    return { features, confidence: 0, source: "geometry", warnings };
+  }
+  const source = features.reduce<FeatureSource>(
+    (least, feature) => (SOURCE_RANK[feature.source] > SOURCE_RANK[least] ? feature.source : least),
+    "metadata"
+  );
+  const confidence = Math.min(...features.map((feature) => feature.confidence ?? 1));
+  return { features, confidence, source, warnings };
+}
+
+function snapModule(estimate: number) {
+  const nearest = STANDARD_MODULES.reduce((best, candidate) =>
+    Math.abs(candidate - estimate) < Math.abs(best - estimate) ? candidate : best
+  );
+  return Math.abs(nearest - estimate) / estimate <= 0.02 ? nearest : round(estimate, 3);
+}
+
+export function detectPitchFeaturesFromParams(context: DetectionContext): DetectionResult {
+  const features: MechanismFeature[] = [];
+  const warnings: string[] = [];
+  for (const params of context.params ?? []) {
+    if (!(params.module > 0)) {
+      warnings.push(`${describePart(params.partIndex)}: ignoring ${params.kind} params without a positive module.`);
+      continue;
+    }
+    const circularPitch = Math.PI * params.module;
+    if (params.kind === "gear") {
+      if (!(params.teeth > 0)) {
+        warnings.push(`${describePart(params.partIndex)}: ignoring gear params without a tooth count.`);
+        continue;
+      }
+      const radius = (params.module * params.teeth) / 2;
+      if (!params.center) {
+        warnings.push(`${describePart(params.partIndex)}: gear center not given; assuming the origin.`);
+      }
+      features.push({
+        type: "pitch_circle",
+        source: "params",
+        partIndex: params.partIndex,
+        confidence: params.center ? PARAMS_CONFIDENCE : PARAMS_CONFIDENCE - 0.2,
+        module: params.module,
+        teethNumber: params.teeth,
+        circularPitch,
+        pitchCircle: {
+          center: params.center ?? [0, 0, 0],
+          radius,
+          diameter: radius * 2,
+          axis: params.axis ?? [0, 0, 1],
+        },
+      });
+    } else {
+      if (!params.point) {
+        warnings.push(`${describePart(params.partIndex)}: rack pitch line position not given; assuming the origin.`);
+      }
+      features.push({
+        type: "pitch_line",
+        source: "params",
+        partIndex: params.partIndex,
+        confidence: params.point ? PARAMS_CONFIDENCE : PARAMS_CONFIDENCE - 0.2,
+        module: params.module,
+        circularPitch,
+        ...(params.length === undefined ? {} : { length: params.length }),
+        pitchLine: {
+          point: params.point ?? [0, 0, 0],
+          direction: params.direction ?? [1, 0, 0],
+          normal: params.normal ?? [0, 1, 0],
+        },
+      });
+    }
+  }
+  return summarizeDetection(features, warnings);
+}
+
+interface ProfileSample {
+  t: number;
+  value: number;
+}
+
+interface ToothProfile {
+  tip: number;
+  root: number;
+  /** Positions of tooth centers along the profile, in order. */
+  centers: number[];
+}
+
+/**
+ * Counts teeth in a sampled outline with hysteresis at 30%/70% of the depth.
+ * `period` makes the profile cyclic (angles); samples must be sorted by `t`.
+ */
+function findTeeth(samples: ProfileSample[], period?: number): ToothProfile | null {
+  if (samples.length < MIN_TEETH * 2) return null;
+  // A low percentile rather than the minimum, so a stray boss or notch does not set the root.
+  const sorted = samples.map((sample) => sample.value).sort((a, b) => a - b);
+  const tip = sorted[sorted.length - 1];
+  const root = sorted[Math.floor(sorted.length * 0.05)];
+  const depth = tip - root;
+  if (!(depth > 1e-6)) return null;
+  const high = root + 0.7 * depth;
+  const low = root + 0.3 * depth;
+
+  // Start in a gap so a tooth straddling the wrap-around is counted once.
+  const start = period === undefined ? 0 : samples.findIndex((sample) => sample.value < low);
+  if (start < 0) return null;
+
+  const centers: number[] = [];
+  let inTooth = period === undefined ? samples[0].value > high : false;
+  let toothStart = inTooth ? samples[0].t : 0;
+  let lastHigh = toothStart;
+  for (let step = 0; step < samples.length; step++) {
+    const index = (start + step) % samples.length;
+    const t = samples[index].t + (period !== undefined && index < start ? period : 0);
+    const value = samples[index].value;
+    if (!inTooth && value > high) {
+      inTooth = true;
+      toothStart = t;
+      lastHigh = t;
+    } else if (inTooth && value > high) {
+      lastHigh = t;
+    } else if (inTooth && value < low) {
+      inTooth = false;
+      // Open-ended teeth at the ends of a linear profile are partial; skip them.
+      if (period !== undefined || toothStart !== samples[0].t) centers.push((toothStart + lastHigh) / 2);
+    }
+  }
+  if (period !== undefined && inTooth) centers.push((toothStart + lastHigh) / 2);
+  return { tip, root, centers };
+}
+
+/** Coefficient of variation of the spacing between consecutive centers. */
+function spacingVariation(centers: number[], period?: number) {
+  const gaps = centers.slice(1).map((center, index) => center - centers[index]);
+  if (period !== undefined && centers.length > 1) gaps.push(centers[0] + period - centers[centers.length - 1]);
+  const mean = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+  const variance = gaps.reduce((sum, gap) => sum + (gap - mean) ** 2, 0) / gaps.length;
+  return { mean, variation: mean > 0 ? Math.sqrt(variance) / mean : Infinity };
+}
+
+// Whole depth of a standard tooth is 2–2.25 modules; union seams usually make
+// the measured root a little shallower, so accept a generous band. Polygonal
+// prisms (hex stock, boxes) land well below it and score zero.
+function depthScore(depth: number, module: number) {
+  const ratio = depth / module;
+  if (ratio < 1.3) return clamp01(1 - (1.3 - ratio) / 0.5);
+  if (ratio > 2.6) return clamp01(1 - (ratio - 2.6) / 1.3);
+  return 1;
+}
+
+// Upper bound on sampled points per geometry, to keep detection cheap on heavy meshes.
+const MAX_SAMPLES = 100_000;
+
+/**
+ * Points along every polygon edge, not just the vertices: the root between
+ * gear teeth is often a single chord with no vertices inside the gap.
+ */
+function collectOutlinePoints(geometry: unknown): { points: Vec3[]; step: number } {
+  const polygons = (geometry as { polygons?: unknown } | null)?.polygons;
+  if (!Array.isArray(polygons)) return { points: [], step: 0 };
+  const loops = polygons.map((polygon) => polygonVertices(polygon as Record<string, unknown>));
+  const vertices = loops.flat();
+  if (vertices.length === 0) return { points: [], step: 0 };
+
+  const { size } = bounds(vertices);
+  let perimeter = 0;
+  for (const loop of loops) {
+    loop.forEach((a, index) => {
+      const b = loop[(index + 1) % loop.length];
+      perimeter += Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2]);
+    });
+  }
+  const step = Math.max(Math.hypot(...size) / 500, perimeter / MAX_SAMPLES, 1e-6);
+
+  const points: Vec3[] = [];
+  for (const loop of loops) {
+    loop.forEach((a, index) => {
+      const b = loop[(index + 1) % loop.length];
+      const count = Math.ceil(Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2]) / step);
+      for (let k = 0; k < count; k++) {
+        const f = k / count;
+        points.push([a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f]);
+      }
+    });
+  }
+  return { points, step };
+}
+
+function bounds(vertices: Vec3[]) {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const vertex of vertices) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], vertex[axis]);
+      max[axis] = Math.max(max[axis], vertex[axis]);
+    }
+  }
+  return { min, max, size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]] as Vec3 };
+}
+
+/**
+ * Keeps the largest value per bin so internal features (bores, back bars) do
+ * not mask the outline. Callers size bins to at least two sampling steps so
+ * every bin sees the outline.
+ */
+function binProfile(points: ProfileSample[], from: number, span: number, binCount: number): ProfileSample[] {
+  const bins = new Array<number>(binCount).fill(-Infinity);
+  for (const point of points) {
+    const bin = Math.min(binCount - 1, Math.max(0, Math.floor(((point.t - from) / span) * binCount)));
+    bins[bin] = Math.max(bins[bin], point.value);
+  }
+  const samples: ProfileSample[] = [];
+  bins.forEach((value, bin) => {
+    if (value > -Infinity) samples.push({ t: from + ((bin + 0.5) / binCount) * span, value });
+  });
+  return samples;
+}
+
+function detectPitchCircle(vertices: Vec3[], step: number, partIndex: number | undefined): PitchCircleFeature | null {
+  const box = bounds(vertices);
+  let best: PitchCircleFeature | null = null;
+  for (let axis = 0; axis < 3; axis++) {
+    const [u, v] = [0, 1, 2].filter((other) => other !== axis);
+    const roundness = Math.abs(box.size[u] - box.size[v]) / Math.max(box.size[u], box.size[v], 1e-9);
+    if (roundness > 0.05) continue;
+
+    const cu = (box.min[u] + box.max[u]) / 2;
+    const cv = (box.min[v] + box.max[v]) / 2;
+    const points = vertices.map((vertex) => ({
+      t: Math.atan2(vertex[v] - cv, vertex[u] - cu) + Math.PI,
+      value: Math.hypot(vertex[u] - cu, vertex[v] - cv),
+    }));
+    const outerRadius = points.reduce((max, point) => Math.max(max, point.value), 0);
+    const binCount = Math.min(1440, Math.max(90, Math.floor((Math.PI * outerRadius) / step)));
+    const profile = findTeeth(binProfile(points, 0, 2 * Math.PI, binCount), 2 * Math.PI);
+    if (!profile || profile.centers.length < MIN_TEETH) continue;
+
+    const teeth = profile.centers.length;
+    const module = snapModule((2 * profile.tip) / (teeth + 2));
+    const radius = (module * teeth) / 2;
+    const { variation } = spacingVariation(profile.centers, 2 * Math.PI);
+    const confidence = round(
+      MAX_GEOMETRY_CONFIDENCE *
+        clamp01(1 - variation * 5) *
+        depthScore(profile.tip - profile.root, module) *
+        clamp01(1 - roundness * 10) *
+        (teeth >= 6 ? 1 : 0.8),
+      2
+    );
+    if (best && (best.confidence ?? 0) >= confidence) continue;
+
+    const center: Vec3 = [0, 0, 0];
+    center[u] = cu;
+    center[v] = cv;
+    center[axis] = (box.min[axis] + box.max[axis]) / 2;
+    best = {
+      type: "pitch_circle",
+      source: "geometry",
+      partIndex,
+      confidence,
+      module,
+      teethNumber: teeth,
+      circularPitch: round(Math.PI * module),
+      pitchCircle: {
+        center: center.map((value) => round(value)) as Vec3,
+        radius: round(radius),
+        diameter: round(radius * 2),
+        axis: AXES[axis],
+      },
+    };
+  }
+  return best;
+}
+
+function detectPitchLine(vertices: Vec3[], step: number, partIndex: number | undefined): PitchLineFeature | null {
+  const box = bounds(vertices);
+  let best: PitchLineFeature | null = null;
+  for (let along = 0; along < 3; along++) {
+    for (let across = 0; across < 3; across++) {
+      if (across === along || !(box.size[along] > 0)) continue;
+      for (const sign of [1, -1]) {
+        const points = vertices.map((vertex) => ({ t: vertex[along], value: sign * vertex[across] }));
+        const binCount = Math.min(2000, Math.max(60, Math.floor(box.size[along] / (2 * step))));
+        const profile = findTeeth(binProfile(points, box.min[along], box.size[along], binCount));
+        if (!profile || profile.centers.length < MIN_TEETH) continue;
+
+        const { mean: spacing, variation } = spacingVariation(profile.centers);
+        const module = snapModule(spacing / Math.PI);
+        const pitch = Math.PI * module;
+        const teeth = profile.centers.length;
+        const confidence = round(
+          MAX_GEOMETRY_CONFIDENCE * clamp01(1 - variation * 5) * depthScore(profile.tip - profile.root, module),
+          2
+        );
+        if (best && (best.confidence ?? 0) >= confidence) continue;
+
+        const thickness = [0, 1, 2].find((axis) => axis !== along && axis !== across)!;
+        const point: Vec3 = [0, 0, 0];
+        point[along] = profile.centers[0] - pitch / 2;
+        point[across] = sign * (profile.tip - module);
+        point[thickness] = (box.min[thickness] + box.max[thickness]) / 2;
+        const normal: Vec3 = [0, 0, 0];
+        normal[across] = sign;
+        best = {
+          type: "pitch_line",
+          source: "geometry",
+          partIndex,
+          confidence,
+          module,
+          teethNumber: teeth,
+          circularPitch: round(pitch),
+          length: round(teeth * pitch),
+          pitchLine: {
+            point: point.map((value) => round(value)) as Vec3,
+            direction: AXES[along],
+            normal,
+          },
+        };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Looks for a radial tooth profile (gear) first, then a linear tooth row
+ * (rack). Returns at most one feature for the geometry.
+ */
+export function detectPitchFeaturesFromGeometry(geometry: unknown, partIndex?: number): DetectionResult {
+  const { points, step } = collectOutlinePoints(geometry);
+  const warnings: string[] = [];
+  if (points.length === 0) {
+    return summarizeDetection([], [`${describePart(partIndex)}: no polygons to inspect.`]);
+  }
+
+  const circle = detectPitchCircle(points, step, partIndex);
+  const line = circle && (circle.confidence ?? 0) >= LOW_CONFIDENCE ? null : detectPitchLine(points, step, partIndex);
+  const feature = [circle, line]
+    .filter((candidate): candidate is PitchCircleFeature | PitchLineFeature => (candidate?.confidence ?? 0) >= MIN_CONFIDENCE)
+    .sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0))[0];
+
+  if (!feature) return summarizeDetection([], warnings);
+  if ((feature.confidence ?? 0) < LOW_CONFIDENCE) {
+    const what = feature.type === "pitch_circle" ? "pitch circle" : "pitch line";
+    warnings.push(
+      `${describePart(partIndex)}: ${what} estimated from geometry with low confidence (${feature.confidence}); ` +
+        `pass module/teeth params or build it with window.jscad.tspi.gear/rack for exact metadata.`
+    );
+  }
+  return summarizeDetection([feature], warnings);
+}
+
+/**
+ * Metadata first, then params, then geometry for parts still uncovered.
+ * Features are merged with `mergeDeclaredAndDetectedFeatures`, so a part never
+ * gets two features of the same type.
+ */
+export function detectPitchFeatures(context: DetectionContext): DetectionResult {
+  const declared = context.metadata ?? [];
+  const fromParams = detectPitchFeaturesFromParams(context);
+  const warnings = [...fromParams.warnings];
+  let features = mergeDeclaredAndDetectedFeatures(declared, fromParams.features);
+
+  const covered = new Set(features.map((feature) => feature.partIndex).filter((index) => index !== undefined));
+  const detected: MechanismFeature[] = [];
+  const inScope = context.partIndices ? new Set(context.partIndices) : null;
+  (context.geometries ?? []).forEach((geometry, partIndex) => {
+    if (covered.has(partIndex) || (inScope && !inScope.has(partIndex))) return;
+    const result = detectPitchFeaturesFromGeometry(geometry, partIndex);
+    detected.push(...result.features);
+    warnings.push(...result.warnings);
+  });
+  features = mergeDeclaredAndDetectedFeatures(features, detected);
+
+  return summarizeDetection(features, warnings);
+}
@@ -0,0 +1,99 @@
+import type { FeatureSource, MechanismFeature, MechanismSpec, Vec3 } from "./types";
+
+const SOURCE_RANK: Record<FeatureSource, number> = { metadata: 0, params: 1, geometry: 2 };
+
+/** Features declared on the parts of a spec, tagged with their part id. */
+export function extractDeclaredFeatures(spec: MechanismSpec): MechanismFeature[] {
+  return spec.parts.flatMap((part) =>
+    part.features.map((feature) => ({
+      ...feature,
+      partId: part.id,
+      ...(part.partIndex === undefined ? {} : { partIndex: part.partIndex }),
+    }))
+  );
+}
+
+function featureKey(feature: MechanismFeature) {
+  const part = feature.partId ?? (feature.partIndex === undefined ? "?" : `#${feature.partIndex}`);
+  return `${part}\u0000${feature.type}`;
+}
+
+/**
+ * Metadata-first merge: a detected feature is dropped when a declared feature
+ * of the same type exists for the same part, or when a more trusted detection
+ * already covered it. Features without a part are always kept.
+ */
+export function mergeDeclaredAndDetectedFeatures(
+  declared: MechanismFeature[],
+  detected: MechanismFeature[]
+): MechanismFeature[] {
+  const covered = new Set(
+    declared.filter((f) => f.partId !== undefined || f.partIndex !== undefined).map(featureKey)
+  );
+  const ranked = [...detected].sort((a, b) => SOURCE_RANK[a.source] - SOURCE_RANK[b.source]);
+  const merged = [...declared];
+  for (const feature of ranked) {
+    const anchored = feature.partId !== undefined || feature.partIndex !== undefined;
+    if (anchored && covered.has(featureKey(feature))) continue;
+    if (anchored) covered.add(featureKey(feature));
+    merged.push(feature);
+  }
+  return merged;
+}
+
+// Column-major 4x4, as used by @jscad/modeling `transforms`.
+function transformPoint(m: ArrayLike<number>, [x, y, z]: Vec3): Vec3 {
+  const w = m[3] * x + m[7] * y + m[11] * z + m[15] || 1;
+  return [
+    (m[0] * x + m[4] * y + m[8] * z + m[12]) / w,
+    (m[1] * x + m[5] * y + m[9] * z + m[13]) / w,
+    (m[2] * x + m[6] * y + m[10] * z + m[14]) / w,
+  ];
+}
+
+function transformDirection(m: ArrayLike<number>, [x, y, z]: Vec3): Vec3 {
+  const v: Vec3 = [m[0] * x + m[4] * y + m[8] * z, m[1] * x + m[5] * y + m[9] * z, m[2] * x + m[6] * y + m[10] * z];
+  const length = Math.hypot(...v) || 1;
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+/**
+ * Moves a feature by a placement matrix. Radii scale with the in-plane scale of
+ * the matrix so uniformly scaled gears keep a consistent pitch circle.
+ */
+export function transformFeature<T extends MechanismFeature>(feature: T, matrix: ArrayLike<number>): T {
+  if (feature.type === "pitch_circle") {
+    const { center, axis, radius } = feature.pitchCircle;
+    const origin = transformPoint(matrix, center);
+    const worldAxis = transformDirection(matrix, axis);
+    // Any vector perpendicular to the axis measures the in-plane scale.
+    const radial: Vec3 = Math.abs(axis[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+    const dot = radial[0] * axis[0] + radial[1] * axis[1] + radial[2] * axis[2];
+    const inPlane: Vec3 = [radial[0] - dot * axis[0], radial[1] - dot * axis[1], radial[2] - dot * axis[2]];
+    const unit = Math.hypot(...inPlane);
+    const moved = transformPoint(matrix, [
+      center[0] + inPlane[0] / unit,
+      center[1] + inPlane[1] / unit,
+      center[2] + inPlane[2] / unit,
+    ]);
+    const scale = Math.hypot(moved[0] - origin[0], moved[1] - origin[1], moved[2] - origin[2]);
+    return {
+      ...feature,
+      pitchCircle: {
+        center: origin,
+        axis: worldAxis,
+        radius: radius * scale,
+        diameter: 2 * radius * scale,
+      },
+    };
+  }
+  const { point, direction, normal } = feature.pitchLine;
+  return {
+    ...feature,
+    pitchLine: {
+      point: transformPoint(matrix, point),
+      direction: transformDirection(matrix, direction),
+      normal: transformDirection(matrix, normal),
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import type { KinematicConstraint, MechanismSpec } from "./types";
+
+/**
+ * Named mechanism specs (templates, agent-built mechanisms). Registration
+ * checks that every reference points at a declared part so later phases can
+ * trust the graph.
+ */
+
+const specs = new Map<string, MechanismSpec>();
+
+function constraintParts(constraint: KinematicConstraint): string[] {
+  switch (constraint.type) {
+    case "gear_gear":
+      return [constraint.a, constraint.b];
+    case "gear_rack":
+      return [constraint.gear, constraint.rack];
+    case "angle_limit":
+    case "travel_limit":
+      return [constraint.part];
+  }
+}
+
+export function validateMechanismSpec(spec: MechanismSpec): string[] {
+  const errors: string[] = [];
+  const partIds = new Set<string>();
+  for (const part of spec.parts) {
+    if (partIds.has(part.id)) errors.push(`Duplicate part id "${part.id}".`);
+    partIds.add(part.id);
+  }
+
+  if (!partIds.has(spec.input.part)) {
+    errors.push(`Input part "${spec.input.part}" is not declared.`);
+  }
+  const [low, high] = spec.input.domain;
+  if (!Number.isFinite(low) || !Number.isFinite(high) || low > high) {
+    errors.push(`Input domain [${low}, ${high}] must be finite with min <= max.`);
+  }
+
+  const constraintIds = new Set<string>();
+  for (const constraint of spec.constraints) {
+    if (constraintIds.has(constraint.id)) errors.push(`Duplicate constraint id "${constraint.id}".`);
+    constraintIds.add(constraint.id);
+    for (const partId of constraintParts(constraint)) {
+      if (!partIds.has(partId)) {
+        errors.push(`Constraint "${constraint.id}" references unknown part "${partId}".`);
+      }
+    }
+  }
+  return errors;
+}
+
+/** Registers (or replaces) a spec under `name`. Throws if the spec is inconsistent. */
+export function registerMechanismSpec(name: string, spec: MechanismSpec): MechanismSpec {
+  const errors = validateMechanismSpec(spec);
+  if (errors.length > 0) {
+    throw new Error(`Invalid mechanism spec "${name}": ${errors.join(" ")}`);
+  }
+  specs.set(name, spec);
+  return spec;
+}
+
+export function getMechanismSpec(name: string): MechanismSpec | undefined {
+  return specs.get(name);
+}
+
+export function listMechanismSpecs(): string[] {
+  return [...specs.keys()];
+}
+
+export function unregisterMechanismSpec(name: string): boolean {
+  return specs.delete(name);
+}
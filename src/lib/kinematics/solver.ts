@@ -0,0 +1,189 @@
+import { buildConstraintGraphFromSpec, type GraphConstraint } from "./constraints";
+import type { MechanismSpec, RomSample, RomSolution } from "./types";
+
+/**
+ * Range-of-motion solver (roadmap Phase 3). Linear constraints contribute exact
+ * intervals; the rest are sampled over the remaining range and the edges of the
+ * longest valid run are refined by bisection.
+ */
+
+const DEFAULT_SAMPLES = 200;
+const BISECTION_STEPS = 40;
+const EPSILON = 1e-9;
+
+export interface RomSampleReport {
+  samples: Array<{ u: number; progress: number; residuals: Record<string, number>; passed: boolean }>;
+  /** Largest residual seen per constraint. */
+  maxResiduals: Record<string, number>;
+  passed: boolean;
+}
+
+function violated(constraint: GraphConstraint, u: number) {
+  return constraint.residual(u) > constraint.tolerance;
+}
+
+function formatU(value: number) {
+  return Number(value.toFixed(4));
+}
+
+function findFirstFailure(constraints: GraphConstraint[], [from, to]: [number, number], samples: number): RomSample | undefined {
+  for (let i = 0; i <= samples; i++) {
+    const u = from + ((to - from) * i) / samples;
+    let worst: RomSample | undefined;
+    let worstExcess = 0;
+    for (const constraint of constraints) {
+      const residual = constraint.residual(u);
+      const excess = residual - constraint.tolerance;
+      if (excess > worstExcess) {
+        worstExcess = excess;
+        worst = { u: formatU(u), constraintId: constraint.id, residual: formatU(residual) };
+      }
+    }
+    if (worst) return worst;
+  }
+  return undefined;
+}
+
+function noSolution(diagnostics: string[], firstFailingSample?: RomSample): RomSolution {
+  return { ok: false, uMin: NaN, uMax: NaN, activeConstraints: [], firstFailingSample, diagnostics };
+}
+
+export function solveRomInterval(
+  inputDomain: [number, number],
+  constraints: GraphConstraint[],
+  options: { samples?: number } = {}
+): RomSolution {
+  const samples = Math.max(2, options.samples ?? DEFAULT_SAMPLES);
+  const diagnostics: string[] = [];
+  const firstFailingSample = findFirstFailure(constraints, inputDomain, samples);
+
+  let [uMin, uMax] = inputDomain;
+  let activeMin: string[] = [];
+  let activeMax: string[] = [];
+  const tighten = (low: number, high: number, id: string) => {
+    if (low > uMin + EPSILON) [uMin, activeMin] = [low, [id]];
+    else if (Math.abs(low - uMin) <= EPSILON && low > inputDomain[0] + EPSILON) activeMin.push(id);
+    if (high < uMax - EPSILON) [uMax, activeMax] = [high, [id]];
+    else if (Math.abs(high - uMax) <= EPSILON && high < inputDomain[1] - EPSILON) activeMax.push(id);
+  };
+
+  const sampled: GraphConstraint[] = [];
+  for (const constraint of constraints) {
+    const interval = constraint.interval;
+    if (interval) tighten(interval[0], interval[1], constraint.id);
+    else sampled.push(constraint);
+  }
+
+  const describeFailure = (sample: RomSample | undefined) => {
+    if (!sample) return "";
+    const constraint = constraints.find((candidate) => candidate.id === sample.constraintId);
+    return ` First failure at u=${sample.u}: "${sample.constraintId}" residual ${sample.residual} exceeds ${constraint?.tolerance}.`;
+  };
+
+  if (uMin > uMax) {
+    return noSolution(
+      [`Constraints ${[...activeMin, ...activeMax].map((id) => `"${id}"`).join(" and ")} leave no valid input.${describeFailure(firstFailingSample)}`],
+      firstFailingSample
+    );
+  }
+
+  if (sampled.length > 0) {
+    const valid = (u: number) => sampled.every((constraint) => !violated(constraint, u));
+    const grid = Array.from({ length: samples + 1 }, (_, i) => uMin + ((uMax - uMin) * i) / samples);
+    let best: [number, number] | null = null;
+    let runStart = -1;
+    for (let i = 0; i < grid.length; i++) {
+      if (!valid(grid[i])) {
+        runStart = -1;
+        continue;
+      }
+      if (runStart < 0) runStart = i;
+      if (!best || i - runStart > best[1] - best[0]) best = [runStart, i];
+    }
+    if (!best) {
+      return noSolution(
+        [`No valid input in [${formatU(uMin)}, ${formatU(uMax)}].${describeFailure(firstFailingSample)}`],
+        firstFailingSample
+      );
+    }
+
+    const [first, last] = best;
+    const refine = (inside: number, outside: number) => {
+      for (let step = 0; step < BISECTION_STEPS; step++) {
+        const middle = (inside + outside) / 2;
+        if (valid(middle)) inside = middle;
+        else outside = middle;
+      }
+      return { edge: inside, culprits: sampled.filter((constraint) => violated(constraint, outside)).map((c) => c.id) };
+    };
+    if (first > 0) {
+      const { edge, culprits } = refine(grid[first], grid[first - 1]);
+      [uMin, activeMin] = [edge, culprits];
+    }
+    if (last < samples) {
+      const { edge, culprits } = refine(grid[last], grid[last + 1]);
+      [uMax, activeMax] = [edge, culprits];
+    }
+  }
+
+  const activeConstraints = [...new Set([...activeMin, ...activeMax])];
+  if (activeConstraints.length > 0) {
+    diagnostics.push(
+      `Range limited to [${formatU(uMin)}, ${formatU(uMax)}] of [${inputDomain.join(", ")}] by ${activeConstraints.map((id) => `"${id}"`).join(", ")}.`
+    );
+  }
+  return {
+    ok: true,
+    uMin,
+    uMax,
+    activeConstraints,
+    ...(firstFailingSample ? { firstFailingSample } : {}),
+    diagnostics,
+  };
+}
+
+/** Maps the normalized `progress` parameter onto the solved interval: `u = lerp(uMin, uMax, progress)`. */
+export function progressToInput(solution: Pick<RomSolution, "uMin" | "uMax">, progress: number) {
+  const t = Math.min(1, Math.max(0, progress));
+  return solution.uMin + (solution.uMax - solution.uMin) * t;
+}
+
+/** Residuals at evenly spaced progress values across the solved interval. */
+export function sampleConstraintResiduals(
+  constraints: GraphConstraint[],
+  solution: Pick<RomSolution, "uMin" | "uMax">,
+  nSamples = 11
+): RomSampleReport {
+  const count = Math.max(2, nSamples);
+  const maxResiduals: Record<string, number> = {};
+  const report: RomSampleReport = { samples: [], maxResiduals, passed: true };
+  if (!Number.isFinite(solution.uMin) || !Number.isFinite(solution.uMax)) {
+    return { ...report, passed: false };
+  }
+  for (let i = 0; i < count; i++) {
+    const progress = i / (count - 1);
+    const u = progressToInput(solution, progress);
+    const residuals: Record<string, number> = {};
+    let passed = true;
+    for (const constraint of constraints) {
+      const residual = constraint.residual(u);
+      residuals[constraint.id] = formatU(residual);
+      maxResiduals[constraint.id] = Math.max(maxResiduals[constraint.id] ?? 0, formatU(residual));
+      if (residual > constraint.tolerance) passed = false;
+    }
+    report.samples.push({ u: formatU(u), progress, residuals, passed });
+    report.passed &&= passed;
+  }
+  return report;
+}
+
+/** Builds the constraint graph for `spec` and solves its range of motion. */
+export function solveMechanismRom(spec: MechanismSpec, options: { samples?: number } = {}): RomSolution {
+  const graph = buildConstraintGraphFromSpec(spec);
+  const ratios = Object.fromEntries([...graph.parts.keys()].map((id) => [id, formatU(graph.ratios.get(id) ?? 0)]));
+  if (graph.locked) {
+    return { ...noSolution(graph.diagnostics), ratios };
+  }
+  const solution = solveRomInterval(spec.input.domain, graph.constraints, options);
+  return { ...solution, diagnostics: [...graph.diagnostics, ...solution.diagnostics], ratios };
+}
@@ -0,0 +1,135 @@
+import type { Vec3 } from "../jscad-geometry";
+
+/**
+ * Shared mechanism types for the kinematics pipeline (see
+ * `docs/kinematics-roadmap.md`). Kept free of browser and node imports so the
+ * codegen router, the server runtime and the worker client can all use them.
+ *
+ * Feature shapes match what `getPitchFeatures()` returns in
+ * `public/jscad-libs/mechanics/*.jscad`, so library metadata can be passed
+ * through without conversion.
+ */
+
+export type { Vec3 };
+
+/** Where a feature came from, in order of trust. */
+export type FeatureSource = "metadata" | "params" | "geometry";
+
+interface MechanismFeatureBase {
+  source: FeatureSource;
+  /** Index into the array returned by `main()`, when the feature belongs to a rendered part. */
+  partIndex?: number;
+  /** Mechanism part id, when the feature was declared through a `MechanismSpec`. */
+  partId?: string;
+  /** 0–1; metadata features are exact and may omit it. */
+  confidence?: number;
+  module?: number;
+  pressureAngle?: number;
+  circularPitch?: number;
+  teethNumber?: number;
+}
+
+export interface PitchCircleFeature extends MechanismFeatureBase {
+  type: "pitch_circle";
+  pitchCircle: {
+    center: Vec3;
+    radius: number;
+    diameter: number;
+    axis: Vec3;
+  };
+  circularToothThickness?: number;
+}
+
+export interface PitchLineFeature extends MechanismFeatureBase {
+  type: "pitch_line";
+  pitchLine: {
+    point: Vec3;
+    /** Direction of travel along the teeth. */
+    direction: Vec3;
+    /** Points from the rack body toward the meshing gear. */
+    normal: Vec3;
+  };
+  /** Toothed length in mm, starting at `point`. */
+  length?: number;
+}
+
+export type MechanismFeature = PitchCircleFeature | PitchLineFeature;
+
+/** Mirrors `getKinematicDefaults()` on the gear and rack libraries. */
+export interface KinematicDefaults {
+  progressName: string;
+  progressRange: [number, number];
+  rotationAxis?: Vec3;
+  rotationDegreesPerProgress?: number;
+  translationAtPitchPerFullTurn?: number;
+  travelAxis?: Vec3;
+  travelPerProgress?: number;
+  module?: number;
+  teethNumber?: number;
+  length?: number;
+}
+
+/**
+ * Metadata the mechanics libraries attach to the geometry returned by
+ * `getModel()`. `frame` is the geometry's `transforms` matrix at the time the
+ * features were declared, so later transforms can be applied to them.
+ */
+export interface LibraryKinematics {
+  features: MechanismFeature[];
+  defaults?: KinematicDefaults;
+  frame?: number[];
+}
+
+export type PartMotion = "rotation" | "translation" | "fixed";
+
+export interface MechanismPart {
+  id: string;
+  motion: PartMotion;
+  features: MechanismFeature[];
+  /** Index into the array returned by `main()`, when known. */
+  partIndex?: number;
+  defaults?: KinematicDefaults;
+}
+
+/**
+ * Constraints between parts, referenced by `MechanismPart.id`. Angles are in
+ * degrees and travel in mm; `backlash` is added to the nominal center distance.
+ */
+export type KinematicConstraint =
+  | { type: "gear_gear"; id: string; a: string; b: string; backlash?: number }
+  | { type: "gear_rack"; id: string; gear: string; rack: string; backlash?: number }
+  | { type: "angle_limit"; id: string; part: string; min: number; max: number }
+  | { type: "travel_limit"; id: string; part: string; min: number; max: number };
+
+export interface MechanismSpec {
+  name: string;
+  description?: string;
+  /**
+   * The driven part and its domain: degrees for a rotating part, mm for a
+   * translating one. The normalized `progress` parameter maps onto the solved
+   * interval inside this domain.
+   */
+  input: { part: string; domain: [number, number] };
+  parts: MechanismPart[];
+  constraints: KinematicConstraint[];
+}
+
+export interface RomSample {
+  u: number;
+  constraintId: string;
+  residual: number;
+}
+
+export interface RomSolution {
+  ok: boolean;
+  /** Solved input interval; `NaN` when no input value is valid. */
+  uMin: number;
+  uMax: number;
+  /** Constraints that bound the interval at `uMin` or `uMax`. */
+  activeConstraints: string[];
+  /** Set when the mechanism is invalid somewhere inside the input domain. */
+  firstFailingSample?: RomSample;
+  diagnostics: string[];
+  /** Motion of each part per unit of input (degrees or mm), for mapping `progress` onto poses. */
+  ratios?: Record<string, number>;
+}
@@ -0,0 +1,98 @@
+/**
+ * LLM provider catalogue shared by the settings UI and the codegen server.
+ *
+ * Model specs are `<provider>:<model>[|reasoning=low|high]`. Specs without a
+ * known provider prefix are OpenRouter model ids, so existing settings and
+ * OpenRouter ids containing `:` (e.g. `:free` variants) keep working.
+ */
+
+export type LlmProviderId = "openrouter" | "openai-compatible" | "anthropic" | "gemini";
+
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  name: string;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+  requiresApiKey: boolean;
+  apiKeyPlaceholder: string;
+  apiKeyEnv: string;
+}
+
+export const LLM_PROVIDERS: readonly LlmProviderInfo[] = [
+  {
+    id: "openrouter",
+    name: "OpenRouter",
+    defaultModel: "google/gemini-3-flash-preview",
+    requiresApiKey: true,
+    apiKeyPlaceholder: "sk-or-...",
+    apiKeyEnv: "OPENROUTER_API_KEY",
+  },
+  {
+    id: "openai-compatible",
+    name: "OpenAI-compatible (local)",
+    defaultModel: "local-model",
+    defaultBaseUrl: "http://localhost:8080/v1",
+    requiresApiKey: false,
+    apiKeyPlaceholder: "optional",
+    apiKeyEnv: "OPENAI_COMPATIBLE_API_KEY",
+  },
+  {
+    id: "anthropic",
+    name: "Anthropic",
+    defaultModel: "claude-sonnet-4-5",
+    defaultBaseUrl: "https://api.anthropic.com",
+    requiresApiKey: true,
+    apiKeyPlaceholder: "sk-ant-...",
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+  },
+  {
+    id: "gemini",
+    name: "Google Gemini",
+    defaultModel: "gemini-2.5-flash",
+    defaultBaseUrl: "https://generativelanguage.googleapis.com",
+    requiresApiKey: true,
+    apiKeyPlaceholder: "AIza...",
+    apiKeyEnv: "GEMINI_API_KEY",
+  },
+];
+
+export type ReasoningEffort = "low" | "high";
+
+export interface ModelSpec {
+  provider: LlmProviderId;
+  model: string;
+  reasoning?: { effort: ReasoningEffort };
+}
+
+export const DEFAULT_MODEL_SPEC = "google/gemini-3-flash-preview|reasoning=high";
+
+export function getProviderInfo(id: LlmProviderId): LlmProviderInfo {
+  return LLM_PROVIDERS.find((provider) => provider.id === id) ?? LLM_PROVIDERS[0];
+}
+
+function isProviderId(value: string): value is LlmProviderId {
+  return LLM_PROVIDERS.some((provider) => provider.id === value);
+}
+
+export function parseModelSpec(spec: string | undefined): ModelSpec {
+  let rest = spec?.trim() || DEFAULT_MODEL_SPEC;
+  let reasoning: ModelSpec["reasoning"];
+  const reasoningMatch = rest.match(/\|reasoning=(low|high)$/);
+  if (reasoningMatch) {
+    reasoning = { effort: reasoningMatch[1] as ReasoningEffort };
+    rest = rest.slice(0, -reasoningMatch[0].length);
+  }
+
+  const separator = rest.indexOf(":");
+  const prefix = separator === -1 ? "" : rest.slice(0, separator);
+  if (isProviderId(prefix)) {
+    const model = rest.slice(separator + 1) || getProviderInfo(prefix).defaultModel;
+    return { provider: prefix, model, reasoning };
+  }
+  return { provider: "openrouter", model: rest, reasoning };
+}
+
+export function formatModelSpec(spec: ModelSpec): string {
+  const base = spec.provider === "openrouter" ? spec.model : `${spec.provider}:${spec.model}`;
+  return spec.reasoning ? `${base}|reasoning=${spec.reasoning.effort}` : base;
+}
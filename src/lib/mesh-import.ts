@@ -0,0 +1,338 @@
+/**
+ * Mesh file import. Uploaded STL/OBJ/3MF files are parsed in the browser into
+ * one indexed triangle mesh, stored as JSON and turned back into a `geom3`
+ * when JSCAD code requires `./assets/<name>`. 2D drawings live in
+ * `outline-import.ts`.
+ */
+
+export type MeshFormat = "stl" | "obj" | "3mf";
+
+export interface ImportedMesh {
+  /** Welded xyz per vertex, in millimeters. */
+  positions: number[];
+  /** Vertex indices, three per triangle, counter-clockwise seen from outside. */
+  triangles: number[];
+}
+
+export interface MeshBounds {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+export const MESH_FORMATS: MeshFormat[] = ["stl", "obj", "3mf"];
+
+export const ASSET_PREFIX = "assets/";
+
+export function meshFormatFromName(fileName: string): MeshFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  return (MESH_FORMATS as string[]).includes(extension) ? (extension as MeshFormat) : null;
+}
+
+/** Project path for an uploaded file, e.g. "PCB Board.STL" → "assets/pcb-board.stl". */
+export function assetPath(fileName: string) {
+  const base = fileName.split(/[\\/]/).pop() ?? fileName;
+  const dot = base.lastIndexOf(".");
+  const stem = (dot > 0 ? base.slice(0, dot) : base)
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  const extension = dot > 0 ? base.slice(dot).toLowerCase() : "";
+  return `${ASSET_PREFIX}${stem || "mesh"}${extension}`;
+}
+
+/**
+ * The asset a `require()` spec points at, or null when it is not an asset
+ * spec. Drawings take an optional layer: "./assets/gasket.dxf#outer".
+ */
+export function parseAssetSpec(spec: string): { path: string; layer?: string } | null {
+  const relative = spec.startsWith("./") ? spec.slice(2) : spec;
+  if (!relative.startsWith(ASSET_PREFIX)) return null;
+  const hash = relative.indexOf("#");
+  if (hash === -1) return { path: relative };
+  return { path: relative.slice(0, hash), layer: decodeURIComponent(relative.slice(hash + 1)) };
+}
+
+class MeshBuilder {
+  positions: number[] = [];
+  triangles: number[] = [];
+  private lookup = new Map<string, number>();
+
+  vertex(rawX: number, rawY: number, rawZ: number) {
+    // Rounding to 1e-6 mm drops float32 noise from binary STL and welds coincident corners.
+    const [x, y, z] = [rawX, rawY, rawZ].map((value) => Math.round(value * 1e6) / 1e6 + 0);
+    const key = `${x},${y},${z}`;
+    let index = this.lookup.get(key);
+    if (index === undefined) {
+      index = this.positions.length / 3;
+      this.lookup.set(key, index);
+      this.positions.push(x, y, z);
+    }
+    return index;
+  }
+
+  triangle(a: number, b: number, c: number) {
+    if (a !== b && b !== c && a !== c) this.triangles.push(a, b, c);
+  }
+
+  finish(format: string): ImportedMesh {
+    if (this.triangles.length === 0) throw new Error(`No triangles found in ${format} file`);
+    return { positions: this.positions, triangles: this.triangles };
+  }
+}
+
+function isBinaryStl(bytes: Uint8Array) {
+  if (bytes.length < 84) return false;
+  const count = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(80, true);
+  // Some exporters write binary files whose header starts with "solid", so trust the size.
+  return 84 + count * 50 === bytes.length;
+}
+
+export function parseStl(data: ArrayBuffer | Uint8Array): ImportedMesh {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const mesh = new MeshBuilder();
+
+  if (isBinaryStl(bytes)) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const count = view.getUint32(80, true);
+    for (let i = 0; i < count; i++) {
+      const offset = 84 + i * 50 + 12;
+      const corner = (k: number) =>
+        mesh.vertex(
+          view.getFloat32(offset + k * 12, true),
+          view.getFloat32(offset + k * 12 + 4, true),
+          view.getFloat32(offset + k * 12 + 8, true)
+        );
+      mesh.triangle(corner(0), corner(1), corner(2));
+    }
+    return mesh.finish("STL");
+  }
+
+  const text = new TextDecoder().decode(bytes);
+  const regex = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g;
+  let facet: number[] = [];
+  let match: RegExpExecArray | null = null;
+  while ((match = regex.exec(text))) {
+    facet.push(mesh.vertex(Number(match[1]), Number(match[2]), Number(match[3])));
+    if (facet.length === 3) {
+      mesh.triangle(facet[0], facet[1], facet[2]);
+      facet = [];
+    }
+  }
+  return mesh.finish("STL");
+}
+
+/** Wavefront OBJ; polygons are fan-triangulated, negative indices count from the end. */
+export function parseObj(text: string): ImportedMesh {
+  const mesh = new MeshBuilder();
+  const vertices: number[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith("v ")) {
+      const [x, y, z] = line.slice(2).trim().split(/\s+/).map(Number);
+      vertices.push(mesh.vertex(x, y, z));
+    } else if (line.startsWith("f ")) {
+      const face = line
+        .slice(2)
+        .trim()
+        .split(/\s+/)
+        .map((entry) => {
+          const index = parseInt(entry.split("/")[0], 10);
+          const vertex = vertices[index < 0 ? vertices.length + index : index - 1];
+          if (vertex === undefined) throw new Error(`OBJ face references missing vertex ${index}`);
+          return vertex;
+        });
+      for (let i = 1; i < face.length - 1; i++) mesh.triangle(face[0], face[i], face[i + 1]);
+    }
+  }
+  return mesh.finish("OBJ");
+}
+
+async function inflateRaw(data: Uint8Array) {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Entries of a zip archive, read from the central directory. Supports stored and deflated entries. */
+export async function readZip(data: ArrayBuffer | Uint8Array) {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Not a zip archive");
+
+  const files = new Map<string, Uint8Array>();
+  const decoder = new TextDecoder();
+  let offset = view.getUint32(end + 16, true);
+  const count = view.getUint16(end + 10, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("Corrupt zip central directory");
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) files.set(name, raw);
+    else if (method === 8) files.set(name, await inflateRaw(raw));
+    else throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+const UNIT_SCALE: Record<string, number> = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  inch: 25.4,
+  foot: 304.8,
+  meter: 1000,
+};
+
+type Affine = number[];
+
+const IDENTITY: Affine = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+
+/** 3MF transforms are "m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32", applied to row vectors. */
+function parseTransform(value: string | undefined): Affine {
+  if (!value) return IDENTITY;
+  const numbers = value.trim().split(/\s+/).map(Number);
+  return numbers.length === 12 && numbers.every(Number.isFinite) ? numbers : IDENTITY;
+}
+
+function composeTransforms(inner: Affine, outer: Affine): Affine {
+  const result: number[] = [];
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 3; col++) {
+      let sum = row === 3 ? outer[9 + col] : 0;
+      for (let k = 0; k < 3; k++) sum += inner[row * 3 + k] * outer[k * 3 + col];
+      result.push(sum);
+    }
+  }
+  return result;
+}
+
+function applyTransform(m: Affine, x: number, y: number, z: number): [number, number, number] {
+  return [
+    x * m[0] + y * m[3] + z * m[6] + m[9],
+    x * m[1] + y * m[4] + z * m[7] + m[10],
+    x * m[2] + y * m[5] + z * m[8] + m[11],
+  ];
+}
+
+function readAttributes(tag: string) {
+  const attributes: Record<string, string> = {};
+  const regex = /([\w:]+)\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null = null;
+  while ((match = regex.exec(tag))) attributes[match[1]] = match[2];
+  return attributes;
+}
+
+interface ModelObject {
+  vertices: number[];
+  triangles: number[];
+  components: Array<{ objectId: string; transform: Affine }>;
+}
+
+function readModelObjects(xml: string) {
+  const objects = new Map<string, ModelObject>();
+  const objectRegex = /<object\b([^>]*)>([\s\S]*?)<\/object>/g;
+  let match: RegExpExecArray | null = null;
+  while ((match = objectRegex.exec(xml))) {
+    const body = match[2];
+    const object: ModelObject = { vertices: [], triangles: [], components: [] };
+    for (const vertex of body.matchAll(/<vertex\b([^>]*)\/?>/g)) {
+      const { x, y, z } = readAttributes(vertex[1]);
+      object.vertices.push(Number(x), Number(y), Number(z));
+    }
+    for (const triangle of body.matchAll(/<triangle\b([^>]*)\/?>/g)) {
+      const { v1, v2, v3 } = readAttributes(triangle[1]);
+      object.triangles.push(Number(v1), Number(v2), Number(v3));
+    }
+    for (const component of body.matchAll(/<component\b([^>]*)\/?>/g)) {
+      const attributes = readAttributes(component[1]);
+      object.components.push({ objectId: attributes.objectid, transform: parseTransform(attributes.transform) });
+    }
+    objects.set(readAttributes(match[1]).id, object);
+  }
+  return objects;
+}
+
+/** Every build item of a 3MF package merged into one mesh, with item and component transforms applied. */
+export async function parse3mf(data: ArrayBuffer | Uint8Array): Promise<ImportedMesh> {
+  const files = await readZip(data);
+  const decoder = new TextDecoder();
+  const rels = files.get("_rels/.rels");
+  const target = rels && decoder.decode(rels).match(/Target="\/?([^"]+\.model)"/i)?.[1];
+  const model = files.get(target ?? "3D/3dmodel.model") ?? files.get("3D/3dmodel.model");
+  if (!model) throw new Error("3MF package has no 3D model part");
+
+  const xml = decoder.decode(model);
+  const unit = xml.match(/<model\b[^>]*\bunit="([^"]+)"/)?.[1] ?? "millimeter";
+  const scale = UNIT_SCALE[unit] ?? 1;
+  const objects = readModelObjects(xml);
+  const mesh = new MeshBuilder();
+
+  const addObject = (id: string, transform: Affine, depth: number) => {
+    const object = objects.get(id);
+    if (!object || depth > 16) return;
+    const indices: number[] = [];
+    for (let i = 0; i < object.vertices.length; i += 3) {
+      const [x, y, z] = applyTransform(transform, object.vertices[i], object.vertices[i + 1], object.vertices[i + 2]);
+      indices.push(mesh.vertex(x * scale, y * scale, z * scale));
+    }
+    for (let i = 0; i < object.triangles.length; i += 3) {
+      mesh.triangle(indices[object.triangles[i]], indices[object.triangles[i + 1]], indices[object.triangles[i + 2]]);
+    }
+    for (const component of object.components) {
+      addObject(component.objectId, composeTransforms(component.transform, transform), depth + 1);
+    }
+  };
+
+  const build = xml.match(/<build\b[^>]*>([\s\S]*?)<\/build>/)?.[1] ?? "";
+  for (const item of build.matchAll(/<item\b([^>]*)\/?>/g)) {
+    const attributes = readAttributes(item[1]);
+    addObject(attributes.objectid, parseTransform(attributes.transform), 0);
+  }
+  return mesh.finish("3MF");
+}
+
+export async function parseMeshFile(fileName: string, data: ArrayBuffer): Promise<ImportedMesh> {
+  switch (meshFormatFromName(fileName)) {
+    case "stl":
+      return parseStl(data);
+    case "obj":
+      return parseObj(new TextDecoder().decode(data));
+    case "3mf":
+      return parse3mf(data);
+    default:
+      throw new Error(`Unsupported mesh file: ${fileName}. Use ${MESH_FORMATS.map((f) => `.${f}`).join(", ")}.`);
+  }
+}
+
+export function meshBounds(mesh: ImportedMesh): MeshBounds {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < mesh.positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], mesh.positions[i + axis]);
+      max[axis] = Math.max(max[axis], mesh.positions[i + axis]);
+    }
+  }
+  return { min, max };
+}
+
+/** Polygons for `geom3.fromPoints`; mirrors the conversion in `public/jscad-worker.js`. */
+export function meshPolygons(mesh: ImportedMesh) {
+  const point = (index: number) => mesh.positions.slice(index * 3, index * 3 + 3);
+  const polygons: number[][][] = [];
+  for (let i = 0; i < mesh.triangles.length; i += 3) {
+    polygons.push([point(mesh.triangles[i]), point(mesh.triangles[i + 1]), point(mesh.triangles[i + 2])]);
+  }
+  return polygons;
+}
@@ -0,0 +1,189 @@
+import { createZip } from "./animation-export";
+import { polygonVertices } from "./jscad-geometry";
+
+/**
+ * Multi-body mesh exports. Each top-level solid becomes its own object, so
+ * slicers can assign one filament per part.
+ */
+
+export interface ExportPart {
+  name: string;
+  /** RGBA in 0–1, from JSCAD `colorize`. */
+  color?: [number, number, number, number];
+  /** Deduplicated xyz per vertex. */
+  vertices: number[];
+  /** Vertex indices, three per triangle, wound outward. */
+  triangles: number[];
+}
+
+function readColor(value: unknown): ExportPart["color"] {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const [r, g, b, a = 1] = value.map(Number);
+  if (![r, g, b, a].every(Number.isFinite)) return undefined;
+  return [r, g, b, a];
+}
+
+/**
+ * Indexed triangle meshes for every geom3 in `geometries`. Parts are named
+ * from a string `name` property when the model sets one.
+ */
+export function exportParts(geometries: unknown[]): ExportPart[] {
+  const parts: ExportPart[] = [];
+  geometries.forEach((geometry, index) => {
+    const g = geometry as { polygons?: unknown; name?: unknown; color?: unknown };
+    if (!Array.isArray(g.polygons)) return;
+
+    const vertices: number[] = [];
+    const triangles: number[] = [];
+    const lookup = new Map<string, number>();
+    const indexOf = (vertex: [number, number, number]) => {
+      const key = vertex.join(",");
+      let found = lookup.get(key);
+      if (found === undefined) {
+        found = vertices.length / 3;
+        lookup.set(key, found);
+        vertices.push(...vertex);
+      }
+      return found;
+    };
+
+    let signedVolume = 0;
+    for (const polygon of g.polygons as Array<Record<string, unknown>>) {
+      const points = polygonVertices(polygon);
+      for (let i = 1; i < points.length - 1; i++) {
+        const [a, b, c] = [points[0], points[i], points[i + 1]];
+        signedVolume +=
+          a[0] * (b[1] * c[2] - b[2] * c[1]) - a[1] * (b[0] * c[2] - b[2] * c[0]) + a[2] * (b[0] * c[1] - b[1] * c[0]);
+        const triangle = [indexOf(a), indexOf(b), indexOf(c)];
+        if (new Set(triangle).size === 3) triangles.push(...triangle);
+      }
+    }
+    if (triangles.length === 0) return;
+
+    // Some library output (e.g. v1 racks) is wound inside-out; slicers expect outward normals.
+    if (signedVolume < 0) {
+      for (let i = 0; i < triangles.length; i += 3) {
+        [triangles[i + 1], triangles[i + 2]] = [triangles[i + 2], triangles[i + 1]];
+      }
+    }
+
+    parts.push({
+      name: typeof g.name === "string" && g.name.trim() ? g.name.trim() : `Part ${index + 1}`,
+      color: readColor(g.color),
+      vertices,
+      triangles,
+    });
+  });
+  return parts;
+}
+
+const formatNumber = (value: number) => String(Number(value.toFixed(6)));
+
+function escapeXml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function hexColor([r, g, b, a]: [number, number, number, number]) {
+  return `#${[r, g, b, a]
+    .map((channel) => Math.round(Math.min(1, Math.max(0, channel)) * 255).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase()}`;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const ROOT_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+/** The 3D model part of a 3MF package: one object per part, colors as base materials. */
+export function build3mfModel(parts: ExportPart[], title?: string) {
+  const colored = parts.filter((part) => part.color);
+  const materialsId = 1;
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">`,
+    ...(title ? [`  <metadata name="Title">${escapeXml(title)}</metadata>`] : []),
+    `  <metadata name="Application">OpenMech</metadata>`,
+    `  <resources>`,
+  ];
+  if (colored.length > 0) {
+    lines.push(`    <basematerials id="${materialsId}">`);
+    for (const part of colored) {
+      lines.push(`      <base name="${escapeXml(part.name)}" displaycolor="${hexColor(part.color!)}"/>`);
+    }
+    lines.push(`    </basematerials>`);
+  }
+
+  parts.forEach((part, index) => {
+    const objectId = index + 2;
+    const material = part.color ? ` pid="${materialsId}" pindex="${colored.indexOf(part)}"` : "";
+    lines.push(`    <object id="${objectId}" type="model" name="${escapeXml(part.name)}"${material}>`);
+    lines.push(`      <mesh>`, `        <vertices>`);
+    for (let i = 0; i < part.vertices.length; i += 3) {
+      lines.push(
+        `          <vertex x="${formatNumber(part.vertices[i])}" y="${formatNumber(part.vertices[i + 1])}" z="${formatNumber(part.vertices[i + 2])}"/>`
+      );
+    }
+    lines.push(`        </vertices>`, `        <triangles>`);
+    for (let i = 0; i < part.triangles.length; i += 3) {
+      lines.push(`          <triangle v1="${part.triangles[i]}" v2="${part.triangles[i + 1]}" v3="${part.triangles[i + 2]}"/>`);
+    }
+    lines.push(`        </triangles>`, `      </mesh>`, `    </object>`);
+  });
+
+  lines.push(`  </resources>`, `  <build>`);
+  parts.forEach((_, index) => lines.push(`    <item objectid="${index + 2}"/>`));
+  lines.push(`  </build>`, `</model>`, "");
+  return lines.join("\n");
+}
+
+export function serialize3mf(parts: ExportPart[], options: { title?: string } = {}) {
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: "[Content_Types].xml", data: encoder.encode(CONTENT_TYPES) },
+    { name: "_rels/.rels", data: encoder.encode(ROOT_RELATIONSHIPS) },
+    { name: "3D/3dmodel.model", data: encoder.encode(build3mfModel(parts, options.title)) },
+  ]);
+}
+
+/** AMF 1.1, uncompressed. Each colored part gets its own material. */
+export function serializeAmf(parts: ExportPart[]) {
+  const lines = [`<?xml version="1.0" encoding="UTF-8"?>`, `<amf unit="millimeter" version="1.1">`];
+  lines.push(`  <metadata type="producer">OpenMech</metadata>`);
+  parts.forEach((part, index) => {
+    if (!part.color) return;
+    const [r, g, b, a] = part.color.map(formatNumber);
+    lines.push(
+      `  <material id="${index + 1}">`,
+      `    <metadata type="name">${escapeXml(part.name)}</metadata>`,
+      `    <color><r>${r}</r><g>${g}</g><b>${b}</b><a>${a}</a></color>`,
+      `  </material>`
+    );
+  });
+
+  parts.forEach((part, index) => {
+    lines.push(`  <object id="${index}">`, `    <metadata type="name">${escapeXml(part.name)}</metadata>`);
+    lines.push(`    <mesh>`, `      <vertices>`);
+    for (let i = 0; i < part.vertices.length; i += 3) {
+      lines.push(
+        `        <vertex><coordinates><x>${formatNumber(part.vertices[i])}</x><y>${formatNumber(part.vertices[i + 1])}</y><z>${formatNumber(part.vertices[i + 2])}</z></coordinates></vertex>`
+      );
+    }
+    lines.push(`      </vertices>`, part.color ? `      <volume materialid="${index + 1}">` : `      <volume>`);
+    for (let i = 0; i < part.triangles.length; i += 3) {
+      lines.push(`        <triangle><v1>${part.triangles[i]}</v1><v2>${part.triangles[i + 1]}</v2><v3>${part.triangles[i + 2]}</v3></triangle>`);
+    }
+    lines.push(`      </volume>`, `    </mesh>`, `  </object>`);
+  });
+
+  lines.push(`</amf>`, "");
+  return lines.join("\n");
+}
@@ -1,3 +1,10 @@
+import {
+  formatModelSpec,
+  getProviderInfo,
+  type LlmProviderId,
+  type ReasoningEffort,
+} from "./llm-providers";
+
 /**
  * OpenRouter settings management — stored in localStorage.
  */
@@ -7,6 +14,13 @@ export interface OpenRouterSettings {
   model: string;
   maxTokens: number;
   temperature: number;
+  /** Agent provider; `apiKey` and `model` above are the OpenRouter ones. */
+  provider: LlmProviderId;
+  providerApiKeys: Partial<Record<LlmProviderId, string>>;
+  providerModels: Partial<Record<LlmProviderId, string>>;
+  providerReasoning: ReasoningEffort | "off";
+  /** Base URL of the OpenAI-compatible server. */
+  providerBaseUrl: string;
 }
 
 const STORAGE_KEY = "openmech-openrouter";
@@ -16,6 +30,11 @@ const DEFAULT_SETTINGS: OpenRouterSettings = {
   model: "google/gemini-3-flash-preview|reasoning=high",
   maxTokens: 4096,
   temperature: 0.3,
+  provider: "openrouter",
+  providerApiKeys: {},
+  providerModels: {},
+  providerReasoning: "off",
+  providerBaseUrl: getProviderInfo("openai-compatible").defaultBaseUrl ?? "",
 };
 
 function normalizeUrl(value?: string) {
@@ -91,6 +110,31 @@ export function saveOpenRouterSettings(
   return updated;
 }
 
+/**
+ * Model selection fields for `/api/codegen/stream` and the tRPC `generate` input.
+ */
+export function getAgentModelRequest(settings: OpenRouterSettings): {
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+} {
+  if (settings.provider === "openrouter") {
+    return { model: settings.model, apiKey: settings.apiKey.trim() || undefined };
+  }
+
+  const model = settings.providerModels[settings.provider]?.trim() || getProviderInfo(settings.provider).defaultModel;
+  return {
+    model: formatModelSpec({
+      provider: settings.provider,
+      model,
+      reasoning: settings.providerReasoning === "off" ? undefined : { effort: settings.providerReasoning },
+    }),
+    apiKey: settings.providerApiKeys[settings.provider]?.trim() || undefined,
+    baseUrl:
+      settings.provider === "openai-compatible" ? settings.providerBaseUrl.trim() || undefined : undefined,
+  };
+}
+
 export const AVAILABLE_MODELS = [
   { id: "z-ai/glm-5", name: "GLM-5", provider: "Z-AI" },
   { id: "google/gemini-3-flash-preview|reasoning=low", name: "Gemini 3 Flash Preview (Low)", provider: "Google" },
@@ -0,0 +1,663 @@
+import type { Outline, OutlineLayer, Point2 } from "./vector-export";
+
+/**
+ * 2D profile import. SVG and DXF drawings are flattened into polylines in
+ * millimetres, grouped by layer, stored as JSON and turned into a `geom2`
+ * when JSCAD code requires `./assets/<name>` (or `./assets/<name>#<layer>`).
+ */
+
+export type OutlineFormat = "svg" | "dxf";
+
+export interface ImportedOutlines {
+  layers: OutlineLayer[];
+}
+
+export const OUTLINE_FORMATS: OutlineFormat[] = ["svg", "dxf"];
+
+/** Layer name for SVG shapes outside any group, matching DXF's default layer. */
+export const DEFAULT_LAYER = "0";
+
+const CURVE_STEPS = 16;
+const CIRCLE_STEPS = 64;
+const POINT_TOLERANCE = 1e-6;
+
+export function outlineFormatFromName(fileName: string): OutlineFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  return (OUTLINE_FORMATS as string[]).includes(extension) ? (extension as OutlineFormat) : null;
+}
+
+const samePoint = (a: Point2, b: Point2) =>
+  Math.abs(a[0] - b[0]) < POINT_TOLERANCE && Math.abs(a[1] - b[1]) < POINT_TOLERANCE;
+
+function arcPoints(cx: number, cy: number, rx: number, ry: number, start: number, sweep: number, rotation = 0) {
+  const steps = Math.max(2, Math.ceil((Math.abs(sweep) / (2 * Math.PI)) * CIRCLE_STEPS));
+  const [cos, sin] = [Math.cos(rotation), Math.sin(rotation)];
+  const points: Point2[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const angle = start + (sweep * i) / steps;
+    const [x, y] = [rx * Math.cos(angle), ry * Math.sin(angle)];
+    points.push([cx + x * cos - y * sin, cy + x * sin + y * cos]);
+  }
+  return points;
+}
+
+/**
+ * Joins open polylines that share endpoints, in either direction, so drawings
+ * made of separate lines and arcs still yield closed profiles.
+ */
+export function joinOpenOutlines(outlines: Outline[]): Outline[] {
+  const result: Outline[] = [];
+  const open: Point2[][] = [];
+  for (const outline of outlines) {
+    if (outline.points.length < 2) continue;
+    if (outline.closed) result.push(outline);
+    else open.push([...outline.points]);
+  }
+
+  while (open.length > 0) {
+    const points = open.shift()!;
+    for (let extended = true; extended && !samePoint(points[0], points[points.length - 1]); ) {
+      extended = false;
+      for (let i = 0; i < open.length; i++) {
+        const other = open[i];
+        const tail = points[points.length - 1];
+        if (samePoint(other[0], tail)) points.push(...other.slice(1));
+        else if (samePoint(other[other.length - 1], tail)) points.push(...other.slice(0, -1).reverse());
+        else if (samePoint(other[other.length - 1], points[0])) points.unshift(...other.slice(0, -1));
+        else if (samePoint(other[0], points[0])) points.unshift(...other.slice(1).reverse());
+        else continue;
+        open.splice(i, 1);
+        extended = true;
+        break;
+      }
+    }
+    const closed = points.length > 3 && samePoint(points[0], points[points.length - 1]);
+    result.push({ points: closed ? points.slice(0, -1) : points, closed });
+  }
+  return result;
+}
+
+function groupLayers(entries: Array<{ layer: string; outline: Outline }>): OutlineLayer[] {
+  const byLayer = new Map<string, Outline[]>();
+  for (const { layer, outline } of entries) {
+    byLayer.set(layer, [...(byLayer.get(layer) ?? []), outline]);
+  }
+  const layers = [...byLayer].map(([name, outlines]) => ({ name, outlines: joinOpenOutlines(outlines) }));
+  if (layers.length === 0) throw new Error("No shapes found in drawing");
+  return layers;
+}
+
+// --- SVG ---
+
+/** SVG affine matrix [a, b, c, d, e, f]: x' = a·x + c·y + e, y' = b·x + d·y + f. */
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+const apply = (m: Matrix, [x, y]: Point2): Point2 => [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+
+const numbersIn = (text: string) => (text.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []).map(Number);
+
+function parseSvgTransform(value: string | undefined): Matrix {
+  let matrix = IDENTITY;
+  for (const [, name, args] of (value ?? "").matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const n = numbersIn(args);
+    let next: Matrix = IDENTITY;
+    const rad = ((n[0] ?? 0) * Math.PI) / 180;
+    switch (name) {
+      case "matrix":
+        if (n.length === 6) next = n as Matrix;
+        break;
+      case "translate":
+        next = [1, 0, 0, 1, n[0] ?? 0, n[1] ?? 0];
+        break;
+      case "scale":
+        next = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0];
+        break;
+      case "rotate": {
+        const rotation: Matrix = [Math.cos(rad), Math.sin(rad), -Math.sin(rad), Math.cos(rad), 0, 0];
+        const [cx, cy] = [n[1] ?? 0, n[2] ?? 0];
+        next = multiply(multiply([1, 0, 0, 1, cx, cy], rotation), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case "skewX":
+        next = [1, 0, Math.tan(rad), 1, 0, 0];
+        break;
+      case "skewY":
+        next = [1, Math.tan(rad), 0, 1, 0, 0];
+        break;
+    }
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+}
+
+// Millimetres per unit; unitless lengths are CSS pixels.
+const SVG_UNITS: Record<string, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  pt: 25.4 / 72,
+  pc: 25.4 / 6,
+  px: 25.4 / 96,
+  "": 25.4 / 96,
+};
+
+function svgLengthMm(value: string | undefined) {
+  const match = value?.trim().match(/^([-+]?[\d.]+(?:e[-+]?\d+)?)\s*(mm|cm|in|pt|pc|px)?$/i);
+  if (!match) return null;
+  return Number(match[1]) * SVG_UNITS[(match[2] ?? "").toLowerCase()];
+}
+
+/** Flattens SVG path data into polylines (subpaths), in user units. */
+export function parseSvgPathData(d: string): Outline[] {
+  const outlines: Outline[] = [];
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  let index = 0;
+  let command = "";
+  let current: Point2 = [0, 0];
+  let start: Point2 = [0, 0];
+  let points: Point2[] = [];
+  let lastControl: Point2 | null = null;
+  let lastCommand = "";
+
+  const isCommand = (token: string | undefined) => token !== undefined && /^[A-Za-z]$/.test(token);
+  const next = () => Number(tokens[index++]);
+  const finish = (closed: boolean) => {
+    if (closed && points.length > 1 && samePoint(points[0], points[points.length - 1])) points.pop();
+    if (points.length > 1) outlines.push({ points, closed });
+    points = [];
+  };
+  const lineTo = (point: Point2) => {
+    if (points.length === 0) points.push(current);
+    points.push(point);
+    current = point;
+  };
+  const curveTo = (controls: Point2[], end: Point2) => {
+    const all = [current, ...controls, end];
+    for (let step = 1; step <= CURVE_STEPS; step++) {
+      const t = step / CURVE_STEPS;
+      let level = all;
+      while (level.length > 1) {
+        level = level.slice(1).map((p, i): Point2 => [level[i][0] + (p[0] - level[i][0]) * t, level[i][1] + (p[1] - level[i][1]) * t]);
+      }
+      lineTo(level[0]);
+    }
+  };
+
+  while (index < tokens.length) {
+    if (isCommand(tokens[index])) command = tokens[index++];
+    else if (!command) break;
+    const relative = command === command.toLowerCase();
+    const offset = (x: number, y: number): Point2 => (relative ? [current[0] + x, current[1] + y] : [x, y]);
+    const reflect = (): Point2 =>
+      lastControl ? [2 * current[0] - lastControl[0], 2 * current[1] - lastControl[1]] : current;
+
+    switch (command.toUpperCase()) {
+      case "M": {
+        finish(false);
+        current = offset(next(), next());
+        start = current;
+        points = [current];
+        lastControl = null;
+        // Further coordinate pairs after a moveto are implicit linetos.
+        command = relative ? "l" : "L";
+        break;
+      }
+      case "L":
+        lineTo(offset(next(), next()));
+        lastControl = null;
+        break;
+      case "H":
+        lineTo([relative ? current[0] + next() : next(), current[1]]);
+        lastControl = null;
+        break;
+      case "V":
+        lineTo([current[0], relative ? current[1] + next() : next()]);
+        lastControl = null;
+        break;
+      case "C": {
+        const c1 = offset(next(), next());
+        const c2 = offset(next(), next());
+        const end = offset(next(), next());
+        curveTo([c1, c2], end);
+        lastControl = c2;
+        break;
+      }
+      case "S": {
+        const c1 = /[CcSs]/.test(lastCommand) ? reflect() : current;
+        const c2 = offset(next(), next());
+        const end = offset(next(), next());
+        curveTo([c1, c2], end);
+        lastControl = c2;
+        break;
+      }
+      case "Q": {
+        const control = offset(next(), next());
+        const end = offset(next(), next());
+        curveTo([control], end);
+        lastControl = control;
+        break;
+      }
+      case "T": {
+        const control = /[QqTt]/.test(lastCommand) ? reflect() : current;
+        curveTo([control], offset(next(), next()));
+        lastControl = control;
+        break;
+      }
+      case "A": {
+        let [rx, ry] = [Math.abs(next()), Math.abs(next())];
+        const phi = (next() * Math.PI) / 180;
+        const [largeArc, sweepFlag] = [next() !== 0, next() !== 0];
+        const end = offset(next(), next());
+        lastControl = null;
+        if (rx === 0 || ry === 0 || samePoint(current, end)) {
+          lineTo(end);
+          break;
+        }
+        // Endpoint to center parameterization (SVG 1.1, appendix F.6.5).
+        const [cos, sin] = [Math.cos(phi), Math.sin(phi)];
+        const dx = (current[0] - end[0]) / 2;
+        const dy = (current[1] - end[1]) / 2;
+        const x1 = cos * dx + sin * dy;
+        const y1 = -sin * dx + cos * dy;
+        const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+        if (lambda > 1) [rx, ry] = [rx * Math.sqrt(lambda), ry * Math.sqrt(lambda)];
+        const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+        const factor =
+          (largeArc === sweepFlag ? -1 : 1) *
+          Math.sqrt(Math.max(0, numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1)));
+        const cx1 = (factor * rx * y1) / ry;
+        const cy1 = (-factor * ry * x1) / rx;
+        const cx = cos * cx1 - sin * cy1 + (current[0] + end[0]) / 2;
+        const cy = sin * cx1 + cos * cy1 + (current[1] + end[1]) / 2;
+        const angle = (ux: number, uy: number) => Math.atan2(uy, ux);
+        const theta = angle((x1 - cx1) / rx, (y1 - cy1) / ry);
+        let delta = angle((-x1 - cx1) / rx, (-y1 - cy1) / ry) - theta;
+        if (sweepFlag && delta < 0) delta += 2 * Math.PI;
+        if (!sweepFlag && delta > 0) delta -= 2 * Math.PI;
+        for (const point of arcPoints(cx, cy, rx, ry, theta, delta, phi).slice(1, -1)) lineTo(point);
+        lineTo(end);
+        break;
+      }
+      case "Z":
+        if (points.length > 0) lineTo(start);
+        finish(true);
+        current = start;
+        lastControl = null;
+        break;
+      default:
+        index++;
+    }
+    lastCommand = command;
+  }
+  finish(false);
+  return outlines;
+}
+
+function readAttributes(tag: string) {
+  const attributes: Record<string, string> = {};
+  for (const [, name, double, single] of tag.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name] = double ?? single;
+  }
+  return attributes;
+}
+
+function svgShapeOutlines(name: string, a: Record<string, string>): Outline[] {
+  const n = (key: string) => Number(a[key] ?? 0) || 0;
+  const pointList = () => {
+    const values = numbersIn(a.points ?? "");
+    const points: Point2[] = [];
+    for (let i = 0; i + 1 < values.length; i += 2) points.push([values[i], values[i + 1]]);
+    return points;
+  };
+  switch (name) {
+    case "path":
+      return parseSvgPathData(a.d ?? "");
+    case "rect": {
+      const [x, y, w, h] = [n("x"), n("y"), n("width"), n("height")];
+      if (w <= 0 || h <= 0) return [];
+      const rx = Math.min(n("rx") || n("ry"), w / 2);
+      const ry = Math.min(n("ry") || n("rx"), h / 2);
+      if (rx <= 0 || ry <= 0) {
+        return [{ points: [[x, y], [x + w, y], [x + w, y + h], [x, y + h]], closed: true }];
+      }
+      const corner = (cx: number, cy: number, start: number) => arcPoints(cx, cy, rx, ry, start, Math.PI / 2);
+      return [
+        {
+          points: [
+            ...corner(x + w - rx, y + ry, -Math.PI / 2),
+            ...corner(x + w - rx, y + h - ry, 0),
+            ...corner(x + rx, y + h - ry, Math.PI / 2),
+            ...corner(x + rx, y + ry, Math.PI),
+          ],
+          closed: true,
+        },
+      ];
+    }
+    case "circle":
+    case "ellipse": {
+      const rx = name === "circle" ? n("r") : n("rx");
+      const ry = name === "circle" ? n("r") : n("ry");
+      if (rx <= 0 || ry <= 0) return [];
+      return [{ points: arcPoints(n("cx"), n("cy"), rx, ry, 0, 2 * Math.PI).slice(0, -1), closed: true }];
+    }
+    case "polygon":
+      return [{ points: pointList(), closed: true }];
+    case "polyline":
+      return [{ points: pointList(), closed: false }];
+    case "line":
+      return [{ points: [[n("x1"), n("y1")], [n("x2"), n("y2")]], closed: false }];
+    default:
+      return [];
+  }
+}
+
+const SVG_SKIPPED = new Set(["defs", "clipPath", "mask", "symbol", "pattern", "marker", "metadata", "style", "title", "desc"]);
+
+const isHidden = (a: Record<string, string>) => a.display === "none" || /display\s*:\s*none/.test(a.style ?? "");
+
+interface SvgFrame {
+  name: string;
+  matrix: Matrix;
+  layer?: string;
+  skipped: boolean;
+}
+
+/**
+ * Shapes of an SVG document in millimetres with Y pointing up. Units come
+ * from the root `width`/`height` and `viewBox` (CSS pixels when unitless).
+ * Layers are Inkscape layers, or else top-level groups by `id`.
+ */
+export function parseSvg(text: string): OutlineLayer[] {
+  const source = text.replace(/<!--[\s\S]*?-->/g, "").replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, "");
+  const stack: SvgFrame[] = [];
+  const entries: Array<{ layer: string; outline: Outline }> = [];
+
+  for (const [, closing, name, body, selfClosing] of source.matchAll(
+    /<(\/?)([A-Za-z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g
+  )) {
+    if (closing) {
+      const index = stack.map((frame) => frame.name).lastIndexOf(name);
+      if (index !== -1) stack.length = index;
+      continue;
+    }
+
+    const a = readAttributes(body);
+    const parent = stack[stack.length - 1];
+    let frame: SvgFrame;
+    if (name === "svg" && !parent) {
+      const viewBox = numbersIn(a.viewBox ?? "");
+      const [vx, vy, vw, vh] = viewBox.length === 4 ? viewBox : [0, 0, 0, 0];
+      const widthMm = svgLengthMm(a.width);
+      const heightMm = svgLengthMm(a.height);
+      const scaleX = vw > 0 && widthMm ? widthMm / vw : vw > 0 && heightMm && vh > 0 ? heightMm / vh : SVG_UNITS.px;
+      const scaleY = vh > 0 && heightMm ? heightMm / vh : scaleX;
+      // User units → mm, flipping Y so the drawing is upright in JSCAD's XY plane.
+      frame = { name, matrix: [scaleX, 0, 0, -scaleY, -vx * scaleX, vy * scaleY], skipped: false };
+    } else {
+      const base = parent ?? { name: "", matrix: IDENTITY, skipped: false };
+      let layer = base.layer;
+      if (name === "g") {
+        const isLayer = a["inkscape:groupmode"] === "layer";
+        if (isLayer) layer = a["inkscape:label"] ?? a.id ?? layer;
+        else if (base.name === "svg" && !layer) layer = a["inkscape:label"] ?? a.id;
+      }
+      frame = {
+        name,
+        matrix: multiply(base.matrix, parseSvgTransform(a.transform)),
+        layer,
+        skipped: base.skipped || SVG_SKIPPED.has(name) || isHidden(a),
+      };
+    }
+
+    if (!frame.skipped) {
+      for (const outline of svgShapeOutlines(name, a)) {
+        if (outline.points.length < 2) continue;
+        entries.push({
+          layer: frame.layer ?? DEFAULT_LAYER,
+          outline: { points: outline.points.map((point) => apply(frame.matrix, point)), closed: outline.closed },
+        });
+      }
+    }
+    if (!selfClosing) stack.push(frame);
+  }
+  return groupLayers(entries);
+}
+
+// --- DXF ---
+
+// $INSUNITS codes to millimetres; unitless drawings are taken as millimetres.
+const DXF_UNITS: Record<number, number> = {
+  0: 1,
+  1: 25.4,
+  2: 304.8,
+  4: 1,
+  5: 10,
+  6: 1000,
+  8: 25.4e-6,
+  9: 0.0254,
+  10: 914.4,
+  12: 1e-6,
+  13: 1e-3,
+  14: 100,
+};
+
+type DxfPair = [number, string];
+
+function readDxfPairs(text: string): DxfPair[] {
+  const lines = text.split(/\r?\n/);
+  const pairs: DxfPair[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    pairs.push([parseInt(lines[i].trim(), 10), lines[i + 1].trim()]);
+  }
+  return pairs;
+}
+
+/** Polyline through vertices, replacing bulged segments with arcs. */
+function bulgePolyline(vertices: Array<{ point: Point2; bulge: number }>, closed: boolean): Point2[] {
+  const points: Point2[] = [];
+  const count = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < count; i++) {
+    const { point: from, bulge } = vertices[i];
+    const to = vertices[(i + 1) % vertices.length].point;
+    points.push(from);
+    if (Math.abs(bulge) < 1e-9) continue;
+    const sweep = 4 * Math.atan(bulge);
+    const chord = Math.hypot(to[0] - from[0], to[1] - from[1]);
+    const radius = chord / (2 * Math.sin(Math.abs(sweep) / 2));
+    const mid: Point2 = [(from[0] + to[0]) / 2, (from[1] + to[1]) / 2];
+    // The center sits on the chord's perpendicular bisector, left of it for positive bulges.
+    const offset = (bulge > 0 ? 1 : -1) * Math.sqrt(Math.max(0, radius * radius - (chord / 2) ** 2)) * (Math.abs(sweep) > Math.PI ? -1 : 1);
+    const [nx, ny] = [-(to[1] - from[1]) / chord, (to[0] - from[0]) / chord];
+    const [cx, cy] = [mid[0] + nx * offset, mid[1] + ny * offset];
+    const start = Math.atan2(from[1] - cy, from[0] - cx);
+    points.push(...arcPoints(cx, cy, radius, radius, start, sweep).slice(1, -1));
+  }
+  if (!closed && vertices.length > 0) points.push(vertices[vertices.length - 1].point);
+  return points;
+}
+
+/**
+ * Outlines of an ASCII DXF's ENTITIES section in millimetres, by layer.
+ * Handles LINE, LWPOLYLINE, POLYLINE, CIRCLE, ARC, ELLIPSE and SPLINE
+ * (through fit points, else its control polygon); blocks are not expanded.
+ */
+export function parseDxf(text: string): OutlineLayer[] {
+  const pairs = readDxfPairs(text);
+  const unitsIndex = pairs.findIndex(([code, value]) => code === 9 && value === "$INSUNITS");
+  const scale = unitsIndex === -1 ? 1 : (DXF_UNITS[Number(pairs[unitsIndex + 1]?.[1])] ?? 1);
+
+  const entities: Array<{ type: string; pairs: DxfPair[] }> = [];
+  let inEntities = false;
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+    if (code === 2 && pairs[i - 1]?.[1] === "SECTION") inEntities = value === "ENTITIES";
+    if (code !== 0 || !inEntities) continue;
+    if (value === "ENDSEC") {
+      inEntities = false;
+      continue;
+    }
+    const entity = { type: value, pairs: [] as DxfPair[] };
+    while (i + 1 < pairs.length && pairs[i + 1][0] !== 0) entity.pairs.push(pairs[++i]);
+    entities.push(entity);
+  }
+
+  const entries: Array<{ layer: string; outline: Outline }> = [];
+  const add = (layer: string, points: Point2[], closed: boolean) => {
+    if (points.length < 2) return;
+    entries.push({ layer, outline: { points: points.map(([x, y]) => [x * scale, y * scale]), closed } });
+  };
+
+  for (let e = 0; e < entities.length; e++) {
+    const { type, pairs: entityPairs } = entities[e];
+    const value = (code: number, fallback = 0) => {
+      const pair = entityPairs.find(([c]) => c === code);
+      return pair ? Number(pair[1]) : fallback;
+    };
+    const layer = entityPairs.find(([c]) => c === 8)?.[1] ?? DEFAULT_LAYER;
+    const closedFlag = (value(70) & 1) === 1;
+
+    switch (type) {
+      case "LINE":
+        add(layer, [[value(10), value(20)], [value(11), value(21)]], false);
+        break;
+      case "LWPOLYLINE": {
+        const vertices: Array<{ point: Point2; bulge: number }> = [];
+        for (const [code, raw] of entityPairs) {
+          if (code === 10) vertices.push({ point: [Number(raw), 0], bulge: 0 });
+          else if (code === 20 && vertices.length) vertices[vertices.length - 1].point[1] = Number(raw);
+          else if (code === 42 && vertices.length) vertices[vertices.length - 1].bulge = Number(raw);
+        }
+        add(layer, bulgePolyline(vertices, closedFlag), closedFlag);
+        break;
+      }
+      case "POLYLINE": {
+        const vertices: Array<{ point: Point2; bulge: number }> = [];
+        while (entities[e + 1]?.type === "VERTEX") {
+          const vertex = entities[++e].pairs;
+          const read = (code: number) => Number(vertex.find(([c]) => c === code)?.[1] ?? 0);
+          vertices.push({ point: [read(10), read(20)], bulge: read(42) });
+        }
+        if (entities[e + 1]?.type === "SEQEND") e++;
+        add(layer, bulgePolyline(vertices, closedFlag), closedFlag);
+        break;
+      }
+      case "CIRCLE":
+        add(layer, arcPoints(value(10), value(20), value(40), value(40), 0, 2 * Math.PI).slice(0, -1), true);
+        break;
+      case "ARC": {
+        const start = (value(50) * Math.PI) / 180;
+        let sweep = (value(51) * Math.PI) / 180 - start;
+        if (sweep <= 0) sweep += 2 * Math.PI;
+        add(layer, arcPoints(value(10), value(20), value(40), value(40), start, sweep), false);
+        break;
+      }
+      case "ELLIPSE": {
+        const [mx, my] = [value(11), value(21)];
+        const major = Math.hypot(mx, my);
+        const start = value(41);
+        let sweep = value(42, 2 * Math.PI) - start;
+        if (sweep <= 0) sweep += 2 * Math.PI;
+        const full = Math.abs(sweep - 2 * Math.PI) < 1e-6;
+        const points = arcPoints(value(10), value(20), major, major * value(40, 1), start, sweep, Math.atan2(my, mx));
+        add(layer, full ? points.slice(0, -1) : points, full);
+        break;
+      }
+      case "SPLINE": {
+        const fit = entityPairs.some(([c]) => c === 11);
+        const points: Point2[] = [];
+        for (const [code, raw] of entityPairs) {
+          if (code === (fit ? 11 : 10)) points.push([Number(raw), 0]);
+          else if (code === (fit ? 21 : 20) && points.length) points[points.length - 1][1] = Number(raw);
+        }
+        add(layer, points, closedFlag);
+        break;
+      }
+    }
+  }
+  return groupLayers(entries);
+}
+
+export function parseOutlineFile(fileName: string, text: string): ImportedOutlines {
+  switch (outlineFormatFromName(fileName)) {
+    case "svg":
+      return { layers: parseSvg(text) };
+    case "dxf":
+      return { layers: parseDxf(text) };
+    default:
+      throw new Error(`Unsupported drawing: ${fileName}. Use ${OUTLINE_FORMATS.map((f) => `.${f}`).join(", ")}.`);
+  }
+}
+
+export function outlineBounds(layers: OutlineLayer[]) {
+  const min: Point2 = [Infinity, Infinity];
+  const max: Point2 = [-Infinity, -Infinity];
+  for (const layer of layers) {
+    for (const outline of layer.outlines) {
+      for (const [x, y] of outline.points) {
+        min[0] = Math.min(min[0], x);
+        min[1] = Math.min(min[1], y);
+        max[0] = Math.max(max[0], x);
+        max[1] = Math.max(max[1], y);
+      }
+    }
+  }
+  return { min, max };
+}
+
+function signedArea(points: Point2[]) {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+}
+
+function contains(points: Point2[], [x, y]: Point2) {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Closed outlines of the chosen layer (all layers when omitted), wound for
+ * `geom2` with the even-odd rule: counter-clockwise at even nesting depth,
+ * clockwise for the holes inside them. Mirrors `public/jscad-worker.js`.
+ */
+export function outlineLoops(outlines: ImportedOutlines, layer?: string): Point2[][] {
+  const selected = layer === undefined ? outlines.layers : outlines.layers.filter((entry) => entry.name === layer);
+  if (selected.length === 0) {
+    throw new Error(`Unknown layer "${layer}". Layers: ${outlines.layers.map((entry) => entry.name).join(", ")}`);
+  }
+  const loops = selected.flatMap((entry) => entry.outlines.filter((outline) => outline.closed && outline.points.length > 2));
+  if (loops.length === 0) throw new Error("Drawing has no closed outlines to build a 2D shape from");
+
+  return loops.map(({ points }, index) => {
+    const depth = loops.filter((other, j) => j !== index && contains(other.points, points[0])).length;
+    const counterClockwise = signedArea(points) > 0;
+    return counterClockwise === (depth % 2 === 0) ? points : [...points].reverse();
+  });
+}
+
+/** `geom2` sides for the loops from {@link outlineLoops}. */
+export function loopSides(loops: Point2[][]) {
+  return loops.flatMap((points) => points.map((point, i) => [point, points[(i + 1) % points.length]]));
+}
@@ -0,0 +1,81 @@
+/**
+ * Multi-file projects. `main.jscad` is the entry point and stays in the
+ * version's `jscadCode`; every other file is a CommonJS module that the entry
+ * (or another module) loads with a relative spec such as
+ * `require('./lib/fasteners')`. The server evaluator resolves modules with
+ * these helpers and `public/jscad-worker.js` mirrors them.
+ */
+
+export const MAIN_FILE = "main.jscad";
+
+/** Module sources by project path ("lib/fasteners.jscad"); never includes main. */
+export type ProjectFiles = Record<string, string>;
+
+/** How files are stored on a version row. */
+export interface ProjectFileEntry {
+  path: string;
+  content: string;
+}
+
+const MODULE_EXTENSIONS = [".jscad", ".js"];
+
+const MODULE_PATH_PATTERN = /^(?:[a-z0-9_-][a-z0-9._-]*\/)*[a-z0-9_-][a-z0-9._-]*\.(?:jscad|js)$/;
+
+/**
+ * Canonical project path for a user- or agent-supplied file name, or null when
+ * it is not a valid module path. "./lib/Fasteners" → "lib/fasteners.jscad".
+ */
+export function normalizeModulePath(input: string): string | null {
+  const trimmed = input.trim().replace(/\\/g, "/").replace(/^(?:\.\/|\/)+/, "").toLowerCase();
+  if (!trimmed || trimmed.split("/").some((segment) => segment === "." || segment === "..")) return null;
+  const withExtension = MODULE_EXTENSIONS.some((extension) => trimmed.endsWith(extension))
+    ? trimmed
+    : `${trimmed}.jscad`;
+  if (withExtension.startsWith("assets/") || !MODULE_PATH_PATTERN.test(withExtension)) return null;
+  return withExtension;
+}
+
+/**
+ * Project path a relative spec points at from `fromPath`, keeping any
+ * `#fragment`. Throws when the spec climbs out of the project.
+ */
+export function resolveProjectPath(fromPath: string, spec: string) {
+  const hash = spec.indexOf("#");
+  const target = hash === -1 ? spec : spec.slice(0, hash);
+  const segments = fromPath.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) throw new Error(`Module path escapes the project: ${spec}`);
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/") + (hash === -1 ? "" : spec.slice(hash));
+}
+
+/**
+ * The file a resolved path refers to, trying Node-style extensions and
+ * `index` files: "lib/fasteners" matches "lib/fasteners.jscad".
+ */
+export function findProjectModule(files: ProjectFiles, path: string): string | undefined {
+  const candidates = [
+    path,
+    ...MODULE_EXTENSIONS.map((extension) => `${path}${extension}`),
+    ...MODULE_EXTENSIONS.map((extension) => `${path}/index${extension}`),
+  ];
+  return candidates.find((candidate) => candidate in files);
+}
+
+export function filesToEntries(files: ProjectFiles): ProjectFileEntry[] {
+  return Object.keys(files)
+    .sort()
+    .map((path) => ({ path, content: files[path] }));
+}
+
+export function entriesToFiles(entries: ProjectFileEntry[] | undefined): ProjectFiles {
+  const files: ProjectFiles = {};
+  for (const entry of entries ?? []) files[entry.path] = entry.content;
+  return files;
+}
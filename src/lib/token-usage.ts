@@ -0,0 +1,54 @@
+/**
+ * Token usage shared by the codegen server, the chat panel and the usage panel.
+ *
+ * `completionTokens` includes reasoning tokens (they are billed as output);
+ * `reasoningTokens` is the subset the provider reported as reasoning. `cost` is
+ * in USD and is left undefined when neither the provider nor the price table
+ * knows it.
+ */
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  cost?: number;
+}
+
+export interface IterationUsage extends TokenUsage {
+  iteration: number;
+  /** Model requests made during the iteration (tool turn plus any final streamed reply). */
+  requests: number;
+}
+
+export interface CodegenUsage {
+  total: TokenUsage;
+  iterations: IterationUsage[];
+}
+
+export const EMPTY_USAGE: TokenUsage = {
+  promptTokens: 0,
+  completionTokens: 0,
+  reasoningTokens: 0,
+};
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  const cost = a.cost === undefined && b.cost === undefined ? undefined : (a.cost ?? 0) + (b.cost ?? 0);
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+    ...(cost === undefined ? {} : { cost }),
+  };
+}
+
+export function formatTokenCount(tokens: number) {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export function formatCost(cost: number | undefined) {
+  if (cost === undefined) return "—";
+  if (cost > 0 && cost < 0.01) return "<$0.01";
+  return `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ExtractedParameter } from "./parameter-extractor";
+import {
+  animatableParameters,
+  DEFAULT_TIMELINE_SETTINGS,
+  defaultTracks,
+  elapsedForTime,
+  frameCount,
+  frameValuesAt,
+  quantizeTime,
+  readPlaybackParams,
+  removeKeyframe as removeTrackKeyframe,
+  setKeyframe,
+  timelineFrames,
+  timelineTimeAt,
+  type FrameValues,
+  type TimelineSettings,
+  type TimelineTrack,
+} from "./animation-timeline";
+
+interface UseAnimationTimelineOptions {
+  parameters: ExtractedParameter[];
+  values: Record<string, number | boolean | string>;
+  /** Applies one frame's values to the model parameters. */
+  onFrame: (values: FrameValues) => void;
+  /**
+   * Evaluates frames ahead of playback so they can be served from a cache.
+   * Should resolve early once `signal` is aborted.
+   */
+  prepareFrames?: (frames: FrameValues[], signal: AbortSignal, onProgress: (done: number) => void) => Promise<void>;
+}
+
+export interface AnimationTimeline {
+  isPlaying: boolean;
+  isPreparing: boolean;
+  prepared: { done: number; total: number };
+  /** Normalized time of the frame on screen. */
+  time: number;
+  settings: TimelineSettings;
+  tracks: TimelineTrack[];
+  frames: number;
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  seek: (time: number) => void;
+  updateSettings: (changes: Partial<TimelineSettings>) => void;
+  addKeyframe: (param: string) => void;
+  removeKeyframe: (param: string, index: number) => void;
+  resetTracks: () => void;
+}
+
+/**
+ * Drives parameter playback with requestAnimationFrame. Only frame changes
+ * call `onFrame`, so a cached frame costs one state update.
+ */
+export function useAnimationTimeline({
+  parameters,
+  values,
+  onFrame,
+  prepareFrames,
+}: UseAnimationTimelineOptions): AnimationTimeline {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [prepared, setPrepared] = useState({ done: 0, total: 0 });
+  const [time, setTime] = useState(0);
+  const [overrides, setOverrides] = useState<Partial<TimelineSettings>>({});
+  const [tracks, setTracks] = useState<TimelineTrack[]>([]);
+
+  // Keyed on the playback params alone: `values` changes on every played frame.
+  const { autoPlay, durationSec, direction } = values;
+  const playback = useMemo(
+    () => readPlaybackParams({ autoPlay, durationSec, direction }),
+    [autoPlay, durationSec, direction]
+  );
+  const settings = useMemo<TimelineSettings>(
+    () => ({ ...DEFAULT_TIMELINE_SETTINGS, ...playback.settings, ...overrides }),
+    [overrides, playback.settings]
+  );
+  const frames = frameCount(settings);
+
+  const settingsRef = useRef(settings);
+  const tracksRef = useRef(tracks);
+  const timeRef = useRef(time);
+  const onFrameRef = useRef(onFrame);
+  const prepareFramesRef = useRef(prepareFrames);
+  const frameRequestRef = useRef<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const startedAtRef = useRef(0);
+  const autoPlayedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+    prepareFramesRef.current = prepareFrames;
+  }, [onFrame, prepareFrames]);
+
+  useEffect(() => {
+    tracksRef.current = tracks;
+  }, [tracks]);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+    // Keep the frame on screen when the duration or direction changes mid-playback.
+    startedAtRef.current = performance.now() - elapsedForTime(timeRef.current, settings) * 1000;
+  }, [settings]);
+
+  const animatableKey = animatableParameters(parameters)
+    .map((parameter) => parameter.name)
+    .join("\n");
+
+  useEffect(() => {
+    const names = animatableKey ? animatableKey.split("\n") : [];
+    setTracks((previous) => {
+      const kept = previous.filter((track) => names.includes(track.param));
+      return kept.length > 0 ? kept : defaultTracks(parameters);
+    });
+    // Only the set of animatable names matters; `parameters` changes identity on every edit.
+  }, [animatableKey]);
+
+  const showTime = useCallback((next: number) => {
+    timeRef.current = next;
+    setTime(next);
+    onFrameRef.current(frameValuesAt(tracksRef.current, next));
+  }, []);
+
+  const stopLoop = useCallback(() => {
+    if (frameRequestRef.current !== null) {
+      cancelAnimationFrame(frameRequestRef.current);
+      frameRequestRef.current = null;
+    }
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  const pause = useCallback(() => {
+    stopLoop();
+    setIsPlaying(false);
+    setIsPreparing(false);
+  }, [stopLoop]);
+
+  const tick = useCallback(
+    (now: number) => {
+      const current = settingsRef.current;
+      const { time: raw, finished } = timelineTimeAt((now - startedAtRef.current) / 1000, current);
+      const next = quantizeTime(raw, frameCount(current));
+      if (next !== timeRef.current) showTime(next);
+      if (finished) {
+        pause();
+        return;
+      }
+      frameRequestRef.current = requestAnimationFrame(tick);
+    },
+    [pause, showTime]
+  );
+
+  const play = useCallback(async () => {
+    if (frameRequestRef.current !== null || abortRef.current) return;
+    const current = settingsRef.current;
+    const end = current.direction === "reverse" ? 0 : 1;
+    if (current.mode === "once" && timeRef.current === end) {
+      showTime(1 - end);
+    }
+    setIsPlaying(true);
+
+    const prepare = prepareFramesRef.current;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    if (prepare) {
+      const pending = timelineFrames(tracksRef.current, current).map((frame) => frame.values);
+      setPrepared({ done: 0, total: pending.length });
+      setIsPreparing(true);
+      await prepare(pending, controller.signal, (done) => setPrepared({ done, total: pending.length }));
+      if (controller.signal.aborted) return;
+      setIsPreparing(false);
+    }
+    abortRef.current = null;
+
+    startedAtRef.current = performance.now() - elapsedForTime(timeRef.current, settingsRef.current) * 1000;
+    frameRequestRef.current = requestAnimationFrame(tick);
+  }, [showTime, tick]);
+
+  const seek = useCallback(
+    (next: number) => {
+      const snapped = quantizeTime(next, frameCount(settingsRef.current));
+      startedAtRef.current = performance.now() - elapsedForTime(snapped, settingsRef.current) * 1000;
+      showTime(snapped);
+    },
+    [showTime]
+  );
+
+  const toggle = useCallback(() => {
+    if (isPlaying) pause();
+    else void play();
+  }, [isPlaying, pause, play]);
+
+  useEffect(() => {
+    if (!playback.autoPlay || tracks.length === 0 || autoPlayedRef.current === animatableKey) return;
+    autoPlayedRef.current = animatableKey;
+    void play();
+  }, [animatableKey, play, playback.autoPlay, tracks.length]);
+
+  useEffect(() => {
+    if (isPlaying && tracks.length === 0) pause();
+  }, [isPlaying, pause, tracks.length]);
+
+  useEffect(() => stopLoop, [stopLoop]);
+
+  const updateSettings = useCallback((changes: Partial<TimelineSettings>) => {
+    setOverrides((previous) => ({ ...previous, ...changes }));
+  }, []);
+
+  const addKeyframe = useCallback(
+    (param: string) => {
+      const value = Number(values[param]);
+      if (!Number.isFinite(value)) return;
+      setTracks((previous) => setKeyframe(previous, param, { time: timeRef.current, value }));
+    },
+    [values]
+  );
+
+  const removeKeyframe = useCallback((param: string, index: number) => {
+    setTracks((previous) => removeTrackKeyframe(previous, param, index));
+  }, []);
+
+  const resetTracks = useCallback(() => {
+    setTracks(defaultTracks(parameters));
+  }, [parameters]);
+
+  return {
+    isPlaying,
+    isPreparing,
+    prepared,
+    time,
+    settings,
+    tracks,
+    frames,
+    play: () => void play(),
+    pause,
+    toggle,
+    seek,
+    updateSettings,
+    addKeyframe,
+    removeKeyframe,
+    resetTracks,
+  };
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { sweepValues } from "./animation-export";
+import { PROGRESS_PARAM_NAME } from "./animation-timeline";
+import { collisionIntervals, sweepCollisions, type CollisionFrame, type CollisionInterval } from "./collision-sweep";
+import { getJscadWorkerPool } from "./jscad-worker";
+import type { ExtractedParameter } from "./parameter-extractor";
+
+interface UseCollisionSweepOptions {
+  code: string;
+  parameters: Record<string, number | boolean | string>;
+  parameterDefs: ExtractedParameter[];
+}
+
+export interface CollisionSweepResult {
+  frames: CollisionFrame[];
+  intervals: CollisionInterval[];
+  range: [number, number];
+}
+
+export interface CollisionSweep {
+  /** False when the model has no numeric `progress` parameter. */
+  available: boolean;
+  isRunning: boolean;
+  checked: { done: number; total: number };
+  resolution: number;
+  setResolution: (samples: number) => void;
+  result: CollisionSweepResult | null;
+  /** True once the code changes after the last sweep. */
+  isStale: boolean;
+  error: string | null;
+  run: () => void;
+  cancel: () => void;
+}
+
+export const DEFAULT_COLLISION_SAMPLES = 41;
+
+/**
+ * Samples the `progress` range in a dedicated worker and checks every part
+ * pair per frame. Other parameters keep their current values.
+ */
+export function useCollisionSweep({ code, parameters, parameterDefs }: UseCollisionSweepOptions): CollisionSweep {
+  const [isRunning, setIsRunning] = useState(false);
+  const [checked, setChecked] = useState({ done: 0, total: 0 });
+  const [resolution, setResolution] = useState(DEFAULT_COLLISION_SAMPLES);
+  const [result, setResult] = useState<CollisionSweepResult | null>(null);
+  const [sweptCode, setSweptCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const progressDef = parameterDefs.find((def) => def.name === PROGRESS_PARAM_NAME && def.type === "number");
+
+  // Aborting also terminates the frame in flight.
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsRunning(false);
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const run = useCallback(async () => {
+    if (!progressDef || abortRef.current) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const range: [number, number] = [progressDef.min ?? 0, progressDef.max ?? 1];
+    const values = sweepValues(resolution, range);
+
+    setIsRunning(true);
+    setError(null);
+    setChecked({ done: 0, total: values.length });
+    try {
+      const frames = await sweepCollisions(
+        async (progress) => {
+          const response = await getJscadWorkerPool().evaluate(
+            code,
+            { ...parameters, [PROGRESS_PARAM_NAME]: progress },
+            { priority: "background", signal: controller.signal }
+          );
+          if (response.error) throw new Error(`progress=${progress}: ${response.error}`);
+          return (response.geometries as unknown[] | undefined) ?? [];
+        },
+        values,
+        { signal: controller.signal, onProgress: (done) => setChecked({ done, total: values.length }) }
+      );
+      if (!controller.signal.aborted) {
+        setResult({ frames, intervals: collisionIntervals(frames), range });
+        setSweptCode(code);
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  }, [code, parameters, progressDef, resolution]);
+
+  return {
+    available: Boolean(progressDef),
+    isRunning,
+    checked,
+    resolution,
+    setResolution,
+    result,
+    isStale: result !== null && sweptCode !== code,
+    error,
+    run: () => void run(),
+    cancel,
+  };
+}
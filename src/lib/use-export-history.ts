@@ -0,0 +1,92 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useConvex, useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import type { DependencyLock } from "./dependencies";
+import { exportKey, isRenderedExport, uploadToStorage, type ExportRequest, type StoredExport } from "./export-history";
+import type { ProjectFiles } from "./project-files";
+
+interface UseExportHistoryOptions {
+  projectId: string | null;
+  versionId: string | null;
+  ownerId: string | null | undefined;
+  code: string;
+  files: ProjectFiles;
+  assets?: Record<string, string>;
+  dependencies?: DependencyLock;
+  parameters: Record<string, unknown>;
+}
+
+export interface ExportHistory {
+  entries: StoredExport[];
+  /** A stored copy of this exact export for the active version, if one exists; never for rendered formats. */
+  findExisting: (request: ExportRequest) => Promise<StoredExport | null>;
+  /** Uploads the file and records it against the active version. */
+  save: (request: ExportRequest, blob: Blob) => Promise<void>;
+}
+
+/** Export history for a saved project; null for the playground or before a version exists. */
+export function useExportHistory({
+  projectId,
+  versionId,
+  ownerId,
+  code,
+  files,
+  assets,
+  dependencies,
+  parameters,
+}: UseExportHistoryOptions): ExportHistory | null {
+  const convex = useConvex();
+  const listArgs = projectId && ownerId ? { projectId: projectId as Id<"projects">, ownerId } : "skip";
+  const rows = useQuery(api.exports.list, listArgs);
+  const generateUploadUrl = useMutation(api.exports.generateUploadUrl);
+  const createExport = useMutation(api.exports.create);
+
+  const keyFor = useCallback(
+    (request: ExportRequest) =>
+      exportKey({ code, files, assets, dependencies, parameters, format: request.format, options: request.options }),
+    [assets, code, dependencies, files, parameters]
+  );
+
+  const findExisting = useCallback(
+    async (request: ExportRequest) => {
+      if (!versionId || !ownerId || isRenderedExport(request)) return null;
+      const existing = await convex.query(api.exports.findExisting, {
+        versionId: versionId as Id<"versions">,
+        ownerId,
+        exportKey: await keyFor(request),
+      });
+      return (existing as StoredExport | null) ?? null;
+    },
+    [convex, keyFor, ownerId, versionId]
+  );
+
+  const save = useCallback(
+    async (request: ExportRequest, blob: Blob) => {
+      if (!projectId || !versionId || !ownerId) return;
+      const key = isRenderedExport(request) ? undefined : await keyFor(request);
+      const uploadUrl = await generateUploadUrl({ projectId: projectId as Id<"projects">, ownerId });
+      const fileId = await uploadToStorage(uploadUrl, blob);
+      await createExport({
+        projectId: projectId as Id<"projects">,
+        versionId: versionId as Id<"versions">,
+        ownerId,
+        format: request.format,
+        fileName: request.fileName,
+        fileId: fileId as Id<"_storage">,
+        fileSizeBytes: blob.size,
+        resolution: request.options,
+        parameters,
+        exportKey: key,
+      });
+    },
+    [createExport, generateUploadUrl, keyFor, ownerId, parameters, projectId, versionId]
+  );
+
+  return useMemo(() => {
+    if (!projectId || !versionId || !ownerId) return null;
+    return { entries: (rows as StoredExport[] | undefined) ?? [], findExisting, save };
+  }, [findExisting, ownerId, projectId, rows, save, versionId]);
+}
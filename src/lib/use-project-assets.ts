@@ -0,0 +1,133 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { uploadToStorage } from "./export-history";
+import { setProjectAssets } from "./jscad-worker";
+import { assetPath, meshBounds, meshFormatFromName, parseMeshFile, type MeshFormat } from "./mesh-import";
+import { outlineBounds, outlineFormatFromName, parseOutlineFile, type OutlineFormat } from "./outline-import";
+
+interface UseProjectAssetsOptions {
+  projectId: string | null;
+  ownerId: string | null | undefined;
+}
+
+export interface StoredAsset {
+  _id: string;
+  _creationTime: number;
+  path: string;
+  fileName: string;
+  format: MeshFormat | OutlineFormat;
+  fileSizeBytes?: number;
+  /** Meshes only. */
+  triangleCount?: number;
+  /** Drawings only. */
+  outlineCount?: number;
+  layers?: string[];
+  bounds?: { min: number[]; max: number[] };
+  url: string | null;
+}
+
+export interface ProjectAssets {
+  entries: StoredAsset[];
+  /** Asset URLs by path; changes whenever an asset is added, replaced or removed. */
+  urls: Record<string, string>;
+  isUploading: boolean;
+  error: string | null;
+  upload: (file: File) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Mesh and drawing assets of a saved project; null for the playground. Keeps the JSCAD
+ * workers' asset table in sync so `require('./assets/...')` always resolves
+ * against the latest upload.
+ */
+export function useProjectAssets({ projectId, ownerId }: UseProjectAssetsOptions): ProjectAssets | null {
+  const listArgs = projectId && ownerId ? { projectId: projectId as Id<"projects">, ownerId } : "skip";
+  const rows = useQuery(api.assets.list, listArgs) as StoredAsset[] | undefined;
+  const generateUploadUrl = useMutation(api.assets.generateUploadUrl);
+  const createAsset = useMutation(api.assets.create);
+  const removeAsset = useMutation(api.assets.remove);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const entries = useMemo(() => rows ?? [], [rows]);
+  // Keyed by content so only a changed path or URL re-runs the model, not every query refresh.
+  const urlsKey = JSON.stringify(entries.flatMap((entry) => (entry.url ? [[entry.path, entry.url]] : [])));
+  const urls = useMemo(() => Object.fromEntries(JSON.parse(urlsKey) as string[][]) as Record<string, string>, [urlsKey]);
+
+  useEffect(() => {
+    setProjectAssets(urls);
+  }, [urls]);
+
+  useEffect(() => () => setProjectAssets({}), []);
+
+  const upload = useCallback(
+    async (file: File) => {
+      if (!projectId || !ownerId) return;
+      const meshFormat = meshFormatFromName(file.name);
+      const format = meshFormat ?? outlineFormatFromName(file.name);
+      if (!format) {
+        setError(`Unsupported file: ${file.name}. Use .stl, .obj, .3mf, .svg or .dxf.`);
+        return;
+      }
+
+      setIsUploading(true);
+      setError(null);
+      try {
+        let stored: object;
+        let summary: Pick<StoredAsset, "format" | "triangleCount" | "outlineCount" | "layers" | "bounds">;
+        if (meshFormat) {
+          const mesh = await parseMeshFile(file.name, await file.arrayBuffer());
+          stored = mesh;
+          summary = { format, triangleCount: mesh.triangles.length / 3, bounds: meshBounds(mesh) };
+        } else {
+          const outlines = parseOutlineFile(file.name, await file.text());
+          stored = outlines;
+          summary = {
+            format,
+            outlineCount: outlines.layers.reduce(
+              (count, layer) => count + layer.outlines.filter((outline) => outline.closed).length,
+              0
+            ),
+            layers: outlines.layers.map((layer) => layer.name),
+            bounds: outlineBounds(outlines.layers),
+          };
+        }
+        const blob = new Blob([JSON.stringify(stored)], { type: "application/json" });
+        const uploadUrl = await generateUploadUrl({ projectId: projectId as Id<"projects">, ownerId });
+        const fileId = await uploadToStorage(uploadUrl, blob);
+        await createAsset({
+          projectId: projectId as Id<"projects">,
+          ownerId,
+          path: assetPath(file.name),
+          fileName: file.name,
+          fileId: fileId as Id<"_storage">,
+          fileSizeBytes: file.size,
+          ...summary,
+        });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setIsUploading(false);
+      }
+    },
+    [createAsset, generateUploadUrl, ownerId, projectId]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      if (!ownerId) return;
+      await removeAsset({ id: id as Id<"assets">, ownerId });
+    },
+    [ownerId, removeAsset]
+  );
+
+  return useMemo(() => {
+    if (!projectId || !ownerId) return null;
+    return { entries, urls, isUploading, error, upload, remove };
+  }, [entries, error, isUploading, ownerId, projectId, remove, upload, urls]);
+}
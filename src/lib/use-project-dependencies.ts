@@ -0,0 +1,147 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { hashSource, lockFromManifest, type DependencyLock, type ResolvedModule } from "./dependencies";
+import { uploadToStorage } from "./export-history";
+import { setProjectDependencies } from "./jscad-worker";
+
+interface UseProjectDependenciesOptions {
+  projectId: string | null;
+  ownerId: string | null | undefined;
+}
+
+export interface StoredDependency {
+  _id: string;
+  _creationTime: number;
+  moduleId: string;
+  hash: string;
+  sizeBytes: number;
+  updatedAt: number;
+  url: string | null;
+}
+
+export interface DependencyUpdate {
+  checked: number;
+  /** Module ids whose live source differed from the pin and were re-pinned. */
+  changed: string[];
+}
+
+export interface ProjectDependencies {
+  entries: StoredDependency[];
+  lock: DependencyLock;
+  isUpdating: boolean;
+  lastUpdate: DependencyUpdate | null;
+  error: string | null;
+  /** Pins modules an evaluation loaded live; already pinned ids are ignored. */
+  record: (modules: ResolvedModule[] | undefined) => Promise<void>;
+  /** Re-fetches every pinned module and moves the pins whose source changed. */
+  update: () => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Dependency manifest of a saved project; null for the playground, which keeps
+ * loading libraries live. Hands the lock to the JSCAD workers once it has
+ * loaded so every evaluation reads pinned modules from their snapshots.
+ */
+export function useProjectDependencies({
+  projectId,
+  ownerId,
+}: UseProjectDependenciesOptions): ProjectDependencies | null {
+  const listArgs = projectId && ownerId ? { projectId: projectId as Id<"projects">, ownerId } : "skip";
+  const rows = useQuery(api.dependencies.list, listArgs) as StoredDependency[] | undefined;
+  const generateUploadUrl = useMutation(api.dependencies.generateUploadUrl);
+  const pinDependency = useMutation(api.dependencies.pin);
+  const removeDependency = useMutation(api.dependencies.remove);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [lastUpdate, setLastUpdate] = useState<DependencyUpdate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const pendingRef = useRef(new Set<string>());
+
+  const entries = useMemo(() => rows ?? [], [rows]);
+  // Keyed by content so only a moved pin re-runs the model, not every query refresh.
+  const lockKey = rows ? JSON.stringify(lockFromManifest(rows)) : null;
+  const lock = useMemo(() => (lockKey ? (JSON.parse(lockKey) as DependencyLock) : null), [lockKey]);
+
+  useEffect(() => {
+    // Until the manifest loads, evaluations fall back to live modules and record nothing.
+    setProjectDependencies(lock ?? undefined);
+  }, [lock]);
+
+  useEffect(() => () => setProjectDependencies(undefined), []);
+
+  const pinSource = useCallback(
+    async (moduleId: string, hash: string, source: string, replace: boolean) => {
+      if (!projectId || !ownerId) return false;
+      const blob = new Blob([source], { type: "text/javascript" });
+      const uploadUrl = await generateUploadUrl({ projectId: projectId as Id<"projects">, ownerId });
+      const fileId = await uploadToStorage(uploadUrl, blob);
+      const result = await pinDependency({
+        projectId: projectId as Id<"projects">,
+        ownerId,
+        moduleId,
+        hash,
+        fileId: fileId as Id<"_storage">,
+        sizeBytes: blob.size,
+        replace,
+      });
+      return result.changed;
+    },
+    [generateUploadUrl, ownerId, pinDependency, projectId]
+  );
+
+  const record = useCallback(
+    async (modules: ResolvedModule[] | undefined) => {
+      if (!lock || !modules?.length) return;
+      const fresh = modules.filter((module) => !(module.id in lock) && !pendingRef.current.has(module.id));
+      for (const module of fresh) pendingRef.current.add(module.id);
+      try {
+        for (const module of fresh) {
+          await pinSource(module.id, module.hash, module.source, false);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        for (const module of fresh) pendingRef.current.delete(module.id);
+      }
+    },
+    [lock, pinSource]
+  );
+
+  const update = useCallback(async () => {
+    setIsUpdating(true);
+    setError(null);
+    try {
+      const changed: string[] = [];
+      for (const entry of entries) {
+        const response = await fetch(entry.moduleId, { cache: "no-cache" });
+        if (!response.ok) throw new Error(`Failed to fetch ${entry.moduleId} (${response.status})`);
+        const source = await response.text();
+        const hash = await hashSource(source);
+        if (hash === entry.hash && entry.url) continue;
+        if (await pinSource(entry.moduleId, hash, source, true)) changed.push(entry.moduleId);
+      }
+      setLastUpdate({ checked: entries.length, changed });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [entries, pinSource]);
+
+  const remove = useCallback(
+    async (id: string) => {
+      if (!ownerId) return;
+      await removeDependency({ id: id as Id<"dependencies">, ownerId });
+    },
+    [ownerId, removeDependency]
+  );
+
+  return useMemo(() => {
+    if (!projectId || !ownerId) return null;
+    return { entries, lock: lock ?? {}, isUpdating, lastUpdate, error, record, update, remove };
+  }, [entries, error, isUpdating, lastUpdate, lock, ownerId, projectId, record, remove, update]);
+}
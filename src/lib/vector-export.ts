@@ -0,0 +1,337 @@
+import { polygonVertices, type Vec3 } from "./jscad-geometry";
+
+/**
+ * 2D exports for laser cutting and drawings: geom2 outlines as-is, and
+ * planar sections through geom3 parts. One layer per part; units are mm.
+ */
+
+export type Point2 = [number, number];
+
+export interface Outline {
+  points: Point2[];
+  closed: boolean;
+}
+
+export interface OutlineLayer {
+  name: string;
+  /** RGBA in 0–1, from JSCAD `colorize`. */
+  color?: [number, number, number, number];
+  outlines: Outline[];
+}
+
+export interface SectionPlane {
+  origin: Vec3;
+  /** Need not be unit length. */
+  normal: Vec3;
+}
+
+export const zSectionPlane = (z: number): SectionPlane => ({ origin: [0, 0, z], normal: [0, 0, 1] });
+
+const POINT_TOLERANCE = 1e-6;
+const pointKey = ([x, y]: Point2) =>
+  `${Math.round(x / POINT_TOLERANCE)},${Math.round(y / POINT_TOLERANCE)}`;
+
+/**
+ * Joins unordered segments into polylines. Closed loops come out with their
+ * first point not repeated; chains that cannot close stay open.
+ */
+export function chainSegments(segments: Array<[Point2, Point2]>): Outline[] {
+  const byStart = new Map<string, number[]>();
+  segments.forEach(([start], index) => {
+    const key = pointKey(start);
+    byStart.set(key, [...(byStart.get(key) ?? []), index]);
+  });
+  const used = new Uint8Array(segments.length);
+  const takeFrom = (point: Point2) => {
+    const candidates = byStart.get(pointKey(point)) ?? [];
+    const next = candidates.find((index) => !used[index]);
+    if (next === undefined) return null;
+    used[next] = 1;
+    return segments[next];
+  };
+
+  const outlines: Outline[] = [];
+  for (let index = 0; index < segments.length; index++) {
+    if (used[index]) continue;
+    used[index] = 1;
+    const first = segments[index];
+    const points: Point2[] = [first[0], first[1]];
+    let closed = false;
+    for (;;) {
+      const tail = points[points.length - 1];
+      if (points.length > 2 && pointKey(tail) === pointKey(points[0])) {
+        points.pop();
+        closed = true;
+        break;
+      }
+      const segment = takeFrom(tail);
+      if (!segment) break;
+      points.push(segment[1]);
+    }
+    outlines.push({ points, closed });
+  }
+  return outlines;
+}
+
+/** Outlines of a geom2, with its pending transforms applied. */
+export function geom2Outlines(geometry: unknown): Outline[] {
+  const g = geometry as { sides?: unknown; transforms?: ArrayLike<number> };
+  if (!Array.isArray(g.sides)) return [];
+  const m = g.transforms && g.transforms.length === 16 ? g.transforms : null;
+  const place = ([x, y]: number[]): Point2 =>
+    m ? [m[0] * x + m[4] * y + m[12], m[1] * x + m[5] * y + m[13]] : [x, y];
+  const segments = (g.sides as number[][][])
+    .filter((side) => Array.isArray(side) && side.length === 2)
+    .map((side) => [place(side[0]), place(side[1])] as [Point2, Point2]);
+  return chainSegments(segments);
+}
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const normalize = (a: Vec3): Vec3 => {
+  const length = Math.hypot(a[0], a[1], a[2]) || 1;
+  return [a[0] / length, a[1] / length, a[2] / length];
+};
+
+/**
+ * In-plane axes for a section. A +Z plane maps to world X/Y, so Z sections
+ * keep the model's top-view coordinates.
+ */
+export function sectionBasis(plane: SectionPlane) {
+  const normal = normalize(plane.normal);
+  const reference: Vec3 = Math.abs(normal[1]) > 0.9 ? [0, 0, 1] : [0, 1, 0];
+  const u = normalize(cross(reference, normal));
+  const v = cross(normal, u);
+  return { normal, u, v };
+}
+
+/** Cross-section of a geom3 by a plane, in the plane's 2D coordinates. */
+export function sectionOutlines(geometry: unknown, plane: SectionPlane): Outline[] {
+  const polygons = (geometry as { polygons?: unknown }).polygons;
+  if (!Array.isArray(polygons)) return [];
+  const { normal, u, v } = sectionBasis(plane);
+  const project = (point: Vec3): Point2 => {
+    const local = sub(point, plane.origin);
+    return [dot(local, u), dot(local, v)];
+  };
+
+  const segments: Array<[Point2, Point2]> = [];
+  for (const polygon of polygons as Array<Record<string, unknown>>) {
+    const vertices = polygonVertices(polygon);
+    if (vertices.length < 3) continue;
+    // Points on the plane count as above it, so faces lying in the plane add no segments.
+    const distances = vertices.map((vertex) => dot(sub(vertex, plane.origin), normal));
+    let down: Point2 | null = null;
+    let up: Point2 | null = null;
+    for (let i = 0; i < vertices.length; i++) {
+      const j = (i + 1) % vertices.length;
+      const a = distances[i];
+      const b = distances[j];
+      if (a >= 0 === b >= 0) continue;
+      // Interpolate from the upper vertex so the face on the other side of
+      // this edge computes the identical point.
+      const [high, low, dHigh, dLow] = a >= 0 ? [vertices[i], vertices[j], a, b] : [vertices[j], vertices[i], b, a];
+      const t = dHigh / (dHigh - dLow);
+      const point = project(high.map((value, axis) => value + (low[axis] - value) * t) as Vec3);
+      if (a >= 0) down = point;
+      else up = point;
+    }
+    // Convex faces cross the plane once each way. Going from the downward to
+    // the upward crossing orients every segment the same way around the solid,
+    // so loops chain head to tail.
+    if (down && up) segments.push([down, up]);
+  }
+  return chainSegments(segments);
+}
+
+/**
+ * One layer per part: geom2 parts as drawn, geom3 parts sectioned by
+ * `plane` (skipped without one). Parts with nothing to draw are dropped.
+ */
+export function outlineLayers(geometries: unknown[], plane?: SectionPlane): OutlineLayer[] {
+  const layers: OutlineLayer[] = [];
+  geometries.forEach((geometry, index) => {
+    const g = geometry as { sides?: unknown; polygons?: unknown; name?: unknown; color?: unknown };
+    const outlines = Array.isArray(g.sides)
+      ? geom2Outlines(geometry)
+      : plane && Array.isArray(g.polygons)
+        ? sectionOutlines(geometry, plane)
+        : [];
+    if (outlines.length === 0) return;
+    const color = Array.isArray(g.color) && g.color.length >= 3 ? g.color.map(Number) : null;
+    layers.push({
+      name: typeof g.name === "string" && g.name.trim() ? g.name.trim() : `Part ${index + 1}`,
+      color: color ? [color[0], color[1], color[2], color[3] ?? 1] : undefined,
+      outlines,
+    });
+  });
+  return layers;
+}
+
+export function has2dGeometry(geometries: unknown[]) {
+  return geometries.some((geometry) => Array.isArray((geometry as { sides?: unknown })?.sides));
+}
+
+/** Z extent of every geom3 part, or null when there are none. */
+export function solidZRange(geometries: unknown[]): [number, number] | null {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const geometry of geometries) {
+    const polygons = (geometry as { polygons?: unknown })?.polygons;
+    if (!Array.isArray(polygons)) continue;
+    for (const polygon of polygons as Array<Record<string, unknown>>) {
+      for (const vertex of polygonVertices(polygon)) {
+        min = Math.min(min, vertex[2]);
+        max = Math.max(max, vertex[2]);
+      }
+    }
+  }
+  return Number.isFinite(min) ? [min, max] : null;
+}
+
+function layerBounds(layers: OutlineLayer[]) {
+  const min: Point2 = [Infinity, Infinity];
+  const max: Point2 = [-Infinity, -Infinity];
+  for (const layer of layers) {
+    for (const outline of layer.outlines) {
+      for (const [x, y] of outline.points) {
+        min[0] = Math.min(min[0], x);
+        min[1] = Math.min(min[1], y);
+        max[0] = Math.max(max[0], x);
+        max[1] = Math.max(max[1], y);
+      }
+    }
+  }
+  return Number.isFinite(min[0]) ? { min, max } : { min: [0, 0] as Point2, max: [0, 0] as Point2 };
+}
+
+const formatNumber = (value: number) => String(Number(value.toFixed(4)));
+
+function escapeXml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const cssColor = (color?: OutlineLayer["color"]) =>
+  color
+    ? `rgb(${color
+        .slice(0, 3)
+        .map((channel) => Math.round(Math.min(1, Math.max(0, channel)) * 255))
+        .join(",")})`
+    : "#000000";
+
+/** SVG sized in mm, one group per layer. SVG's Y axis points down, so Y is negated. */
+export function serializeSvg(layers: OutlineLayer[], options: { strokeWidth?: number } = {}) {
+  const { min, max } = layerBounds(layers);
+  const width = Math.max(max[0] - min[0], 1e-3);
+  const height = Math.max(max[1] - min[1], 1e-3);
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${formatNumber(width)}mm" height="${formatNumber(height)}mm" viewBox="${formatNumber(min[0])} ${formatNumber(-max[1])} ${formatNumber(width)} ${formatNumber(height)}">`,
+  ];
+  for (const layer of layers) {
+    lines.push(
+      `  <g id="${escapeXml(layer.name)}" fill="none" stroke="${cssColor(layer.color)}" stroke-width="${options.strokeWidth ?? 0.1}">`
+    );
+    for (const outline of layer.outlines) {
+      const d = outline.points
+        .map(([x, y], i) => `${i === 0 ? "M" : "L"}${formatNumber(x)} ${formatNumber(-y)}`)
+        .join(" ");
+      lines.push(`    <path d="${d}${outline.closed ? " Z" : ""}"/>`);
+    }
+    lines.push(`  </g>`);
+  }
+  lines.push(`</svg>`, "");
+  return lines.join("\n");
+}
+
+// AutoCAD color index: red, yellow, green, cyan, blue, magenta, white/black.
+const ACI_COLORS: Array<[number, [number, number, number]]> = [
+  [1, [1, 0, 0]],
+  [2, [1, 1, 0]],
+  [3, [0, 1, 0]],
+  [4, [0, 1, 1]],
+  [5, [0, 0, 1]],
+  [6, [1, 0, 1]],
+  [7, [1, 1, 1]],
+];
+
+function aciColor(color?: OutlineLayer["color"]) {
+  if (!color) return 7;
+  let best = 7;
+  let bestDistance = Infinity;
+  for (const [index, [r, g, b]] of ACI_COLORS) {
+    const distance = (color[0] - r) ** 2 + (color[1] - g) ** 2 + (color[2] - b) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = index;
+    }
+  }
+  return best;
+}
+
+function dxfLayerName(name: string) {
+  return name.replace(/[^A-Za-z0-9_$-]+/g, "_").slice(0, 31) || "0";
+}
+
+/** ASCII DXF (R12 entities) in millimetres, one layer per part, closed outlines as closed polylines. */
+export function serializeDxf(layers: OutlineLayer[]) {
+  const out: Array<string | number> = [];
+  const pair = (code: number, value: string | number) => out.push(code, value);
+  const { min, max } = layerBounds(layers);
+  const names = layers.map((layer) => dxfLayerName(layer.name));
+
+  pair(0, "SECTION");
+  pair(2, "HEADER");
+  pair(9, "$ACADVER");
+  pair(1, "AC1009");
+  pair(9, "$INSUNITS");
+  pair(70, 4);
+  pair(9, "$MEASUREMENT");
+  pair(70, 1);
+  pair(9, "$EXTMIN");
+  pair(10, formatNumber(min[0]));
+  pair(20, formatNumber(min[1]));
+  pair(9, "$EXTMAX");
+  pair(10, formatNumber(max[0]));
+  pair(20, formatNumber(max[1]));
+  pair(0, "ENDSEC");
+
+  pair(0, "SECTION");
+  pair(2, "TABLES");
+  pair(0, "TABLE");
+  pair(2, "LAYER");
+  pair(70, layers.length);
+  layers.forEach((layer, index) => {
+    pair(0, "LAYER");
+    pair(2, names[index]);
+    pair(70, 0);
+    pair(62, aciColor(layer.color));
+    pair(6, "CONTINUOUS");
+  });
+  pair(0, "ENDTAB");
+  pair(0, "ENDSEC");
+
+  pair(0, "SECTION");
+  pair(2, "ENTITIES");
+  layers.forEach((layer, index) => {
+    for (const outline of layer.outlines) {
+      pair(0, "POLYLINE");
+      pair(8, names[index]);
+      pair(66, 1);
+      pair(70, outline.closed ? 1 : 0);
+      for (const [x, y] of outline.points) {
+        pair(0, "VERTEX");
+        pair(8, names[index]);
+        pair(10, formatNumber(x));
+        pair(20, formatNumber(y));
+        pair(30, 0);
+      }
+      pair(0, "SEQEND");
+      pair(8, names[index]);
+    }
+  });
+  pair(0, "ENDSEC");
+  pair(0, "EOF");
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,67 @@
+import type { BenchmarkCase } from "../server/benchmark";
+
+/**
+ * Prompts for `llm-benchmark.ts`. Dimensions are stated in the prompt so the
+ * bounding-box expectations are unambiguous; keep tolerances loose enough that
+ * reasonable interpretations (fillets, hole bosses) still pass.
+ */
+export const BENCHMARK_CORPUS: BenchmarkCase[] = [
+  {
+    id: "spacer",
+    prompt: "Make a cylindrical spacer: 20 mm outer diameter, 8.5 mm bore, 15 mm tall.",
+    expectations: {
+      boundingBox: { size: [20, 20, 15], tolerance: 0.05 },
+      manifold: true,
+      minVolume: 3000,
+    },
+  },
+  {
+    id: "l-bracket",
+    prompt:
+      "Create a parametric L-shaped mounting bracket: two 40 mm wide by 30 mm long flanges at 90 degrees, 4 mm thick, each with a 5 mm mounting hole. Expose thickness and hole diameter as parameters.",
+    expectations: {
+      boundingBox: { size: [40, 30, 30] },
+      manifold: true,
+      parameters: ["thick", "hole"],
+    },
+  },
+  {
+    id: "enclosure",
+    prompt:
+      "Design an open-top rectangular electronics enclosure with outer dimensions 80 x 50 x 30 mm and 2 mm walls. Make length, width, height and wall thickness parameters.",
+    expectations: {
+      boundingBox: { size: [80, 50, 30], tolerance: 0.1, anyOrientation: false },
+      manifold: true,
+      parameters: ["length", "width", "height", "wall"],
+    },
+  },
+  {
+    id: "rack-and-pinion",
+    prompt:
+      "Generate a rack and pinion mechanism: a 20-tooth spur pinion with module 2 meshing with a 100 mm long straight rack, both 8 mm thick. Return the rack and the pinion as separate parts.",
+    expectations: {
+      manifold: true,
+      minParts: 2,
+    },
+  },
+  {
+    id: "gear-train",
+    prompt:
+      "Create a gear train of three meshing spur gears with 12, 24 and 36 teeth, module 1.5, 5 mm thick, laid out in a row with correct center distances. Return each gear as a separate part.",
+    expectations: {
+      manifold: true,
+      minParts: 3,
+      // Tip radii 10.5 + 28.5 plus center distances 27 + 45; height is the 36-tooth tip diameter.
+      boundingBox: { size: [111, 57, 5] },
+    },
+  },
+  {
+    id: "phone-stand",
+    prompt:
+      "Design a desk phone stand that holds a phone at about 65 degrees, with a front lip and a cable slot. Parameterize the phone thickness.",
+    expectations: {
+      manifold: true,
+      parameters: ["thick"],
+    },
+  },
+];
@@ -1,49 +1,148 @@
 import "dotenv/config";
-import { runCodegen } from "../server/routers/codegen";
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { buildSystemPrompt, runCodegen } from "../server/routers/codegen";
+import {
+  findRegressions,
+  scoreBenchmarkCode,
+  summarizeBenchmark,
+  type BenchmarkReport,
+  type BenchmarkRun,
+} from "../server/benchmark";
 import { AVAILABLE_MODELS } from "../lib/openrouter";
+import { EMPTY_USAGE, formatCost, formatTokenCount } from "../lib/token-usage";
+import { BENCHMARK_CORPUS } from "./benchmark-corpus";
+
+/**
+ * Runs the benchmark corpus against one or more models and writes a JSON report.
+ *
+ *   bun src/scripts/llm-benchmark.ts [--models a,b] [--cases spacer,enclosure]
+ *     [--max-iterations 5] [--out report.json] [--baseline previous.json]
+ *
+ * Models are model specs (see `parseModelSpec`); the default is every
+ * OpenRouter model in Settings.
+ */
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const [key, inline] = arg.slice(2).split("=", 2);
+    options[key] = inline ?? argv[++i] ?? "";
+  }
+  const list = (value: string | undefined) =>
+    value ? value.split(",").map((item) => item.trim()).filter(Boolean) : undefined;
+
+  return {
+    models: list(options.models) ?? AVAILABLE_MODELS.map((model) => model.id),
+    cases: list(options.cases),
+    maxIterations: Number(options["max-iterations"] ?? 5),
+    out: options.out,
+    baseline: options.baseline,
+  };
+}
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
 
 async function benchmark() {
-  const prompt = "Generate a rack and pinion mechanism.";
-  const results: Array<{ model: string; code: string; summary: string; iterations: number }> = [];
-
-  for (const modelObj of AVAILABLE_MODELS) {
-    console.log(`Benchmarking model: ${modelObj.name}`);
-    try {
-      const result = await runCodegen({
-        prompt,
-        model: modelObj.id,
-        maxIterations: 3,
-        projectContext: {},
-        openRouterApiKey: process.env.OPENROUTER_API_KEY,
-      });
-
-      results.push({
-        model: modelObj.name,
-        code: result.code,
-        summary: result.assistantMessage ?? "",
-        iterations: result.iterations,
-      });
-
-      console.log(`--- ${modelObj.name} ---\nSummary: ${result.assistantMessage ?? ""}\n`);
-    } catch (err) {
-      results.push({
-        model: modelObj.name,
-        code: "",
-        summary: `Error: ${err}`,
-        iterations: 0,
-      });
-      console.error(`Error benchmarking model ${modelObj.name}:`, err);
+  const args = parseArgs(process.argv.slice(2));
+  const cases = args.cases
+    ? BENCHMARK_CORPUS.filter((entry) => args.cases!.includes(entry.id))
+    : BENCHMARK_CORPUS;
+  if (cases.length === 0) {
+    throw new Error(`No benchmark cases match ${args.cases?.join(", ")}`);
+  }
+
+  const runs: BenchmarkRun[] = [];
+  for (const model of args.models) {
+    for (const entry of cases) {
+      console.log(`Benchmarking ${model} on ${entry.id}...`);
+      const started = performance.now();
+      try {
+        const result = await runCodegen({
+          prompt: entry.prompt,
+          model,
+          maxIterations: args.maxIterations,
+          projectContext: {},
+          openRouterApiKey: process.env.OPENROUTER_API_KEY,
+        });
+        const latencyMs = performance.now() - started;
+        const score = await scoreBenchmarkCode(result.code, entry.expectations, result.files);
+        runs.push({
+          caseId: entry.id,
+          model,
+          score,
+          iterations: result.iterations,
+          latencyMs,
+          usage: result.usage.total,
+        });
+        const failed = score.checks.filter((check) => !check.passed);
+        console.log(
+          `  ${score.passed ? "PASS" : "FAIL"} in ${result.iterations} iteration(s), ${(latencyMs / 1000).toFixed(1)}s` +
+            (failed.length ? ` — ${failed.map((check) => `${check.name}: ${check.detail ?? "failed"}`).join("; ")}` : "")
+        );
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        runs.push({
+          caseId: entry.id,
+          model,
+          score: { passed: false, score: 0, checks: [{ name: "run", passed: false, detail: error }] },
+          iterations: 0,
+          latencyMs: performance.now() - started,
+          usage: EMPTY_USAGE,
+          error,
+        });
+        console.error(`  ERROR ${error}`);
+      }
     }
   }
 
-  console.log("\nBenchmark Results:");
-  console.log("| Model | Summary | Iterations | Code Length |");
-  console.log("|-------|---------|------------|------------|");
-  for (const r of results) {
-    const codeLen = r.code.length;
-    const summaryPreview = r.summary.replace(/\n/g, " ").slice(0, 80);
-    console.log(`| ${r.model} | ${summaryPreview} | ${r.iterations} | ${codeLen} |`);
+  const report: BenchmarkReport = {
+    createdAt: new Date().toISOString(),
+    systemPromptHash: createHash("sha256").update(buildSystemPrompt("", {})).digest("hex").slice(0, 12),
+    maxIterations: args.maxIterations,
+    runs,
+    summary: summarizeBenchmark(runs),
+  };
+
+  console.log(`\nBenchmark Results (system prompt ${report.systemPromptHash}):`);
+  console.log("| Model | Pass rate | Score | Iterations | Latency | Tokens | Cost |");
+  console.log("|-------|-----------|-------|------------|---------|--------|------|");
+  for (const s of report.summary) {
+    console.log(
+      `| ${s.model} | ${s.passed}/${s.runs} (${percent(s.passRate)}) | ${percent(s.meanScore)} | ${s.meanIterations.toFixed(1)} | ${(s.meanLatencyMs / 1000).toFixed(1)}s | ${formatTokenCount(s.usage.promptTokens + s.usage.completionTokens)} | ${formatCost(s.usage.cost)} |`
+    );
   }
+
+  if (args.baseline) {
+    const baseline = JSON.parse(await readFile(args.baseline, "utf8")) as BenchmarkReport;
+    console.log(`\nCompared with ${args.baseline} (system prompt ${baseline.systemPromptHash}):`);
+    for (const s of report.summary) {
+      const before = baseline.summary.find((entry) => entry.model === s.model);
+      if (before) {
+        const delta = Math.round((s.passRate - before.passRate) * 100);
+        console.log(`  ${s.model}: pass rate ${percent(before.passRate)} -> ${percent(s.passRate)} (${delta >= 0 ? "+" : ""}${delta})`);
+      }
+    }
+    const regressions = findRegressions(report, baseline);
+    for (const regression of regressions) {
+      console.log(`  REGRESSION ${regression.model} ${regression.caseId}`);
+    }
+    if (regressions.length > 0) process.exitCode = 1;
+  }
+
+  const outPath =
+    args.out ?? path.join("benchmark-results", `${report.createdAt.replace(/[:.]/g, "-")}.json`);
+  await mkdir(path.dirname(outPath), { recursive: true });
+  await writeFile(outPath, `${JSON.stringify(report, null, 2)}\n`, "utf8");
+  console.log(`\nReport written to ${outPath}`);
 }
 
-benchmark();
+benchmark().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,216 @@
+import { analyzePrintability, calculateMeasurements } from "@/lib/geometry-analyzer";
+import type { ProjectFiles } from "@/lib/project-files";
+import { addUsage, EMPTY_USAGE, type TokenUsage } from "@/lib/token-usage";
+import { evaluateJscadCode } from "./jscad-runtime";
+
+/**
+ * Scoring for `src/scripts/llm-benchmark.ts`.
+ *
+ * Each corpus case pairs a prompt with machine-checkable expectations about the
+ * code the agent ends up with; runs are summarized per model so reports from
+ * different system prompts can be compared.
+ */
+
+export interface BenchmarkExpectations {
+  /** Bounding box size in mm; compared as sorted extents unless `anyOrientation` is false. */
+  boundingBox?: {
+    size: [number, number, number];
+    /** Relative tolerance per axis, default 0.15. */
+    tolerance?: number;
+    anyOrientation?: boolean;
+  };
+  manifold?: boolean;
+  /** Names that must appear in getParameterDefinitions(), matched case-insensitively as substrings. */
+  parameters?: string[];
+  /** Minimum number of geometries returned by main(). */
+  minParts?: number;
+  minVolume?: number;
+}
+
+export interface BenchmarkCase {
+  id: string;
+  prompt: string;
+  expectations: BenchmarkExpectations;
+}
+
+export interface BenchmarkCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface BenchmarkScore {
+  passed: boolean;
+  /** Fraction of checks that passed. */
+  score: number;
+  checks: BenchmarkCheck[];
+}
+
+export interface BenchmarkRun {
+  caseId: string;
+  model: string;
+  score: BenchmarkScore;
+  iterations: number;
+  latencyMs: number;
+  usage: TokenUsage;
+  error?: string;
+}
+
+export interface BenchmarkModelSummary {
+  model: string;
+  runs: number;
+  passed: number;
+  passRate: number;
+  meanScore: number;
+  meanIterations: number;
+  meanLatencyMs: number;
+  usage: TokenUsage;
+}
+
+export interface BenchmarkReport {
+  createdAt: string;
+  /** Short hash of the system prompt, to tell apart reports from different prompt revisions. */
+  systemPromptHash: string;
+  maxIterations: number;
+  runs: BenchmarkRun[];
+  summary: BenchmarkModelSummary[];
+}
+
+const DEFAULT_TOLERANCE = 0.15;
+
+function finish(checks: BenchmarkCheck[]): BenchmarkScore {
+  const passedCount = checks.filter((check) => check.passed).length;
+  return {
+    passed: passedCount === checks.length,
+    score: checks.length === 0 ? 0 : passedCount / checks.length,
+    checks,
+  };
+}
+
+function formatSize(size: number[]) {
+  return size.map((value) => value.toFixed(1)).join(" x ");
+}
+
+/** Scores main's code; `files` are the other project files it may require. */
+export async function scoreBenchmarkCode(
+  code: string,
+  expectations: BenchmarkExpectations,
+  files: ProjectFiles = {}
+): Promise<BenchmarkScore> {
+  const evaluation = code.trim()
+    ? await evaluateJscadCode(code, { files })
+    : ({ ok: false, error: "No code was produced" } as const);
+  const checks: BenchmarkCheck[] = [
+    { name: "evaluates", passed: evaluation.ok, detail: evaluation.ok ? undefined : evaluation.error },
+  ];
+
+  const skip = (name: string) => checks.push({ name, passed: false, detail: "Skipped: evaluation failed" });
+
+  if (!evaluation.ok) {
+    if (expectations.boundingBox) skip("boundingBox");
+    if (expectations.manifold) skip("manifold");
+    if (expectations.parameters?.length) skip("parameters");
+    if (expectations.minParts !== undefined) skip("minParts");
+    if (expectations.minVolume !== undefined) skip("minVolume");
+    return finish(checks);
+  }
+
+  const { geometries, parameterDefinitions } = evaluation;
+  const measurements =
+    expectations.boundingBox || expectations.minVolume !== undefined
+      ? await calculateMeasurements(geometries)
+      : null;
+
+  if (expectations.boundingBox) {
+    const { size, tolerance = DEFAULT_TOLERANCE, anyOrientation = true } = expectations.boundingBox;
+    const actual = measurements?.boundingBox.dimensions;
+    if (!actual) {
+      checks.push({ name: "boundingBox", passed: false, detail: "No 3D geometry to measure" });
+    } else {
+      const expected = anyOrientation ? [...size].sort((a, b) => a - b) : size;
+      const measured = anyOrientation ? [...actual].sort((a, b) => a - b) : actual;
+      const passed = expected.every(
+        (value, axis) => Math.abs(measured[axis] - value) <= Math.max(value * tolerance, 0.5)
+      );
+      checks.push({
+        name: "boundingBox",
+        passed,
+        detail: `expected ${formatSize(size)} ±${Math.round(tolerance * 100)}%, got ${formatSize(actual)}`,
+      });
+    }
+  }
+
+  if (expectations.manifold) {
+    const report = await analyzePrintability(geometries);
+    checks.push({
+      name: "manifold",
+      passed: report.isManifold,
+      detail: report.isManifold ? undefined : report.warnings[0],
+    });
+  }
+
+  if (expectations.parameters?.length) {
+    const names = parameterDefinitions
+      .map((definition) => (typeof definition.name === "string" ? definition.name.toLowerCase() : ""))
+      .filter(Boolean);
+    const missing = expectations.parameters.filter(
+      (expected) => !names.some((name) => name.includes(expected.toLowerCase()))
+    );
+    checks.push({
+      name: "parameters",
+      passed: missing.length === 0,
+      detail: missing.length ? `missing ${missing.join(", ")} (have ${names.join(", ") || "none"})` : undefined,
+    });
+  }
+
+  if (expectations.minParts !== undefined) {
+    checks.push({
+      name: "minParts",
+      passed: geometries.length >= expectations.minParts,
+      detail: `expected at least ${expectations.minParts}, got ${geometries.length}`,
+    });
+  }
+
+  if (expectations.minVolume !== undefined) {
+    const volume = measurements?.volume ?? 0;
+    checks.push({
+      name: "minVolume",
+      passed: volume >= expectations.minVolume,
+      detail: `expected at least ${expectations.minVolume} mm³, got ${volume.toFixed(1)}`,
+    });
+  }
+
+  return finish(checks);
+}
+
+export function summarizeBenchmark(runs: BenchmarkRun[]): BenchmarkModelSummary[] {
+  const byModel = new Map<string, BenchmarkRun[]>();
+  for (const run of runs) {
+    byModel.set(run.model, [...(byModel.get(run.model) ?? []), run]);
+  }
+
+  const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+  return [...byModel].map(([model, modelRuns]) => {
+    const passed = modelRuns.filter((run) => run.score.passed).length;
+    return {
+      model,
+      runs: modelRuns.length,
+      passed,
+      passRate: passed / modelRuns.length,
+      meanScore: mean(modelRuns.map((run) => run.score.score)),
+      meanIterations: mean(modelRuns.map((run) => run.iterations)),
+      meanLatencyMs: mean(modelRuns.map((run) => run.latencyMs)),
+      usage: modelRuns.reduce((total, run) => addUsage(total, run.usage), EMPTY_USAGE),
+    };
+  });
+}
+
+/** Cases that passed in `baseline` but fail in `report`, per model. */
+export function findRegressions(report: BenchmarkReport, baseline: BenchmarkReport) {
+  const passedBefore = new Set(
+    baseline.runs.filter((run) => run.score.passed).map((run) => `${run.model}\u0000${run.caseId}`)
+  );
+  return report.runs
+    .filter((run) => !run.score.passed && passedBefore.has(`${run.model}\u0000${run.caseId}`))
+    .map((run) => ({ model: run.model, caseId: run.caseId }));
+}
@@ -0,0 +1,883 @@
+import { parse, type Node } from "acorn";
+import { normalizeModulePath, type ProjectFileEntry } from "@/lib/project-files";
+
+/**
+ * Source-level refactorings behind the `split_components` tool.
+ *
+ * Each transform parses the JSCAD script with acorn, computes a set of text
+ * splices from node offsets and applies them, so untouched code keeps its exact
+ * formatting and comments. Results are re-parsed before being returned.
+ */
+
+export interface ComponentInfo {
+  name: string;
+  kind: "variable" | "function";
+  scope: string;
+  line: number;
+  expression: string;
+  dependsOn: string[];
+  returned: boolean;
+}
+
+export type ComponentTransformResult =
+  | { ok: true; updatedCode: string; summary: Record<string, unknown>; createdFile?: ProjectFileEntry }
+  | { ok: false; error: string };
+
+export interface ExtractComponentOptions {
+  componentName: string;
+  functionName?: string;
+  parameterize?: boolean;
+}
+
+export interface InlineComponentOptions {
+  functionName: string;
+}
+
+export interface MoveComponentOptions {
+  componentName: string;
+  /** Project path of the new module; defaults to lib/<component-name>.jscad. */
+  path?: string;
+}
+
+export type MergeOperation = "union" | "subtract" | "intersect";
+
+export interface MergeComponentsOptions {
+  components: string[];
+  operation?: MergeOperation;
+  resultName?: string;
+}
+
+type AstNode = Node & { [key: string]: unknown };
+
+interface Splice {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface DeclaratorMatch {
+  declarator: AstNode;
+  statement: AstNode;
+  topLevel: AstNode;
+  enclosingFunction: AstNode | null;
+}
+
+const FUNCTION_TYPES = new Set([
+  "FunctionDeclaration",
+  "FunctionExpression",
+  "ArrowFunctionExpression",
+]);
+
+const PARSE_OPTIONS = {
+  ecmaVersion: "latest",
+  sourceType: "script",
+  allowHashBang: true,
+} as const;
+
+function parseCode(code: string): { ok: true; program: AstNode } | { ok: false; error: string } {
+  try {
+    return { ok: true, program: parse(code, PARSE_OPTIONS) as unknown as AstNode };
+  } catch (error) {
+    return {
+      ok: false,
+      error: `Could not parse code: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+function isNode(value: unknown): value is AstNode {
+  return !!value && typeof value === "object" && typeof (value as { type?: unknown }).type === "string";
+}
+
+function childNodes(node: AstNode): AstNode[] {
+  const children: AstNode[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "loc") continue;
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        if (isNode(item)) children.push(item);
+      }
+    } else if (isNode(value)) {
+      children.push(value);
+    }
+  }
+  return children;
+}
+
+// Depth-first walk; returning false from `visit` skips the node's children.
+function walk(
+  node: AstNode,
+  visit: (node: AstNode, ancestors: AstNode[]) => boolean | void,
+  ancestors: AstNode[] = []
+) {
+  if (visit(node, ancestors) === false) return;
+  const nextAncestors = [...ancestors, node];
+  for (const child of childNodes(node)) {
+    walk(child, visit, nextAncestors);
+  }
+}
+
+function isReference(node: AstNode, parent: AstNode | undefined): boolean {
+  if (node.type !== "Identifier" || !parent) return node.type === "Identifier";
+  if (parent.type === "MemberExpression" && parent.property === node && !parent.computed) return false;
+  // Shorthand properties carry a separate value node; only that one is the reference.
+  if (parent.type === "Property" && parent.key === node && !parent.computed && parent.value !== node) return false;
+  if (parent.type === "MethodDefinition" && parent.key === node && !parent.computed) return false;
+  return true;
+}
+
+function patternNames(pattern: unknown, names: string[] = []): string[] {
+  if (!isNode(pattern)) return names;
+  switch (pattern.type) {
+    case "Identifier":
+      names.push(pattern.name as string);
+      break;
+    case "AssignmentPattern":
+      patternNames(pattern.left, names);
+      break;
+    case "RestElement":
+      patternNames(pattern.argument, names);
+      break;
+    case "ArrayPattern":
+      for (const element of pattern.elements as unknown[]) patternNames(element, names);
+      break;
+    case "ObjectPattern":
+      for (const property of pattern.properties as AstNode[]) {
+        patternNames(property.type === "RestElement" ? property : property.value, names);
+      }
+      break;
+  }
+  return names;
+}
+
+// Names bound anywhere inside `node` (declarations, function names and params).
+function declaredNames(node: AstNode): Set<string> {
+  const names = new Set<string>();
+  walk(node, (current) => {
+    if (current.type === "VariableDeclarator") {
+      patternNames(current.id, []).forEach((name) => names.add(name));
+    }
+    if (FUNCTION_TYPES.has(current.type)) {
+      if (isNode(current.id)) names.add(current.id.name as string);
+      for (const param of current.params as AstNode[]) {
+        patternNames(param, []).forEach((name) => names.add(name));
+      }
+    }
+  });
+  return names;
+}
+
+// Identifier references in first-appearance order.
+function referencedNames(node: AstNode): string[] {
+  const names: string[] = [];
+  walk(node, (current, ancestors) => {
+    if (current.type === "Identifier" && isReference(current, ancestors[ancestors.length - 1])) {
+      const name = current.name as string;
+      if (!names.includes(name)) names.push(name);
+    }
+  });
+  return names;
+}
+
+function lineOf(code: string, offset: number) {
+  return code.slice(0, offset).split("\n").length;
+}
+
+function indentationAt(code: string, offset: number) {
+  const lineStart = code.lastIndexOf("\n", offset - 1) + 1;
+  return code.slice(lineStart, offset).match(/^[ \t]*/)?.[0] ?? "";
+}
+
+function applySplices(code: string, splices: Splice[]) {
+  return [...splices]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, splice) => result.slice(0, splice.start) + splice.text + result.slice(splice.end), code);
+}
+
+function reindent(text: string, fromIndent: string, toIndent: string) {
+  return text
+    .split("\n")
+    .map((line, index) => {
+      if (index === 0) return line;
+      const stripped = line.startsWith(fromIndent) ? line.slice(fromIndent.length) : line.trimStart();
+      return stripped ? toIndent + stripped : stripped;
+    })
+    .join("\n");
+}
+
+function functionName(node: AstNode | null): string {
+  if (!node) return "top-level";
+  if (isNode(node.id)) return node.id.name as string;
+  return "anonymous";
+}
+
+function findDeclarators(program: AstNode): DeclaratorMatch[] {
+  const matches: DeclaratorMatch[] = [];
+  walk(program, (node, ancestors) => {
+    if (node.type !== "VariableDeclarator" || !isNode(node.id) || node.id.type !== "Identifier") return;
+    const statement = ancestors[ancestors.length - 1];
+    const enclosingFunction = [...ancestors].reverse().find((ancestor) => FUNCTION_TYPES.has(ancestor.type)) ?? null;
+    matches.push({ declarator: node, statement, topLevel: ancestors[1] ?? statement, enclosingFunction });
+  });
+  return matches;
+}
+
+function findTopLevelFunction(program: AstNode, name: string): AstNode | undefined {
+  return (program.body as AstNode[]).find(
+    (statement) => statement.type === "FunctionDeclaration" && isNode(statement.id) && statement.id.name === name
+  );
+}
+
+function topLevelNames(program: AstNode): Set<string> {
+  const names = new Set<string>();
+  for (const statement of program.body as AstNode[]) {
+    if (statement.type === "FunctionDeclaration" && isNode(statement.id)) {
+      names.add(statement.id.name as string);
+    }
+    if (statement.type === "VariableDeclaration") {
+      for (const declarator of statement.declarations as AstNode[]) {
+        patternNames(declarator.id, []).forEach((name) => names.add(name));
+      }
+    }
+  }
+  return names;
+}
+
+function findMainFunction(program: AstNode): AstNode | undefined {
+  const declared = findTopLevelFunction(program, "main");
+  if (declared) return declared;
+  let assigned: AstNode | undefined;
+  walk(program, (node) => {
+    if (assigned) return false;
+    if (
+      node.type === "VariableDeclarator" &&
+      isNode(node.id) &&
+      node.id.name === "main" &&
+      isNode(node.init) &&
+      FUNCTION_TYPES.has(node.init.type)
+    ) {
+      assigned = node.init;
+    }
+  });
+  return assigned;
+}
+
+// The last `return [...]` directly inside main (not inside nested helpers).
+function findMainReturnArray(program: AstNode): AstNode | undefined {
+  const main = findMainFunction(program);
+  if (!main || !isNode(main.body)) return undefined;
+  let found: AstNode | undefined;
+  walk(main.body, (node) => {
+    if (FUNCTION_TYPES.has(node.type)) return false;
+    if (node.type === "ReturnStatement" && isNode(node.argument) && node.argument.type === "ArrayExpression") {
+      found = node.argument;
+    }
+  });
+  return found;
+}
+
+function finalize(code: string, summary: Record<string, unknown>): ComponentTransformResult {
+  const reparsed = parseCode(code);
+  if (!reparsed.ok) {
+    return { ok: false, error: `Transformation produced invalid code (${reparsed.error}); no changes applied.` };
+  }
+  return { ok: true, updatedCode: code, summary };
+}
+
+function componentNotFound(kind: string, name: string, available: string[]): ComponentTransformResult {
+  return {
+    ok: false,
+    error: `${kind} "${name}" not found. Available: ${available.length ? available.join(", ") : "(none)"}`,
+  };
+}
+
+export function analyzeComponents(code: string): { ok: true; components: ComponentInfo[] } | { ok: false; error: string } {
+  const parsed = parseCode(code);
+  if (!parsed.ok) return parsed;
+  const { program } = parsed;
+
+  const returnArray = findMainReturnArray(program);
+  const returned = new Set(
+    returnArray
+      ? (returnArray.elements as unknown[]).filter(isNode).flatMap((element) => referencedNames(element))
+      : []
+  );
+
+  const components: ComponentInfo[] = [];
+  for (const statement of program.body as AstNode[]) {
+    if (statement.type === "FunctionDeclaration" && isNode(statement.id) && statement.id.name !== "main") {
+      const name = statement.id.name as string;
+      components.push({
+        name,
+        kind: "function",
+        scope: "top-level",
+        line: lineOf(code, statement.start),
+        expression: code.slice(statement.start, statement.end).split("\n")[0].substring(0, 60),
+        dependsOn: [],
+        returned: false,
+      });
+    }
+  }
+
+  for (const match of findDeclarators(program)) {
+    const { declarator, enclosingFunction } = match;
+    const init = declarator.init;
+    if (!isNode(init) || FUNCTION_TYPES.has(init.type)) continue;
+    if (init.type === "CallExpression" && isNode(init.callee) && init.callee.name === "require") continue;
+    if (enclosingFunction && functionName(enclosingFunction) !== "main") continue;
+    components.push({
+      name: (declarator.id as AstNode).name as string,
+      kind: "variable",
+      scope: functionName(enclosingFunction),
+      line: lineOf(code, declarator.start),
+      expression: code.slice(init.start, init.end).replace(/\s+/g, " ").substring(0, 60),
+      dependsOn: referencedNames(init),
+      returned: false,
+    });
+  }
+
+  // Dependencies are other components plus main's own locals (e.g. destructured params).
+  const main = findMainFunction(program);
+  const names = new Set([...components.map((component) => component.name), ...(main ? declaredNames(main) : [])]);
+  for (const component of components) {
+    component.dependsOn = component.dependsOn.filter((name) => names.has(name) && name !== component.name);
+    component.returned = component.kind === "variable" && component.scope === "main" && returned.has(component.name);
+  }
+
+  return { ok: true, components };
+}
+
+interface ParameterizedLiteral {
+  name: string;
+  property: AstNode;
+  valueText: string;
+}
+
+function isNumericValue(node: AstNode): boolean {
+  if (node.type === "Literal") return typeof node.value === "number";
+  if (node.type === "UnaryExpression") {
+    return (node.operator === "-" || node.operator === "+") && isNode(node.argument) && isNumericValue(node.argument);
+  }
+  if (node.type === "ArrayExpression") {
+    const elements = node.elements as unknown[];
+    return elements.length > 0 && elements.every((element) => isNode(element) && isNumericValue(element));
+  }
+  return false;
+}
+
+// Numeric property values (`{ size: [10, 20, 5], radius: 4 }`) become named options.
+function collectParameterizableLiterals(code: string, init: AstNode, reserved: Set<string>) {
+  const literals: ParameterizedLiteral[] = [];
+  const used = new Set(reserved);
+  walk(init, (node) => {
+    if (FUNCTION_TYPES.has(node.type)) return false;
+    if (node.type !== "Property" || node.computed || node.shorthand || !isNode(node.value)) return;
+    if (!isNumericValue(node.value)) return;
+    const key = node.key as AstNode;
+    const baseName = key.type === "Identifier" ? (key.name as string) : String(key.value ?? "value");
+    if (!/^[A-Za-z_$][\w$]*$/.test(baseName)) return;
+    let name = baseName;
+    for (let suffix = 2; used.has(name); suffix++) name = `${baseName}${suffix}`;
+    used.add(name);
+    literals.push({ name, property: node, valueText: code.slice(node.value.start, node.value.end) });
+    return false;
+  });
+  return literals;
+}
+
+export function extractComponent(code: string, options: ExtractComponentOptions): ComponentTransformResult {
+  const parsed = parseCode(code);
+  if (!parsed.ok) return parsed;
+  const { program } = parsed;
+
+  const declarators = findDeclarators(program).filter((match) => isNode(match.declarator.init));
+  const match = declarators.find((candidate) => (candidate.declarator.id as AstNode).name === options.componentName);
+  if (!match) {
+    return componentNotFound(
+      "Component",
+      options.componentName,
+      declarators.map((candidate) => (candidate.declarator.id as AstNode).name as string)
+    );
+  }
+
+  const init = match.declarator.init as AstNode;
+  if (FUNCTION_TYPES.has(init.type)) {
+    return { ok: false, error: `"${options.componentName}" is already a function.` };
+  }
+
+  const helperName =
+    options.functionName?.trim() ||
+    `create${options.componentName.charAt(0).toUpperCase()}${options.componentName.slice(1)}`;
+  if (!/^[A-Za-z_$][\w$]*$/.test(helperName)) {
+    return { ok: false, error: `"${helperName}" is not a valid function name.` };
+  }
+  const existing = match.enclosingFunction
+    ? new Set([...topLevelNames(program), ...declaredNames(match.enclosingFunction)])
+    : topLevelNames(program);
+  if (existing.has(helperName)) {
+    return { ok: false, error: `A binding named "${helperName}" already exists; choose another functionName.` };
+  }
+
+  // Locals of the enclosing function that the expression reads become parameters;
+  // module-level bindings (requires, constants) stay visible to the helper.
+  const locals = match.enclosingFunction ? declaredNames(match.enclosingFunction) : new Set<string>();
+  const innerBindings = declaredNames(init);
+  const parameters = referencedNames(init).filter(
+    (name) => locals.has(name) && !innerBindings.has(name) && name !== options.componentName
+  );
+
+  const literals = options.parameterize
+    ? collectParameterizableLiterals(code, init, new Set([...parameters, ...existing, ...innerBindings]))
+    : [];
+
+  const bodySplices: Splice[] = literals.map((literal) => {
+    const key = literal.property.key as AstNode;
+    const keyText = code.slice(key.start, key.end);
+    return {
+      start: literal.property.start - init.start,
+      end: literal.property.end - init.start,
+      text: keyText === literal.name ? literal.name : `${keyText}: ${literal.name}`,
+    };
+  });
+  const statementIndent = indentationAt(code, match.statement.start);
+  const expression = reindent(
+    applySplices(code.slice(init.start, init.end), bodySplices),
+    statementIndent,
+    "  "
+  );
+
+  const signature = [...parameters];
+  if (literals.length > 0) {
+    signature.push(`{ ${literals.map((literal) => `${literal.name} = ${literal.valueText}`).join(", ")} } = {}`);
+  }
+  const helper = `function ${helperName}(${signature.join(", ")}) {\n  return ${expression};\n}\n\n`;
+
+  const updatedCode = applySplices(code, [
+    { start: match.topLevel.start, end: match.topLevel.start, text: helper },
+    { start: init.start, end: init.end, text: `${helperName}(${parameters.join(", ")})` },
+  ]);
+
+  return finalize(updatedCode, {
+    componentName: options.componentName,
+    functionName: helperName,
+    parameters,
+    options: literals.map((literal) => ({ name: literal.name, default: literal.valueText })),
+  });
+}
+
+function nodeText(code: string, node: unknown) {
+  return isNode(node) ? code.slice(node.start, node.end) : "undefined";
+}
+
+interface ParameterBinding {
+  name: string;
+  defaultText?: string;
+  option?: boolean;
+}
+
+function describeParameters(code: string, fn: AstNode): ParameterBinding[][] | null {
+  const bindings: ParameterBinding[][] = [];
+  for (const param of fn.params as AstNode[]) {
+    if (param.type === "Identifier") {
+      bindings.push([{ name: param.name as string }]);
+      continue;
+    }
+    if (param.type === "AssignmentPattern" && isNode(param.left)) {
+      if (param.left.type === "Identifier") {
+        bindings.push([{ name: param.left.name as string, defaultText: nodeText(code, param.right) }]);
+        continue;
+      }
+      if (param.left.type === "ObjectPattern") {
+        const options = describeOptions(code, param.left);
+        if (!options) return null;
+        bindings.push(options);
+        continue;
+      }
+    }
+    if (param.type === "ObjectPattern") {
+      const options = describeOptions(code, param);
+      if (!options) return null;
+      bindings.push(options);
+      continue;
+    }
+    return null;
+  }
+  return bindings;
+}
+
+function describeOptions(code: string, pattern: AstNode): ParameterBinding[] | null {
+  const options: ParameterBinding[] = [];
+  for (const property of pattern.properties as AstNode[]) {
+    if (property.type !== "Property" || property.computed || !isNode(property.key)) return null;
+    const key = property.key.name as string;
+    const value = property.value as AstNode;
+    if (value.type === "Identifier" && value.name === key) {
+      options.push({ name: key, option: true });
+    } else if (value.type === "AssignmentPattern" && isNode(value.left) && value.left.name === key) {
+      options.push({ name: key, defaultText: nodeText(code, value.right), option: true });
+    } else {
+      return null;
+    }
+  }
+  return options;
+}
+
+function needsParentheses(node: AstNode) {
+  return !["Identifier", "Literal", "CallExpression", "MemberExpression", "ArrayExpression", "TemplateLiteral"].includes(
+    node.type
+  );
+}
+
+function substituteIdentifiers(expression: AstNode, replacements: Map<string, string>, offset: number) {
+  const splices: Splice[] = [];
+  const visit = (node: AstNode, ancestors: AstNode[], shadowed: Set<string>): void => {
+    const parent = ancestors[ancestors.length - 1];
+    if (node.type === "Identifier" && isReference(node, parent)) {
+      const name = node.name as string;
+      const replacement = replacements.get(name);
+      if (replacement !== undefined && !shadowed.has(name)) {
+        const shorthand = parent?.type === "Property" && parent.shorthand;
+        splices.push({
+          start: node.start - offset,
+          end: node.end - offset,
+          text: shorthand ? `${name}: ${replacement}` : replacement,
+        });
+      }
+      return;
+    }
+    let nextShadowed = shadowed;
+    if (FUNCTION_TYPES.has(node.type)) {
+      nextShadowed = new Set([...shadowed, ...declaredNames(node)]);
+    }
+    const nextAncestors = [...ancestors, node];
+    for (const child of new Set(childNodes(node))) {
+      visit(child, nextAncestors, nextShadowed);
+    }
+  };
+  visit(expression, [], new Set());
+  return splices;
+}
+
+export function inlineComponent(code: string, options: InlineComponentOptions): ComponentTransformResult {
+  const parsed = parseCode(code);
+  if (!parsed.ok) return parsed;
+  const { program } = parsed;
+
+  const fn = findTopLevelFunction(program, options.functionName);
+  if (!fn) {
+    const helpers = (program.body as AstNode[])
+      .filter((statement) => statement.type === "FunctionDeclaration" && isNode(statement.id))
+      .map((statement) => (statement.id as AstNode).name as string)
+      .filter((name) => name !== "main" && name !== "getParameterDefinitions");
+    return componentNotFound("Function", options.functionName, helpers);
+  }
+
+  const body = (fn.body as AstNode).body as AstNode[];
+  const returnStatement = body[0];
+  if (body.length !== 1 || returnStatement.type !== "ReturnStatement" || !isNode(returnStatement.argument)) {
+    return {
+      ok: false,
+      error: `"${options.functionName}" must consist of a single return statement to be inlined.`,
+    };
+  }
+  const returned = returnStatement.argument;
+
+  const parameters = describeParameters(code, fn);
+  if (!parameters) {
+    return { ok: false, error: `"${options.functionName}" uses a parameter pattern that cannot be inlined.` };
+  }
+
+  const calls: AstNode[] = [];
+  walk(program, (node) => {
+    if (node === fn) return false;
+    if (node.type === "CallExpression" && isNode(node.callee) && node.callee.name === options.functionName) {
+      calls.push(node);
+    }
+  });
+  if (calls.length === 0) {
+    return { ok: false, error: `"${options.functionName}" is never called; nothing to inline.` };
+  }
+
+  const returnedText = code.slice(returned.start, returned.end);
+  const splices: Splice[] = [];
+  for (const call of calls) {
+    const args = call.arguments as AstNode[];
+    if (args.some((arg) => arg.type === "SpreadElement")) {
+      return { ok: false, error: `A call to "${options.functionName}" uses spread arguments and cannot be inlined.` };
+    }
+    const replacements = new Map<string, string>();
+    for (const [index, group] of parameters.entries()) {
+      const arg = args[index];
+      for (const binding of group) {
+        let valueNode: AstNode | undefined = arg;
+        if (binding.option && arg) {
+          if (arg.type !== "ObjectExpression") {
+            return {
+              ok: false,
+              error: `A call to "${options.functionName}" passes options that are not an object literal.`,
+            };
+          }
+          const property = (arg.properties as AstNode[]).find(
+            (prop) => prop.type === "Property" && !prop.computed && isNode(prop.key) && prop.key.name === binding.name
+          );
+          valueNode = property ? (property.value as AstNode) : undefined;
+        }
+        const text = valueNode ? code.slice(valueNode.start, valueNode.end) : binding.defaultText ?? "undefined";
+        const wrap = valueNode ? needsParentheses(valueNode) : binding.defaultText !== undefined && /[^\w.$[\]]/.test(text);
+        replacements.set(binding.name, wrap ? `(${text})` : text);
+      }
+    }
+
+    const substituted = applySplices(returnedText, substituteIdentifiers(returned, replacements, returned.start));
+    const callIndent = indentationAt(code, call.start);
+    const text = reindent(substituted, "  ", callIndent);
+    splices.push({ start: call.start, end: call.end, text: needsParentheses(returned) ? `(${text})` : text });
+  }
+
+  // Drop the declaration together with the blank line that separated it.
+  let removeEnd = fn.end;
+  const trailing = code.slice(removeEnd).match(/^[ \t]*\n(?:[ \t]*\n)?/);
+  if (trailing) removeEnd += trailing[0].length;
+  splices.push({ start: fn.start, end: removeEnd, text: "" });
+
+  return finalize(applySplices(code, splices), {
+    functionName: options.functionName,
+    inlinedCalls: calls.length,
+  });
+}
+
+function booleanCallee(code: string, program: AstNode, operation: MergeOperation) {
+  const names = topLevelNames(program);
+  if (names.has(operation)) return { callee: operation, importLine: null };
+  if (names.has("booleans")) return { callee: `booleans.${operation}`, importLine: null };
+  // Follow the script's existing require style.
+  const quote = code.match(/require\(\s*(['"])/)?.[1] ?? "'";
+  return {
+    callee: operation,
+    importLine: `const { ${operation} } = require(${quote}@jscad/modeling${quote}).booleans\n`,
+  };
+}
+
+export function mergeComponents(code: string, options: MergeComponentsOptions): ComponentTransformResult {
+  const parsed = parseCode(code);
+  if (!parsed.ok) return parsed;
+  const { program } = parsed;
+
+  const components = options.components ?? [];
+  if (components.length < 2) {
+    return { ok: false, error: "merge needs at least two component names." };
+  }
+  const operation = options.operation ?? "union";
+  const resultName = options.resultName?.trim() || "merged";
+
+  const declarators = findDeclarators(program).filter((match) => isNode(match.declarator.init));
+  const matches: DeclaratorMatch[] = [];
+  for (const name of components) {
+    const match = declarators.find((candidate) => (candidate.declarator.id as AstNode).name === name);
+    if (!match) {
+      return componentNotFound(
+        "Component",
+        name,
+        declarators.map((candidate) => (candidate.declarator.id as AstNode).name as string)
+      );
+    }
+    matches.push(match);
+  }
+
+  const scope = matches[0].enclosingFunction;
+  if (matches.some((match) => match.enclosingFunction !== scope)) {
+    return { ok: false, error: "All merged components must be declared in the same function." };
+  }
+  const scopeNames = scope ? declaredNames(scope) : topLevelNames(program);
+  if (scopeNames.has(resultName)) {
+    return { ok: false, error: `A binding named "${resultName}" already exists; choose another resultName.` };
+  }
+
+  const { callee, importLine } = booleanCallee(code, program, operation);
+  const last = matches.reduce((latest, match) => (match.statement.end > latest.statement.end ? match : latest));
+  const indent = indentationAt(code, last.statement.start);
+  const splices: Splice[] = [
+    {
+      start: last.statement.end,
+      end: last.statement.end,
+      text: `\n${indent}const ${resultName} = ${callee}(${components.join(", ")});`,
+    },
+  ];
+
+  if (importLine) {
+    const firstStatement = (program.body as AstNode[])[0];
+    const position = firstStatement ? firstStatement.start : 0;
+    splices.push({ start: position, end: position, text: importLine });
+  }
+
+  let replacedInReturn = false;
+  const returnArray = scope && functionName(scope) === "main" ? findMainReturnArray(program) : undefined;
+  if (returnArray) {
+    const elements = (returnArray.elements as unknown[]).filter(isNode);
+    const merged = elements.filter((element) => element.type === "Identifier" && components.includes(element.name as string));
+    if (merged.length > 0) {
+      const kept = elements.filter((element) => !merged.includes(element));
+      const insertAt = elements.indexOf(merged[0]);
+      const entries = kept.map((element) => code.slice(element.start, element.end));
+      entries.splice(kept.filter((element) => elements.indexOf(element) < insertAt).length, 0, resultName);
+      splices.push({ start: returnArray.start, end: returnArray.end, text: `[${entries.join(", ")}]` });
+      replacedInReturn = true;
+    }
+  }
+
+  return finalize(applySplices(code, splices), {
+    components,
+    operation,
+    resultName,
+    addedImport: importLine !== null,
+    replacedInReturn,
+  });
+}
+
+// Top-level `const x = require(...)` (optionally `.member`) statements.
+function isRequireStatement(statement: AstNode) {
+  if (statement.type !== "VariableDeclaration") return false;
+  return (statement.declarations as AstNode[]).every((declarator) => {
+    let init = declarator.init;
+    while (isNode(init) && init.type === "MemberExpression") init = init.object;
+    return isNode(init) && init.type === "CallExpression" && isNode(init.callee) && init.callee.name === "require";
+  });
+}
+
+function statementNames(statement: AstNode): string[] {
+  if (statement.type === "FunctionDeclaration" && isNode(statement.id)) return [statement.id.name as string];
+  if (statement.type === "VariableDeclaration") {
+    return (statement.declarations as AstNode[]).flatMap((declarator) => patternNames(declarator.id, []));
+  }
+  return [];
+}
+
+// Top-level names a statement reads, ignoring bindings it declares inside itself.
+function freeNames(statement: AstNode) {
+  const own = new Set(statementNames(statement));
+  const inner = declaredNames(statement);
+  return referencedNames(statement).filter((name) => own.has(name) || !inner.has(name));
+}
+
+function kebabCase(name: string) {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/_/g, "-")
+    .toLowerCase();
+}
+
+// Relative requires ("./assets/pcb.stl") re-pointed from main.jscad to a module `depth` folders down.
+function rebaseRelativeRequires(code: string, statement: AstNode, depth: number) {
+  const splices: Splice[] = [];
+  walk(statement, (node) => {
+    if (node.type !== "CallExpression" || !isNode(node.callee) || node.callee.name !== "require") return;
+    const [arg] = node.arguments as AstNode[];
+    if (!arg || arg.type !== "Literal" || typeof arg.value !== "string" || !arg.value.startsWith(".")) return;
+    const quote = code[arg.start];
+    const spec = `${"../".repeat(depth)}${arg.value.replace(/^\.\//, "")}`;
+    splices.push({ start: arg.start - statement.start, end: arg.end - statement.start, text: `${quote}${spec}${quote}` });
+  });
+  return applySplices(code.slice(statement.start, statement.end), splices);
+}
+
+/**
+ * Moves a top-level component (usually a helper made by extract) into its own
+ * project module, together with the top-level helpers and constants it uses.
+ * Requires it depends on are copied; main.jscad requires the new module.
+ */
+export function moveComponent(code: string, options: MoveComponentOptions): ComponentTransformResult {
+  const parsed = parseCode(code);
+  if (!parsed.ok) return parsed;
+  const { program } = parsed;
+  const statements = program.body as AstNode[];
+
+  const declaring = new Map<string, AstNode>();
+  for (const statement of statements) {
+    for (const name of statementNames(statement)) declaring.set(name, statement);
+  }
+  const isEntry = (statement: AstNode | undefined) =>
+    !!statement && statementNames(statement).some((name) => name === "main" || name === "getParameterDefinitions");
+
+  const target = declaring.get(options.componentName);
+  if (!target || isEntry(target) || isRequireStatement(target)) {
+    const movable = statements
+      .filter((statement) => !isEntry(statement) && !isRequireStatement(statement))
+      .flatMap(statementNames);
+    return componentNotFound("Top-level component", options.componentName, movable);
+  }
+  if (statementNames(target).length !== 1) {
+    return { ok: false, error: `"${options.componentName}" shares its declaration with other bindings; split it first.` };
+  }
+
+  const path = normalizeModulePath(options.path?.trim() || `lib/${kebabCase(options.componentName)}`);
+  if (!path) {
+    return { ok: false, error: `Invalid module path ${JSON.stringify(options.path)}. Use a path such as "lib/gear.jscad".` };
+  }
+
+  // The component plus every non-require top-level statement it reaches.
+  const moved = [target];
+  const requires = new Set<AstNode>();
+  for (let index = 0; index < moved.length; index++) {
+    for (const name of freeNames(moved[index])) {
+      const dependency = declaring.get(name);
+      if (!dependency || isEntry(dependency) || moved.includes(dependency)) continue;
+      if (isRequireStatement(dependency)) requires.add(dependency);
+      else moved.push(dependency);
+    }
+  }
+
+  const remaining = statements.filter((statement) => !moved.includes(statement));
+  const stillUsed = new Set(
+    remaining.flatMap((statement) => freeNames(statement).filter((name) => !statementNames(statement).includes(name)))
+  );
+  const exportedNames = [
+    options.componentName,
+    ...moved.slice(1).flatMap(statementNames).filter((name) => stillUsed.has(name)),
+  ];
+  const droppedRequires = [...requires].filter(
+    (statement) => !statementNames(statement).some((name) => stillUsed.has(name))
+  );
+
+  const depth = path.split("/").length - 1;
+  const inOrder = (list: AstNode[]) => [...list].sort((a, b) => a.start - b.start);
+  const moduleCode = [
+    inOrder([...requires]).map((statement) => rebaseRelativeRequires(code, statement, depth)).join("\n"),
+    ...inOrder(moved).map((statement) => rebaseRelativeRequires(code, statement, depth)),
+    `module.exports = { ${exportedNames.join(", ")} }\n`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const quote = code.match(/require\(\s*(['"])/)?.[1] ?? "'";
+  const requireLine = `const { ${exportedNames.join(", ")} } = require(${quote}./${path.replace(/\.(?:jscad|js)$/, "")}${quote})`;
+
+  const removed = new Set<AstNode>([...moved, ...droppedRequires]);
+  const splices: Splice[] = [...removed].map((statement) => {
+    let end = statement.end;
+    const trailing = code.slice(end).match(/^[ \t]*\n(?:[ \t]*\n)?/);
+    if (trailing) end += trailing[0].length;
+    return { start: statement.start, end, text: "" };
+  });
+  const keptRequires = statements.filter((statement) => isRequireStatement(statement) && !removed.has(statement));
+  const anchor = statements.find((statement) => !removed.has(statement));
+  if (keptRequires.length > 0) {
+    const last = keptRequires[keptRequires.length - 1];
+    splices.push({ start: last.end, end: last.end, text: `\n${requireLine}` });
+  } else {
+    const position = anchor ? anchor.start : code.length;
+    splices.push({ start: position, end: position, text: `${requireLine}\n\n` });
+  }
+
+  const reparsedModule = parseCode(moduleCode);
+  if (!reparsedModule.ok) {
+    return { ok: false, error: `Transformation produced an invalid module (${reparsedModule.error}); no changes applied.` };
+  }
+  const result = finalize(applySplices(code, splices), {
+    componentName: options.componentName,
+    path,
+    exports: exportedNames,
+    movedHelpers: moved.slice(1).flatMap(statementNames),
+    copiedRequires: requires.size,
+  });
+  return result.ok ? { ...result, createdFile: { path, content: moduleCode } } : result;
+}
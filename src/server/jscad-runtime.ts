@@ -0,0 +1,625 @@
+import path from "path";
+import vm from "vm";
+import { readFile } from "fs/promises";
+import { loadPinnedSource, type DependencyLock } from "@/lib/dependencies";
+import { transformFeature } from "@/lib/kinematics/features";
+import type { LibraryKinematics, MechanismFeature } from "@/lib/kinematics/types";
+import { meshPolygons, parseAssetSpec, type ImportedMesh } from "@/lib/mesh-import";
+import { loopSides, outlineLoops, type ImportedOutlines } from "@/lib/outline-import";
+import { findProjectModule, MAIN_FILE, resolveProjectPath, type ProjectFiles } from "@/lib/project-files";
+
+/**
+ * Headless JSCAD evaluator for the server.
+ *
+ * Mirrors the module semantics of `public/jscad-worker.js` (require/include of
+ * `@jscad/modeling`, `/jscad-libs/...`, remote URLs, project modules and
+ * relative specs, with the v1 compat layer and mechanics libraries preloaded)
+ * so agent tools can inspect the same geometry the browser renders.
+ */
+
+export interface JscadParameterDefinition {
+  name?: string;
+  type?: string;
+  initial?: unknown;
+  default?: unknown;
+  [key: string]: unknown;
+}
+
+export type JscadEvaluation =
+  | {
+      ok: true;
+      geometries: unknown[];
+      parameters: Record<string, unknown>;
+      parameterDefinitions: JscadParameterDefinition[];
+      /** Pitch features attached by the mechanics libraries, in world space. */
+      features: MechanismFeature[];
+    }
+  | { ok: false; error: string };
+
+export interface EvaluateJscadOptions {
+  parameters?: Record<string, unknown>;
+  timeoutMs?: number;
+  /** Download URLs of the project's uploaded meshes by path ("assets/part.stl"). */
+  assets?: Record<string, string>;
+  /** The project's other source files, loadable with `require('./lib/...')`. */
+  files?: ProjectFiles;
+  /** Pinned remote and /jscad-libs modules; pinned modules load from their snapshot, never the live URL. */
+  dependencies?: DependencyLock;
+}
+
+const EVALUATION_TIMEOUT_MS = 30000;
+
+// Loaded before every script, matching the browser worker.
+const PRELOADED_MODULES = [
+  "/jscad-libs/compat/v1.js",
+  "/jscad-libs/mechanics/gears.jscad",
+  "/jscad-libs/mechanics/racks.jscad",
+];
+
+const MODULE_PARAMS = ["require", "module", "exports", "include", "window"];
+
+const localLibsRoot = path.resolve(process.cwd(), "public", "jscad-libs");
+
+function normalizeRemoteUrl(url: string) {
+  const match = url.match(
+    /^https?:\/\/github\.com\/([^/]+)\/([^/]+)\/blob\/([^/]+)\/(.+)$/
+  );
+  if (match) {
+    return `https://raw.githubusercontent.com/${match[1]}/${match[2]}/${match[3]}/${match[4]}`;
+  }
+  return url;
+}
+
+function isRemoteSpec(spec: string) {
+  return spec.startsWith("http://") || spec.startsWith("https://");
+}
+
+function isLocalSpec(spec: string) {
+  return spec.startsWith("/jscad-libs/") || spec.startsWith("jscad-libs/");
+}
+
+function isRelativeSpec(spec: string) {
+  return spec.startsWith("./") || spec.startsWith("../");
+}
+
+function normalizeLocalSpec(spec: string) {
+  return spec.startsWith("/") ? spec : `/${spec}`;
+}
+
+function toLocalPath(spec: string) {
+  const normalized = normalizeLocalSpec(spec).replace(/^\/jscad-libs\//, "");
+  const resolved = path.resolve(localLibsRoot, normalized);
+  if (!resolved.startsWith(localLibsRoot)) {
+    throw new Error(`Local module path escapes library root: ${spec}`);
+  }
+  return resolved;
+}
+
+function toLocalModuleId(spec: string) {
+  return `file://${toLocalPath(spec)}`;
+}
+
+/** Manifest id of a resolved module: "/jscad-libs/..." for local files, the URL otherwise. */
+function toDependencyId(resolved: string) {
+  if (!resolved.startsWith("file://")) return resolved;
+  return `/jscad-libs/${path.relative(localLibsRoot, resolved.replace("file://", "")).split(path.sep).join("/")}`;
+}
+
+function resolveModuleSpec(baseId: string | undefined, spec: string) {
+  if (isRemoteSpec(spec)) return normalizeRemoteUrl(spec);
+  if (isLocalSpec(spec)) return toLocalModuleId(spec);
+
+  if (isRelativeSpec(spec)) {
+    if (!baseId) return spec;
+    if (baseId.startsWith("file://")) {
+      const basePath = baseId.replace("file://", "");
+      return `file://${path.resolve(path.dirname(basePath), spec)}`;
+    }
+    return normalizeRemoteUrl(new URL(spec, baseId).toString());
+  }
+
+  return spec;
+}
+
+function extractModuleSpecs(code: string) {
+  const specs: string[] = [];
+  const regex = /\b(?:require|include)\(\s*['"]([^'"]+)['"]\s*\)/g;
+  let match: RegExpExecArray | null = null;
+  while ((match = regex.exec(code))) {
+    const spec = match[1].trim();
+    if (isRemoteSpec(spec) || isLocalSpec(spec) || isRelativeSpec(spec)) {
+      specs.push(spec);
+    }
+  }
+  return specs;
+}
+
+async function preloadExternalModules(projectSources: string[], dependencies?: DependencyLock) {
+  const sources = new Map<string, string>();
+  const queue: Array<{ spec: string; baseId?: string }> = PRELOADED_MODULES.map(
+    (spec) => ({ spec })
+  );
+
+  for (const spec of projectSources.flatMap(extractModuleSpecs)) {
+    if (isRemoteSpec(spec) || isLocalSpec(spec)) queue.push({ spec });
+  }
+
+  while (queue.length > 0) {
+    const entry = queue.shift();
+    if (!entry) continue;
+    const resolved = resolveModuleSpec(entry.baseId, entry.spec);
+
+    if (sources.has(resolved)) continue;
+
+    let text: string;
+    const pin = dependencies?.[toDependencyId(resolved)];
+    if (pin) {
+      text = await loadPinnedSource(toDependencyId(resolved), pin);
+    } else if (resolved.startsWith("file://")) {
+      text = await readFile(resolved.replace("file://", ""), "utf8");
+    } else {
+      const response = await fetch(resolved);
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch remote module: ${resolved} (${response.status})`
+        );
+      }
+      text = await response.text();
+    }
+
+    sources.set(resolved, text);
+
+    for (const spec of extractModuleSpecs(text)) {
+      if (isRemoteSpec(spec) || isLocalSpec(spec)) {
+        queue.push({ spec });
+      } else if (isRelativeSpec(spec)) {
+        queue.push({ spec, baseId: resolved });
+      }
+    }
+  }
+
+  return sources;
+}
+
+/** Asset a require spec points at from `fromPath`, or null (including for paths that escape the project). */
+function projectAssetSpec(fromPath: string, spec: string) {
+  if (!isRelativeSpec(spec)) return parseAssetSpec(spec);
+  try {
+    return parseAssetSpec(resolveProjectPath(fromPath, spec));
+  } catch {
+    return null;
+  }
+}
+
+async function preloadAssets(projectSources: Record<string, string>, assets: Record<string, string>) {
+  const loaded = new Map<string, ImportedMesh | ImportedOutlines>();
+  const specs = Object.entries(projectSources).flatMap(([fromPath, source]) =>
+    extractModuleSpecs(source).map((spec) => projectAssetSpec(fromPath, spec))
+  );
+  for (const asset of specs) {
+    if (!asset || loaded.has(asset.path) || !assets[asset.path]) continue;
+    const response = await fetch(assets[asset.path]);
+    if (!response.ok) {
+      throw new Error(`Failed to load asset ./${asset.path} (${response.status})`);
+    }
+    loaded.set(asset.path, (await response.json()) as ImportedMesh | ImportedOutlines);
+  }
+  return loaded;
+}
+
+function resolveModelingPath(jscad: Record<string, unknown>, spec: string) {
+  if (spec === "@jscad/modeling") return jscad;
+  const parts = spec.replace("@jscad/modeling/", "").split("/");
+  let result: unknown = jscad;
+  for (const part of parts) {
+    result = (result as Record<string, unknown> | undefined)?.[part];
+  }
+  return result;
+}
+
+function resolveDefaultParameters(definitions: JscadParameterDefinition[]) {
+  return definitions.reduce<Record<string, unknown>>((acc, def) => {
+    if (!def || typeof def !== "object") return acc;
+    const name = def.name;
+    if (!name) return acc;
+    if (def.initial !== undefined) {
+      acc[name] = def.initial;
+    } else if (def.default !== undefined) {
+      acc[name] = def.default;
+    }
+    return acc;
+  }, {});
+}
+
+type Mat4Api = {
+  create: () => number[];
+  invert: (out: number[], matrix: ArrayLike<number>) => number[] | null;
+  multiply: (out: number[], a: ArrayLike<number>, b: ArrayLike<number>) => number[];
+};
+
+/**
+ * Same as `collectLibraryFeatures()` in the worker: maps features declared by
+ * `getModel()` through every transform applied since. Must run before the
+ * pending transforms are baked into the polygons.
+ */
+function collectLibraryFeatures(geometries: Record<string, unknown>[], mat4: Mat4Api): MechanismFeature[] {
+  const features: MechanismFeature[] = [];
+  geometries.forEach((geometry, partIndex) => {
+    const kinematics = geometry.kinematics as LibraryKinematics | undefined;
+    if (!kinematics || !Array.isArray(kinematics.features)) return;
+    const transforms = geometry.transforms as ArrayLike<number> | undefined;
+    let placement: number[] | null = null;
+    if (transforms && kinematics.frame) {
+      const inverseFrame = mat4.invert(mat4.create(), kinematics.frame);
+      placement = inverseFrame ? mat4.multiply(mat4.create(), transforms, inverseFrame) : null;
+    }
+    for (const feature of kinematics.features) {
+      const placed = placement ? transformFeature(feature, placement) : feature;
+      // Copy out of the vm context so the result is a plain host object.
+      features.push({ ...JSON.parse(JSON.stringify(placed)), source: placed.source ?? "metadata", partIndex });
+    }
+  });
+  return features;
+}
+
+/**
+ * Evaluate JSCAD source in an isolated vm context and return the geometries
+ * produced by `main()`. Never throws; failures are reported as `{ ok: false }`.
+ */
+export async function evaluateJscadCode(
+  code: string,
+  options: EvaluateJscadOptions = {}
+): Promise<JscadEvaluation> {
+  const timeoutMs = options.timeoutMs ?? EVALUATION_TIMEOUT_MS;
+  try {
+    const jscad = (await import("@jscad/modeling")) as unknown as Record<string, unknown>;
+    const geom3 = (
+      jscad.geometries as {
+        geom3: { toPolygons: (g: unknown) => unknown[]; fromPoints: (polygons: number[][][]) => unknown };
+      }
+    ).geom3;
+    const geom2 = (jscad.geometries as { geom2: { create: (sides: number[][][]) => unknown } }).geom2;
+    const mat4 = (jscad.maths as { mat4: Mat4Api }).mat4;
+    const files = options.files ?? {};
+    const moduleSources = await preloadExternalModules([code, ...Object.values(files)], options.dependencies);
+    const assetData = await preloadAssets({ ...files, [MAIN_FILE]: code }, options.assets ?? {});
+    const moduleCache = new Map<string, { exports: Record<string, unknown> }>();
+    const evaluating = new Set<string>();
+
+    // Each evaluation gets a fresh global so the v1 compat layer and
+    // window.jscad.tspi registrations never leak between runs.
+    const sandbox: Record<string, unknown> = {
+      console,
+      location: { protocol: "https:", origin: "https://localhost" },
+    };
+    const context = vm.createContext(sandbox);
+    sandbox.window = sandbox;
+    sandbox.self = sandbox;
+
+    const runModule = (
+      source: string,
+      filename: string,
+      moduleRequire: (spec: string) => unknown,
+      moduleInclude: (spec: string) => void,
+      cjsModule: { exports: Record<string, unknown> }
+    ) => {
+      const fn = vm.compileFunction(source, MODULE_PARAMS, {
+        parsingContext: context,
+        filename,
+      });
+      fn(moduleRequire, cjsModule, cjsModule.exports, moduleInclude, sandbox);
+    };
+
+    const executeExternalModule = (
+      spec: string,
+      baseId?: string
+    ): Record<string, unknown> => {
+      const normalized = resolveModuleSpec(baseId, spec);
+      const cached = moduleCache.get(normalized);
+      if (cached) return cached.exports;
+      if (evaluating.has(normalized)) {
+        throw new Error(`Circular external module reference: ${normalized}`);
+      }
+
+      const source = moduleSources.get(normalized);
+      if (source === undefined) {
+        throw new Error(`External module not preloaded: ${normalized}`);
+      }
+
+      const externalModule = { exports: {} as Record<string, unknown> };
+      moduleCache.set(normalized, externalModule);
+      evaluating.add(normalized);
+
+      try {
+        const localRequire = (spec: string) => {
+          if (spec === "@jscad/modeling" || spec.startsWith("@jscad/modeling/")) {
+            return resolveModelingPath(jscad, spec);
+          }
+          if (isRemoteSpec(spec) || isLocalSpec(spec) || isRelativeSpec(spec)) {
+            return executeExternalModule(spec, normalized);
+          }
+          throw new Error(`Unknown module: ${spec}`);
+        };
+
+        const localInclude = (spec: string) => {
+          if (!spec) return;
+          if (isRemoteSpec(spec) || isLocalSpec(spec) || isRelativeSpec(spec)) {
+            executeExternalModule(spec, normalized);
+            return;
+          }
+          throw new Error(`include() requires a remote URL or /jscad-libs path: ${spec}`);
+        };
+
+        runModule(source, normalized, localRequire, localInclude, externalModule);
+        return externalModule.exports;
+      } finally {
+        evaluating.delete(normalized);
+      }
+    };
+
+    const loadAsset = (asset: { path: string; layer?: string }) => {
+      const data = assetData.get(asset.path);
+      if (!data) {
+        throw new Error(`Unknown asset: ./${asset.path}. Upload it to the project before requiring it.`);
+      }
+      return "layers" in data
+        ? geom2.create(loopSides(outlineLoops(data, asset.layer)))
+        : geom3.fromPoints(meshPolygons(data));
+    };
+
+    // Project files share one module scope per evaluation, like external modules.
+    const executeProjectModule = (fromPath: string, spec: string): Record<string, unknown> => {
+      const target = resolveProjectPath(fromPath, spec);
+      const filePath = findProjectModule(files, target);
+      if (filePath === undefined) {
+        throw new Error(`Unknown module: ${spec} (no project file ${target}.jscad)`);
+      }
+      const id = `project:${filePath}`;
+      // Checked before the cache, which already holds the partial exports of modules still loading.
+      if (evaluating.has(id)) {
+        throw new Error(`Circular project module reference: ${filePath}`);
+      }
+      const cached = moduleCache.get(id);
+      if (cached) return cached.exports;
+
+      const projectModule = { exports: {} as Record<string, unknown> };
+      moduleCache.set(id, projectModule);
+      evaluating.add(id);
+      try {
+        const scope = createProjectScope(filePath);
+        runModule(files[filePath], filePath, scope.require, scope.include, projectModule);
+        return projectModule.exports;
+      } finally {
+        evaluating.delete(id);
+      }
+    };
+
+    const createProjectScope = (fromPath: string) => {
+      return {
+        require: (spec: string) => {
+          if (spec === "@jscad/modeling" || spec.startsWith("@jscad/modeling/")) {
+            return resolveModelingPath(jscad, spec);
+          }
+          if (isRemoteSpec(spec) || isLocalSpec(spec)) {
+            return executeExternalModule(spec);
+          }
+          const asset = projectAssetSpec(fromPath, spec);
+          if (asset) return loadAsset(asset);
+          if (isRelativeSpec(spec)) return executeProjectModule(fromPath, spec);
+          throw new Error(`Unknown module: ${spec}`);
+        },
+        include: (spec: string) => {
+          if (!spec) return;
+          if (isRemoteSpec(spec) || isLocalSpec(spec)) {
+            executeExternalModule(spec);
+            return;
+          }
+          if (isRelativeSpec(spec)) {
+            executeProjectModule(fromPath, spec);
+            return;
+          }
+          throw new Error(`include() requires a remote URL, /jscad-libs path or project file: ${spec}`);
+        },
+      };
+    };
+
+    const run = () => {
+      for (const spec of PRELOADED_MODULES) {
+        executeExternalModule(spec);
+      }
+
+      const cjsModule = { exports: {} as Record<string, unknown> };
+      const mainScope = createProjectScope(MAIN_FILE);
+      runModule(code, MAIN_FILE, mainScope.require, mainScope.include, cjsModule);
+
+      const exports = cjsModule.exports as {
+        main?: (params?: Record<string, unknown>) => unknown;
+        getParameterDefinitions?: () => unknown;
+      };
+
+      if (typeof exports.main !== "function") {
+        throw new Error("No main() function exported");
+      }
+
+      let parameterDefinitions: JscadParameterDefinition[] = [];
+      if (typeof exports.getParameterDefinitions === "function") {
+        const definitions = exports.getParameterDefinitions();
+        if (Array.isArray(definitions)) {
+          parameterDefinitions = definitions as JscadParameterDefinition[];
+        }
+      }
+
+      const parameters = {
+        ...resolveDefaultParameters(parameterDefinitions),
+        ...(options.parameters ?? {}),
+      };
+
+      return {
+        result: exports.main(parameters),
+        parameters,
+        parameterDefinitions,
+      };
+    };
+
+    sandbox.__openmechRun = run;
+    let outcome: ReturnType<typeof run>;
+    try {
+      outcome = vm.runInContext("__openmechRun()", context, {
+        timeout: timeoutMs,
+      }) as ReturnType<typeof run>;
+    } finally {
+      delete sandbox.__openmechRun;
+    }
+
+    const { result, parameters, parameterDefinitions } = outcome;
+    if (!Array.isArray(result)) {
+      return {
+        ok: false,
+        error:
+          "main() must return an array of geometry objects, even when returning a single object.",
+      };
+    }
+    if (result.length === 0) {
+      return {
+        ok: false,
+        error: "main() returned an empty array. Return at least one geometry object.",
+      };
+    }
+    const invalidIndex = result.findIndex((item) => !item || typeof item !== "object");
+    if (invalidIndex !== -1) {
+      return {
+        ok: false,
+        error: `main() array contains invalid entries. Each entry must be a geometry object (index ${invalidIndex}).`,
+      };
+    }
+
+    const features = collectLibraryFeatures(result, mat4);
+    const geometries = result.map(({ kinematics: _kinematics, ...geometry }: Record<string, unknown>) => {
+      // Apply pending transforms the same way the worker canonicalizes output.
+      if (!Array.isArray(geometry.polygons)) return geometry;
+      try {
+        const polygons = geom3.toPolygons(geometry);
+        return Array.isArray(polygons) && polygons.length > 0
+          ? { ...geometry, polygons }
+          : geometry;
+      } catch {
+        return geometry;
+      }
+    });
+
+    return { ok: true, geometries, parameters, parameterDefinitions, features };
+  } catch (error) {
+    const code = (error as { code?: string } | null)?.code;
+    if (code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+      return {
+        ok: false,
+        error: `JSCAD evaluation timed out (${Math.round(timeoutMs / 1000)}s)`,
+      };
+    }
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Resolve a tool-supplied geometry reference against an evaluation.
+ *
+ * Accepts `"main"`/`"all"` for every returned geometry, an index into the
+ * array returned by `main()` (`"1"`, `"main[1]"`, `"#1"`), or a variable name
+ * that appears in main's final `return [...]` statement.
+ */
+export function resolveGeometryReference(
+  code: string,
+  geometries: unknown[],
+  reference: string | number | undefined
+):
+  | { ok: true; label: string; indices: number[]; geometries: unknown[] }
+  | { ok: false; error: string; availableReferences: string[] } {
+  const names = extractReturnedNames(code, geometries.length);
+  const availableReferences = [
+    "main",
+    ...geometries.map((_, index) => names[index] ?? `main[${index}]`),
+  ];
+
+  const raw = reference === undefined ? "main" : String(reference).trim();
+  if (!raw || raw === "main" || raw === "all") {
+    return {
+      ok: true,
+      label: "main",
+      indices: geometries.map((_, index) => index),
+      geometries,
+    };
+  }
+
+  const indexMatch = raw.match(/^(?:main\[(\d+)\]|#?(\d+))$/);
+  if (indexMatch) {
+    const index = Number(indexMatch[1] ?? indexMatch[2]);
+    if (index < geometries.length) {
+      return {
+        ok: true,
+        label: names[index] ?? `main[${index}]`,
+        indices: [index],
+        geometries: [geometries[index]],
+      };
+    }
+  }
+
+  const namedIndex = names.findIndex((name) => name === raw);
+  if (namedIndex !== -1) {
+    return {
+      ok: true,
+      label: raw,
+      indices: [namedIndex],
+      geometries: [geometries[namedIndex]],
+    };
+  }
+
+  return {
+    ok: false,
+    error: `Geometry "${raw}" is not part of main()'s returned array. Reference a returned variable or an index.`,
+    availableReferences,
+  };
+}
+
+/**
+ * Best-effort mapping from array positions to identifiers in the last
+ * `return [a, b, ...]` of the script. Entries that are not plain identifiers
+ * (calls, spreads) stay unnamed.
+ */
+function extractReturnedNames(code: string, count: number): Array<string | undefined> {
+  const matches = [...code.matchAll(/return\s*\[/g)];
+  const last = matches[matches.length - 1];
+  if (!last || last.index === undefined) return [];
+
+  const start = last.index + last[0].length;
+  const entries: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (let i = start; i < code.length; i++) {
+    const char = code[i];
+    if (char === "[" || char === "(" || char === "{") depth++;
+    if (char === "]" || char === ")" || char === "}") {
+      if (depth === 0) {
+        entries.push(current);
+        break;
+      }
+      depth--;
+    }
+    if (char === "," && depth === 0) {
+      entries.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+
+  if (entries.some((entry) => entry.trim().startsWith("..."))) return [];
+
+  const names = entries
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => (/^[A-Za-z_$][\w$]*$/.test(entry) ? entry : undefined));
+  return names.length === count ? names : [];
+}
@@ -0,0 +1,250 @@
+import { getProviderInfo } from "@/lib/llm-providers";
+import type { TokenUsage } from "@/lib/token-usage";
+import { assertOk, readServerSentEvents } from "./sse";
+import type {
+  LlmContentPart,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmRequest,
+  LlmToolCall,
+} from "./types";
+
+/**
+ * Anthropic Messages API provider.
+ *
+ * System prompts move to the top-level `system` field (later system messages
+ * become user text), tool calls map to `tool_use`/`tool_result` blocks, and
+ * reasoning maps to extended thinking. Assistant turns are replayed from their
+ * native blocks so thinking signatures survive tool round-trips.
+ */
+
+type AnthropicBlock = Record<string, unknown> & { type: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicBlock[];
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const THINKING_BUDGET = { low: 1024, high: 4096 } as const;
+
+function toImageBlock(url: string): AnthropicBlock {
+  const dataUrl = url.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,([\s\S]*)$/);
+  if (dataUrl) {
+    return { type: "image", source: { type: "base64", media_type: dataUrl[1], data: dataUrl[2] } };
+  }
+  return { type: "image", source: { type: "url", url } };
+}
+
+function toBlocks(content: string | LlmContentPart[] | undefined): AnthropicBlock[] {
+  if (!content) return [];
+  if (typeof content === "string") {
+    return content.trim() ? [{ type: "text", text: content }] : [];
+  }
+  return content.map((part) =>
+    part.type === "text" ? { type: "text", text: part.text } : toImageBlock(part.image_url.url)
+  );
+}
+
+function parseArguments(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+export function toAnthropicMessages(messages: LlmMessage[]) {
+  const system: string[] = [];
+  const output: AnthropicMessage[] = [];
+
+  const push = (role: AnthropicMessage["role"], blocks: AnthropicBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = output[output.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      output.push({ role, content: [...blocks] });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      const text = typeof message.content === "string" ? message.content : "";
+      if (output.length === 0) {
+        system.push(text);
+      } else {
+        push("user", [{ type: "text", text: `[System] ${text}` }]);
+      }
+      continue;
+    }
+
+    if (message.role === "user") {
+      push("user", toBlocks(message.content));
+      continue;
+    }
+
+    if (message.role === "assistant") {
+      if (message.providerContent?.provider === "anthropic") {
+        push("assistant", message.providerContent.parts as AnthropicBlock[]);
+        continue;
+      }
+      push("assistant", [
+        ...toBlocks(message.content),
+        ...(message.tool_calls ?? []).map((call) => ({
+          type: "tool_use",
+          id: call.id,
+          name: call.function.name,
+          input: parseArguments(call.function.arguments),
+        })),
+      ]);
+      continue;
+    }
+
+    push("user", [
+      {
+        type: "tool_result",
+        tool_use_id: message.tool_call_id,
+        content: typeof message.content === "string" ? message.content : toBlocks(message.content),
+      },
+    ]);
+  }
+
+  // tool_result blocks must lead the user turn that answers a tool_use.
+  for (const message of output) {
+    if (message.role !== "user") continue;
+    message.content = [
+      ...message.content.filter((block) => block.type === "tool_result"),
+      ...message.content.filter((block) => block.type !== "tool_result"),
+    ];
+  }
+
+  return { system: system.join("\n\n"), messages: output };
+}
+
+function buildBody(request: LlmRequest, stream: boolean) {
+  const { system, messages } = toAnthropicMessages(request.messages);
+  const budget = request.reasoning ? THINKING_BUDGET[request.reasoning.effort] : 0;
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens + budget,
+    ...(system ? { system } : {}),
+    messages,
+    ...(request.tools.length > 0
+      ? {
+          tools: request.tools.map((tool) => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            input_schema: tool.function.parameters ?? { type: "object", properties: {} },
+          })),
+          tool_choice: { type: request.toolChoice === "none" ? "none" : "auto" },
+        }
+      : {}),
+    // Extended thinking requires the default temperature.
+    ...(request.reasoning
+      ? { thinking: { type: "enabled", budget_tokens: budget } }
+      : { temperature: request.temperature }),
+    ...(stream ? { stream: true } : {}),
+  };
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+// Thinking tokens are part of output_tokens and not reported separately.
+function toTokenUsage(usage: AnthropicUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens:
+      (usage.input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0),
+    completionTokens: usage.output_tokens ?? 0,
+    reasoningTokens: 0,
+  };
+}
+
+export function createAnthropicProvider(config: LlmProviderConfig): LlmProvider {
+  const baseUrl = (config.baseUrl ?? getProviderInfo("anthropic").defaultBaseUrl!).replace(/\/+$/, "");
+  const endpoint = /\/v1$/.test(baseUrl) ? `${baseUrl}/messages` : `${baseUrl}/v1/messages`;
+
+  const post = (request: LlmRequest, stream: boolean) =>
+    fetch(endpoint, {
+      method: "POST",
+      signal: request.signal,
+      headers: {
+        "x-api-key": config.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(buildBody(request, stream)),
+    });
+
+  return {
+    id: "anthropic",
+
+    async complete(request) {
+      const response = await post(request, false);
+      await assertOk(response, "Anthropic");
+      const json = (await response.json()) as { content?: AnthropicBlock[]; usage?: AnthropicUsage };
+      const blocks = json.content ?? [];
+
+      const text = blocks
+        .filter((block) => block.type === "text")
+        .map((block) => String(block.text ?? ""))
+        .join("");
+      const toolCalls: LlmToolCall[] = blocks
+        .filter((block) => block.type === "tool_use")
+        .map((block) => ({
+          id: String(block.id),
+          type: "function",
+          function: { name: String(block.name), arguments: JSON.stringify(block.input ?? {}) },
+        }));
+
+      return {
+        message: {
+          role: "assistant",
+          content: text,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          providerContent: { provider: "anthropic", parts: blocks },
+        },
+        usage: toTokenUsage(json.usage),
+      };
+    },
+
+    async stream(request, onDelta) {
+      const response = await post(request, true);
+      await assertOk(response, "Anthropic");
+      if (!response.body) {
+        throw new Error("Anthropic streaming response body is empty.");
+      }
+
+      let fullText = "";
+      // message_start reports input tokens, message_delta the running output count.
+      const usage: AnthropicUsage = {};
+      await readServerSentEvents(response.body, async (data) => {
+        const event = JSON.parse(data) as {
+          type?: string;
+          delta?: { type?: string; text?: string };
+          message?: { usage?: AnthropicUsage };
+          usage?: AnthropicUsage;
+          error?: { message?: string };
+        };
+        if (event.type === "error") {
+          throw new Error(`Anthropic stream error: ${event.error?.message ?? data}`);
+        }
+        if (event.type === "message_start") Object.assign(usage, event.message?.usage);
+        if (event.type === "message_delta") Object.assign(usage, event.usage);
+        if (event.type === "message_stop") return true;
+        if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+          fullText += event.delta.text;
+          await onDelta(event.delta.text);
+        }
+      });
+      return { text: fullText, usage: toTokenUsage(usage) };
+    },
+  };
+}
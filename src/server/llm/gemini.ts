@@ -0,0 +1,285 @@
+import { getProviderInfo } from "@/lib/llm-providers";
+import type { TokenUsage } from "@/lib/token-usage";
+import { assertOk, readServerSentEvents } from "./sse";
+import type {
+  LlmContentPart,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmRequest,
+  LlmToolCall,
+} from "./types";
+
+/**
+ * Gemini `generateContent` provider.
+ *
+ * Tool calls map to `functionCall`/`functionResponse` parts, reasoning to a
+ * thinking budget, and tool schemas are narrowed to Gemini's OpenAPI subset.
+ * Model turns are replayed from their native parts so thought signatures
+ * survive tool round-trips.
+ */
+
+type GeminiPart = Record<string, unknown>;
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+const THINKING_BUDGET = { low: 1024, high: 8192 } as const;
+
+function toImagePart(url: string): GeminiPart {
+  const dataUrl = url.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,([\s\S]*)$/);
+  if (dataUrl) {
+    return { inlineData: { mimeType: dataUrl[1], data: dataUrl[2] } };
+  }
+  return { text: `[Image: ${url}]` };
+}
+
+function toParts(content: string | LlmContentPart[] | undefined): GeminiPart[] {
+  if (!content) return [];
+  if (typeof content === "string") {
+    return content.trim() ? [{ text: content }] : [];
+  }
+  return content.map((part) => (part.type === "text" ? { text: part.text } : toImagePart(part.image_url.url)));
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/** Gemini rejects JSON-schema type unions and `additionalProperties`. */
+export function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== "object") return schema;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "additionalProperties") continue;
+    if (key === "type" && Array.isArray(value)) {
+      result.anyOf = value.map((type) => ({ type }));
+      continue;
+    }
+    if (key === "properties" && value && typeof value === "object") {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, toGeminiSchema(property)])
+      );
+      continue;
+    }
+    result[key] = key === "items" || key === "anyOf" ? toGeminiSchema(value) : value;
+  }
+  return result;
+}
+
+export function toGeminiContents(messages: LlmMessage[]) {
+  const system: string[] = [];
+  const contents: GeminiContent[] = [];
+  const toolNames = new Map<string, string>();
+
+  const push = (role: GeminiContent["role"], parts: GeminiPart[]) => {
+    if (parts.length === 0) return;
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts: [...parts] });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      const text = typeof message.content === "string" ? message.content : "";
+      if (contents.length === 0) {
+        system.push(text);
+      } else {
+        push("user", [{ text: `[System] ${text}` }]);
+      }
+      continue;
+    }
+
+    if (message.role === "user") {
+      push("user", toParts(message.content));
+      continue;
+    }
+
+    if (message.role === "assistant") {
+      for (const call of message.tool_calls ?? []) {
+        toolNames.set(call.id, call.function.name);
+      }
+      if (message.providerContent?.provider === "gemini") {
+        push("model", message.providerContent.parts as GeminiPart[]);
+        continue;
+      }
+      push("model", [
+        ...toParts(message.content),
+        ...(message.tool_calls ?? []).map((call) => ({
+          functionCall: { name: call.function.name, args: parseJson(call.function.arguments) },
+        })),
+      ]);
+      continue;
+    }
+
+    const parts = typeof message.content === "string" ? [] : toParts(message.content);
+    const textResult =
+      typeof message.content === "string"
+        ? message.content
+        : parts.map((part) => (typeof part.text === "string" ? part.text : "")).join("\n");
+    push("user", [
+      {
+        functionResponse: {
+          name: toolNames.get(message.tool_call_id ?? "") ?? "tool",
+          response: { content: parseJson(textResult) },
+        },
+      },
+      ...parts.filter((part) => "inlineData" in part),
+    ]);
+  }
+
+  // functionResponse parts must lead the user turn that answers a functionCall.
+  for (const content of contents) {
+    if (content.role !== "user") continue;
+    content.parts = [
+      ...content.parts.filter((part) => "functionResponse" in part),
+      ...content.parts.filter((part) => !("functionResponse" in part)),
+    ];
+  }
+
+  return { system: system.join("\n\n"), contents };
+}
+
+function buildBody(request: LlmRequest) {
+  const { system, contents } = toGeminiContents(request.messages);
+  return {
+    ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+    contents,
+    ...(request.tools.length > 0
+      ? {
+          tools: [
+            {
+              functionDeclarations: request.tools.map((tool) => ({
+                name: tool.function.name,
+                description: tool.function.description,
+                ...(tool.function.parameters ? { parameters: toGeminiSchema(tool.function.parameters) } : {}),
+              })),
+            },
+          ],
+          toolConfig: {
+            functionCallingConfig: { mode: request.toolChoice === "none" ? "NONE" : "AUTO" },
+          },
+        }
+      : {}),
+    generationConfig: {
+      temperature: request.temperature,
+      maxOutputTokens: request.maxTokens,
+      ...(request.reasoning
+        ? { thinkingConfig: { thinkingBudget: THINKING_BUDGET[request.reasoning.effort] } }
+        : {}),
+    },
+  };
+}
+
+type GeminiResponse = {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] } }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+  };
+};
+
+// Thought tokens are billed as output but counted outside candidatesTokenCount.
+function toTokenUsage(metadata: GeminiResponse["usageMetadata"]): TokenUsage | undefined {
+  if (!metadata) return undefined;
+  const reasoningTokens = metadata.thoughtsTokenCount ?? 0;
+  return {
+    promptTokens: metadata.promptTokenCount ?? 0,
+    completionTokens: (metadata.candidatesTokenCount ?? 0) + reasoningTokens,
+    reasoningTokens,
+  };
+}
+
+function visibleText(parts: GeminiPart[]) {
+  return parts
+    .filter((part) => typeof part.text === "string" && part.thought !== true)
+    .map((part) => part.text as string)
+    .join("");
+}
+
+export function createGeminiProvider(config: LlmProviderConfig): LlmProvider {
+  const baseUrl = (config.baseUrl ?? getProviderInfo("gemini").defaultBaseUrl!).replace(/\/+$/, "");
+  const apiRoot = /\/v1(beta)?$/.test(baseUrl) ? baseUrl : `${baseUrl}/v1beta`;
+
+  const post = (request: LlmRequest, method: "generateContent" | "streamGenerateContent") =>
+    fetch(
+      `${apiRoot}/models/${encodeURIComponent(request.model)}:${method}${method === "streamGenerateContent" ? "?alt=sse" : ""}`,
+      {
+        method: "POST",
+        signal: request.signal,
+        headers: {
+          "x-goog-api-key": config.apiKey,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(buildBody(request)),
+      }
+    );
+
+  return {
+    id: "gemini",
+
+    async complete(request) {
+      const response = await post(request, "generateContent");
+      await assertOk(response, "Gemini");
+      const json = (await response.json()) as GeminiResponse;
+      const parts = json.candidates?.[0]?.content?.parts;
+      const usage = toTokenUsage(json.usageMetadata);
+      if (!parts) return { message: undefined, usage };
+
+      const toolCalls: LlmToolCall[] = parts
+        .filter((part) => part.functionCall && typeof part.functionCall === "object")
+        .map((part) => {
+          const call = part.functionCall as { id?: string; name: string; args?: unknown };
+          return {
+            id: call.id ?? `gemini_${Math.random().toString(36).slice(2)}`,
+            type: "function",
+            function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) },
+          };
+        });
+
+      return {
+        message: {
+          role: "assistant",
+          content: visibleText(parts),
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          providerContent: { provider: "gemini", parts },
+        },
+        usage,
+      };
+    },
+
+    async stream(request, onDelta) {
+      const response = await post(request, "streamGenerateContent");
+      await assertOk(response, "Gemini");
+      if (!response.body) {
+        throw new Error("Gemini streaming response body is empty.");
+      }
+
+      let fullText = "";
+      let usage: TokenUsage | undefined;
+      await readServerSentEvents(response.body, async (data) => {
+        const chunk = JSON.parse(data) as GeminiResponse;
+        // Every chunk carries cumulative usage; the last one is final.
+        usage = toTokenUsage(chunk.usageMetadata) ?? usage;
+        const delta = visibleText(chunk.candidates?.[0]?.content?.parts ?? []);
+        if (delta) {
+          fullText += delta;
+          await onDelta(delta);
+        }
+      });
+      return { text: fullText, usage };
+    },
+  };
+}
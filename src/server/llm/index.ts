@@ -0,0 +1,123 @@
+import { getOpenRouterEndpoint } from "@/lib/openrouter";
+import { getProviderInfo, parseModelSpec, type LlmProviderId, type ModelSpec } from "@/lib/llm-providers";
+import { createAnthropicProvider } from "./anthropic";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openai-compatible";
+import type { LlmProvider } from "./types";
+export {
+  createMockProvider,
+  mockStream,
+  mockText,
+  mockToolCalls,
+  withUsage,
+  type LlmExchange,
+  type MockLlmProvider,
+  type MockLlmStep,
+  type RecordedLlmRequest,
+} from "./mock";
+export {
+  createLlmSession,
+  createRecordingProvider,
+  createReplayProvider,
+  loadLlmSession,
+  saveLlmSession,
+  type LlmSession,
+} from "./recording";
+
+export type {
+  LlmContentPart,
+  LlmMessage,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmStreamResult,
+  LlmToolCall,
+  LlmToolDefinition,
+} from "./types";
+
+export interface ResolveLlmOptions {
+  /** Model spec, see `parseModelSpec`. */
+  model?: string;
+  apiKey?: string;
+  /** Only honoured for OpenAI-compatible servers, see `allowsClientBaseUrl`. */
+  baseUrl?: string;
+}
+
+export interface ResolvedLlm extends ModelSpec {
+  client: LlmProvider;
+}
+
+const BASE_URL_ENV: Partial<Record<LlmProviderId, string>> = {
+  "openai-compatible": "OPENAI_COMPATIBLE_BASE_URL",
+  anthropic: "ANTHROPIC_BASE_URL",
+  gemini: "GEMINI_BASE_URL",
+};
+
+// A client-chosen base URL makes the server fetch arbitrary hosts, so production
+// deployments must opt in.
+function allowsClientBaseUrl() {
+  return process.env.NODE_ENV !== "production" || process.env.ALLOW_CLIENT_LLM_BASE_URL === "1";
+}
+
+function missingKeyError(provider: LlmProviderId) {
+  const info = getProviderInfo(provider);
+  if (provider === "openrouter") {
+    return new Error(
+      "OpenRouter API key is missing. Please configure it in Settings or on the server, or set SIGNED_OUT_INFERENCE=1 to allow inference when signed out."
+    );
+  }
+  return new Error(`${info.name} API key is missing. Please configure it in Settings or set ${info.apiKeyEnv} on the server.`);
+}
+
+export function resolveLlmProvider(options: ResolveLlmOptions): ResolvedLlm {
+  const spec = parseModelSpec(options.model);
+  const info = getProviderInfo(spec.provider);
+
+  const apiKey = options.apiKey?.trim() || process.env[info.apiKeyEnv]?.trim() || "";
+  // Allow inference if SIGNED_OUT_INFERENCE is set, even without API key
+  const signedOutInference = spec.provider === "openrouter" && process.env.SIGNED_OUT_INFERENCE === "1";
+  if (info.requiresApiKey && !apiKey && !signedOutInference) {
+    throw missingKeyError(spec.provider);
+  }
+
+  const envBaseUrl = BASE_URL_ENV[spec.provider] ? process.env[BASE_URL_ENV[spec.provider]!]?.trim() : undefined;
+  const clientBaseUrl =
+    spec.provider === "openai-compatible" && allowsClientBaseUrl() ? options.baseUrl?.trim() : undefined;
+  const baseUrl = (clientBaseUrl || envBaseUrl || info.defaultBaseUrl)?.replace(/\/+$/, "");
+
+  return { ...spec, client: createClient(spec.provider, apiKey, baseUrl) };
+}
+
+function createClient(provider: LlmProviderId, apiKey: string, baseUrl: string | undefined): LlmProvider {
+  switch (provider) {
+    case "anthropic":
+      return createAnthropicProvider({ apiKey, baseUrl });
+    case "gemini":
+      return createGeminiProvider({ apiKey, baseUrl });
+    case "openai-compatible":
+      return createOpenAICompatibleProvider({
+        id: provider,
+        label: "OpenAI-compatible",
+        endpoint: `${baseUrl}/chat/completions`,
+        apiKey,
+        buildExtraBody: (request) =>
+          request.reasoning ? { reasoning_effort: request.reasoning.effort } : {},
+      });
+    case "openrouter":
+      return createOpenAICompatibleProvider({
+        id: provider,
+        label: "OpenRouter",
+        endpoint: getOpenRouterEndpoint("/api/v1/chat/completions"),
+        apiKey,
+        headers: {
+          "HTTP-Referer": "https://openmech.app",
+          "X-Title": "OpenMech",
+        },
+        buildExtraBody: (request) => ({
+          provider: { sort: "price" },
+          usage: { include: true },
+          ...(request.reasoning ? { reasoning: request.reasoning } : {}),
+        }),
+      });
+  }
+}
@@ -0,0 +1,119 @@
+import type { TokenUsage } from "@/lib/token-usage";
+import type { LlmMessage, LlmProvider, LlmRequest, LlmResponse } from "./types";
+
+/**
+ * Deterministic provider for offline tests. It answers each `complete`/`stream`
+ * call with the next scripted exchange, so a recorded session (see
+ * `recording.ts`) or a hand-written script drives `runCodegen` without network
+ * access.
+ */
+
+/** A request as seen by the provider, minus the non-serializable signal and the static tool list. */
+export type RecordedLlmRequest = Omit<LlmRequest, "signal" | "tools"> & { toolNames: string[] };
+
+export type LlmExchange =
+  | { kind: "complete"; request?: RecordedLlmRequest; response: LlmResponse }
+  | { kind: "stream"; request?: RecordedLlmRequest; deltas: string[]; usage?: TokenUsage };
+
+export type MockLlmStep = LlmExchange | ((request: RecordedLlmRequest) => LlmExchange);
+
+export interface MockLlmProvider extends LlmProvider {
+  /** Requests received so far, in call order. */
+  readonly requests: RecordedLlmRequest[];
+  /** Scripted exchanges not consumed yet. */
+  readonly remaining: number;
+}
+
+export function toRecordedRequest(request: LlmRequest): RecordedLlmRequest {
+  return structuredClone({
+    model: request.model,
+    messages: request.messages,
+    toolNames: request.tools.map((tool) => tool.function.name),
+    ...(request.toolChoice ? { toolChoice: request.toolChoice } : {}),
+    ...(request.reasoning ? { reasoning: request.reasoning } : {}),
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+  });
+}
+
+export function createMockProvider(steps: MockLlmStep[]): MockLlmProvider {
+  const requests: RecordedLlmRequest[] = [];
+  let cursor = 0;
+
+  const next = (request: LlmRequest, kind: LlmExchange["kind"]) => {
+    request.signal?.throwIfAborted();
+    const recorded = toRecordedRequest(request);
+    requests.push(recorded);
+
+    const step = steps[cursor];
+    if (!step) {
+      throw new Error(`Mock LLM script exhausted after ${cursor} exchange(s); got an unexpected ${kind} request.`);
+    }
+    cursor++;
+
+    const exchange = typeof step === "function" ? step(recorded) : step;
+    if (exchange.kind !== kind) {
+      throw new Error(`Mock LLM exchange ${cursor} is scripted as ${exchange.kind} but the agent sent a ${kind} request.`);
+    }
+    return structuredClone(exchange);
+  };
+
+  return {
+    id: "mock",
+    requests,
+    get remaining() {
+      return steps.length - cursor;
+    },
+
+    async complete(request) {
+      const exchange = next(request, "complete");
+      return exchange.kind === "complete" ? exchange.response : {};
+    },
+
+    async stream(request, onDelta) {
+      const exchange = next(request, "stream");
+      if (exchange.kind !== "stream") return { text: "" };
+      for (const delta of exchange.deltas) {
+        request.signal?.throwIfAborted();
+        await onDelta(delta);
+      }
+      return { text: exchange.deltas.join(""), usage: exchange.usage };
+    },
+  };
+}
+
+// --- Script helpers ---
+
+export function mockText(content: string): LlmExchange {
+  return { kind: "complete", response: { message: { role: "assistant", content } } };
+}
+
+export function mockToolCalls(
+  calls: Array<{ name: string; args?: Record<string, unknown>; id?: string }>,
+  content = ""
+): LlmExchange {
+  const message: LlmMessage & { role: "assistant" } = {
+    role: "assistant",
+    content,
+    tool_calls: calls.map((call, index) => ({
+      id: call.id ?? `call_${index + 1}_${call.name}`,
+      type: "function",
+      function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) },
+    })),
+  };
+  return { kind: "complete", response: { message } };
+}
+
+export function mockStream(text: string, chunkSize = 16): LlmExchange {
+  const deltas: string[] = [];
+  for (let offset = 0; offset < text.length; offset += chunkSize) {
+    deltas.push(text.slice(offset, offset + chunkSize));
+  }
+  return { kind: "stream", deltas };
+}
+
+export function withUsage(exchange: LlmExchange, usage: TokenUsage): LlmExchange {
+  return exchange.kind === "complete"
+    ? { ...exchange, response: { ...exchange.response, usage } }
+    : { ...exchange, usage };
+}
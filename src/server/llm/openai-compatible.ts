@@ -0,0 +1,109 @@
+import type { LlmProviderId } from "@/lib/llm-providers";
+import type { TokenUsage } from "@/lib/token-usage";
+import { assertOk, readServerSentEvents } from "./sse";
+import type { LlmMessage, LlmProvider, LlmRequest } from "./types";
+
+/**
+ * Chat-completions providers: OpenRouter and OpenAI-compatible servers
+ * (llama.cpp, vLLM, Ollama, ...). Messages are already in this wire format;
+ * only reasoning options differ.
+ */
+
+interface OpenAICompatibleOptions {
+  id: LlmProviderId;
+  label: string;
+  endpoint: string;
+  apiKey: string;
+  headers?: Record<string, string>;
+  /** Provider-specific body fields, e.g. OpenRouter's `provider` routing and `reasoning`. */
+  buildExtraBody?: (request: LlmRequest) => Record<string, unknown>;
+}
+
+interface WireUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+  /** OpenRouter only, in USD credits. */
+  cost?: number;
+}
+
+function toTokenUsage(usage: WireUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+    ...(typeof usage.cost === "number" ? { cost: usage.cost } : {}),
+  };
+}
+
+function toWireMessages(messages: LlmMessage[]) {
+  return messages.map((message) => {
+    const { providerContent: _providerContent, ...wire } = message;
+    return wire;
+  });
+}
+
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LlmProvider {
+  const post = (request: LlmRequest, stream: boolean) =>
+    fetch(options.endpoint, {
+      method: "POST",
+      signal: request.signal,
+      headers: {
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: toWireMessages(request.messages),
+        ...(request.tools.length > 0
+          ? { tools: request.tools, tool_choice: request.toolChoice ?? "auto" }
+          : {}),
+        ...options.buildExtraBody?.(request),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    });
+
+  return {
+    id: options.id,
+
+    async complete(request) {
+      const response = await post(request, false);
+      await assertOk(response, options.label);
+      const json = (await response.json()) as {
+        choices?: Array<{ message?: LlmMessage & { role: "assistant" } }>;
+        usage?: WireUsage;
+      };
+      return { message: json.choices?.[0]?.message, usage: toTokenUsage(json.usage) };
+    },
+
+    async stream(request, onDelta) {
+      const response = await post(request, true);
+      await assertOk(response, options.label);
+      if (!response.body) {
+        throw new Error(`${options.label} streaming response body is empty.`);
+      }
+
+      let fullText = "";
+      let usage: TokenUsage | undefined;
+      await readServerSentEvents(response.body, async (data) => {
+        if (data === "[DONE]") return true;
+        const parsed = JSON.parse(data) as {
+          choices?: Array<{ delta?: { content?: string } }>;
+          usage?: WireUsage;
+        };
+        // With include_usage the last chunk carries usage and no choices.
+        usage = toTokenUsage(parsed.usage) ?? usage;
+        const delta = parsed.choices?.[0]?.delta?.content;
+        if (delta) {
+          fullText += delta;
+          await onDelta(delta);
+        }
+      });
+      return { text: fullText, usage };
+    },
+  };
+}
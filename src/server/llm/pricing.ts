@@ -0,0 +1,35 @@
+import type { LlmProviderId } from "@/lib/llm-providers";
+import type { TokenUsage } from "@/lib/token-usage";
+
+/**
+ * List prices (USD per million tokens) for direct provider APIs, used when a
+ * response has no provider-reported cost. OpenRouter reports cost itself.
+ * Model ids match by prefix so dated snapshots (`claude-sonnet-4-5-20250929`)
+ * resolve; more specific prefixes come first.
+ */
+
+interface ModelPrice {
+  provider: LlmProviderId;
+  prefix: string;
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICES: ModelPrice[] = [
+  { provider: "anthropic", prefix: "claude-opus-4", input: 15, output: 75 },
+  { provider: "anthropic", prefix: "claude-sonnet-4", input: 3, output: 15 },
+  { provider: "anthropic", prefix: "claude-3-7-sonnet", input: 3, output: 15 },
+  { provider: "anthropic", prefix: "claude-haiku-4", input: 1, output: 5 },
+  { provider: "anthropic", prefix: "claude-3-5-haiku", input: 0.8, output: 4 },
+  { provider: "gemini", prefix: "gemini-2.5-pro", input: 1.25, output: 10 },
+  { provider: "gemini", prefix: "gemini-2.5-flash-lite", input: 0.1, output: 0.4 },
+  { provider: "gemini", prefix: "gemini-2.5-flash", input: 0.3, output: 2.5 },
+  { provider: "gemini", prefix: "gemini-2.0-flash", input: 0.1, output: 0.4 },
+];
+
+export function estimateCost(provider: LlmProviderId, model: string, usage: TokenUsage): number | undefined {
+  if (usage.cost !== undefined) return usage.cost;
+  const price = MODEL_PRICES.find((entry) => entry.provider === provider && model.startsWith(entry.prefix));
+  if (!price) return undefined;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
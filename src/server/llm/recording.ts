@@ -0,0 +1,70 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createMockProvider, toRecordedRequest, type LlmExchange, type MockLlmProvider } from "./mock";
+import type { LlmProvider } from "./types";
+
+/**
+ * Session recording for offline replay. A recording provider forwards to the
+ * real one and appends every request/response pair to an `LlmSession`, which is
+ * saved as a JSON fixture and later fed back through `createReplayProvider`.
+ */
+
+export interface LlmSession {
+  version: 1;
+  recordedAt: string;
+  /** Codegen input with API keys and base URLs removed, so the run can be repeated. */
+  input?: Record<string, unknown>;
+  exchanges: LlmExchange[];
+}
+
+export function createLlmSession(input?: Record<string, unknown>): LlmSession {
+  return { version: 1, recordedAt: new Date().toISOString(), input, exchanges: [] };
+}
+
+export function createRecordingProvider(inner: LlmProvider, session: LlmSession): LlmProvider {
+  return {
+    id: inner.id,
+
+    async complete(request) {
+      const response = await inner.complete(request);
+      session.exchanges.push({
+        kind: "complete",
+        request: toRecordedRequest(request),
+        response: structuredClone(response),
+      });
+      return response;
+    },
+
+    async stream(request, onDelta) {
+      const deltas: string[] = [];
+      const result = await inner.stream(request, async (delta) => {
+        deltas.push(delta);
+        await onDelta(delta);
+      });
+      session.exchanges.push({
+        kind: "stream",
+        request: toRecordedRequest(request),
+        deltas,
+        ...(result.usage ? { usage: result.usage } : {}),
+      });
+      return result;
+    },
+  };
+}
+
+export function createReplayProvider(session: LlmSession): MockLlmProvider {
+  return createMockProvider(session.exchanges);
+}
+
+export async function saveLlmSession(filePath: string, session: LlmSession) {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, `${JSON.stringify(session, null, 2)}\n`, "utf8");
+}
+
+export async function loadLlmSession(filePath: string): Promise<LlmSession> {
+  const session = JSON.parse(await readFile(filePath, "utf8")) as LlmSession;
+  if (session.version !== 1 || !Array.isArray(session.exchanges)) {
+    throw new Error(`Unsupported LLM session file: ${filePath}`);
+  }
+  return session;
+}
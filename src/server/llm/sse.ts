@@ -0,0 +1,49 @@
+/**
+ * Reads a server-sent-events body and hands each event's joined `data:` payload
+ * to `onData`. Returning `true` from `onData` stops reading (e.g. on `[DONE]`).
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => Promise<boolean | void> | boolean | void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleEvent = async (eventBlock: string) => {
+    const dataLines = eventBlock
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trim());
+
+    if (dataLines.length === 0) return false;
+    return (await onData(dataLines.join("\n"))) === true;
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() || "";
+
+    for (const eventBlock of events) {
+      if (await handleEvent(eventBlock)) {
+        await reader.cancel();
+        return;
+      }
+    }
+  }
+
+  if (buffer) {
+    await handleEvent(buffer);
+  }
+}
+
+export async function assertOk(response: Response, label: string) {
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`${label} API error: ${response.status} - ${error}`);
+  }
+}
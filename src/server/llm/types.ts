@@ -0,0 +1,73 @@
+import type { LlmProviderId, ReasoningEffort } from "@/lib/llm-providers";
+import type { TokenUsage } from "@/lib/token-usage";
+
+/**
+ * Provider-neutral chat types. The agent loop speaks the OpenAI chat-completions
+ * shape; each provider translates to and from its native API.
+ */
+
+export type LlmContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface LlmToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content?: string | LlmContentPart[];
+  tool_calls?: LlmToolCall[];
+  tool_call_id?: string;
+  /**
+   * Native assistant content (thinking blocks, thought signatures) that the
+   * originating provider requires verbatim on the next turn.
+   */
+  providerContent?: { provider: LlmProviderId; parts: unknown[] };
+}
+
+export interface LlmToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+export interface LlmRequest {
+  model: string;
+  messages: LlmMessage[];
+  tools: LlmToolDefinition[];
+  toolChoice?: "auto" | "none";
+  reasoning?: { effort: ReasoningEffort };
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+  message?: LlmMessage & { role: "assistant" };
+  /** `cost` is only set when the provider reports it (OpenRouter); see `pricing.ts`. */
+  usage?: TokenUsage;
+}
+
+export interface LlmStreamResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface LlmProvider {
+  /** `mock` is the scripted test provider, see `mock.ts`. */
+  id: LlmProviderId | "mock";
+  complete(request: LlmRequest): Promise<LlmResponse>;
+  /** Streams assistant text (tools disabled or ignored) and resolves with the full text. */
+  stream(request: LlmRequest, onDelta: (delta: string) => Promise<void> | void): Promise<LlmStreamResult>;
+}
+
+export interface LlmProviderConfig {
+  apiKey: string;
+  baseUrl?: string;
+}
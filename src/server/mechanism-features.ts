@@ -0,0 +1,289 @@
+import { calculateMeasurements } from "@/lib/geometry-analyzer";
+import { buildConstraintGraphFromSpec, type GraphConstraint } from "@/lib/kinematics/constraints";
+import { detectPitchFeatures, type DetectionResult, type GearParams, type RackParams } from "@/lib/kinematics/detect";
+import { validateMechanismSpec } from "@/lib/kinematics/registry";
+import { sampleConstraintResiduals, solveMechanismRom } from "@/lib/kinematics/solver";
+import type {
+  KinematicConstraint,
+  MechanismFeature,
+  MechanismPart,
+  MechanismSpec,
+  PartMotion,
+  Vec3,
+} from "@/lib/kinematics/types";
+import { resolveGeometryReference, type JscadEvaluation } from "./jscad-runtime";
+
+/**
+ * Pitch features and range-of-motion solving for the agent's
+ * `measure_geometry`, `check_alignment` and `solve_mechanism_rom` tools.
+ */
+
+type OkEvaluation = Extract<JscadEvaluation, { ok: true }>;
+
+export interface FeatureParams {
+  gear?: { module?: number; teeth?: number };
+  rack?: { module?: number };
+}
+
+export type PartFeatures =
+  | { ok: true; label: string; indices: number[]; detection: DetectionResult }
+  | { ok: false; error: string; availableReferences: string[] };
+
+const DEFAULT_DOMAINS: Record<PartMotion, [number, number]> = {
+  rotation: [-720, 720],
+  translation: [-1000, 1000],
+  fixed: [0, 0],
+};
+const DEFAULT_ROM_SAMPLES = 11;
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+/**
+ * Features for one geometry reference: library metadata, then the given
+ * params (centered on the part's bounding box), then polygon detection.
+ */
+export async function resolvePartFeatures(
+  code: string,
+  evaluation: OkEvaluation,
+  reference: string,
+  params: FeatureParams = {}
+): Promise<PartFeatures> {
+  const part = resolveGeometryReference(code, evaluation.geometries, reference);
+  if (!part.ok) return part;
+
+  const partIndex = part.indices.length === 1 ? part.indices[0] : undefined;
+  const detectionParams: Array<GearParams | RackParams> = [];
+  if (params.gear?.module && params.gear.teeth) {
+    const measured = await calculateMeasurements(part.geometries);
+    detectionParams.push({
+      kind: "gear",
+      partIndex,
+      module: params.gear.module,
+      teeth: params.gear.teeth,
+      center: measured?.boundingBox.center as Vec3 | undefined,
+    });
+  }
+  if (params.rack?.module) {
+    detectionParams.push({ kind: "rack", partIndex, module: params.rack.module });
+  }
+
+  const detection = detectPitchFeatures({
+    geometries: evaluation.geometries,
+    metadata: evaluation.features.filter(
+      (feature) => feature.partIndex !== undefined && part.indices.includes(feature.partIndex)
+    ),
+    params: detectionParams,
+    partIndices: part.indices,
+  });
+  return { ok: true, label: part.label, indices: part.indices, detection };
+}
+
+/** The `features[]`/`featureSource`/`featureConfidence` block shared by the tools. */
+export function describeFeatures(detection: DetectionResult) {
+  return {
+    features: detection.features,
+    featureSource: detection.features.length > 0 ? detection.source : null,
+    featureConfidence: detection.confidence,
+    ...(detection.warnings.length > 0 ? { featureWarnings: detection.warnings } : {}),
+  };
+}
+
+function describeResidual(constraint: GraphConstraint) {
+  const residual = constraint.residual(0);
+  return {
+    constraint: constraint.id,
+    type: constraint.type,
+    ...(constraint.measure
+      ? { expected: round(constraint.measure.expected), actual: round(constraint.measure.actual) }
+      : {}),
+    residual: round(residual),
+    threshold: round(constraint.tolerance),
+    passed: residual <= constraint.tolerance,
+  };
+}
+
+function primaryFeature(features: MechanismFeature[]) {
+  return features.find((feature) => feature.type === "pitch_circle") ?? features.find((feature) => feature.type === "pitch_line");
+}
+
+/**
+ * Pitch-mesh residuals between two parts from their features. With
+ * `romSamples`, the gear is treated as the input and the mesh's range of
+ * motion is solved and sampled as well.
+ */
+export function checkPitchMesh(
+  a: { id: string; features: MechanismFeature[] },
+  b: { id: string; features: MechanismFeature[] },
+  options: { backlash?: number; romSamples?: number } = {}
+) {
+  const featureA = primaryFeature(a.features);
+  const featureB = primaryFeature(b.features);
+  if (!featureA || !featureB) {
+    const missing = [!featureA && a.id, !featureB && b.id].filter(Boolean).join(" and ");
+    return { success: false as const, error: `No pitch feature found for ${missing}.` };
+  }
+  if (featureA.type === "pitch_line" && featureB.type === "pitch_line") {
+    return { success: false as const, error: "Two racks cannot mesh directly - they need an intermediate gear." };
+  }
+
+  const [gear, other] = featureA.type === "pitch_circle" ? [a, b] : [b, a];
+  const otherFeature = featureA.type === "pitch_circle" ? featureB : featureA;
+  const constraint: KinematicConstraint =
+    otherFeature.type === "pitch_circle"
+      ? { type: "gear_gear", id: "mesh", a: gear.id, b: other.id, backlash: options.backlash }
+      : { type: "gear_rack", id: "mesh", gear: gear.id, rack: other.id, backlash: options.backlash };
+  const spec: MechanismSpec = {
+    name: `${a.id}-${b.id}`,
+    input: { part: gear.id, domain: DEFAULT_DOMAINS.rotation },
+    parts: [
+      { id: gear.id, motion: "rotation", features: [primaryFeature(gear.features)!] },
+      {
+        id: other.id,
+        motion: otherFeature.type === "pitch_circle" ? "rotation" : "translation",
+        features: [otherFeature],
+      },
+    ],
+    constraints: [constraint],
+  };
+
+  const graph = buildConstraintGraphFromSpec(spec);
+  const residuals = graph.constraints.filter((candidate) => candidate.measure).map(describeResidual);
+  const result: Record<string, unknown> = {
+    success: true,
+    meshType: constraint.type === "gear_gear" ? "gear-to-gear" : "gear-to-rack",
+    residuals,
+    passed: residuals.every((residual) => residual.passed),
+    diagnostics: graph.diagnostics,
+  };
+  if (options.romSamples) {
+    const solution = solveMechanismRom(spec);
+    result.rom = solution;
+    result.romSampleReport = sampleConstraintResiduals(graph.constraints, solution, options.romSamples);
+  }
+  return result;
+}
+
+export interface SolveRomToolArgs {
+  parts?: Array<{
+    id?: string;
+    geometry?: string;
+    motion?: PartMotion;
+    gearParams?: FeatureParams["gear"];
+    rackParams?: FeatureParams["rack"];
+  }>;
+  input?: { part?: string; domain?: [number, number] };
+  constraints?: Array<Record<string, unknown>>;
+  samples?: number;
+}
+
+function toConstraint(raw: Record<string, unknown>, index: number): KinematicConstraint | string {
+  const id = typeof raw.id === "string" && raw.id ? raw.id : `${raw.type}-${index + 1}`;
+  const backlash = typeof raw.backlash === "number" ? raw.backlash : undefined;
+  switch (raw.type) {
+    case "gear_gear":
+      return { type: "gear_gear", id, a: String(raw.a), b: String(raw.b), backlash };
+    case "gear_rack":
+      return { type: "gear_rack", id, gear: String(raw.gear), rack: String(raw.rack), backlash };
+    case "angle_limit":
+    case "travel_limit":
+      if (typeof raw.min !== "number" || typeof raw.max !== "number") {
+        return `Constraint "${id}" needs numeric min and max.`;
+      }
+      return { type: raw.type, id, part: String(raw.part), min: raw.min, max: raw.max };
+    default:
+      return `Constraint ${index + 1} has unsupported type "${String(raw.type)}".`;
+  }
+}
+
+/** Backs the `solve_mechanism_rom` tool. Never throws; problems come back as `success: false`. */
+export async function solveMechanismRomTool(code: string, evaluation: OkEvaluation, args: SolveRomToolArgs) {
+  const rawParts = args.parts ?? [];
+  if (rawParts.length === 0) {
+    return { success: false, error: "Provide parts: [{ id, geometry, motion }]." };
+  }
+
+  const parts: MechanismPart[] = [];
+  const partReports: Array<Record<string, unknown>> = [];
+  for (const raw of rawParts) {
+    const id = raw.id || raw.geometry;
+    if (!id) return { success: false, error: "Every part needs an id or a geometry reference." };
+    const resolved = await resolvePartFeatures(code, evaluation, raw.geometry ?? id, {
+      gear: raw.gearParams,
+      rack: raw.rackParams,
+    });
+    if (!resolved.ok) return { success: false, part: id, ...resolved };
+
+    const motion = raw.motion ?? (resolved.detection.features[0]?.type === "pitch_line" ? "translation" : "rotation");
+    parts.push({
+      id,
+      motion,
+      features: resolved.detection.features,
+      ...(resolved.indices.length === 1 ? { partIndex: resolved.indices[0] } : {}),
+    });
+    partReports.push({ id, geometry: resolved.label, motion, ...describeFeatures(resolved.detection) });
+  }
+
+  const constraints: KinematicConstraint[] = [];
+  for (const [index, raw] of (args.constraints ?? []).entries()) {
+    const constraint = toConstraint(raw, index);
+    if (typeof constraint === "string") return { success: false, error: constraint };
+    constraints.push(constraint);
+  }
+
+  const inputPart = parts.find((part) => part.id === args.input?.part) ?? parts[0];
+  const spec: MechanismSpec = {
+    name: "agent-mechanism",
+    input: { part: inputPart.id, domain: args.input?.domain ?? DEFAULT_DOMAINS[inputPart.motion] },
+    parts,
+    constraints,
+  };
+  const errors = validateMechanismSpec(spec);
+  if (errors.length > 0) return { success: false, error: errors.join(" "), parts: partReports };
+
+  let solution;
+  let graph;
+  try {
+    solution = solveMechanismRom(spec);
+    graph = buildConstraintGraphFromSpec(spec);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error), parts: partReports };
+  }
+
+  const unit = (motion: PartMotion) => (motion === "translation" ? "mm" : "deg");
+  const span = solution.uMax - solution.uMin;
+  const progressMapping = solution.ok
+    ? {
+        input: `${inputPart.id} = ${round(solution.uMin)} + ${round(span)} * progress (${unit(inputPart.motion)})`,
+        parts: Object.fromEntries(
+          parts
+            .filter((part) => part.motion !== "fixed")
+            .map((part) => {
+              const ratio = solution.ratios?.[part.id] ?? 0;
+              return [
+                part.id,
+                `${round(ratio * solution.uMin)} + ${round(ratio * span)} * progress (${unit(part.motion)})`,
+              ];
+            })
+        ),
+      }
+    : undefined;
+
+  return {
+    success: solution.ok,
+    uMin: solution.ok ? round(solution.uMin) : null,
+    uMax: solution.ok ? round(solution.uMax) : null,
+    inputPart: inputPart.id,
+    inputUnit: unit(inputPart.motion),
+    inputDomain: spec.input.domain,
+    activeConstraints: solution.activeConstraints,
+    ...(solution.firstFailingSample ? { firstFailingSample: solution.firstFailingSample } : {}),
+    diagnostics: solution.diagnostics,
+    ratios: solution.ratios,
+    parts: partReports,
+    ...(progressMapping ? { progressMapping } : {}),
+    romSampleReport: sampleConstraintResiduals(graph.constraints, solution, args.samples ?? DEFAULT_ROM_SAMPLES),
+    guidance: solution.ok
+      ? "Drive every part from the single progress parameter with the progressMapping expressions; do not extend motion past uMin/uMax."
+      : "Fix the failing constraint (see firstFailingSample and diagnostics) before animating.",
+  };
+}
@@ -0,0 +1,107 @@
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+/**
+ * Uploaded meshes and drawings for `runCodegen`: listed in the system prompt
+ * and resolved by `require('./assets/...')` during runtime checks.
+ *
+ * The HTTP routes back the accessor with the Convex `assets` table; tests pass
+ * fixed rows.
+ */
+
+export interface ProjectAsset {
+  /** Project path, e.g. "assets/pcb.stl". */
+  path: string;
+  fileName: string;
+  url: string;
+  /** Set for meshes (geom3). */
+  triangleCount?: number;
+  /** Set for drawings (geom2): closed outlines and layer names. */
+  outlineCount?: number;
+  layers?: string[];
+  /** 3D for meshes, 2D for drawings. */
+  bounds?: { min: number[]; max: number[] };
+}
+
+export interface ProjectAssetsAccessor {
+  listAssets(): Promise<ProjectAsset[]>;
+}
+
+export function createConvexProjectAssets(options: {
+  projectId: string;
+  ownerId: string;
+  convexUrl?: string;
+}): ProjectAssetsAccessor | undefined {
+  const convexUrl = options.convexUrl ?? process.env.NEXT_PUBLIC_CONVEX_URL;
+  if (!convexUrl) return undefined;
+
+  const client = new ConvexHttpClient(convexUrl);
+  let assets: Promise<ProjectAsset[]> | null = null;
+  return {
+    listAssets() {
+      assets ??= client
+        .query(api.assets.list, {
+          projectId: options.projectId as Id<"projects">,
+          ownerId: options.ownerId,
+        })
+        .then((rows) =>
+          rows.flatMap((row) =>
+            row.url
+              ? [
+                  {
+                    path: row.path,
+                    fileName: row.fileName,
+                    url: row.url,
+                    triangleCount: row.triangleCount,
+                    outlineCount: row.outlineCount,
+                    layers: row.layers,
+                    bounds: row.bounds,
+                  },
+                ]
+              : []
+          )
+        );
+      return assets;
+    },
+  };
+}
+
+/** Asset URLs keyed by path, as `evaluateJscadCode` expects them. */
+export function assetUrls(assets: ProjectAsset[]) {
+  return Object.fromEntries(assets.map((asset) => [asset.path, asset.url]));
+}
+
+const round = (value: number) => Number(value.toFixed(2));
+
+function describeAsset(asset: ProjectAsset) {
+  const size = asset.bounds
+    ? `, ${asset.bounds.max.map((max, axis) => round(max - asset.bounds!.min[axis])).join(" × ")} mm, min corner [${asset.bounds.min.map(round).join(", ")}]`
+    : "";
+  const spec = `\`require('./${asset.path}')\``;
+  if (asset.triangleCount === undefined) {
+    const layers = asset.layers?.length ? `; layers: ${asset.layers.map((layer) => `"${layer}"`).join(", ")}` : "";
+    return `- ${spec} — ${asset.fileName} (geom2, ${asset.outlineCount ?? 0} closed outlines${size}${layers})`;
+  }
+  return `- ${spec} — ${asset.fileName} (geom3, ${asset.triangleCount} triangles${size})`;
+}
+
+const MESH_USAGE =
+  "- Meshes (STL/OBJ/3MF) are geom3 solids: translate/rotate them, subtract them to make cutouts, or build enclosures around them.";
+
+const DRAWING_USAGE = `- Drawings (SVG/DXF) are geom2 profiles built from their closed outlines, with holes where outlines nest. Append \`#<layer>\` to load one layer, e.g. \`require('./assets/gasket.dxf#outer')\`.
+- Make parts from drawings with extrudeLinear({ height }, profile), or extrudeRotate({ segments: 64 }, profile) to revolve around Z (profile X is the radius and must stay >= 0, profile Y becomes Z).
+- Drawings keep their file position; center them with transforms.center({ axes: [true, true, false] }, profile) and size them with scale() when a parameter should drive the size.`;
+
+/** System prompt section describing the project's assets. */
+export function describeAssets(assets: ProjectAsset[]) {
+  const hasMeshes = assets.some((asset) => asset.triangleCount !== undefined);
+  const hasDrawings = assets.some((asset) => asset.triangleCount === undefined);
+  return [
+    "## Project Assets",
+    "Uploaded files, in their own coordinates (mm). Assets cannot be edited, only transformed and combined.",
+    ...(hasMeshes ? [MESH_USAGE] : []),
+    ...(hasDrawings ? [DRAWING_USAGE] : []),
+    "",
+    ...assets.map(describeAsset),
+  ].join("\n");
+}
@@ -0,0 +1,39 @@
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { lockFromManifest, type DependencyLock } from "@/lib/dependencies";
+/**
+ * Pinned modules for `runCodegen`, so the agent's runtime checks load the same
+ * library sources as the project's preview. Unpinned modules still load live;
+ * the preview pins them the next time it runs the agent's code.
+ *
+ * The HTTP routes back the accessor with the Convex `dependencies` table; tests
+ * pass a fixed lock.
+ */
+
+export interface ProjectDependenciesAccessor {
+  listDependencies(): Promise<DependencyLock>;
+}
+
+export function createConvexProjectDependencies(options: {
+  projectId: string;
+  ownerId: string;
+  convexUrl?: string;
+}): ProjectDependenciesAccessor | undefined {
+  const convexUrl = options.convexUrl ?? process.env.NEXT_PUBLIC_CONVEX_URL;
+  if (!convexUrl) return undefined;
+
+  const client = new ConvexHttpClient(convexUrl);
+  let lock: Promise<DependencyLock> | null = null;
+  return {
+    listDependencies() {
+      lock ??= client
+        .query(api.dependencies.list, {
+          projectId: options.projectId as Id<"projects">,
+          ownerId: options.ownerId,
+        })
+        .then(lockFromManifest);
+      return lock;
+    },
+  };
+}
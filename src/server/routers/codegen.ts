@@ -1,8 +1,69 @@
+import path from "node:path";
 import { z } from "zod";
-import path from "path";
-import { readFile } from "fs/promises";
 import { router, publicProcedure } from "../trpc";
-import { getOpenRouterEndpoint } from "@/lib/openrouter";
+import { parseModelSpec } from "@/lib/llm-providers";
+import { addUsage, EMPTY_USAGE, type CodegenUsage, type TokenUsage } from "@/lib/token-usage";
+import {
+  analyzePrintability,
+  calculateMeasurements,
+  measureClearance,
+  measureIntersection,
+} from "@/lib/geometry-analyzer";
+import { summarizeDetection } from "@/lib/kinematics/detect";
+import { MAIN_FILE, normalizeModulePath, type ProjectFiles } from "@/lib/project-files";
+import type { DependencyLock } from "@/lib/dependencies";
+import {
+  evaluateJscadCode,
+  resolveGeometryReference,
+  type JscadEvaluation,
+} from "../jscad-runtime";
+import {
+  analyzeComponents,
+  extractComponent,
+  inlineComponent,
+  mergeComponents,
+  moveComponent,
+  type ComponentTransformResult,
+  type MergeOperation,
+} from "../component-transforms";
+import {
+  createLlmSession,
+  createRecordingProvider,
+  resolveLlmProvider,
+  saveLlmSession,
+  type LlmContentPart,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmToolDefinition,
+  type ResolvedLlm,
+} from "../llm";
+import { estimateCost } from "../llm/pricing";
+import {
+  checkPitchMesh,
+  describeFeatures,
+  resolvePartFeatures,
+  solveMechanismRomTool,
+  type SolveRomToolArgs,
+} from "../mechanism-features";
+import {
+  assetUrls,
+  createConvexProjectAssets,
+  describeAssets,
+  type ProjectAsset,
+  type ProjectAssetsAccessor,
+} from "../project-assets";
+import { createConvexProjectDependencies, type ProjectDependenciesAccessor } from "../project-dependencies";
+import {
+  assertWithinBudget,
+  createConvexUsageBudget,
+  type UsageBudgetAccessor,
+} from "../usage-budget";
+import {
+  createConvexVersionHistory,
+  diffVersions,
+  resolveVersionReference,
+  type VersionHistoryAccessor,
+} from "../version-history";
 
 export const generateInputSchema = z.object({
   prompt: z.string(),
@@ -21,14 +82,23 @@ export const generateInputSchema = z.object({
     })
     .optional(),
   currentCode: z.string().optional(),
+  /** The project's files besides main.jscad, by path. */
+  files: z.record(z.string(), z.string()).optional(),
   projectContext: z
     .object({
       projectName: z.string().optional(),
+      projectId: z.string().optional(),
+      ownerId: z.string().optional(),
       previousPrompts: z.array(z.string()).optional(),
       parameters: z.record(z.string(), z.unknown()).optional(),
     })
     .optional(),
   openRouterApiKey: z.string().optional(),
+  /** Key for the provider selected by `model`; falls back to openRouterApiKey for OpenRouter. */
+  apiKey: z.string().optional(),
+  /** Base URL of an OpenAI-compatible server (openai-compatible provider only). */
+  baseUrl: z.string().optional(),
+  /** `<provider>:<model>[|reasoning=low|high]`; bare ids are OpenRouter models. */
   model: z.string().default("google/gemini-3-flash-preview|reasoning=high"),
   maxIterations: z.number().default(5),
 });
@@ -46,34 +116,19 @@ export const codegenRouter = router({
    */
   generate: publicProcedure
     .input(generateInputSchema)
-    .mutation(async ({ input }) => runCodegen(input)),
+    .mutation(async ({ ctx, input, signal }) => runCodegen(input, undefined, { signal, ownerId: ctx.userId })),
 });
 
 // --- Types ---
 
-interface OpenRouterMessage {
-  role: "system" | "user" | "assistant" | "tool";
-  content?: string | OpenRouterContentPart[];
-  tool_calls?: Array<{
-    id: string;
-    type: "function";
-    function: { name: string; arguments: string };
-  }>;
-  tool_call_id?: string;
-}
-
-type OpenRouterContentPart =
-  | { type: "text"; text: string }
-  | { type: "image_url"; image_url: { url: string } };
-
 const MARKDOWN_IMAGE_PATTERN = /!\[([^\]]*)\]\(([^)]+)\)/g;
 const MAX_INLINE_PROMPT_IMAGES = 4;
 
 function buildUserPromptContent(
   prompt: string,
   promptImages?: Array<{ url: string; altText?: string }>
-): string | OpenRouterContentPart[] {
-  const parts: OpenRouterContentPart[] = [];
+): string | LlmContentPart[] {
+  const parts: LlmContentPart[] = [];
   let lastIndex = 0;
   let imageCount = 0;
 
@@ -149,6 +204,13 @@ interface ToolRuntimeContext {
     url: string;
     altText: string;
   };
+  evaluate: (code: string) => Promise<JscadEvaluation>;
+  /** The project's other files as the agent has left them so far; evaluations resolve requires against these. */
+  files: ProjectFiles;
+  /** Asset URLs by path and the dependency lock, for evaluations of stored versions. */
+  assets: Record<string, string>;
+  dependencies?: DependencyLock;
+  versionHistory?: VersionHistoryAccessor;
 }
 
 interface NormalizedPose {
@@ -262,19 +324,6 @@ function pickDominantAxis(
   };
 }
 
-function parseModelSpec(model: string | undefined) {
-  // Always return a defined model string
-  const fallback = "google/gemini-3-flash-preview|reasoning=high";
-  if (!model) return { model: fallback, reasoning: undefined } as const;
-  const match = model.match(/\|reasoning=(low|high)$/);
-  if (!match) {
-    return { model: model, reasoning: undefined } as const;
-  }
-  const effort = match[1] as "low" | "high";
-  const baseModel = model.replace(/\|reasoning=(low|high)$/, "");
-  return { model: baseModel, reasoning: { effort } } as const;
-}
-
 function containsCodeLikeContent(content?: string) {
   if (!content) return false;
   return (
@@ -293,9 +342,28 @@ interface ToolCallRecord {
 
 export interface GenerateResult {
   code: string;
+  files: ProjectFiles;
   toolResults: ToolCallRecord[];
   iterations: number;
   assistantMessage?: string;
+  usage: CodegenUsage;
+}
+
+export interface RunCodegenOptions {
+  /** Defaults to the project's Convex version history when projectId/ownerId are given. */
+  versionHistory?: VersionHistoryAccessor;
+  /** Aborting stops the tool loop and in-flight model requests; the run ends with a `cancelled` event. */
+  signal?: AbortSignal;
+  /** Replaces the provider picked from `input.model`, e.g. a mock or replay provider in tests. */
+  llm?: LlmProvider;
+  /** Signed-in user resolved by the route; budgets and usage totals are keyed by it, never by the input. */
+  ownerId?: string | null;
+  /** Defaults to the signed-in owner's Convex budget when `ownerId` is given. */
+  usageBudget?: UsageBudgetAccessor;
+  /** Defaults to the project's Convex assets when projectId/ownerId are given. */
+  projectAssets?: ProjectAssetsAccessor;
+  /** Defaults to the project's Convex dependency manifest when projectId/ownerId are given. */
+  projectDependencies?: ProjectDependenciesAccessor;
 }
 
 export type GenerateStreamEvent =
@@ -325,49 +393,160 @@ export type GenerateStreamEvent =
       warnings: number;
       info: number;
     }
+  | { type: "usage"; iteration: number; usage: TokenUsage; total: TokenUsage }
   | { type: "assistant_message_delta"; delta: string }
   | { type: "assistant_message"; content: string }
-  | { type: "done"; payload: GenerateResult };
+  | { type: "done"; payload: GenerateResult }
+  | { type: "cancelled"; iteration: number; payload: GenerateResult };
 
 export async function runCodegen(
   input: GenerateInput,
-  onEvent?: (event: GenerateStreamEvent) => Promise<void> | void
+  onEvent?: (event: GenerateStreamEvent) => Promise<void> | void,
+  options: RunCodegenOptions = {}
+): Promise<GenerateResult> {
+  // Kept up to date by the loop so a cancelled run still reports partial work.
+  const progress: GenerateResult = {
+    code: input.currentCode || "",
+    files: input.files ?? {},
+    toolResults: [],
+    iterations: 0,
+    usage: { total: EMPTY_USAGE, iterations: [] },
+  };
+  const llm = resolveCodegenLlm(input, options);
+  const usageBudget =
+    options.usageBudget ??
+    (options.ownerId
+      ? createConvexUsageBudget({ ownerId: options.ownerId, projectId: input.projectContext?.projectId })
+      : undefined);
+  // LLM_RECORD_DIR saves each run's request/response pairs as a replayable fixture.
+  const recordDir = process.env.LLM_RECORD_DIR?.trim();
+  const { openRouterApiKey: _openRouterApiKey, apiKey: _apiKey, baseUrl: _baseUrl, ...recordedInput } = input;
+  const session = recordDir ? createLlmSession(recordedInput) : undefined;
+  if (session) {
+    llm.client = createRecordingProvider(llm.client, session);
+  }
+
+  try {
+    return await runCodegenLoop(input, onEvent, { ...options, usageBudget }, progress, llm);
+  } catch (error) {
+    if (!options.signal?.aborted) throw error;
+    await onEvent?.({ type: "cancelled", iteration: progress.iterations, payload: progress });
+    return progress;
+  } finally {
+    // Failed and cancelled runs are charged for the requests they made too.
+    const { total } = progress.usage;
+    if (total.promptTokens + total.completionTokens > 0) {
+      await usageBudget?.recordUsage?.(total).catch((error) => {
+        console.error("Failed to record usage:", error);
+      });
+    }
+    if (recordDir && session) {
+      const fileName = `${session.recordedAt.replace(/[:.]/g, "-")}.json`;
+      await saveLlmSession(path.join(recordDir, fileName), session).catch((error) => {
+        console.warn("Failed to save LLM session recording:", error);
+      });
+    }
+  }
+}
+
+function resolveCodegenLlm(input: GenerateInput, options: RunCodegenOptions): ResolvedLlm {
+  if (options.llm) {
+    return { ...parseModelSpec(input.model), client: options.llm };
+  }
+  return resolveLlmProvider({
+    model: input.model,
+    // openRouterApiKey predates provider selection and only applies to OpenRouter.
+    apiKey:
+      input.apiKey ||
+      (parseModelSpec(input.model).provider === "openrouter" ? input.openRouterApiKey : undefined),
+    baseUrl: input.baseUrl,
+  });
+}
+
+async function runCodegenLoop(
+  input: GenerateInput,
+  onEvent: ((event: GenerateStreamEvent) => Promise<void> | void) | undefined,
+  options: RunCodegenOptions,
+  progress: GenerateResult,
+  llm: ResolvedLlm
 ): Promise<GenerateResult> {
+  const { signal } = options;
   const {
     prompt,
     promptImages,
     viewportSnapshot,
     currentCode,
     projectContext,
-    openRouterApiKey,
-    model,
     maxIterations,
   } = input;
 
-  const rawApiKey =
-    openRouterApiKey?.trim() || process.env.OPENROUTER_API_KEY?.trim();
-  // Allow inference if SIGNED_OUT_INFERENCE is set, even without API key
-  const signedOutInference = process.env.SIGNED_OUT_INFERENCE === "1";
-  if (!rawApiKey && !signedOutInference) {
-    throw new Error(
-      "OpenRouter API key is missing. Please configure it in Settings or on the server, or set SIGNED_OUT_INFERENCE=1 to allow inference when signed out."
-    );
-  }
-  const apiKey = rawApiKey ?? "";
-
-  const { model: resolvedModel, reasoning } = parseModelSpec(model);
-
-  const tools = buildToolDefinitions();
-  const systemPrompt = buildSystemPrompt(currentCode, projectContext);
+  const projectAssets =
+    options.projectAssets ??
+    (projectContext?.projectId && projectContext.ownerId
+      ? createConvexProjectAssets({
+          projectId: projectContext.projectId,
+          ownerId: projectContext.ownerId,
+        })
+      : undefined);
+  const assets =
+    (await projectAssets?.listAssets().catch((error) => {
+      console.warn("Failed to load project assets:", error);
+      return undefined;
+    })) ?? [];
+  const projectDependencies =
+    options.projectDependencies ??
+    (projectContext?.projectId && projectContext.ownerId
+      ? createConvexProjectDependencies({
+          projectId: projectContext.projectId,
+          ownerId: projectContext.ownerId,
+        })
+      : undefined);
+  const dependencies = await projectDependencies?.listDependencies().catch((error) => {
+    console.warn("Failed to load project dependencies:", error);
+    return undefined;
+  });
+
+  const tools = buildToolDefinitions() as LlmToolDefinition[];
+  const systemPrompt = buildSystemPrompt(currentCode, { ...projectContext, assets, files: progress.files });
   const userPromptContent = buildUserPromptContent(prompt, promptImages);
 
-  const messages: OpenRouterMessage[] = [
+  const messages: LlmMessage[] = [
     { role: "system", content: systemPrompt },
     { role: "user", content: userPromptContent },
   ];
 
-  const toolResults: ToolCallRecord[] = [];
-  const runtimeContext: ToolRuntimeContext = {};
+  const toolResults = progress.toolResults;
+  // Evaluations are cached per source so analysis tools reuse the geometry
+  // produced by the last write_code/edit_code runtime check.
+  const evaluationCache = new Map<string, Promise<JscadEvaluation>>();
+  const runtimeContext: ToolRuntimeContext = {
+    evaluate: (code) => {
+      const { files } = runtimeContext;
+      const key = JSON.stringify([code, files]);
+      let evaluation = evaluationCache.get(key);
+      if (!evaluation) {
+        evaluation = evaluateJscadCode(code, {
+          parameters: projectContext?.parameters,
+          assets: runtimeContext.assets,
+          files,
+          dependencies,
+        });
+        evaluationCache.set(key, evaluation);
+      }
+      return evaluation;
+    },
+    files: progress.files,
+    assets: assetUrls(assets),
+    dependencies,
+    versionHistory:
+      options.versionHistory ??
+      (projectContext?.projectId && projectContext.ownerId
+        ? createConvexVersionHistory({
+            projectId: projectContext.projectId,
+            ownerId: projectContext.ownerId,
+          })
+        : undefined),
+  };
   if (viewportSnapshot?.url && isSupportedImageUrl(viewportSnapshot.url.trim())) {
     runtimeContext.viewportSnapshot = {
       url: viewportSnapshot.url.trim(),
@@ -379,19 +558,53 @@ export async function runCodegen(
   let pendingRuntimeError: string | null = null;
   let pendingDiagnosticsErrors = 0;
 
+  const { usageBudget } = options;
+  // Without a readable status the run stops: the limit must hold before any model request.
+  const checkBudget = async () => {
+    if (!usageBudget) return;
+    const status = await usageBudget.getStatus().catch((error: unknown) => {
+      throw new Error(
+        `Could not check the monthly budget (${error instanceof Error ? error.message : String(error)}); try again.`
+      );
+    });
+    assertWithinBudget(status, progress.usage.total.cost ?? 0);
+  };
+  const trackUsage = async (reported: TokenUsage | undefined) => {
+    if (!reported) return;
+    const cost = estimateCost(llm.provider, llm.model, reported);
+    const usage: TokenUsage = { ...reported, ...(cost === undefined ? {} : { cost }) };
+    const { total, iterations: perIteration } = progress.usage;
+    progress.usage.total = addUsage(total, usage);
+
+    const current = perIteration.find((entry) => entry.iteration === iterations);
+    if (current) {
+      Object.assign(current, addUsage(current, usage), { requests: current.requests + 1 });
+    } else {
+      perIteration.push({ ...usage, iteration: iterations, requests: 1 });
+    }
+    await onEvent?.({ type: "usage", iteration: iterations, usage, total: progress.usage.total });
+  };
+
   while (iterations < maxIterations) {
+    signal?.throwIfAborted();
     iterations++;
+    progress.iterations = iterations;
     await onEvent?.({ type: "iteration_started", iteration: iterations });
 
-    const response = await callOpenRouter({
-      apiKey,
-      model: String(resolvedModel ?? "google/gemini-3-flash-preview|reasoning=high"),
+    await checkBudget();
+    const response = await llm.client.complete({
+      model: llm.model,
       messages,
       tools,
-      reasoning,
+      reasoning: llm.reasoning,
+      temperature: LLM_TEMPERATURE,
+      maxTokens: LLM_MAX_TOKENS,
+      signal,
     });
 
-    const assistantMessage = response.choices[0]?.message;
+    await trackUsage(response.usage);
+
+    const assistantMessage = response.message;
     if (!assistantMessage) break;
 
     messages.push(assistantMessage);
@@ -428,6 +641,7 @@ export async function runCodegen(
 
     const total = assistantMessage.tool_calls.length;
     for (const [index, toolCall] of assistantMessage.tool_calls.entries()) {
+      signal?.throwIfAborted();
       let args: Record<string, unknown> = {};
       let parseError: string | null = null;
       try {
@@ -473,18 +687,24 @@ export async function runCodegen(
         continue;
       }
 
-      const result = executeToolCall(toolCall.function.name, args, finalCode, runtimeContext);
+      const result = await executeToolCall(toolCall.function.name, args, finalCode, runtimeContext);
 
       if (result.updatedCode !== undefined) {
         finalCode = result.updatedCode;
+        progress.code = finalCode;
+      }
+      if (result.updatedFiles !== undefined) {
+        runtimeContext.files = result.updatedFiles;
+        progress.files = result.updatedFiles;
       }
 
       let toolOutput = result.output;
        if (
          toolCall.function.name === "edit_code" ||
-         toolCall.function.name === "write_code"
+         toolCall.function.name === "write_code" ||
+         (toolCall.function.name === "split_components" && result.updatedCode !== undefined)
        ) {
-         const runtime = await runJscadRuntime(finalCode);
+         const runtime = summarizeRuntime(await runtimeContext.evaluate(finalCode));
          pendingRuntimeError = runtime.ok ? null : runtime.error || "Unknown error";
          if (toolOutput && typeof toolOutput === "object") {
            toolOutput = { ...toolOutput, runtime };
@@ -586,26 +806,31 @@ export async function runCodegen(
 
   const payload: GenerateResult = {
     code: finalCode,
+    files: runtimeContext.files,
     toolResults,
     iterations,
     assistantMessage: undefined,
+    usage: progress.usage,
   };
 
-  const streamFinalAssistant = async (messagesForFinal: OpenRouterMessage[]) => {
-    let streamedText = "";
-    streamedText = await callOpenRouterStream(
+  const streamFinalAssistant = async (messagesForFinal: LlmMessage[]) => {
+    await checkBudget();
+    const { text: streamedText, usage } = await llm.client.stream(
       {
-        apiKey,
-      model: String(resolvedModel ?? "google/gemini-3-flash-preview|reasoning=high"),
+        model: llm.model,
         messages: messagesForFinal,
         tools,
         toolChoice: "none",
-        reasoning,
+        reasoning: llm.reasoning,
+        temperature: LLM_TEMPERATURE,
+        maxTokens: LLM_MAX_TOKENS,
+        signal,
       },
       async (delta) => {
         await onEvent?.({ type: "assistant_message_delta", delta });
       }
     );
+    await trackUsage(usage);
 
     if (streamedText) {
       await onEvent?.({ type: "assistant_message", content: streamedText });
@@ -678,6 +903,7 @@ export async function runCodegen(
 interface ToolResult {
   output: unknown;
   updatedCode?: string;
+  updatedFiles?: ProjectFiles;
 }
 
 interface DiagnosticItem {
@@ -689,147 +915,10 @@ interface DiagnosticItem {
   code: string;
 }
 
-// --- OpenRouter API ---
-
-const OPENROUTER_CHAT_URL = getOpenRouterEndpoint("/api/v1/chat/completions");
-const OPENROUTER_MAX_TOKENS = Number(process.env.OPENROUTER_MAX_TOKENS ?? "4096");
-
-async function callOpenRouter(params: {
-  apiKey: string;
-  model: string;
-  messages: OpenRouterMessage[];
-  tools: unknown[];
-  toolChoice?: "auto" | "none";
-  reasoning?: { effort: "low" | "high" };
-}) {
-  const response = await fetch(
-    OPENROUTER_CHAT_URL,
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${params.apiKey}`,
-        "Content-Type": "application/json",
-        "HTTP-Referer": "https://openmech.app",
-        "X-Title": "OpenMech",
-      },
-      body: JSON.stringify({
-        model: params.model,
-        messages: params.messages,
-        tools: params.tools,
-        tool_choice: params.toolChoice ?? "auto",
-        provider: { sort: "price" },
-        ...(params.reasoning ? { reasoning: params.reasoning } : {}),
-        temperature: 0.3,
-        max_tokens: OPENROUTER_MAX_TOKENS,
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} - ${error}`);
-  }
+// --- Model Settings ---
 
-  return response.json();
-}
-
-async function callOpenRouterStream(
-  params: {
-    apiKey: string;
-    model: string;
-    messages: OpenRouterMessage[];
-    tools: unknown[];
-    toolChoice?: "auto" | "none";
-    reasoning?: { effort: "low" | "high" };
-  },
-  onDelta: (delta: string) => Promise<void> | void
-) {
-  const response = await fetch(
-    OPENROUTER_CHAT_URL,
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${params.apiKey}`,
-        "Content-Type": "application/json",
-        "HTTP-Referer": "https://openmech.app",
-        "X-Title": "OpenMech",
-      },
-      body: JSON.stringify({
-        model: params.model,
-        messages: params.messages,
-        tools: params.tools,
-        tool_choice: params.toolChoice ?? "auto",
-        provider: { sort: "price" },
-        ...(params.reasoning ? { reasoning: params.reasoning } : {}),
-        temperature: 0.3,
-        max_tokens: OPENROUTER_MAX_TOKENS,
-        stream: true,
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} - ${error}`);
-  }
-
-  if (!response.body) {
-    throw new Error("OpenRouter streaming response body is empty.");
-  }
-
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
-  let fullText = "";
-  let doneStreaming = false;
-
-  const handleEvent = async (eventBlock: string) => {
-    const dataLines = eventBlock
-      .split(/\r?\n/)
-      .filter((line) => line.startsWith("data:"))
-      .map((line) => line.slice(5).trim());
-
-    if (dataLines.length === 0) return;
-    const data = dataLines.join("\n");
-
-    if (data === "[DONE]") {
-      doneStreaming = true;
-      return;
-    }
-
-    const parsed = JSON.parse(data) as {
-      choices?: Array<{
-        delta?: { content?: string };
-      }>;
-    };
-
-    const delta = parsed.choices?.[0]?.delta?.content;
-    if (delta) {
-      fullText += delta;
-      await onDelta(delta);
-    }
-  };
-
-  while (!doneStreaming) {
-    const { value, done } = await reader.read();
-    if (done) break;
-    buffer += decoder.decode(value, { stream: true });
-
-    const events = buffer.split("\n\n");
-    buffer = events.pop() || "";
-
-    for (const eventBlock of events) {
-      await handleEvent(eventBlock);
-      if (doneStreaming) break;
-    }
-  }
-
-  if (buffer && !doneStreaming) {
-    await handleEvent(buffer);
-  }
-
-  return fullText;
-}
+const LLM_TEMPERATURE = 0.3;
+const LLM_MAX_TOKENS = Number(process.env.OPENROUTER_MAX_TOKENS ?? "4096");
 
 // --- Tool Definitions (OpenAI function calling format) ---
 
@@ -853,10 +942,14 @@ function buildToolDefinitions() {
       function: {
         name: "write_code",
         description:
-          "Write complete JSCAD code. Use this for initial generation or full rewrites.",
+          "Write a complete file. Use this for initial generation, full rewrites, or to create a project module such as lib/fasteners.jscad.",
         parameters: {
           type: "object",
           properties: {
+            path: {
+              type: "string",
+              description: 'Project file to write, e.g. "lib/fasteners.jscad". Defaults to main.jscad.',
+            },
             code: {
               type: "string",
               description: "Complete JSCAD source code",
@@ -879,6 +972,10 @@ function buildToolDefinitions() {
         parameters: {
           type: "object",
           properties: {
+            path: {
+              type: "string",
+              description: "Project file to edit. Defaults to main.jscad.",
+            },
             edits: {
               type: "array",
               items: {
@@ -906,8 +1003,16 @@ function buildToolDefinitions() {
       type: "function",
       function: {
         name: "read_code",
-        description: "Read the current JSCAD code.",
-        parameters: { type: "object", properties: {} },
+        description: "Read the current JSCAD code. Without a path, returns main.jscad and lists the project's other files.",
+        parameters: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: 'Project file to read, e.g. "lib/fasteners.jscad". Defaults to main.jscad.',
+            },
+          },
+        },
       },
     },
     {
@@ -924,20 +1029,28 @@ function buildToolDefinitions() {
       function: {
         name: "check_intersection",
         description:
-          "Check if two named geometries in the JSCAD code intersect and by how much.",
+          "Evaluate the current code and check returned geometries for interpenetration. Reports pairwise intersection volume (mm^3), minimum clearance distance (mm) and the overlapping region. Pass geometryA/geometryB for one pair, geometryA alone to check it against every other part, parts for every pair in a list, or nothing to check every returned geometry against every other.",
         parameters: {
           type: "object",
           properties: {
             geometryA: {
               type: "string",
-              description: "Variable name of the first geometry",
+              description: 'First geometry: a variable named in main()\'s returned array, an index like "main[0]", or "main" for everything',
             },
             geometryB: {
               type: "string",
-              description: "Variable name of the second geometry",
+              description: 'Second geometry: a variable named in main()\'s returned array, an index like "main[1]", or "main" (the default) for every part except geometryA',
+            },
+            parts: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Parts to check pairwise (variable names or indices like "main[2]"). Defaults to every returned geometry.',
+            },
+            minClearance: {
+              type: "number",
+              description: "Required clearance in mm between non-intersecting parts (default 0). Pairs closer than this are flagged.",
             },
           },
-          required: ["geometryA", "geometryB"],
         },
       },
     },
@@ -946,14 +1059,14 @@ function buildToolDefinitions() {
       function: {
         name: "measure_geometry",
         description:
-          "Measure properties of a named geometry (bounding box, volume, surface area, etc.). For gears and racks, can also calculate pitch circle/line for proper meshing alignment.",
+          "Evaluate the current code and measure a returned geometry (bounding box, volume, surface area, etc.). For gears and racks, can also calculate pitch circle/line for proper meshing alignment.",
         parameters: {
           type: "object",
           properties: {
             geometry: {
               type: "string",
               description:
-                'Variable name of the geometry, or "main" for the exported result',
+                'A variable named in main()\'s returned array, an index like "main[0]", or "main" for the whole exported result',
             },
             measurements: {
               type: "array",
@@ -1002,13 +1115,13 @@ function buildToolDefinitions() {
       function: {
         name: "check_printability",
         description:
-          "Analyze the geometry for 3D printing issues (thin walls, overhangs, manifold checks).",
+          "Evaluate the current code and analyze a returned geometry for 3D printing issues (thin walls, overhangs, manifold checks).",
         parameters: {
           type: "object",
           properties: {
             geometry: {
               type: "string",
-              description: "Variable name of the geometry to check",
+              description: 'A variable named in main()\'s returned array, an index like "main[0]", or "main" for everything',
             },
           },
           required: ["geometry"],
@@ -1103,17 +1216,18 @@ function buildToolDefinitions() {
       function: {
         name: "diff_versions",
         description:
-          "Compare two versions of the JSCAD code to see what changed.",
+          "Compare two saved versions (or a version and the working code). Returns a unified diff of the code, changed parameter values, and changed geometry metadata (bounding box dimensions, volume, surface area, polygon count) so regressions like a part growing taller can be explained.",
         parameters: {
           type: "object",
           properties: {
             fromVersion: {
               type: ["number", "string"],
-              description: 'Version number or "previous"',
+              description:
+                'Version number, "latest", or "previous" (newest saved version that differs from the working code)',
             },
             toVersion: {
               type: ["number", "string"],
-              description: 'Version number or "current"',
+              description: 'Version number, "latest", or "current" (the working code, including unsaved edits)',
             },
           },
           required: ["fromVersion", "toVersion"],
@@ -1125,21 +1239,22 @@ function buildToolDefinitions() {
       function: {
         name: "split_components",
         description:
-          "Analyze, extract, or merge components in the JSCAD code.",
+          "Analyze or refactor components in the JSCAD code. analyze lists components with their dependencies; extract moves a variable's expression into a named helper function (locals it reads become parameters); inline replaces calls to a single-return helper with its body and removes it; merge combines components with a boolean operation; move lifts a top-level component (e.g. a helper made by extract) and the helpers and constants it uses into a project module and requires it from main.jscad. Transformations rewrite the code directly and are runtime-checked like edit_code.",
         parameters: {
           type: "object",
           properties: {
             action: {
               type: "string",
-              enum: ["analyze", "extract", "merge"],
+              enum: ["analyze", "extract", "inline", "merge", "move"],
             },
             componentName: {
               type: "string",
-              description: "For extract: name of the component to extract",
+              description: "For extract: name of the component to extract. For move: top-level function or constant to move",
             },
             functionName: {
               type: "string",
-              description: "For extract: name of the new function",
+              description:
+                "For extract: name of the new function (defaults to create<ComponentName>). For inline: helper function to inline",
             },
             parameterize: {
               type: "boolean",
@@ -1160,6 +1275,10 @@ function buildToolDefinitions() {
               type: "string",
               description: "For merge: name of the merged result",
             },
+            path: {
+              type: "string",
+              description: "For move: path of the new module (defaults to lib/<component-name>.jscad)",
+            },
           },
           required: ["action"],
         },
@@ -1283,11 +1402,96 @@ function buildToolDefinitions() {
               enum: ["x", "y"],
               description: "For 'pitch_mesh': axis used for center-distance placement (must match position_relative). Default is 'y'.",
             },
+            backlash: {
+              type: "number",
+              description: "For 'pitch_mesh': extra center distance in mm added to the nominal mesh distance. Default 0.",
+            },
+            romSamples: {
+              type: "number",
+              description: "For 'pitch_mesh': also solve the pair's range of motion and report residuals at this many progress samples.",
+            },
           },
           required: ["geometryA", "geometryB", "checkType"],
         },
       },
     },
+    {
+      type: "function",
+      function: {
+        name: "solve_mechanism_rom",
+        description:
+          "Solve the valid range of motion of a gear/rack mechanism from the pitch features of its parts (library metadata first, then gearParams/rackParams, then detection from polygons). Returns uMin/uMax for the input part, the constraints that bound it, the first failing sample, per-part motion ratios and the expressions that map the normalized progress parameter onto the solved range. Use it instead of inventing travel limits.",
+        parameters: {
+          type: "object",
+          properties: {
+            parts: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string", description: "Part id used by constraints. Defaults to the geometry reference." },
+                  geometry: {
+                    type: "string",
+                    description: 'A variable named in main()\'s returned array or an index like "main[0]"',
+                  },
+                  motion: {
+                    type: "string",
+                    enum: ["rotation", "translation", "fixed"],
+                    description: "Defaults to translation for racks and rotation otherwise.",
+                  },
+                  gearParams: {
+                    type: "object",
+                    properties: { module: { type: "number" }, teeth: { type: "number" } },
+                    description: "Fallback when the part has no library metadata",
+                  },
+                  rackParams: {
+                    type: "object",
+                    properties: { module: { type: "number" } },
+                    description: "Fallback when the part has no library metadata",
+                  },
+                },
+                required: ["geometry"],
+              },
+            },
+            input: {
+              type: "object",
+              properties: {
+                part: { type: "string", description: "Driven part id. Defaults to the first part." },
+                domain: {
+                  type: "array",
+                  items: { type: "number" },
+                  description: "Input range to search, in degrees for rotation or mm for translation. Defaults to [-720, 720] or [-1000, 1000].",
+                },
+              },
+            },
+            constraints: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  type: { type: "string", enum: ["gear_gear", "gear_rack", "angle_limit", "travel_limit"] },
+                  id: { type: "string" },
+                  a: { type: "string", description: "gear_gear: first gear id" },
+                  b: { type: "string", description: "gear_gear: second gear id" },
+                  gear: { type: "string", description: "gear_rack: gear id" },
+                  rack: { type: "string", description: "gear_rack: rack id" },
+                  part: { type: "string", description: "angle_limit/travel_limit: part id" },
+                  min: { type: "number", description: "Limit minimum in degrees or mm, relative to the pose at input u = 0" },
+                  max: { type: "number", description: "Limit maximum in degrees or mm" },
+                  backlash: { type: "number", description: "Extra center distance in mm for meshes" },
+                },
+                required: ["type"],
+              },
+            },
+            samples: {
+              type: "number",
+              description: "Number of progress samples in the residual report. Default 11.",
+            },
+          },
+          required: ["parts", "constraints"],
+        },
+      },
+    },
     {
       type: "function",
       function: {
@@ -1479,12 +1683,14 @@ function buildToolDefinitions() {
 
 // --- System Prompt ---
 
-function buildSystemPrompt(
+export function buildSystemPrompt(
   currentCode?: string,
   context?: {
     projectName?: string;
     previousPrompts?: string[];
     parameters?: Record<string, unknown>;
+    assets?: ProjectAsset[];
+    files?: ProjectFiles;
   }
 ) {
   let prompt = `You are an expert JSCAD v2 3D modeling assistant. You help users create parametric 3D models by writing and editing JSCAD code.
@@ -1522,6 +1728,7 @@ function buildSystemPrompt(
 
 ### Colors (require('@jscad/modeling').colors)
 - colorize([r,g,b,a], geometry)
+- 3MF/AMF exports keep each returned solid as its own part with its color; name a part with \`Object.assign(part, { name: 'Lid' })\`
 
 ### Hulls (require('@jscad/modeling').hulls)
 - hull(...geometries), hullChain(...geometries)
@@ -1597,7 +1804,7 @@ module.exports = { main, getParameterDefinitions }
 1. For initial code generation, use write_code
 2. For modifications, ALWAYS use edit_code with targeted diffs — never rewrite the whole file
 3. After writing/editing code, diagnostics run automatically — fix any errors
-4. Use check_intersection before subtract/intersect to verify geometries overlap
+4. Use check_intersection before subtract/intersect to verify geometries overlap, and to confirm meshing or moving parts (gears, racks) do not interpenetrate or violate clearance
 5. Use measure_geometry to verify dimensions match the user's requirements
 6. Use ask_user when the prompt is ambiguous — don't guess
 7. Use search_docs if unsure about a JSCAD API function
@@ -1609,6 +1816,8 @@ module.exports = { main, getParameterDefinitions }
 13. Use check_animation_intersections to diagnose gear/rack phase drift and intersection risk across progress
 14. Use linkage to infer rack-pinion kinematics from endpoint motions instead of manually solving linkage ratios
 15. Use get_viewport_snapshot when visual verification of the current rendered model would help
+16. Use solve_mechanism_rom to get the valid range of motion of gears/racks and map \`progress\` onto it
+17. For large designs, move reusable parts into project modules: split_components action "move" lifts a helper into "lib/<name>.jscad" and adds the require('./lib/<name>') to main.jscad; use write_code with a path for new modules
 
 ## Relative Positioning (IMPORTANT - Use Tools, Not Manual Calculations)
 
@@ -1730,12 +1939,14 @@ For mechanisms, always model motion around one normalized input variable:
 - Express all part motion as functions of \`progress\` (avoid unsynchronized independent motion sliders).
 - The primary mechanism control should always exist in \`getParameterDefinitions()\` with the exact name \`progress\`.
 - For diagnostics, additional temporary params may be added, but \`progress\` remains the canonical motion input.
+- Optional playback params set the viewer's timeline defaults: \`durationSec\` (float), \`direction\` (choice: forward, reverse, pingpong) and \`autoPlay\` (checkbox). The timeline animates \`progress\` itself; do not animate it from code.
 - Prefer pitch-feature metadata from supported libraries (gear/rack helpers) when available.
 - If metadata is missing, use autodetection via measurements/known params, and state assumptions when confidence is low.
 - For meshing parts (gears/racks), use position_relative + check_alignment and avoid manual translate math.
 - For animated meshing diagnostics, use check_animation_intersections to compute residuals and recommended phase shifts.
 - Always eliminate phase misalignment before finalizing: run check_animation_intersections, apply the recommended phase correction, and rerun diagnostics until phase residual/misalignment is effectively zero.
 - Target behavior: infer relationships from pitch features, solve a feasible shared ROM, then animate only within that solved range.
+- Call solve_mechanism_rom for the ROM and drive every part with its progressMapping expressions; never invent travel limits or angle ranges.
 
 ## External Libraries
 - You may load remote helper libraries via include("https://...") for side-effect scripts.
@@ -1855,10 +2066,23 @@ module.exports = { main, getParameterDefinitions }
     prompt += `\n\n## Current Code\n\`\`\`js\n${currentCode}\n\`\`\``;
   }
 
+  const modulePaths = Object.keys(context?.files ?? {}).sort();
+  if (modulePaths.length > 0) {
+    prompt += `\n\n## Project Files
+The code above is main.jscad, the entry point. The project's other files are modules loaded with relative requires, e.g. \`const { bolt } = require('./lib/fasteners')\` for lib/fasteners.jscad. Modules export helpers with module.exports and may require @jscad/modeling, /jscad-libs, ./assets and each other. Pass \`path\` to read_code, edit_code and write_code to work on a module.`;
+    for (const modulePath of modulePaths) {
+      prompt += `\n\n### ${modulePath}\n\`\`\`js\n${context!.files![modulePath]}\n\`\`\``;
+    }
+  }
+
   if (context?.projectName) {
     prompt += `\n\nProject: ${context.projectName}`;
   }
 
+  if (context?.assets?.length) {
+    prompt += `\n\n${describeAssets(context.assets)}`;
+  }
+
   if (context?.previousPrompts?.length) {
     prompt += `\n\nPrevious prompts in this session:\n${context.previousPrompts.map((p, i) => `${i + 1}. ${p}`).join("\n")}`;
   }
@@ -1868,15 +2092,36 @@ module.exports = { main, getParameterDefinitions }
 
 // --- Tool Execution ---
 
-function executeToolCall(
+/** Project file a tool's `path` argument names: main.jscad when omitted, null when invalid. */
+function toolFilePath(value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return MAIN_FILE;
+  return typeof value === "string" ? normalizeModulePath(value) : null;
+}
+
+function invalidPathOutput(value: unknown) {
+  return {
+    success: false,
+    error: `Invalid file path ${JSON.stringify(value)}. Use a relative .jscad or .js path such as "lib/fasteners.jscad" (assets/ is reserved for uploads).`,
+  };
+}
+
+function missingFileOutput(filePath: string, files: ProjectFiles) {
+  return {
+    success: false,
+    error: `File ${filePath} does not exist. Create it with write_code first.`,
+    files: [MAIN_FILE, ...Object.keys(files).sort()],
+  };
+}
+
+async function executeToolCall(
   toolName: string,
   args: Record<string, unknown>,
   currentCode: string,
-  context?: ToolRuntimeContext
-): ToolResult {
+  context: ToolRuntimeContext
+): Promise<ToolResult> {
   switch (toolName) {
     case "get_viewport_snapshot": {
-      const snapshot = context?.viewportSnapshot;
+      const snapshot = context.viewportSnapshot;
       if (!snapshot) {
         return {
           output: {
@@ -1900,6 +2145,22 @@ function executeToolCall(
     case "write_code":
       {
         const code = args.code as string;
+        const filePath = toolFilePath(args.path);
+        if (!filePath) return { output: invalidPathOutput(args.path) };
+        if (filePath !== MAIN_FILE) {
+          if (typeof code !== "string" || !/\bmodule\.exports\b|\bexports\.\w+\s*=/.test(code)) {
+            return {
+              output: {
+                success: false,
+                error: "Project modules must export their helpers with module.exports, e.g. module.exports = { bolt }.",
+              },
+            };
+          }
+          return {
+            output: { success: true, path: filePath, description: args.description },
+            updatedFiles: { ...context.files, [filePath]: code },
+          };
+        }
         const hasMain = typeof code === "string" && /module\.exports\s*=\s*\{[^}]*\bmain\b[^}]*\}/.test(code);
         if (!hasMain) {
           return {
@@ -1916,7 +2177,12 @@ function executeToolCall(
       }
 
     case "edit_code": {
-      let code = currentCode;
+      const filePath = toolFilePath(args.path);
+      if (!filePath) return { output: invalidPathOutput(args.path) };
+      if (filePath !== MAIN_FILE && !(filePath in context.files)) {
+        return { output: missingFileOutput(filePath, context.files) };
+      }
+      let code = filePath === MAIN_FILE ? currentCode : context.files[filePath];
       const edits = args.edits as Array<{
         search: string;
         replace: string;
@@ -1935,57 +2201,200 @@ function executeToolCall(
         }
       }
 
-      return {
-        output: {
-          success: failed.length === 0,
-          appliedEdits: applied.length,
-          failedEdits: failed,
-        },
-        updatedCode: code,
+      const output = {
+        success: failed.length === 0,
+        appliedEdits: applied.length,
+        failedEdits: failed,
       };
+      return filePath === MAIN_FILE
+        ? { output, updatedCode: code }
+        : { output: { ...output, path: filePath }, updatedFiles: { ...context.files, [filePath]: code } };
     }
 
-    case "read_code":
+    case "read_code": {
+      const filePath = toolFilePath(args.path);
+      if (!filePath) return { output: invalidPathOutput(args.path) };
+      if (filePath !== MAIN_FILE) {
+        if (!(filePath in context.files)) return { output: missingFileOutput(filePath, context.files) };
+        const code = context.files[filePath];
+        return { output: { path: filePath, code, lineCount: code.split("\n").length } };
+      }
+      const otherFiles = Object.keys(context.files).sort();
       return {
         output: {
           code: currentCode,
           lineCount: currentCode.split("\n").length,
+          ...(otherFiles.length > 0 ? { files: [MAIN_FILE, ...otherFiles] } : {}),
         },
       };
+    }
 
     case "get_diagnostics":
       return { output: runDiagnostics(currentCode) };
 
-    case "check_intersection":
+    case "check_intersection": {
+      const evaluation = await context.evaluate(currentCode);
+      if (!evaluation.ok) {
+        return { output: describeEvaluationFailure(evaluation) };
+      }
+
+      const pairwise = args.geometryA !== undefined || args.geometryB !== undefined;
+      const references: string[] =
+        pairwise
+          ? [String(args.geometryA ?? "main"), String(args.geometryB ?? "main")]
+          : Array.isArray(args.parts) && args.parts.length > 0
+            ? (args.parts as unknown[]).map(String)
+            : evaluation.geometries.map((_, index) => `main[${index}]`);
+
+      if (references.length < 2) {
+        return {
+          output: {
+            success: false,
+            error: "check_intersection needs at least two parts. main() returned a single geometry.",
+          },
+        };
+      }
+      if (references.length > MAX_INTERSECTION_PARTS) {
+        return {
+          output: {
+            success: false,
+            error: `Too many parts (${references.length}). Pass at most ${MAX_INTERSECTION_PARTS} via parts.`,
+          },
+        };
+      }
+
+      const parts = [];
+      for (const reference of references) {
+        const part = resolveGeometryReference(currentCode, evaluation.geometries, reference);
+        if (!part.ok) return { output: { success: false, ...part } };
+        parts.push(part);
+      }
+      // geometryA alone (or against "main") is checked against the other parts, not itself.
+      if (pairwise) {
+        const [a, b] = parts;
+        const other = (all: typeof a, part: typeof a) => {
+          const indices = all.indices.filter((index) => !part.indices.includes(index));
+          return { ...all, label: "other parts", indices, geometries: indices.map((index) => evaluation.geometries[index]) };
+        };
+        if (b.label === "main" && a.label !== "main") parts[1] = other(b, a);
+        else if (a.label === "main" && b.label !== "main") parts[0] = other(a, b);
+      }
+
+      const minClearance = Math.max(0, Number(args.minClearance ?? 0) || 0);
+      const pairs: Array<Record<string, unknown>> = [];
+      try {
+        for (let i = 0; i < parts.length; i++) {
+          for (let j = i + 1; j < parts.length; j++) {
+            const a = parts[i];
+            const b = parts[j];
+            // A part always "intersects" itself; such pairs say nothing about collisions.
+            if (a.indices.length === 0 || b.indices.length === 0) continue;
+            if (a.indices.some((index) => b.indices.includes(index))) continue;
+            const report = await measureIntersection(a.geometries, b.geometries);
+            const clearance = report.intersects ? null : measureClearance(a.geometries, b.geometries);
+            const clearanceDistance = clearance ? clearance.distance : 0;
+            const roundRegion = (region: { min: number[]; max: number[] } | null) =>
+              region && { min: region.min.map((v) => roundTo(v)), max: region.max.map((v) => roundTo(v)) };
+
+            pairs.push({
+              geometryA: a.label,
+              geometryB: b.label,
+              intersects: report.intersects,
+              intersectionVolume: roundTo(report.intersectionVolume),
+              clearance: roundTo(clearanceDistance),
+              closestPoints: clearance?.closestPoints?.map((point) => point.map((v) => roundTo(v))) ?? null,
+              overlapRegion: roundRegion(report.overlapRegion),
+              boundingBoxOverlapRegion: roundRegion(report.boundingBoxOverlapRegion),
+              violatesClearance: report.intersects || clearanceDistance < minClearance,
+            });
+          }
+        }
+      } catch (error) {
+        return {
+          output: {
+            success: false,
+            error: `Intersection check failed: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        };
+      }
+
+      if (pairs.length === 0) {
+        return {
+          output: {
+            success: false,
+            error: "The references name the same part(s). Pass two different parts, or geometryA alone to check it against the rest.",
+          },
+        };
+      }
+
+      const collisions = pairs.filter((pair) => pair.intersects).length;
+      const clearanceViolations = pairs.filter((pair) => pair.violatesClearance && !pair.intersects).length;
       return {
         output: {
-          note: "Intersection check requires runtime evaluation. The geometries will be checked when the code is rendered in the browser.",
-          geometryA: args.geometryA,
-          geometryB: args.geometryB,
+          success: true,
+          minClearance,
+          pairs,
+          collisions,
+          clearanceViolations,
           suggestion:
-            "Ensure both geometries overlap spatially. Use translate() to position them correctly before applying subtract() or intersect().",
+            collisions > 0
+              ? "Some parts interpenetrate. This is expected before subtract()/intersect(), but moving or separately printed parts must not overlap. Use overlapRegion to locate the collision."
+              : clearanceViolations > 0
+                ? "No overlaps, but some parts are closer than minClearance. Increase spacing or reduce part size."
+                : "No overlaps. If you intend to subtract or intersect, translate the geometries so they share space.",
         },
       };
+    }
 
     case "measure_geometry": {
+      const requestedMeasurements = (args.measurements as string[] | undefined) || [
+        "boundingBox",
+        "volume",
+        "dimensions",
+      ];
       const output: Record<string, unknown> = {
-        note: "Measurement requires runtime evaluation. The geometry will be measured when the code is rendered in the browser.",
         geometry: args.geometry,
-        requestedMeasurements: args.measurements || [
-          "boundingBox",
-          "volume",
-          "dimensions",
-        ],
+        requestedMeasurements,
       };
 
+      const evaluation = await context.evaluate(currentCode);
+      if (!evaluation.ok) {
+        output.measurementError = describeEvaluationFailure(evaluation).error;
+      } else {
+        const part = resolveGeometryReference(currentCode, evaluation.geometries, args.geometry as string);
+        if (!part.ok) {
+          output.measurementError = part.error;
+          output.availableReferences = part.availableReferences;
+        } else {
+          const measured = await calculateMeasurements(part.geometries);
+          if (measured) {
+            const { boundingBox } = measured;
+            const available: Record<string, unknown> = {
+              boundingBox: { min: boundingBox.min.map((v) => roundTo(v)), max: boundingBox.max.map((v) => roundTo(v)) },
+              dimensions: boundingBox.dimensions.map((v) => roundTo(v)),
+              center: boundingBox.center.map((v) => roundTo(v)),
+              volume: roundTo(measured.volume),
+              surfaceArea: roundTo(measured.surfaceArea),
+            };
+            output.resolvedGeometry = part.label;
+            output.measurements = Object.fromEntries(
+              requestedMeasurements
+                .filter((name) => name in available)
+                .map((name) => [name, available[name]])
+            );
+            output.polygonCount = measured.triangleCount;
+          } else {
+            output.measurementError = "Geometry could not be measured.";
+          }
+        }
+      }
+
       const gearParams = args.gearParams as { module?: number; teeth?: number } | undefined;
       const rackParams = args.rackParams as { module?: number } | undefined;
-      const features: Array<Record<string, unknown>> = [];
 
       if (gearParams && gearParams.module && gearParams.teeth) {
         const pitchDiameter = gearParams.module * gearParams.teeth;
         const pitchRadius = pitchDiameter / 2;
-        const circularPitch = gearParams.module * Math.PI;
         output.pitchCircle = {
           module: gearParams.module,
           teeth: gearParams.teeth,
@@ -2000,55 +2409,50 @@ function executeToolCall(
           description:
             "Both gear and rack libraries are designed to mesh directly at their reference positions (gear: valley at angle 0, rack: valley at x=0). No additional phase shift needed.",
         };
-        features.push({
-          type: "pitch_circle",
-          source: "params",
-          module: gearParams.module,
-          teethNumber: gearParams.teeth,
-          radius: pitchRadius,
-          diameter: pitchDiameter,
-          circularPitch,
-        });
       }
 
       if (rackParams && rackParams.module) {
-        const circularPitch = rackParams.module * Math.PI;
         output.pitchLine = {
           module: rackParams.module,
           description: `Rack pitch line at module height from tooth base. The pitch line is where the gear pitch circle rolls. Use for gear-rack meshing alignment.`,
         };
-        features.push({
-          type: "pitch_line",
-          source: "params",
-          module: rackParams.module,
-          point: [0, 0, 0],
-          direction: [1, 0, 0],
-          normal: [0, 1, 0],
-          circularPitch,
-        });
       }
 
-      if (features.length > 0) {
-        output.features = features;
-        output.featureSource = "params";
-        output.featureConfidence = "medium";
+      if (evaluation.ok) {
+        const resolved = await resolvePartFeatures(currentCode, evaluation, args.geometry as string, {
+          gear: gearParams,
+          rack: rackParams,
+        });
+        if (resolved.ok) Object.assign(output, describeFeatures(resolved.detection));
       }
 
       return { output };
     }
 
-    case "check_printability":
+    case "check_printability": {
+      const evaluation = await context.evaluate(currentCode);
+      if (!evaluation.ok) {
+        return { output: describeEvaluationFailure(evaluation) };
+      }
+
+      const part = resolveGeometryReference(currentCode, evaluation.geometries, args.geometry as string);
+      if (!part.ok) return { output: { success: false, ...part } };
+
+      const report = await analyzePrintability(part.geometries);
       return {
         output: {
-          note: "Printability check requires runtime evaluation.",
-          geometry: args.geometry,
-          generalTips: [
-            "Ensure minimum wall thickness of 0.8mm for FDM printing",
-            "Avoid overhangs greater than 45 degrees without supports",
-            "Ensure the model is watertight (manifold)",
-          ],
+          success: true,
+          geometry: part.label,
+          isManifold: report.isManifold,
+          hasThinWalls: report.hasThinWalls,
+          hasOverhangs: report.hasOverhangs,
+          minWallThickness: roundTo(report.minWallThickness),
+          maxOverhangAngle: roundTo(report.maxOverhangAngle, 1),
+          warnings: summarizeWarnings(report.warnings),
+          recommendations: report.recommendations,
         },
       };
+    }
 
     case "list_variables": {
       const varMatches = [
@@ -2106,35 +2510,102 @@ function executeToolCall(
         ),
       };
 
-    case "diff_versions":
+    case "diff_versions": {
+      if (!context.versionHistory) {
+        return {
+          output: {
+            success: false,
+            error: "Version history is not available for this session (no saved project).",
+          },
+        };
+      }
+      let versions;
+      try {
+        versions = await context.versionHistory.listVersions();
+      } catch (error) {
+        return {
+          output: {
+            success: false,
+            error: `Could not load version history: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        };
+      }
+      const current = {
+        versionNumber: Math.max(0, ...versions.map((version) => version.versionNumber)) + 1,
+        jscadCode: currentCode,
+        files: context.files,
+      };
+      const from = resolveVersionReference(versions, args.fromVersion ?? "previous", current);
+      const to = resolveVersionReference(versions, args.toVersion ?? "current", current);
+      if (!from.ok) {
+        return { output: { success: false, error: from.error, availableVersions: from.availableVersions } };
+      }
+      if (!to.ok) {
+        return { output: { success: false, error: to.error, availableVersions: to.availableVersions } };
+      }
       return {
         output: {
-          note: "Version diff requires access to the version history database. This will be resolved client-side.",
-          fromVersion: args.fromVersion,
-          toVersion: args.toVersion,
+          success: true,
+          ...(await diffVersions(from, to, { assets: context.assets, dependencies: context.dependencies })),
         },
       };
+    }
 
     case "split_components": {
       const action = args.action as string;
       if (action === "analyze") {
-        const varMatches = [
-          ...currentCode.matchAll(
-            /(?:const|let|var)\s+(\w+)\s*=\s*(.+?)(?:\n|$)/g
-          ),
-        ];
-        const components = varMatches.map((m) => ({
-          name: m[1],
-          expression: m[2].trim().substring(0, 60),
-          line: currentCode.substring(0, m.index).split("\n").length,
-        }));
-        return { output: { action: "analyze", components } };
+        const analysis = analyzeComponents(currentCode);
+        return {
+          output: analysis.ok
+            ? { action, components: analysis.components }
+            : { action, success: false, error: analysis.error },
+        };
+      }
+
+      let transform: ComponentTransformResult;
+      if (action === "extract") {
+        transform = extractComponent(currentCode, {
+          componentName: String(args.componentName ?? ""),
+          functionName: args.functionName as string | undefined,
+          parameterize: (args.parameterize as boolean) ?? false,
+        });
+      } else if (action === "inline") {
+        transform = inlineComponent(currentCode, {
+          functionName: String(args.functionName ?? ""),
+        });
+      } else if (action === "merge") {
+        transform = mergeComponents(currentCode, {
+          components: (args.components as string[]) ?? [],
+          operation: args.operation as MergeOperation | undefined,
+          resultName: args.resultName as string | undefined,
+        });
+      } else if (action === "move") {
+        transform = moveComponent(currentCode, {
+          componentName: String(args.componentName ?? ""),
+          path: args.path as string | undefined,
+        });
+      } else {
+        return { output: { action, success: false, error: `Unknown split_components action: ${action}` } };
+      }
+
+      if (!transform.ok) {
+        return { output: { action, success: false, error: transform.error } };
+      }
+      const { createdFile } = transform;
+      if (createdFile && (createdFile.path === MAIN_FILE || createdFile.path in context.files)) {
+        return {
+          output: {
+            action,
+            success: false,
+            error: `File ${createdFile.path} already exists; pass another path.`,
+            files: [MAIN_FILE, ...Object.keys(context.files).sort()],
+          },
+        };
       }
       return {
-        output: {
-          note: `Component ${action} requires code transformation. The AI should use edit_code to implement this manually.`,
-          action,
-        },
+        output: { action, success: true, ...transform.summary },
+        updatedCode: transform.updatedCode,
+        ...(createdFile ? { updatedFiles: { ...context.files, [createdFile.path]: createdFile.content } } : {}),
       };
     }
 
@@ -2297,12 +2768,47 @@ function executeToolCall(
       };
 
       if (checkType === "pitch_mesh") {
+        const evaluation = await context.evaluate(currentCode);
+        if (evaluation.ok) {
+          const partA = await resolvePartFeatures(currentCode, evaluation, geometryA);
+          if (!partA.ok) return { output: { ...output, success: false, ...partA } };
+          const partB = await resolvePartFeatures(currentCode, evaluation, geometryB);
+          if (!partB.ok) return { output: { ...output, success: false, ...partB } };
+
+          const combined = summarizeDetection(
+            [...partA.detection.features, ...partB.detection.features],
+            [...partA.detection.warnings, ...partB.detection.warnings]
+          );
+          Object.assign(output, describeFeatures(combined));
+          const mesh = checkPitchMesh(
+            { id: geometryA, features: partA.detection.features },
+            { id: geometryB, features: partB.detection.features },
+            {
+              backlash: args.backlash as number | undefined,
+              romSamples: args.romSamples as number | undefined,
+            }
+          );
+          if (mesh.success) {
+            delete output.note;
+            return {
+              output: {
+                ...output,
+                ...mesh,
+                suggestion: mesh.passed
+                  ? "Pitch mesh is within tolerance. Call solve_mechanism_rom to get the valid travel before animating."
+                  : "Move the parts until every residual is within its threshold (position_relative with 'pitch_aligned' generates the placement), then check again.",
+              },
+            };
+          }
+          output.featureError = mesh.error;
+        }
+
         if (pitchRadiusA === undefined || pitchRadiusB === undefined) {
           return {
             output: {
               ...output,
               success: false,
-              error: "pitch_mesh check requires pitchRadiusA and pitchRadiusB parameters. For racks, use pitchRadius=0 and set isRackA or isRackB to true.",
+              error: "pitch_mesh could not find pitch features on both geometries. Pass pitchRadiusA and pitchRadiusB (for racks, use pitchRadius=0 and set isRackA or isRackB to true), or build the parts with window.jscad.tspi.gear/rack so their pitch metadata is available.",
             },
           };
         }
@@ -2356,6 +2862,14 @@ function executeToolCall(
       return { output };
     }
 
+    case "solve_mechanism_rom": {
+      const evaluation = await context.evaluate(currentCode);
+      if (!evaluation.ok) {
+        return { output: describeEvaluationFailure(evaluation) };
+      }
+      return { output: await solveMechanismRomTool(currentCode, evaluation, args as SolveRomToolArgs) };
+    }
+
     case "check_animation_intersections": {
       const mechanismType = (args.mechanismType as string | undefined) ?? "gear_rack";
       if (mechanismType !== "gear_rack") {
@@ -2702,298 +3216,38 @@ function executeToolCall(
   }
 }
 
-// --- Diagnostics ---
-
-const localLibsRoot = path.resolve(process.cwd(), "public", "jscad-libs");
-
-function normalizeRemoteUrl(url: string) {
-  const match = url.match(
-    /^https?:\/\/github\.com\/([^/]+)\/([^/]+)\/blob\/([^/]+)\/(.+)$/
-  );
-  if (match) {
-    return `https://raw.githubusercontent.com/${match[1]}/${match[2]}/${match[3]}/${match[4]}`;
-  }
-  return url;
-}
-
-function isRemoteSpec(spec: string) {
-  return spec.startsWith("http://") || spec.startsWith("https://");
-}
+// --- Runtime Evaluation ---
 
-function isLocalSpec(spec: string) {
-  return spec.startsWith("/jscad-libs/") || spec.startsWith("jscad-libs/");
-}
+const MAX_INTERSECTION_PARTS = 12;
 
-function normalizeLocalSpec(spec: string) {
-  return spec.startsWith("/") ? spec : `/${spec}`;
+function summarizeRuntime(evaluation: JscadEvaluation): { ok: boolean; error?: string } {
+  return evaluation.ok ? { ok: true } : { ok: false, error: evaluation.error };
 }
 
-function toLocalPath(spec: string) {
-  const normalized = normalizeLocalSpec(spec).replace(/^\/jscad-libs\//, "");
-  const resolved = path.resolve(localLibsRoot, normalized);
-  if (!resolved.startsWith(localLibsRoot)) {
-    throw new Error(`Local module path escapes library root: ${spec}`);
-  }
-  return resolved;
-}
-
-function toLocalModuleId(spec: string) {
-  return `file://${toLocalPath(spec)}`;
-}
-
-function resolveModuleSpec(baseId: string | undefined, spec: string) {
-  if (isRemoteSpec(spec)) return normalizeRemoteUrl(spec);
-  if (isLocalSpec(spec)) return toLocalModuleId(spec);
-
-  if (spec.startsWith("./") || spec.startsWith("../")) {
-    if (!baseId) return spec;
-    if (baseId.startsWith("file://")) {
-      const basePath = baseId.replace("file://", "");
-      return `file://${path.resolve(path.dirname(basePath), spec)}`;
-    }
-    return normalizeRemoteUrl(new URL(spec, baseId).toString());
-  }
-
-  return spec;
+function describeEvaluationFailure(evaluation: Extract<JscadEvaluation, { ok: false }>) {
+  return {
+    success: false,
+    error: `JSCAD evaluation failed: ${evaluation.error}`,
+    suggestion: "Fix the runtime error (see get_diagnostics) before measuring geometry.",
+  };
 }
 
-function extractModuleSpecs(code: string) {
-  const specs: string[] = [];
-  const regex = /\b(?:require|include)\(\s*['"]([^'"]+)['"]\s*\)/g;
-  let match: RegExpExecArray | null = null;
-  while ((match = regex.exec(code))) {
-    const spec = match[1].trim();
-    if (isRemoteSpec(spec) || isLocalSpec(spec)) {
-      specs.push(spec);
-    } else if (spec.startsWith("./") || spec.startsWith("../")) {
-      specs.push(spec);
-    }
-  }
-  return specs;
+function roundTo(value: number, digits = 4) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
 }
 
-async function preloadExternalModules(code: string) {
-  const sources = new Map<string, string>();
-  const queue: Array<{ spec: string; baseId?: string }> = [];
-
-  for (const spec of extractModuleSpecs(code)) {
-    if (isRemoteSpec(spec) || isLocalSpec(spec)) queue.push({ spec });
-  }
-
-  while (queue.length > 0) {
-    const entry = queue.shift();
-    if (!entry) continue;
-    const resolved = resolveModuleSpec(entry.baseId, entry.spec);
-
-    if (sources.has(resolved)) continue;
-
-    let text: string;
-    if (resolved.startsWith("file://")) {
-      text = await readFile(resolved.replace("file://", ""), "utf8");
-    } else {
-      const response = await fetch(resolved);
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch remote module: ${resolved} (${response.status})`
-        );
-      }
-      text = await response.text();
-    }
-
-    sources.set(resolved, text);
-
-    for (const spec of extractModuleSpecs(text)) {
-      if (isRemoteSpec(spec) || isLocalSpec(spec)) {
-        queue.push({ spec });
-      } else if (spec.startsWith("./") || spec.startsWith("../")) {
-        queue.push({ spec, baseId: resolved });
-      }
-    }
+function summarizeWarnings(warnings: string[]) {
+  const counts = new Map<string, number>();
+  for (const warning of warnings) {
+    counts.set(warning, (counts.get(warning) ?? 0) + 1);
   }
-
-  return sources;
+  return [...counts.entries()].map(([message, count]) =>
+    count > 1 ? `${message} (x${count})` : message
+  );
 }
 
-async function runJscadRuntime(
-  code: string
-): Promise<{ ok: boolean; error?: string }> {
-  try {
-    const jscad = await import("@jscad/modeling");
-    const remoteModuleSources = await preloadExternalModules(code);
-    const remoteModuleCache = new Map<string, { exports: Record<string, unknown> }>();
-    const evaluating = new Set<string>();
-    const runtimeGlobal = globalThis as unknown as Record<string, unknown>;
-    const existingWindow = runtimeGlobal.window;
-    const runtimeWindow =
-      existingWindow && typeof existingWindow === "object"
-        ? (existingWindow as Record<string, unknown>)
-        : {};
-    runtimeGlobal.window = runtimeWindow;
-    if (!("location" in runtimeWindow)) {
-      runtimeWindow.location = { protocol: "https:", origin: "https://localhost" };
-    }
-
-    const evaluateRemoteModule = (
-      spec: string,
-      baseId?: string
-    ): Record<string, unknown> => {
-      const normalized = resolveModuleSpec(baseId, spec);
-      const cached = remoteModuleCache.get(normalized);
-      if (cached) return cached.exports;
-      if (evaluating.has(normalized)) {
-        throw new Error(`Circular remote module reference: ${normalized}`);
-      }
-
-      const source = remoteModuleSources.get(normalized);
-      if (!source) {
-        throw new Error(`External module not preloaded: ${normalized}`);
-      }
-
-      evaluating.add(normalized);
-      const remoteModule = { exports: {} as Record<string, unknown> };
-      remoteModuleCache.set(normalized, remoteModule);
-
-      const localRequire = (path: string) => {
-        if (path === "@jscad/modeling") return jscad;
-        if (path.startsWith("@jscad/modeling/")) {
-          const subpath = path.replace("@jscad/modeling/", "");
-          const parts = subpath.split("/");
-          let result: unknown = jscad as Record<string, unknown>;
-          for (const part of parts) {
-            result = (result as Record<string, unknown>)?.[part];
-          }
-          return result;
-        }
-        if (isRemoteSpec(path) || isLocalSpec(path)) {
-          return evaluateRemoteModule(path);
-        }
-        if (path.startsWith("./") || path.startsWith("../")) {
-          return evaluateRemoteModule(path, normalized);
-        }
-        throw new Error(`Unknown module: ${path}`);
-      };
-
-      const include = (path: string) => {
-        if (!path) return;
-        if (isRemoteSpec(path) || isLocalSpec(path)) {
-          evaluateRemoteModule(path);
-          return;
-        }
-        if (path.startsWith("./") || path.startsWith("../")) {
-          evaluateRemoteModule(path, normalized);
-          return;
-        }
-        throw new Error(`include() requires a remote URL or /jscad-libs path: ${path}`);
-      };
-
-      const fn = new Function(
-        "require",
-        "module",
-        "exports",
-        "include",
-        "window",
-        source
-      );
-      fn(localRequire, remoteModule, remoteModule.exports, include, runtimeGlobal.window);
-      evaluating.delete(normalized);
-      return remoteModule.exports;
-    };
-
-    const mockRequire = (path: string) => {
-      if (path === "@jscad/modeling") return jscad;
-      if (path.startsWith("@jscad/modeling/")) {
-        const subpath = path.replace("@jscad/modeling/", "");
-        const parts = subpath.split("/");
-        let result: unknown = jscad as Record<string, unknown>;
-        for (const part of parts) {
-          result = (result as Record<string, unknown>)?.[part];
-        }
-        return result;
-      }
-      if (isRemoteSpec(path) || isLocalSpec(path)) {
-        return evaluateRemoteModule(path);
-      }
-      throw new Error(`Unknown module: ${path}`);
-    };
-
-    const include = (path: string) => {
-      if (!path) return;
-      if (isRemoteSpec(path) || isLocalSpec(path)) {
-        evaluateRemoteModule(path);
-        return;
-      }
-      throw new Error(`include() requires a remote URL or /jscad-libs path: ${path}`);
-    };
-
-    const cjsModule = { exports: {} as Record<string, unknown> };
-    const fn = new Function("require", "module", "exports", "include", code);
-    fn(mockRequire, cjsModule, cjsModule.exports, include);
-
-    const exports = cjsModule.exports as {
-      main?: (params?: Record<string, unknown>) => unknown;
-      getParameterDefinitions?: () => Array<{
-        name?: string;
-        initial?: unknown;
-        default?: unknown;
-      }>;
-    };
-
-    if (typeof exports.main !== "function") {
-      return { ok: false, error: "No main() function exported" };
-    }
-
-    let runtimeParams: Record<string, unknown> = {};
-    if (typeof exports.getParameterDefinitions === "function") {
-      const definitions = exports.getParameterDefinitions();
-      if (Array.isArray(definitions)) {
-        runtimeParams = definitions.reduce<Record<string, unknown>>(
-          (acc, def) => {
-            if (!def || typeof def !== "object") return acc;
-            const name = def.name;
-            if (!name) return acc;
-            if (def.initial !== undefined) {
-              acc[name] = def.initial;
-            } else if (def.default !== undefined) {
-              acc[name] = def.default;
-            }
-            return acc;
-          },
-          {}
-        );
-      }
-    }
-
-    const mainResult = exports.main(runtimeParams);
-    if (!Array.isArray(mainResult)) {
-      return {
-        ok: false,
-        error:
-          "main() must return an array of geometry objects, even when returning a single object.",
-      };
-    }
-    if (mainResult.length === 0) {
-      return {
-        ok: false,
-        error: "main() returned an empty array. Return at least one geometry object.",
-      };
-    }
-    const hasInvalidGeometry = mainResult.some(
-      (item) => !item || typeof item !== "object"
-    );
-    if (hasInvalidGeometry) {
-      return {
-        ok: false,
-        error: "main() array contains invalid entries. Each entry must be a geometry object.",
-      };
-    }
-    return { ok: true };
-  } catch (error) {
-    return {
-      ok: false,
-      error: error instanceof Error ? error.message : String(error),
-    };
-  }
-}
+// --- Diagnostics ---
 
 function runDiagnostics(code: string): {
   diagnostics: DiagnosticItem[];
@@ -3196,8 +3450,46 @@ function searchJscadDocs(query: string, scope?: string) {
     },
   ];
 
+  // Project features outside the JSCAD API, searched in the examples and tutorials scopes.
+  const guides = [
+    {
+      topic: "Import SVG/DXF drawings as 2D profiles",
+      keywords: ["svg", "dxf", "drawing", "outline", "profile", "logo", "gasket", "layer", "import", "asset", "extrude"],
+      usage: `const { extrusions, transforms } = require('@jscad/modeling')
+const gasket = require('./assets/gasket.dxf#outer') // geom2 in mm; omit #layer for all layers
+
+function main({ thickness = 2 }) {
+  const profile = transforms.center({ axes: [true, true, false] }, gasket)
+  return [extrusions.extrudeLinear({ height: thickness }, profile)]
+}`,
+      notes:
+        "Upload the file in the project's Assets panel. Closed outlines become the shape, nested outlines become holes, open lines are ignored unless they join into loops. SVG units follow width/height/viewBox (px = 1/96 in), DXF units follow $INSUNITS. extrudeRotate revolves the profile around Z using its X as radius.",
+    },
+    {
+      topic: "Import STL/OBJ/3MF meshes as solids",
+      keywords: ["stl", "obj", "3mf", "mesh", "vendor", "pcb", "enclosure", "import", "asset"],
+      usage: `const { booleans, primitives, transforms } = require('@jscad/modeling')
+const pcb = require('./assets/pcb.stl') // geom3 in the file's coordinates (mm)
+
+function main() {
+  const shell = primitives.cuboid({ size: [60, 40, 20] })
+  return [booleans.subtract(shell, transforms.translate([0, 0, -5], pcb))]
+}`,
+      notes: "Upload the file in the project's Assets panel. Meshes can be transformed and combined but not edited.",
+    },
+  ];
+
   const queryLower = query.toLowerCase();
-  const results = [];
+  const queryWords = queryLower.split(/\W+/).filter(Boolean);
+  const results: Array<Record<string, string>> = [];
+
+  if (!scope || scope === "all" || scope === "examples" || scope === "tutorials") {
+    for (const guide of guides) {
+      if (guide.topic.toLowerCase().includes(queryLower) || queryWords.some((word) => guide.keywords.includes(word))) {
+        results.push({ source: "guide", topic: guide.topic, usage: guide.usage, notes: guide.notes });
+      }
+    }
+  }
 
   for (const doc of docs) {
     if (scope && scope !== "all" && scope !== "api") continue;
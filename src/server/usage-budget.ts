@@ -0,0 +1,68 @@
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { formatCost, type TokenUsage } from "@/lib/token-usage";
+
+/**
+ * Monthly spend limits, checked by `runCodegen` before every model request,
+ * and the usage totals they are checked against, recorded by `runCodegen`
+ * once a run ends.
+ *
+ * The HTTP routes back the accessor with the Convex `usage` module, keyed by
+ * the signed-in user; tests pass a fixed status.
+ */
+
+export interface UsageBudgetStatus {
+  month: string;
+  /** USD already recorded for the month, excluding the current run. */
+  spent: number;
+  /** Monthly limit in USD, or null when the owner has not set one. */
+  limit: number | null;
+}
+
+export interface UsageBudgetAccessor {
+  getStatus(): Promise<UsageBudgetStatus>;
+  /** Adds a finished run to the month's totals. */
+  recordUsage?(usage: TokenUsage): Promise<void>;
+}
+
+export function createConvexUsageBudget(options: {
+  ownerId: string;
+  /** Totals are kept per project; runs outside a saved project count as playground usage. */
+  projectId?: string;
+  convexUrl?: string;
+  serverSecret?: string;
+}): UsageBudgetAccessor | undefined {
+  const convexUrl = options.convexUrl ?? process.env.NEXT_PUBLIC_CONVEX_URL;
+  if (!convexUrl) return undefined;
+
+  const client = new ConvexHttpClient(convexUrl);
+  const serverSecret = options.serverSecret ?? process.env.CONVEX_SERVER_SECRET;
+  let status: Promise<UsageBudgetStatus> | null = null;
+  return {
+    getStatus() {
+      status ??= client.query(api.usage.budgetStatus, { ownerId: options.ownerId });
+      return status;
+    },
+    async recordUsage(usage) {
+      if (!serverSecret) throw new Error("CONVEX_SERVER_SECRET is not set; usage cannot be recorded");
+      await client.mutation(api.usage.record, {
+        serverSecret,
+        ownerId: options.ownerId,
+        projectId: options.projectId as Id<"projects"> | undefined,
+        usage,
+      });
+    },
+  };
+}
+
+/** Throws when the month's recorded spend plus this run's cost has reached the limit. */
+export function assertWithinBudget(status: UsageBudgetStatus, runCost: number) {
+  if (status.limit === null) return;
+  const spent = status.spent + runCost;
+  if (spent >= status.limit) {
+    throw new Error(
+      `Monthly budget of ${formatCost(status.limit)} reached (${formatCost(spent)} spent in ${status.month}). Raise the limit in Settings to keep generating.`
+    );
+  }
+}
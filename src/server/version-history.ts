@@ -0,0 +1,482 @@
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { calculateMeasurements } from "@/lib/geometry-analyzer";
+import { entriesToFiles, MAIN_FILE, type ProjectFiles } from "@/lib/project-files";
+import type { DependencyLock } from "@/lib/dependencies";
+import { evaluateJscadCode } from "./jscad-runtime";
+
+/**
+ * Version history access for the agent's `diff_versions` tool.
+ *
+ * `runCodegen` receives a {@link VersionHistoryAccessor}; the HTTP routes back it
+ * with the Convex `versions` table, tests and scripts can pass in-memory rows.
+ */
+
+export interface VersionMetadata {
+  boundingBox?: unknown;
+  volume?: number;
+  surfaceArea?: number;
+  polygonCount?: number;
+}
+
+export interface VersionSnapshot {
+  versionNumber: number;
+  jscadCode: string;
+  /** The version's other project files, by path. */
+  files?: ProjectFiles;
+  parameters?: Record<string, unknown>;
+  metadata?: VersionMetadata;
+  prompt?: string;
+  source?: string;
+  createdAt?: number;
+}
+
+export interface VersionHistoryAccessor {
+  /** All saved versions of the project, in any order. */
+  listVersions(): Promise<VersionSnapshot[]>;
+}
+
+export interface NormalizedMetadata {
+  boundingBox?: { min: number[]; max: number[]; dimensions: number[] };
+  volume?: number;
+  surfaceArea?: number;
+  polygonCount?: number;
+}
+
+export interface ParameterChange {
+  name: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface MetadataChanges {
+  dimensions?: { from: number[]; to: number[]; delta: number[] };
+  boundingBox?: { from: { min: number[]; max: number[] }; to: { min: number[]; max: number[] } };
+  volume?: { from: number; to: number; delta: number; percent: number | null };
+  surfaceArea?: { from: number; to: number; delta: number };
+  polygonCount?: { from: number; to: number; delta: number };
+}
+
+export interface VersionDiff {
+  from: string;
+  to: string;
+  unifiedDiff: string;
+  truncated: boolean;
+  linesAdded: number;
+  linesRemoved: number;
+  parameterChanges: ParameterChange[];
+  metadataChanges: MetadataChanges;
+  evaluationErrors?: Record<string, string>;
+}
+
+export type ResolvedVersion =
+  | { ok: true; label: string; snapshot: VersionSnapshot }
+  | { ok: false; error: string; availableVersions: number[] };
+
+const MAX_DIFF_LINES = 400;
+const DIFF_CONTEXT_LINES = 3;
+const MAX_EDIT_DISTANCE = 4000;
+/** Upper bound on lines(from) * lines(to) past the common prefix and suffix. */
+const MAX_DIFF_CELLS = 25_000_000;
+
+export function createConvexVersionHistory(options: {
+  projectId: string;
+  ownerId: string;
+  convexUrl?: string;
+}): VersionHistoryAccessor | undefined {
+  const convexUrl = options.convexUrl ?? process.env.NEXT_PUBLIC_CONVEX_URL;
+  if (!convexUrl) return undefined;
+
+  const client = new ConvexHttpClient(convexUrl);
+  let versions: Promise<VersionSnapshot[]> | null = null;
+  return {
+    listVersions() {
+      versions ??= client
+        .query(api.versions.list, {
+          projectId: options.projectId as Id<"projects">,
+          ownerId: options.ownerId,
+        })
+        .then((rows) =>
+          rows.map((row) => ({
+            versionNumber: row.versionNumber,
+            jscadCode: row.jscadCode,
+            files: entriesToFiles(row.files),
+            parameters: row.parameters,
+            metadata: row.metadata,
+            prompt: row.prompt,
+            source: row.source,
+            createdAt: row._creationTime,
+          }))
+        );
+      return versions;
+    },
+  };
+}
+
+/**
+ * Resolves a version reference: a version number ("7", "v7"), "latest",
+ * "current" (the working code, falling back to latest) or "previous" (the
+ * newest saved version that differs from the working code).
+ */
+export function resolveVersionReference(
+  versions: VersionSnapshot[],
+  reference: unknown,
+  current?: VersionSnapshot
+): ResolvedVersion {
+  const sorted = [...versions].sort((a, b) => b.versionNumber - a.versionNumber);
+  const availableVersions = sorted.map((version) => version.versionNumber);
+  const raw = String(reference ?? "").trim().toLowerCase();
+
+  if (raw === "current" && current) {
+    return { ok: true, label: "current", snapshot: current };
+  }
+  if ((raw === "latest" || raw === "current") && sorted[0]) {
+    return { ok: true, label: `v${sorted[0].versionNumber}`, snapshot: sorted[0] };
+  }
+  if (raw === "previous") {
+    // The newest saved version whose code differs from the working code.
+    const baseline = current ?? sorted[0];
+    const snapshot = baseline && sorted.find((version) => !hasSameSources(version, baseline));
+    if (snapshot) return { ok: true, label: `v${snapshot.versionNumber}`, snapshot };
+  }
+
+  const numberMatch = raw.match(/^v?(\d+)$/);
+  if (numberMatch) {
+    const snapshot = sorted.find((version) => version.versionNumber === Number(numberMatch[1]));
+    if (snapshot) return { ok: true, label: `v${snapshot.versionNumber}`, snapshot };
+  }
+
+  return {
+    ok: false,
+    error: `Version "${String(reference)}" not found.`,
+    availableVersions,
+  };
+}
+
+/** Every source file of a snapshot by path, main included. */
+function snapshotSources(snapshot: VersionSnapshot): ProjectFiles {
+  return { [MAIN_FILE]: snapshot.jscadCode, ...snapshot.files };
+}
+
+function hasSameSources(a: VersionSnapshot, b: VersionSnapshot) {
+  const sourcesA = snapshotSources(a);
+  const sourcesB = snapshotSources(b);
+  const paths = new Set([...Object.keys(sourcesA), ...Object.keys(sourcesB)]);
+  return [...paths].every((path) => sourcesA[path] === sourcesB[path]);
+}
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+// Myers O(ND) line diff over the lines between the common prefix and suffix.
+// When that middle is too large or too different it is shown as removed and
+// re-added.
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const from = a.slice(prefix, a.length - suffix);
+  const to = b.slice(prefix, b.length - suffix);
+  const middle = diffMiddle(from, to) ?? [
+    ...from.map((line): DiffOp => ({ type: "-", line })),
+    ...to.map((line): DiffOp => ({ type: "+", line })),
+  ];
+  return [
+    ...a.slice(0, prefix).map((line): DiffOp => ({ type: " ", line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line): DiffOp => ({ type: " ", line })),
+  ];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  if (n * m > MAX_DIFF_CELLS) return null;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -d..d before step d, which is all the
+  // backtrack reads, so memory stays O(D^2) rather than O(D * (n + m)).
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    // Window of diagonals -d..d, so diagonal k sits at index k + d.
+    if (d === 0) {
+      while (x > 0 && y > 0) {
+        ops.push({ type: " ", line: a[x - 1] });
+        x--;
+        y--;
+      }
+      break;
+    }
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]) ? k + 1 : k - 1;
+    const prevX = v[prevK + d];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: " ", line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: "+", line: b[y - 1] });
+      y--;
+    } else {
+      ops.push({ type: "-", line: a[x - 1] });
+      x--;
+    }
+  }
+  return ops.reverse();
+}
+
+export function createUnifiedDiff(
+  fromText: string,
+  toText: string,
+  labels: { from: string; to: string }
+): { diff: string; added: number; removed: number } {
+  const a = fromText.split("\n");
+  const b = toText.split("\n");
+  const ops = diffLines(a, b);
+
+  const added = ops.filter((op) => op.type === "+").length;
+  const removed = ops.filter((op) => op.type === "-").length;
+  if (added === 0 && removed === 0) return { diff: "", added, removed };
+
+  const lines = [`--- ${labels.from}`, `+++ ${labels.to}`];
+  let index = 0;
+  let fromLine = 1;
+  let toLine = 1;
+  while (index < ops.length) {
+    const nextChange = ops.findIndex((op, i) => i >= index && op.type !== " ");
+    if (nextChange === -1) break;
+
+    const start = Math.max(index, nextChange - DIFF_CONTEXT_LINES);
+    fromLine += start - index;
+    toLine += start - index;
+
+    // Extend the hunk while changes are within 2 * context of each other.
+    let end = nextChange;
+    let lastChange = nextChange;
+    while (end < ops.length && end - lastChange <= DIFF_CONTEXT_LINES * 2) {
+      if (ops[end].type !== " ") lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + DIFF_CONTEXT_LINES + 1);
+
+    const hunk = ops.slice(start, end);
+    const fromCount = hunk.filter((op) => op.type !== "+").length;
+    const toCount = hunk.filter((op) => op.type !== "-").length;
+    lines.push(
+      `@@ -${fromCount ? fromLine : fromLine - 1},${fromCount} +${toCount ? toLine : toLine - 1},${toCount} @@`
+    );
+    for (const op of hunk) {
+      lines.push(`${op.type}${op.line}`);
+    }
+    fromLine += fromCount;
+    toLine += toCount;
+    index = end;
+  }
+
+  return { diff: lines.join("\n"), added, removed };
+}
+
+function round(value: number) {
+  return Math.round(value * 1000) / 1000;
+}
+
+function toVector(value: unknown): number[] | undefined {
+  if (!Array.isArray(value) || value.length !== 3) return undefined;
+  return value.every((entry) => typeof entry === "number") ? (value as number[]) : undefined;
+}
+
+// Stored metadata uses the worker's `[[min], [max]]` box; measurements use `{ min, max }`.
+function normalizeBoundingBox(value: unknown): NormalizedMetadata["boundingBox"] {
+  let min: number[] | undefined;
+  let max: number[] | undefined;
+  if (Array.isArray(value)) {
+    min = toVector(value[0]);
+    max = toVector(value[1]);
+  } else if (value && typeof value === "object") {
+    min = toVector((value as { min?: unknown }).min);
+    max = toVector((value as { max?: unknown }).max);
+  }
+  if (!min || !max) return undefined;
+  return {
+    min: min.map(round),
+    max: max.map(round),
+    dimensions: max.map((entry, axis) => round(entry - min[axis])),
+  };
+}
+
+interface SnapshotState {
+  parameters: Record<string, unknown>;
+  metadata: NormalizedMetadata;
+  error?: string;
+}
+
+/** What snapshots resolve `./assets/...` and pinned library requires against. */
+export interface SnapshotEnvironment {
+  assets?: Record<string, string>;
+  dependencies?: DependencyLock;
+}
+
+async function describeSnapshot(snapshot: VersionSnapshot, environment: SnapshotEnvironment): Promise<SnapshotState> {
+  const stored = snapshot.metadata ?? {};
+  const metadata: NormalizedMetadata = {
+    boundingBox: normalizeBoundingBox(stored.boundingBox),
+    volume: stored.volume,
+    surfaceArea: stored.surfaceArea,
+    polygonCount: stored.polygonCount,
+  };
+
+  // Re-evaluate for effective parameters (defaults included) and any metadata the row lacks.
+  const evaluation = await evaluateJscadCode(snapshot.jscadCode, {
+    parameters: snapshot.parameters,
+    files: snapshot.files,
+    assets: environment.assets,
+    dependencies: environment.dependencies,
+  });
+  if (!evaluation.ok) {
+    return { parameters: snapshot.parameters ?? {}, metadata, error: evaluation.error };
+  }
+
+  const measured = await calculateMeasurements(evaluation.geometries);
+  if (measured) {
+    metadata.boundingBox ??= normalizeBoundingBox(measured.boundingBox);
+    metadata.volume ??= measured.volume;
+    metadata.surfaceArea ??= measured.surfaceArea;
+    metadata.polygonCount ??= measured.triangleCount;
+  }
+  return { parameters: evaluation.parameters, metadata };
+}
+
+function diffParameters(from: Record<string, unknown>, to: Record<string, unknown>): ParameterChange[] {
+  const names = [...new Set([...Object.keys(from), ...Object.keys(to)])];
+  return names
+    .filter((name) => JSON.stringify(from[name]) !== JSON.stringify(to[name]))
+    .map((name) => ({ name, from: from[name], to: to[name] }));
+}
+
+function diffMetadata(from: NormalizedMetadata, to: NormalizedMetadata): MetadataChanges {
+  const changes: MetadataChanges = {};
+  if (from.boundingBox && to.boundingBox) {
+    const delta = to.boundingBox.dimensions.map((entry, axis) => round(entry - from.boundingBox!.dimensions[axis]));
+    if (delta.some((entry) => entry !== 0)) {
+      changes.dimensions = { from: from.boundingBox.dimensions, to: to.boundingBox.dimensions, delta };
+    }
+    if (JSON.stringify([from.boundingBox.min, from.boundingBox.max]) !== JSON.stringify([to.boundingBox.min, to.boundingBox.max])) {
+      changes.boundingBox = {
+        from: { min: from.boundingBox.min, max: from.boundingBox.max },
+        to: { min: to.boundingBox.min, max: to.boundingBox.max },
+      };
+    }
+  }
+  if (from.volume !== undefined && to.volume !== undefined && round(from.volume) !== round(to.volume)) {
+    changes.volume = {
+      from: round(from.volume),
+      to: round(to.volume),
+      delta: round(to.volume - from.volume),
+      percent: from.volume === 0 ? null : round(((to.volume - from.volume) / Math.abs(from.volume)) * 100),
+    };
+  }
+  if (from.surfaceArea !== undefined && to.surfaceArea !== undefined && round(from.surfaceArea) !== round(to.surfaceArea)) {
+    changes.surfaceArea = {
+      from: round(from.surfaceArea),
+      to: round(to.surfaceArea),
+      delta: round(to.surfaceArea - from.surfaceArea),
+    };
+  }
+  if (from.polygonCount !== undefined && to.polygonCount !== undefined && from.polygonCount !== to.polygonCount) {
+    changes.polygonCount = {
+      from: from.polygonCount,
+      to: to.polygonCount,
+      delta: to.polygonCount - from.polygonCount,
+    };
+  }
+  return changes;
+}
+
+export async function diffVersions(
+  from: { label: string; snapshot: VersionSnapshot },
+  to: { label: string; snapshot: VersionSnapshot },
+  environment: SnapshotEnvironment = {}
+): Promise<VersionDiff> {
+  // Single-file projects keep plain "v1"/"v2" headers; otherwise each changed file gets its own section.
+  const fromSources = snapshotSources(from.snapshot);
+  const toSources = snapshotSources(to.snapshot);
+  const paths = [...new Set([...Object.keys(fromSources), ...Object.keys(toSources)])];
+  const multiFile = paths.length > 1;
+  const fileDiffs = paths
+    .sort((a, b) => (a === MAIN_FILE ? -1 : b === MAIN_FILE ? 1 : a.localeCompare(b)))
+    .map((path) =>
+      createUnifiedDiff(fromSources[path] ?? "", toSources[path] ?? "", {
+        from: multiFile ? `${from.label}/${path}` : from.label,
+        to: multiFile ? `${to.label}/${path}` : to.label,
+      })
+    );
+  const diff = fileDiffs.map((fileDiff) => fileDiff.diff).filter(Boolean).join("\n");
+  const added = fileDiffs.reduce((sum, fileDiff) => sum + fileDiff.added, 0);
+  const removed = fileDiffs.reduce((sum, fileDiff) => sum + fileDiff.removed, 0);
+  const outputLines = diff ? diff.split("\n") : [];
+  const truncated = outputLines.length > MAX_DIFF_LINES;
+
+  const [fromState, toState] = await Promise.all([
+    describeSnapshot(from.snapshot, environment),
+    describeSnapshot(to.snapshot, environment),
+  ]);
+  const evaluationErrors = Object.fromEntries(
+    [
+      [from.label, fromState.error],
+      [to.label, toState.error],
+    ].filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  );
+
+  return {
+    from: from.label,
+    to: to.label,
+    unifiedDiff: truncated
+      ? `${outputLines.slice(0, MAX_DIFF_LINES).join("\n")}\n... (${outputLines.length - MAX_DIFF_LINES} more diff lines)`
+      : diff,
+    truncated,
+    linesAdded: added,
+    linesRemoved: removed,
+    parameterChanges: diffParameters(fromState.parameters, toState.parameters),
+    metadataChanges: diffMetadata(fromState.metadata, toState.metadata),
+    ...(Object.keys(evaluationErrors).length > 0 ? { evaluationErrors } : {}),
+  };
+}
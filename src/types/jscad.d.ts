@@ -5,9 +5,8 @@ declare module "@jscad/stl-serializer" {
     binary?: boolean;
   }
 
-  interface StlSerializerResult {
-    data: Uint8Array;
-  }
+  /** Blob parts: ArrayBuffers for binary STL, a single string for ASCII. */
+  type StlSerializerResult = Array<ArrayBuffer | string>;
 
   export function serialize(
     options: StlSerializerOptions,
@@ -0,0 +1,152 @@
+import { expect, test } from "bun:test";
+import { crc32, createZip, encodeGif, frameFileName, lzwEncode, sweepValues } from "../src/lib/animation-export";
+import { analyzeFrameMotion, buildAnimatedScene, buildGlb, buildStaticScene, smoothIndexedMesh } from "../src/lib/gltf";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+
+// Reference GIF LZW decoder, reading the sub-blocked stream lzwEncode produces.
+function lzwDecode(blocks, minCodeSize) {
+  const bytes = [];
+  for (let i = 0; blocks[i] !== 0; i += blocks[i] + 1) bytes.push(...blocks.subarray(i + 1, i + 1 + blocks[i]));
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let size = minCodeSize + 1;
+  let table = [];
+  const reset = () => {
+    table = Array.from({ length: end + 1 }, (_, i) => (i < clear ? [i] : []));
+    size = minCodeSize + 1;
+  };
+  const out = [];
+  let previous = null;
+  let bit = 0;
+  while (true) {
+    let code = 0;
+    for (let b = 0; b < size; b++, bit++) code |= ((bytes[bit >> 3] >> (bit & 7)) & 1) << b;
+    if (code === clear) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === end) break;
+    const entry = code < table.length ? table[code] : [...previous, previous[0]];
+    out.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    previous = entry;
+    if (table.length === 1 << size && size < 12) size += 1;
+  }
+  return out;
+}
+
+test("sweep values cover the range and frame names sort", () => {
+  expect(sweepValues(5)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+  expect(sweepValues(3, [-1, 1])).toEqual([-1, 0, 1]);
+  expect(frameFileName(0, 30, "png")).toBe("frame-001.png");
+  expect(frameFileName(999, 1200, "png")).toBe("frame-1000.png");
+});
+
+test("zip archives store entries with their CRC", () => {
+  const data = new TextEncoder().encode("hello");
+  expect(crc32(data)).toBe(0x3610a686);
+  const zip = createZip([{ name: "frame-001.png", data }], new Date(2024, 0, 2, 3, 4, 6));
+  const view = new DataView(zip.buffer);
+  expect(view.getUint32(0, true)).toBe(0x04034b50);
+  expect(view.getUint32(14, true)).toBe(0x3610a686);
+  expect(new TextDecoder().decode(zip.subarray(30, 43))).toBe("frame-001.png");
+  expect(new TextDecoder().decode(zip.subarray(43, 48))).toBe("hello");
+  const endRecord = zip.length - 22;
+  expect(view.getUint32(endRecord, true)).toBe(0x06054b50);
+  expect(view.getUint16(endRecord + 10, true)).toBe(1);
+});
+
+test("LZW output decodes back to the input, across table resets", () => {
+  const noisy = Uint8Array.from({ length: 20000 }, (_, i) => (i * 7919) % 251);
+  const flat = new Uint8Array(5000).fill(3);
+  for (const input of [noisy, flat, Uint8Array.from([1])]) {
+    expect(lzwDecode(lzwEncode(input, 8), 8)).toEqual([...input]);
+  }
+});
+
+test("GIF frames share one palette and loop forever", () => {
+  const frame = (r) => ({ width: 4, height: 2, data: Uint8Array.from({ length: 32 }, (_, i) => (i % 4 === 0 ? r : 255)) });
+  const gif = encodeGif([frame(0), frame(255)], { delayMs: 100 });
+  const text = new TextDecoder("latin1").decode(gif);
+  expect(text.startsWith("GIF89a")).toBe(true);
+  expect(text).toContain("NETSCAPE2.0");
+  expect(gif[gif.length - 1]).toBe(0x3b);
+  expect(text.split("\x21\xf9\x04").length - 1).toBe(2);
+});
+
+test("rigidly moving parts animate by transform, deforming parts by morph targets", async () => {
+  const code = (angle, height) => `
+const { primitives, transforms } = require('@jscad/modeling')
+const main = () => [
+  transforms.translate([10, 0, 0], transforms.rotateZ(${angle}, primitives.cuboid({ size: [4, 2, 1] }))),
+  primitives.cuboid({ size: [2, 2, ${height}] }),
+]
+module.exports = { main }
+`;
+  const frames = [];
+  for (const [angle, height] of [
+    [0, 1],
+    [0.5, 2],
+    [1, 3],
+  ]) {
+    const evaluation = await evaluateJscadCode(code(angle, height));
+    if (!evaluation.ok) throw new Error(evaluation.error);
+    frames.push(evaluation.geometries);
+  }
+
+  const [rotating, stretching] = analyzeFrameMotion(frames);
+  expect(rotating.kind).toBe("rigid");
+  const [qx, qy, qz, qw] = rotating.rotations[2];
+  expect(Math.abs(qx) + Math.abs(qy)).toBeLessThan(1e-6);
+  expect(2 * Math.atan2(qz, qw)).toBeCloseTo(1, 5);
+  expect(rotating.translations[2][0]).toBeCloseTo(10 - 10 * Math.cos(1), 4);
+  expect(stretching.kind).toBe("morph");
+
+  const { nodes, animations, motion } = buildAnimatedScene(frames, 2);
+  expect(motion).toEqual(["rigid", "morph"]);
+  const glb = buildGlb(nodes, animations);
+  const view = new DataView(glb.buffer);
+  expect(view.getUint32(0, true)).toBe(0x46546c67);
+  expect(view.getUint32(8, true)).toBe(glb.length);
+  const json = JSON.parse(new TextDecoder().decode(glb.subarray(20, 20 + view.getUint32(12, true))));
+  expect(json.animations[0].channels.map((channel) => channel.target.path)).toEqual([
+    "translation",
+    "rotation",
+    "weights",
+  ]);
+  expect(json.meshes[1].primitives[0].targets).toHaveLength(2);
+  expect(json.buffers[0].byteLength % 4).toBe(0);
+});
+
+test("static GLB parts are indexed, keep hard edges and carry their colors", async () => {
+  const evaluation = await evaluateJscadCode(`
+const { primitives, colors } = require('@jscad/modeling')
+const main = () => [
+  colors.colorize([0, 0.5, 1], primitives.cuboid({ size: [2, 2, 2] })),
+  primitives.cylinder({ radius: 5, height: 4, segments: 32 }),
+]
+module.exports = { main }
+`);
+  if (!evaluation.ok) throw new Error(evaluation.error);
+  const [box, cylinder] = evaluation.geometries;
+
+  const cube = smoothIndexedMesh(box);
+  expect(cube.positions.length / 3).toBe(24);
+  expect(cube.indices).toHaveLength(36);
+  // Side wall vertices are shared between neighbouring facets; the rims stay sharp.
+  const tube = smoothIndexedMesh(cylinder);
+  expect(tube.positions.length / 3).toBe(32 * 2 + 32 * 2 + 2);
+  for (let i = 0; i < tube.normals.length; i += 3) {
+    expect(Math.hypot(tube.normals[i], tube.normals[i + 1], tube.normals[i + 2])).toBeCloseTo(1, 5);
+  }
+
+  const glb = buildGlb(buildStaticScene(evaluation.geometries));
+  const view = new DataView(glb.buffer);
+  const json = JSON.parse(new TextDecoder().decode(glb.subarray(20, 20 + view.getUint32(12, true))));
+  expect(json.nodes.map((node) => node.name)).toEqual(["root", "part-0", "part-1"]);
+  const indices = json.accessors[json.meshes[0].primitives[0].indices];
+  expect(indices).toMatchObject({ componentType: 5125, count: 36 });
+  expect(json.materials[0].pbrMetallicRoughness.baseColorFactor).toEqual([0, 0.5, 1, 1]);
+  expect(json.animations).toBeUndefined();
+});
@@ -0,0 +1,97 @@
+import { expect, test } from "bun:test";
+import {
+  createFrameCache,
+  defaultTracks,
+  elapsedForTime,
+  frameCount,
+  frameValuesAt,
+  quantizeTime,
+  readPlaybackParams,
+  removeKeyframe,
+  setKeyframe,
+  timelineFrames,
+  timeForValue,
+  timelineTimeAt,
+} from "../src/lib/animation-timeline";
+
+const settings = (overrides = {}) => ({ durationSec: 2, mode: "loop", direction: "forward", fps: 30, ...overrides });
+
+const parameters = [
+  { name: "progress", type: "number", value: 0, min: 0, max: 1, label: "Progress" },
+  { name: "angle", type: "number", value: 0, min: -90, max: 90, label: "Angle" },
+  { name: "durationSec", type: "number", value: 4, label: "Duration" },
+  { name: "label", type: "text", value: "A", label: "Label" },
+];
+
+test("playback modes map elapsed time onto the pass", () => {
+  expect(timelineTimeAt(3, settings({ mode: "once" }))).toEqual({ time: 1, finished: true });
+  expect(timelineTimeAt(3, settings()).time).toBeCloseTo(0.5, 9);
+  expect(timelineTimeAt(3, settings({ mode: "pingpong" })).time).toBeCloseTo(0.5, 9);
+  expect(timelineTimeAt(3.5, settings({ mode: "pingpong" })).time).toBeCloseTo(0.25, 9);
+  expect(timelineTimeAt(0.5, settings({ direction: "reverse" })).time).toBeCloseTo(0.75, 9);
+  expect(elapsedForTime(0.75, settings({ direction: "reverse" }))).toBeCloseTo(0.5, 9);
+});
+
+test("frames are quantized so repeated passes reuse the same values", () => {
+  expect(frameCount(settings())).toBe(61);
+  expect(frameCount(settings({ durationSec: 60 }))).toBe(240);
+  expect(quantizeTime(0.5049, 61)).toBeCloseTo(0.5, 9);
+
+  const tracks = defaultTracks(parameters);
+  expect(tracks).toEqual([
+    {
+      param: "progress",
+      keyframes: [
+        { time: 0, value: 0 },
+        { time: 1, value: 1 },
+      ],
+    },
+  ]);
+  const frames = timelineFrames(tracks, settings({ direction: "reverse" }));
+  expect(frames).toHaveLength(61);
+  expect(frames[0].values).toEqual({ progress: 1 });
+  expect(frames[60].values).toEqual({ progress: 0 });
+});
+
+test("keyframed tracks interpolate and hold their ends", () => {
+  let tracks = setKeyframe(defaultTracks(parameters), "angle", { time: 0.25, value: -90 });
+  tracks = setKeyframe(tracks, "angle", { time: 0.75, value: 90 });
+  tracks = setKeyframe(tracks, "angle", { time: 0.75, value: 45 });
+
+  expect(tracks[1].keyframes).toEqual([
+    { time: 0.25, value: -90 },
+    { time: 0.75, value: 45 },
+  ]);
+  expect(frameValuesAt(tracks, 0)).toEqual({ progress: 0, angle: -90 });
+  expect(frameValuesAt(tracks, 0.5)).toEqual({ progress: 0.5, angle: -22.5 });
+  expect(frameValuesAt(tracks, 1)).toEqual({ progress: 1, angle: 45 });
+  expect(timeForValue(tracks[1], -22.5)).toBeCloseTo(0.5, 9);
+  expect(timeForValue(tracks[1], 60)).toBeNull();
+
+  tracks = removeKeyframe(removeKeyframe(tracks, "angle", 0), "angle", 0);
+  expect(tracks.map((track) => track.param)).toEqual(["progress"]);
+});
+
+test("playback params declared by the model become timeline settings", () => {
+  expect(readPlaybackParams({ durationSec: 4, direction: "reverse", autoPlay: true })).toEqual({
+    settings: { durationSec: 4, direction: "reverse" },
+    autoPlay: true,
+  });
+  expect(readPlaybackParams({ direction: "ping-pong", durationSec: 0 })).toEqual({
+    settings: { mode: "pingpong" },
+    autoPlay: false,
+  });
+});
+
+test("the frame cache keys on every parameter and evicts the oldest frame", () => {
+  const cache = createFrameCache(2);
+  cache.set({ progress: 0, width: 10 }, "a");
+  cache.set({ width: 10, progress: 0.5 }, "b");
+  expect(cache.get({ width: 10, progress: 0 })).toBe("a");
+  expect(cache.get({ progress: 0, width: 12 })).toBeUndefined();
+
+  cache.set({ progress: 1, width: 10 }, "c");
+  expect(cache.size).toBe(2);
+  expect(cache.has({ progress: 0.5, width: 10 })).toBe(false);
+  expect(cache.has({ progress: 0, width: 10 })).toBe(true);
+});
@@ -0,0 +1,100 @@
+import { expect, test } from "bun:test";
+import { findRegressions, scoreBenchmarkCode, summarizeBenchmark } from "../src/server/benchmark";
+
+const spacerCode = `const { primitives, booleans } = require('@jscad/modeling')
+
+const getParameterDefinitions = () => [
+  { name: 'outerDiameter', type: 'number', initial: 20 },
+  { name: 'boreDiameter', type: 'number', initial: 8.5 },
+]
+
+const main = ({ outerDiameter = 20, boreDiameter = 8.5 } = {}) => [
+  booleans.subtract(
+    primitives.cylinder({ radius: outerDiameter / 2, height: 15, segments: 48 }),
+    primitives.cylinder({ radius: boreDiameter / 2, height: 16, segments: 48 })
+  ),
+]
+
+module.exports = { main, getParameterDefinitions }
+`;
+
+const run = (model, caseId, passed, extra = {}) => ({
+  caseId,
+  model,
+  score: { passed, score: passed ? 1 : 0.5, checks: [] },
+  iterations: 2,
+  latencyMs: 1000,
+  usage: { promptTokens: 100, completionTokens: 10, reasoningTokens: 0, cost: 0.01 },
+  ...extra,
+});
+
+test("scoreBenchmarkCode passes code that meets every expectation", async () => {
+  const score = await scoreBenchmarkCode(spacerCode, {
+    boundingBox: { size: [20, 20, 15], tolerance: 0.05 },
+    manifold: true,
+    parameters: ["diameter", "bore"],
+    minParts: 1,
+    minVolume: 3000,
+  });
+
+  expect(score.checks.map((check) => [check.name, check.passed])).toEqual([
+    ["evaluates", true],
+    ["boundingBox", true],
+    ["manifold", true],
+    ["parameters", true],
+    ["minParts", true],
+    ["minVolume", true],
+  ]);
+  expect(score).toMatchObject({ passed: true, score: 1 });
+});
+
+test("scoreBenchmarkCode reports failed checks with details", async () => {
+  const score = await scoreBenchmarkCode(spacerCode, {
+    boundingBox: { size: [30, 30, 15] },
+    parameters: ["height"],
+    minParts: 2,
+  });
+
+  expect(score.passed).toBe(false);
+  expect(score.score).toBeCloseTo(0.25);
+  expect(score.checks.find((check) => check.name === "boundingBox").detail).toContain("got 20.0 x 20.0 x 15.0");
+  expect(score.checks.find((check) => check.name === "parameters").detail).toContain("missing height");
+});
+
+test("scoreBenchmarkCode resolves relative requires against the run's project files", async () => {
+  const main = `const { spacer } = require('./lib/spacer')
+module.exports = { main: () => [spacer(20, 15)] }`;
+  const files = {
+    "lib/spacer.jscad": `const { primitives } = require('@jscad/modeling')
+const spacer = (diameter, height) => primitives.cylinder({ radius: diameter / 2, height, segments: 48 })
+module.exports = { spacer }`,
+  };
+  const expectations = { boundingBox: { size: [20, 20, 15], tolerance: 0.05 }, minParts: 1 };
+
+  expect(await scoreBenchmarkCode(main, expectations, files)).toMatchObject({ passed: true, score: 1 });
+  const withoutFiles = await scoreBenchmarkCode(main, expectations);
+  expect(withoutFiles.checks[0]).toMatchObject({ name: "evaluates", passed: false });
+});
+
+test("code that does not evaluate fails every expectation", async () => {
+  const score = await scoreBenchmarkCode("module.exports = { main: () => { throw new Error('boom') } }", {
+    manifold: true,
+    minParts: 1,
+  });
+
+  expect(score.passed).toBe(false);
+  expect(score.checks.map((check) => check.passed)).toEqual([false, false, false]);
+  expect(score.checks[0].detail).toContain("boom");
+});
+
+test("summarizeBenchmark aggregates per model and findRegressions compares reports", () => {
+  const baseline = { runs: [run("a", "spacer", true), run("a", "bracket", true)] };
+  const runs = [run("a", "spacer", true), run("a", "bracket", false, { iterations: 4 }), run("b", "spacer", false)];
+
+  const [a, b] = summarizeBenchmark(runs);
+  expect(a).toMatchObject({ model: "a", runs: 2, passed: 1, passRate: 0.5, meanScore: 0.75, meanIterations: 3 });
+  expect(a.usage).toEqual({ promptTokens: 200, completionTokens: 20, reasoningTokens: 0, cost: 0.02 });
+  expect(b.passRate).toBe(0);
+
+  expect(findRegressions({ runs }, baseline)).toEqual([{ model: "a", caseId: "bracket" }]);
+});
@@ -0,0 +1,77 @@
+import { afterEach, expect, test } from "bun:test";
+import { runCodegen } from "../src/server/routers/codegen";
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+const input = {
+  prompt: "make a cube",
+  currentCode: "module.exports = { main: () => [] }",
+  openRouterApiKey: "test-key",
+  model: "test/model",
+  maxIterations: 5,
+};
+
+function toolCallResponse() {
+  return new Response(
+    JSON.stringify({
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: "",
+            tool_calls: [
+              {
+                id: "call-1",
+                type: "function",
+                function: { name: "read_code", arguments: "{}" },
+              },
+            ],
+          },
+        },
+      ],
+    }),
+    { status: 200, headers: { "Content-Type": "application/json" } }
+  );
+}
+
+test("aborting between model calls ends the run with a cancelled event", async () => {
+  const controller = new AbortController();
+  let requests = 0;
+  globalThis.fetch = async () => {
+    requests++;
+    controller.abort();
+    return toolCallResponse();
+  };
+
+  const events = [];
+  const result = await runCodegen(input, (event) => events.push(event), { signal: controller.signal });
+
+  expect(requests).toBe(1);
+  expect(result).toMatchObject({ code: input.currentCode, iterations: 1, toolResults: [] });
+  expect(events.map((event) => event.type)).toEqual(["iteration_started", "cancelled"]);
+  expect(events.at(-1)).toMatchObject({ type: "cancelled", iteration: 1 });
+});
+
+test("aborting cancels the in-flight OpenRouter request", async () => {
+  const controller = new AbortController();
+  globalThis.fetch = (_url, init) =>
+    new Promise((_resolve, reject) => {
+      init.signal.addEventListener("abort", () => reject(init.signal.reason));
+      setTimeout(() => controller.abort(), 10);
+    });
+
+  const events = [];
+  await runCodegen(input, (event) => events.push(event), { signal: controller.signal });
+  expect(events.at(-1)?.type).toBe("cancelled");
+});
+
+test("failures without an abort still reject", async () => {
+  globalThis.fetch = async () => new Response("upstream down", { status: 502 });
+  await expect(runCodegen(input, undefined, { signal: new AbortController().signal })).rejects.toThrow(
+    "OpenRouter API error: 502"
+  );
+});
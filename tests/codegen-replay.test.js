@@ -0,0 +1,153 @@
+import { afterEach, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { runCodegen } from "../src/server/routers/codegen";
+import {
+  createMockProvider,
+  createReplayProvider,
+  loadLlmSession,
+  mockStream,
+  mockText,
+  mockToolCalls,
+} from "../src/server/llm";
+
+const originalRecordDir = process.env.LLM_RECORD_DIR;
+
+afterEach(() => {
+  if (originalRecordDir === undefined) {
+    delete process.env.LLM_RECORD_DIR;
+  } else {
+    process.env.LLM_RECORD_DIR = originalRecordDir;
+  }
+});
+
+const fixturePath = path.join(import.meta.dir, "fixtures/llm/runtime-error-fix.json");
+
+const cubeCode = `const { primitives } = require('@jscad/modeling')
+
+const main = () => [primitives.cube({ size: 10 })]
+
+module.exports = { main }
+`;
+
+function collectEvents() {
+  const events = [];
+  return { events, onEvent: (event) => events.push(event) };
+}
+
+function summarize(events) {
+  return events.map((event) => {
+    if (event.type === "tool_call_started" || event.type === "tool_call_completed") {
+      return `${event.type}:${event.toolName}`;
+    }
+    if (event.type === "diagnostics") return `diagnostics:${event.errors}`;
+    if (event.type === "iteration_started") return `iteration_started:${event.iteration}`;
+    return event.type;
+  });
+}
+
+test("replayed session exercises the runtime-error guard before finishing", async () => {
+  const session = await loadLlmSession(fixturePath);
+  const llm = createReplayProvider(session);
+  const { events, onEvent } = collectEvents();
+
+  const result = await runCodegen(session.input, onEvent, { llm });
+
+  expect(summarize(events)).toEqual([
+    "iteration_started:1",
+    "tool_call_started:write_code",
+    "tool_call_completed:write_code",
+    "diagnostics:0",
+    "iteration_started:2",
+    "iteration_started:3",
+    "tool_call_started:write_code",
+    "tool_call_completed:write_code",
+    "diagnostics:0",
+    "iteration_started:4",
+    "assistant_message",
+    "done",
+  ]);
+  expect(events[2].result.runtime.ok).toBe(false);
+  expect(events[7].result.runtime.ok).toBe(true);
+  expect(result.code).toContain("const cubeSize = 10");
+  expect(result.assistantMessage).toBe("Created a 10 mm cube and fixed the undefined size variable.");
+  expect(llm.remaining).toBe(0);
+
+  // The premature "done" reply is rejected with a fix-first instruction.
+  const guardRequest = llm.requests[2];
+  expect(guardRequest.messages.at(-1)).toEqual({
+    role: "system",
+    content:
+      "You must fix the outstanding runtime/diagnostic errors before responding. Use edit_code to correct the code.",
+  });
+});
+
+test("scripted run streams the final message when iterations run out", async () => {
+  const llm = createMockProvider([
+    mockToolCalls([{ name: "read_code" }]),
+    mockStream("Read the current cube; nothing to change.", 10),
+  ]);
+  const { events, onEvent } = collectEvents();
+
+  const result = await runCodegen(
+    { prompt: "what is this?", currentCode: cubeCode, maxIterations: 1 },
+    onEvent,
+    { llm }
+  );
+
+  expect(summarize(events)).toEqual([
+    "iteration_started:1",
+    "tool_call_started:read_code",
+    "tool_call_completed:read_code",
+    "assistant_message_delta",
+    "assistant_message_delta",
+    "assistant_message_delta",
+    "assistant_message_delta",
+    "assistant_message_delta",
+    "assistant_message",
+    "done",
+  ]);
+  expect(result.assistantMessage).toBe("Read the current cube; nothing to change.");
+  expect(llm.requests[1].toolChoice).toBe("none");
+});
+
+test("mock provider reports script mismatches", async () => {
+  const llm = createMockProvider([mockText("```js\nconst x = 1\n```")]);
+
+  await expect(
+    runCodegen({ prompt: "hi", currentCode: cubeCode, maxIterations: 1 }, undefined, { llm })
+  ).rejects.toThrow("Mock LLM script exhausted after 1 exchange(s)");
+});
+
+test("LLM_RECORD_DIR saves a session that replays to the same result", async () => {
+  const recordDir = await mkdtemp(path.join(os.tmpdir(), "llm-record-"));
+  process.env.LLM_RECORD_DIR = recordDir;
+  try {
+    const input = {
+      prompt: "make a cube",
+      currentCode: "",
+      openRouterApiKey: "secret-key",
+      maxIterations: 3,
+    };
+    const recorded = await runCodegen(input, undefined, {
+      llm: createMockProvider([
+        mockToolCalls([{ name: "write_code", args: { code: cubeCode } }]),
+        mockText("Created a cube."),
+      ]),
+    });
+
+    const [fileName] = await readdir(recordDir);
+    const session = await loadLlmSession(path.join(recordDir, fileName));
+    expect(session.input).toEqual({ prompt: "make a cube", currentCode: "", maxIterations: 3 });
+    expect(session.exchanges.map((exchange) => exchange.kind)).toEqual(["complete", "complete"]);
+    expect(session.exchanges[0].request.toolNames).toContain("write_code");
+
+    delete process.env.LLM_RECORD_DIR;
+    const replayed = await runCodegen(session.input, undefined, { llm: createReplayProvider(session) });
+    expect(replayed.code).toBe(recorded.code);
+    expect(replayed.assistantMessage).toBe("Created a cube.");
+  } finally {
+    await rm(recordDir, { recursive: true, force: true });
+  }
+});
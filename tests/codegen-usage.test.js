@@ -0,0 +1,103 @@
+import { expect, test } from "bun:test";
+import { runCodegen } from "../src/server/routers/codegen";
+import { createMockProvider, mockStream, mockText, mockToolCalls, withUsage } from "../src/server/llm";
+
+const cubeCode = `const { primitives } = require('@jscad/modeling')
+
+const main = () => [primitives.cube({ size: 10 })]
+
+module.exports = { main }
+`;
+
+const usage = (promptTokens, completionTokens, extra = {}) => ({
+  promptTokens,
+  completionTokens,
+  reasoningTokens: 0,
+  ...extra,
+});
+
+test("usage is tracked per iteration, emitted as events and returned", async () => {
+  const llm = createMockProvider([
+    withUsage(mockToolCalls([{ name: "read_code" }]), usage(1000, 200, { cost: 0.01 })),
+    withUsage(mockStream("Nothing to change."), usage(1500, 50, { reasoningTokens: 20, cost: 0.02 })),
+  ]);
+  const events = [];
+
+  const result = await runCodegen(
+    { prompt: "inspect", currentCode: cubeCode, maxIterations: 1 },
+    (event) => events.push(event),
+    { llm }
+  );
+
+  const usageEvents = events.filter((event) => event.type === "usage");
+  expect(usageEvents).toHaveLength(2);
+  expect(usageEvents[1].total).toEqual({
+    promptTokens: 2500,
+    completionTokens: 250,
+    reasoningTokens: 20,
+    cost: 0.03,
+  });
+  expect(result.usage.total.promptTokens).toBe(2500);
+  expect(result.usage.iterations).toEqual([
+    { iteration: 1, requests: 2, promptTokens: 2500, completionTokens: 250, reasoningTokens: 20, cost: 0.03 },
+  ]);
+});
+
+test("cost is estimated from list prices when the provider does not report it", async () => {
+  const llm = createMockProvider([withUsage(mockText("Done."), usage(1_000_000, 100_000))]);
+
+  const result = await runCodegen(
+    { prompt: "hi", currentCode: cubeCode, model: "anthropic:claude-sonnet-4-5", maxIterations: 1 },
+    undefined,
+    { llm }
+  );
+
+  expect(result.usage.total.cost).toBeCloseTo(4.5);
+});
+
+test("unknown models keep token counts without a cost", async () => {
+  const llm = createMockProvider([withUsage(mockText("Done."), usage(10, 5))]);
+
+  const result = await runCodegen(
+    { prompt: "hi", currentCode: cubeCode, model: "openai-compatible:local-model", maxIterations: 1 },
+    undefined,
+    { llm }
+  );
+
+  expect(result.usage.total).toEqual(usage(10, 5));
+});
+
+test("monthly budget is enforced before each model request", async () => {
+  const llm = createMockProvider([
+    withUsage(mockToolCalls([{ name: "read_code" }]), usage(100, 10, { cost: 0.5 })),
+    mockText("never reached"),
+  ]);
+  const recorded = [];
+  const usageBudget = {
+    getStatus: async () => ({ month: "2026-10", spent: 4.6, limit: 5 }),
+    recordUsage: async (total) => {
+      recorded.push(total);
+    },
+  };
+
+  await expect(
+    runCodegen({ prompt: "inspect", currentCode: cubeCode, maxIterations: 3 }, undefined, { llm, usageBudget })
+  ).rejects.toThrow("Monthly budget of $5.00 reached ($5.10 spent in 2026-10)");
+  expect(llm.requests).toHaveLength(1);
+  // The stopped run is still charged for the request it made.
+  expect(recorded).toEqual([usage(100, 10, { cost: 0.5 })]);
+});
+
+test("a budget that cannot be loaded stops the run before any model request", async () => {
+  const llm = createMockProvider([mockText("never reached")]);
+  const usageBudget = {
+    getStatus: async () => {
+      throw new Error("Convex unavailable");
+    },
+  };
+
+  await expect(
+    runCodegen({ prompt: "inspect", currentCode: cubeCode, maxIterations: 1 }, undefined, { llm, usageBudget })
+  ).rejects.toThrow("Could not check the monthly budget (Convex unavailable)");
+  expect(llm.requests).toHaveLength(0);
+});
@@ -0,0 +1,65 @@
+import { expect, test } from "bun:test";
+import { sweepValues } from "../src/lib/animation-export";
+import { collisionIntervals, collisionsAt, sweepCollisions } from "../src/lib/collision-sweep";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+
+// A block slides along X through a fixed post; a far-away cube never collides.
+const code = `
+const { primitives, transforms } = require('@jscad/modeling')
+const getParameterDefinitions = () => [{ name: 'progress', type: 'number', initial: 0, min: 0, max: 1 }]
+const main = ({ progress = 0 }) => [
+  transforms.translate([-20 + 40 * progress, 0, 0], primitives.cuboid({ size: [4, 4, 4] })),
+  primitives.cuboid({ size: [2, 2, 10] }),
+  transforms.translate([0, 50, 0], primitives.cuboid({ size: [2, 2, 2] })),
+]
+module.exports = { main, getParameterDefinitions }
+`;
+
+test("sweep finds the colliding interval and the part pair", async () => {
+  const evaluate = async (progress) => {
+    const evaluation = await evaluateJscadCode(code, { parameters: { progress } });
+    if (!evaluation.ok) throw new Error(evaluation.error);
+    return evaluation.geometries;
+  };
+  const frames = await sweepCollisions(evaluate, sweepValues(11));
+  expect(frames).toHaveLength(11);
+  expect(frames.filter((frame) => frame.collisions.length > 0).map((frame) => frame.progress)).toEqual([0.5]);
+
+  const [hit] = frames[5].collisions;
+  expect(hit.parts).toEqual([0, 1]);
+  expect(hit.volume).toBeCloseTo(16, 6);
+
+  expect(collisionIntervals(frames)).toEqual([
+    { start: 0.5, end: 0.5, pairs: [[0, 1]], peakVolume: hit.volume, peakProgress: 0.5 },
+  ]);
+  expect(collisionsAt(frames, 0.52)).toEqual([hit]);
+  expect(collisionsAt(frames, 0.6)).toEqual([]);
+});
+
+test("aborting stops the sweep after the frame in flight", async () => {
+  const controller = new AbortController();
+  const frames = await sweepCollisions(
+    async () => {
+      controller.abort();
+      return [];
+    },
+    sweepValues(5),
+    { signal: controller.signal }
+  );
+  expect(frames).toEqual([]);
+});
+
+test("consecutive colliding samples merge into one interval", () => {
+  const collide = (parts, volume) => [{ parts, volume, region: null }];
+  const intervals = collisionIntervals([
+    { progress: 0, collisions: [] },
+    { progress: 0.25, collisions: collide([0, 1], 1) },
+    { progress: 0.5, collisions: [...collide([0, 1], 2), ...collide([1, 2], 1)] },
+    { progress: 0.75, collisions: [] },
+    { progress: 1, collisions: collide([1, 2], 0.5) },
+  ]);
+  expect(intervals).toEqual([
+    { start: 0.25, end: 0.5, pairs: [[0, 1], [1, 2]], peakVolume: 3, peakProgress: 0.5 },
+    { start: 1, end: 1, pairs: [[1, 2]], peakVolume: 0.5, peakProgress: 1 },
+  ]);
+});
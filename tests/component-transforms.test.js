@@ -0,0 +1,128 @@
+import { expect, test } from "bun:test";
+import {
+  analyzeComponents,
+  extractComponent,
+  inlineComponent,
+  mergeComponents,
+  moveComponent,
+} from "../src/server/component-transforms";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+import { calculateMeasurements } from "../src/lib/geometry-analyzer";
+
+const bracket = `const { cuboid, cylinder } = require('@jscad/modeling').primitives
+const { translate } = require('@jscad/modeling').transforms
+
+function main(params) {
+  const { height = 20 } = params || {}
+  // Mounting plate
+  const plate = cuboid({ size: [40, 30, 4] })
+  const post = translate([0, 0, height / 2], cylinder({ radius: 5, height: height }))
+  return [plate, post]
+}
+
+module.exports = { main }`;
+
+async function totalVolume(code, files) {
+  const evaluation = await evaluateJscadCode(code, { files });
+  if (!evaluation.ok) throw new Error(evaluation.error);
+  return (await calculateMeasurements(evaluation.geometries)).volume;
+}
+
+test("analyze reports components, dependencies and returned parts", () => {
+  const analysis = analyzeComponents(bracket);
+  expect(analysis.ok).toBe(true);
+  if (!analysis.ok) return;
+  const post = analysis.components.find((component) => component.name === "post");
+  expect(post).toMatchObject({ kind: "variable", scope: "main", returned: true, line: 8 });
+  expect(post.dependsOn).toEqual(["height"]);
+});
+
+test("extract moves an expression into a parameterized helper without changing geometry", async () => {
+  const result = extractComponent(bracket, {
+    componentName: "post",
+    functionName: "createPost",
+    parameterize: true,
+  });
+  if (!result.ok) throw new Error(result.error);
+
+  expect(result.summary.parameters).toEqual(["height"]);
+  expect(result.updatedCode).toContain("function createPost(height, { radius = 5 } = {}) {");
+  expect(result.updatedCode).toContain("const post = createPost(height)");
+  expect(result.updatedCode).toContain("// Mounting plate");
+  expect(await totalVolume(result.updatedCode)).toBeCloseTo(await totalVolume(bracket), 3);
+
+  const inlined = inlineComponent(result.updatedCode, { functionName: "createPost" });
+  if (!inlined.ok) throw new Error(inlined.error);
+  expect(inlined.updatedCode).not.toContain("createPost");
+  expect(inlined.updatedCode).toContain("cylinder({ radius: 5, height: height })");
+  expect(await totalVolume(inlined.updatedCode)).toBeCloseTo(await totalVolume(bracket), 3);
+});
+
+test("merge unions components and replaces them in the returned array", async () => {
+  const result = mergeComponents(bracket, { components: ["plate", "post"], resultName: "bracket" });
+  if (!result.ok) throw new Error(result.error);
+
+  expect(result.summary.addedImport).toBe(true);
+  expect(result.updatedCode).toContain("const bracket = union(plate, post);");
+  expect(result.updatedCode).toContain("return [bracket]");
+
+  const evaluation = await evaluateJscadCode(result.updatedCode);
+  if (!evaluation.ok) throw new Error(evaluation.error);
+  expect(evaluation.geometries).toHaveLength(1);
+});
+
+test("move lifts a helper and its closure into a project module", async () => {
+  const extracted = extractComponent(bracket, { componentName: "post", functionName: "createPost" });
+  if (!extracted.ok) throw new Error(extracted.error);
+  const withConstant = extracted.updatedCode
+    .replace("function createPost", "const POST_RADIUS = 5\n\nfunction createPost")
+    .replace("radius: 5", "radius: POST_RADIUS");
+
+  const result = moveComponent(withConstant, { componentName: "createPost" });
+  if (!result.ok) throw new Error(result.error);
+
+  expect(result.summary).toMatchObject({ path: "lib/create-post.jscad", exports: ["createPost"], movedHelpers: ["POST_RADIUS"] });
+  expect(result.createdFile.path).toBe("lib/create-post.jscad");
+  expect(result.createdFile.content).toContain("const POST_RADIUS = 5");
+  expect(result.createdFile.content).toContain("const { cuboid, cylinder } = require('@jscad/modeling').primitives");
+  expect(result.createdFile.content).toContain("module.exports = { createPost }");
+  expect(result.updatedCode).not.toContain("function createPost");
+  expect(result.updatedCode).not.toContain("POST_RADIUS");
+  // main still uses cuboid and translate, so its requires stay.
+  expect(result.updatedCode).toContain("const { cuboid, cylinder } = require('@jscad/modeling').primitives");
+  expect(result.updatedCode).toContain("const { createPost } = require('./lib/create-post')");
+
+  const files = { [result.createdFile.path]: result.createdFile.content };
+  expect(await totalVolume(result.updatedCode, files)).toBeCloseTo(await totalVolume(bracket), 3);
+});
+
+test("move exports helpers main still uses and re-points relative requires", () => {
+  const code = `const pcb = require('./assets/pcb.stl')
+const WALL = 2
+
+function shell() {
+  return [pcb, WALL]
+}
+
+function main() {
+  return [...shell(), WALL]
+}
+
+module.exports = { main }`;
+  const result = moveComponent(code, { componentName: "shell", path: "parts/shell" });
+  if (!result.ok) throw new Error(result.error);
+
+  expect(result.createdFile.path).toBe("parts/shell.jscad");
+  expect(result.createdFile.content).toContain("const pcb = require('../assets/pcb.stl')");
+  expect(result.createdFile.content).toContain("module.exports = { shell, WALL }");
+  expect(result.updatedCode.startsWith("const { shell, WALL } = require('./parts/shell')\n\nfunction main()")).toBe(true);
+  expect(moveComponent(code, { componentName: "main" }).ok).toBe(false);
+});
+
+test("transforms report missing names without touching the code", () => {
+  const result = extractComponent(bracket, { componentName: "gear" });
+  expect(result.ok).toBe(false);
+  if (result.ok) return;
+  expect(result.error).toContain("plate");
+  expect(inlineComponent(bracket, { functionName: "main" }).ok).toBe(false);
+});
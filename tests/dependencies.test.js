@@ -0,0 +1,47 @@
+import { expect, test } from "bun:test";
+import { hashSource, lockFromManifest } from "../src/lib/dependencies";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+
+const LIB_URL = "https://libs.example.com/spacer.js";
+
+const libSource = `
+const { primitives } = require('@jscad/modeling')
+module.exports = { spacer: (height) => primitives.cuboid({ size: [4, 4, height] }) }
+`;
+
+const mainCode = `
+const { spacer } = require('${LIB_URL}')
+const main = () => [spacer(7)]
+module.exports = { main }
+`;
+
+const snapshotUrl = (source) => `data:text/javascript,${encodeURIComponent(source)}`;
+
+test("pinned modules load from their snapshot instead of the live URL", async () => {
+  const dependencies = { [LIB_URL]: { hash: await hashSource(libSource), url: snapshotUrl(libSource) } };
+  const evaluation = await evaluateJscadCode(mainCode, { dependencies });
+  expect(evaluation.ok).toBe(true);
+  if (!evaluation.ok) return;
+  const zs = evaluation.geometries[0].polygons.flatMap((polygon) => polygon.vertices.map((vertex) => vertex[2]));
+  expect(Math.max(...zs) - Math.min(...zs)).toBeCloseTo(7);
+});
+
+test("a snapshot that no longer matches its pin fails the evaluation", async () => {
+  const pinned = await hashSource(libSource);
+  const tampered = libSource.replace("4, 4", "8, 8");
+  const mismatch = await evaluateJscadCode(mainCode, {
+    dependencies: { [LIB_URL]: { hash: pinned, url: snapshotUrl(tampered) } },
+  });
+  expect(mismatch.ok).toBe(false);
+  if (mismatch.ok) return;
+  expect(mismatch.error).toContain(`Dependency ${LIB_URL} does not match the project manifest`);
+  expect(mismatch.error).toContain(`pinned sha256 ${pinned.slice(0, 12)}`);
+
+  const missing = await evaluateJscadCode(mainCode, {
+    dependencies: lockFromManifest([{ moduleId: LIB_URL, hash: pinned, url: null }]),
+  });
+  expect(missing).toEqual({
+    ok: false,
+    error: `The pinned snapshot of ${LIB_URL} is missing. Run "Update dependencies" to re-pin it.`,
+  });
+});
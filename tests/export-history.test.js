@@ -0,0 +1,30 @@
+import { expect, test } from "bun:test";
+import { exportKey, isRenderedExport } from "../src/lib/export-history";
+
+test("export keys ignore key order but change with anything that shapes the file", async () => {
+  const base = { code: "module.exports = { main }", parameters: { width: 10, progress: 0.5 }, format: "stl" };
+  const key = await exportKey({ ...base, options: { binary: true } });
+  expect(key).toMatch(/^[0-9a-f]{64}$/);
+  expect(await exportKey({ ...base, parameters: { progress: 0.5, width: 10 }, options: { binary: true } })).toBe(key);
+
+  expect(await exportKey({ ...base, options: { binary: false } })).not.toBe(key);
+  expect(await exportKey({ ...base, format: "3mf", options: { binary: true } })).not.toBe(key);
+  expect(await exportKey({ ...base, parameters: { width: 11, progress: 0.5 }, options: { binary: true } })).not.toBe(key);
+  expect(await exportKey({ ...base, code: base.code + "\n", options: { binary: true } })).not.toBe(key);
+
+  expect(await exportKey({ ...base, files: {}, assets: {}, dependencies: {}, options: { binary: true } })).toBe(key);
+  expect(await exportKey({ ...base, assets: { "logo.svg": "https://a" }, options: { binary: true } })).not.toBe(key);
+
+  const pinned = { "/jscad-libs/mechanics/gears.jscad": { hash: "a".repeat(64), url: "https://old" } };
+  const pinnedKey = await exportKey({ ...base, dependencies: pinned, options: { binary: true } });
+  expect(pinnedKey).not.toBe(key);
+  const moved = { "/jscad-libs/mechanics/gears.jscad": { hash: "b".repeat(64), url: "https://old" } };
+  expect(await exportKey({ ...base, dependencies: moved, options: { binary: true } })).not.toBe(pinnedKey);
+});
+
+test("rendered animation formats are left out of dedupe", () => {
+  expect(isRenderedExport({ format: "gif", fileName: "a.gif" })).toBe(true);
+  expect(isRenderedExport({ format: "zip", fileName: "a-frames.zip" })).toBe(true);
+  expect(isRenderedExport({ format: "glb", fileName: "a-animation.glb", options: { animation: true } })).toBe(false);
+  expect(isRenderedExport({ format: "stl", fileName: "a.stl" })).toBe(false);
+});
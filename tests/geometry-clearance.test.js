@@ -0,0 +1,88 @@
+import { expect, test } from "bun:test";
+import { createRequire } from "node:module";
+import { measureClearance, measureIntersection } from "../src/lib/geometry-analyzer";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+import { createMockProvider, mockText, mockToolCalls } from "../src/server/llm";
+import { runCodegen } from "../src/server/routers/codegen";
+
+const require = createRequire(import.meta.url);
+const { primitives, transforms } = require("@jscad/modeling");
+
+test("clearance reports the face-to-face gap between separated cubes", async () => {
+  const a = primitives.cuboid({ size: [10, 10, 10] });
+  const b = transforms.translate([12.5, 3, 0], primitives.cuboid({ size: [10, 10, 10] }));
+
+  const intersection = await measureIntersection([a], [b]);
+  expect(intersection.intersects).toBe(false);
+  expect(intersection.boundingBoxOverlapRegion).toBeNull();
+  expect(measureClearance([a], [b]).distance).toBeCloseTo(2.5, 9);
+});
+
+test("overlap region bounds the shared volume", async () => {
+  const a = primitives.cuboid({ size: [10, 10, 10] });
+  const b = transforms.translate([6, 0, 0], primitives.cuboid({ size: [10, 10, 10] }));
+
+  const intersection = await measureIntersection([a], [b]);
+  expect(intersection.intersectionVolume).toBeCloseTo(400, 6);
+  expect(intersection.overlapRegion.min[0]).toBeCloseTo(1, 9);
+  expect(intersection.overlapRegion.max[0]).toBeCloseTo(5, 9);
+});
+
+test("clearance is zero where thin plates cross without touching edges", () => {
+  // The upright plate pierces the flat one well inside its faces, so no edge of
+  // either plate meets an edge of the other.
+  const flat = primitives.cuboid({ size: [20, 20, 1] });
+  const upright = transforms.rotateZ(Math.PI / 6, primitives.cuboid({ size: [1, 8, 20] }));
+
+  const clearance = measureClearance([flat], [upright]);
+  expect(clearance.distance).toBe(0);
+  const [pointA, pointB] = clearance.closestPoints;
+  expect(pointA).toEqual(pointB);
+  expect(Math.abs(pointA[2])).toBeCloseTo(0.5, 9);
+  expect(Math.hypot(pointA[0], pointA[1])).toBeLessThan(5);
+});
+
+test("meshed library gear and rack do not interpenetrate", async () => {
+  const evaluation = await evaluateJscadCode(`const { translate } = require('@jscad/modeling').transforms
+function main() {
+  const gear = translate([0, 10.5, 0], unwrap(window.jscad.tspi.gear({}, 20, 8, 6, 1, 20).getModel()))
+  const rack = unwrap(window.jscad.tspi.rack({}, 0, 8, 1, 20, 20, 0, 2).getModel())
+  return [gear, rack]
+}
+module.exports = { main }`);
+  if (!evaluation.ok) throw new Error(evaluation.error);
+  const [gear, rack] = evaluation.geometries;
+
+  const intersection = await measureIntersection([gear], [rack]);
+  expect(intersection.intersects).toBe(false);
+  expect(measureClearance([gear], [rack]).distance).toBeGreaterThan(0);
+});
+
+test("check_intersection with only geometryA compares it against the other parts", async () => {
+  const code = `const { cuboid } = require('@jscad/modeling').primitives
+const { translate } = require('@jscad/modeling').transforms
+function main() {
+  const gear = cuboid({ size: [10, 10, 10] })
+  const rack = translate([20, 0, 0], cuboid({ size: [10, 10, 10] }))
+  const housing = translate([6, 0, 0], cuboid({ size: [4, 4, 4] }))
+  return [gear, rack, housing]
+}
+module.exports = { main }`;
+  const llm = createMockProvider([
+    mockToolCalls([
+      { name: "check_intersection", args: { geometryA: "rack" } },
+      { name: "check_intersection", args: { parts: ["gear", "gear"] } },
+    ]),
+    mockText("Checked."),
+  ]);
+
+  const result = await runCodegen({ prompt: "check", currentCode: code, maxIterations: 2 }, undefined, { llm });
+  const [alone, same] = result.toolResults.map((entry) => entry.result);
+
+  expect(alone).toMatchObject({ success: true, collisions: 0 });
+  expect(alone.pairs).toHaveLength(1);
+  expect(alone.pairs[0]).toMatchObject({ geometryA: "rack", geometryB: "other parts", intersects: false });
+  expect(alone.pairs[0].clearance).toBeCloseTo(7, 3);
+  expect(same).toMatchObject({ success: false });
+  expect(same.error).toContain("same part");
+});
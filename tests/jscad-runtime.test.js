@@ -0,0 +1,60 @@
+import { expect, test } from "bun:test";
+import { evaluateJscadCode, resolveGeometryReference } from "../src/server/jscad-runtime";
+import { measureIntersection } from "../src/lib/geometry-analyzer";
+
+const overlappingCubes = `const { cuboid } = require('@jscad/modeling').primitives
+const { translate } = require('@jscad/modeling').transforms
+function getParameterDefinitions() {
+  return [{ name: 'offset', type: 'float', initial: 5 }]
+}
+function main(params) {
+  const { offset = 5 } = params || {}
+  const base = cuboid({ size: [10, 10, 10] })
+  const slider = translate([offset, 0, 0], cuboid({ size: [10, 10, 10] }))
+  return [base, slider]
+}
+module.exports = { main, getParameterDefinitions }`;
+
+test("server runtime evaluates main() with parameter defaults", async () => {
+  const evaluation = await evaluateJscadCode(overlappingCubes);
+  expect(evaluation.ok).toBe(true);
+  if (!evaluation.ok) return;
+  expect(evaluation.geometries).toHaveLength(2);
+  expect(evaluation.parameters).toEqual({ offset: 5 });
+});
+
+test("server runtime resolves returned variables and measures overlap", async () => {
+  const evaluation = await evaluateJscadCode(overlappingCubes, { parameters: { offset: 8 } });
+  if (!evaluation.ok) throw new Error(evaluation.error);
+
+  const base = resolveGeometryReference(overlappingCubes, evaluation.geometries, "base");
+  const slider = resolveGeometryReference(overlappingCubes, evaluation.geometries, "main[1]");
+  expect(base.ok && base.indices).toEqual([0]);
+  expect(slider.ok && slider.label).toBe("slider");
+
+  const report = await measureIntersection(base.geometries, slider.geometries);
+  expect(report.intersects).toBe(true);
+  expect(report.intersectionVolume).toBeCloseTo(200, 6);
+});
+
+test("server runtime preloads the v1 compat layer and mechanics libraries", async () => {
+  // Other suites load the compat layer into this process; only check we add nothing.
+  const previousCSG = globalThis.CSG;
+  const evaluation = await evaluateJscadCode(`function main() {
+  return [unwrap(window.jscad.tspi.gear({}, 20, 8, 6, 1, 20).getModel())]
+}
+module.exports = { main }`);
+  expect(evaluation.ok).toBe(true);
+  expect(globalThis.CSG).toBe(previousCSG);
+});
+
+test("server runtime reports runtime errors and timeouts", async () => {
+  const missingMain = await evaluateJscadCode("module.exports = {}");
+  expect(missingMain).toEqual({ ok: false, error: "No main() function exported" });
+
+  const looping = await evaluateJscadCode("function main() { while (true) {} }\nmodule.exports = { main }", {
+    timeoutMs: 200,
+  });
+  expect(looping.ok).toBe(false);
+  expect(looping.error).toContain("timed out");
+});
@@ -0,0 +1,100 @@
+import { afterAll, afterEach, expect, test } from "bun:test";
+import { JscadEvaluationCancelledError, JscadWorkerPool } from "../src/lib/jscad-worker";
+
+// Stands in for the browser worker: reports ready, records requests and
+// answers only when the test says so.
+class FakeWorker {
+  static instances = [];
+
+  constructor() {
+    this.requests = [];
+    this.terminated = false;
+    FakeWorker.instances.push(this);
+    queueMicrotask(() => this.onmessage?.({ data: { type: "ready" } }));
+  }
+
+  postMessage(request) {
+    this.requests.push(request);
+  }
+
+  respond(geometries, request = this.requests[this.requests.length - 1]) {
+    this.onmessage?.({ data: { type: "result", id: request.id, geometries } });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const originalWorker = globalThis.Worker;
+globalThis.Worker = FakeWorker;
+
+afterEach(() => {
+  FakeWorker.instances = [];
+});
+
+afterAll(() => {
+  globalThis.Worker = originalWorker;
+});
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+const live = () => FakeWorker.instances.filter((worker) => !worker.terminated);
+
+test("concurrent evaluations run on separate workers and get their own responses", async () => {
+  const pool = new JscadWorkerPool(2);
+  const first = pool.evaluate("first");
+  const second = pool.evaluate("second");
+  await flush();
+
+  const [a, b] = FakeWorker.instances;
+  expect(a.requests.map((request) => request.code)).toEqual(["first"]);
+  expect(b.requests.map((request) => request.code)).toEqual(["second"]);
+  expect(a.requests[0].id).not.toBe(b.requests[0].id);
+
+  b.respond(["b"]);
+  // A late answer to a request id the worker is not running is ignored.
+  a.onmessage({ data: { type: "result", id: b.requests[0].id, geometries: ["stale"] } });
+  a.respond(["a"]);
+  expect((await first).geometries).toEqual(["a"]);
+  expect((await second).geometries).toEqual(["b"]);
+  pool.terminate();
+});
+
+test("a newer evaluation with the same key cancels the running one", async () => {
+  const pool = new JscadWorkerPool(1);
+  const stale = pool.evaluate("slow", { size: 1 }, { key: "preview" });
+  await flush();
+  const latest = pool.evaluate("slow", { size: 2 }, { key: "preview" });
+
+  await expect(stale).rejects.toBeInstanceOf(JscadEvaluationCancelledError);
+  expect(FakeWorker.instances[0].terminated).toBe(true);
+
+  await flush();
+  const [respawned] = live();
+  expect(respawned.requests.map((request) => request.parameters)).toEqual([{ size: 2 }]);
+  respawned.respond(["latest"]);
+  expect((await latest).geometries).toEqual(["latest"]);
+  pool.terminate();
+});
+
+test("preview runs preempt background jobs, which re-run afterwards", async () => {
+  const pool = new JscadWorkerPool(1);
+  const controller = new AbortController();
+  const sweep = pool.evaluate("sweep", undefined, { priority: "background", signal: controller.signal });
+  await flush();
+  const preview = pool.evaluate("preview");
+  expect(FakeWorker.instances[0].terminated).toBe(true);
+
+  await flush();
+  const [worker] = live();
+  expect(worker.requests.map((request) => request.code)).toEqual(["preview"]);
+  worker.respond(["preview"]);
+  expect((await preview).geometries).toEqual(["preview"]);
+
+  await flush();
+  expect(worker.requests.map((request) => request.code)).toEqual(["preview", "sweep"]);
+  controller.abort();
+  await expect(sweep).rejects.toBeInstanceOf(JscadEvaluationCancelledError);
+  expect(worker.terminated).toBe(true);
+  pool.terminate();
+});
@@ -0,0 +1,126 @@
+import { expect, test } from "bun:test";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+import {
+  detectPitchFeatures,
+  detectPitchFeaturesFromGeometry,
+  detectPitchFeaturesFromParams,
+  LOW_CONFIDENCE,
+} from "../src/lib/kinematics/detect";
+
+// Booleans drop the library metadata, so these parts have to be detected.
+const parts = `
+const { primitives, booleans, transforms } = require('@jscad/modeling')
+
+const handGear = (jitterDegrees) => {
+  const teeth = []
+  for (let i = 0; i < 12; i++) {
+    const angle = (i * 30 + (i % 2 ? jitterDegrees : 0)) * Math.PI / 180
+    teeth.push(transforms.rotateZ(angle, primitives.cuboid({ size: [4, 2, 5], center: [13, 0, 0] })))
+  }
+  return booleans.union(primitives.cylinder({ radius: 12, height: 5, segments: 64 }), ...teeth)
+}
+
+const main = () => {
+  const hub = primitives.cylinder({ radius: 3, height: 16 })
+  const gear = booleans.union(window.jscad.tspi.gear({}, 20, 8, 0, 1, 20).getModel(), hub)
+  const rack = booleans.union(
+    window.jscad.tspi.rack({}, 0, 8, 2, 10, 20, 0, 2).getModel(),
+    primitives.cuboid({ size: [1, 1, 1], center: [0, -6, 0] })
+  )
+  return [
+    transforms.translate([40, 0, 0], gear),
+    rack,
+    handGear(0),
+    handGear(3),
+    primitives.cuboid({ size: [10, 10, 10] }),
+  ]
+}
+
+module.exports = { main }
+`;
+
+let cached;
+async function evaluateParts() {
+  cached ??= await evaluateJscadCode(parts);
+  if (!cached.ok) throw new Error(cached.error);
+  return cached.geometries;
+}
+
+test("library gears and racks are recognized from their polygons", async () => {
+  const [gear, rack] = await evaluateParts();
+
+  const [circle] = detectPitchFeaturesFromGeometry(gear, 0).features;
+  expect(circle.type).toBe("pitch_circle");
+  expect(circle.source).toBe("geometry");
+  expect(circle.teethNumber).toBe(20);
+  expect(circle.module).toBe(1);
+  expect(circle.pitchCircle.radius).toBeCloseTo(10, 6);
+  expect(circle.pitchCircle.center[0]).toBeCloseTo(40, 6);
+  expect(circle.pitchCircle.axis).toEqual([0, 0, 1]);
+  expect(circle.confidence).toBeGreaterThanOrEqual(LOW_CONFIDENCE);
+
+  const [line] = detectPitchFeaturesFromGeometry(rack, 1).features;
+  expect(line.type).toBe("pitch_line");
+  expect(line.module).toBe(2);
+  expect(line.teethNumber).toBe(10);
+  expect(line.pitchLine.direction).toEqual([1, 0, 0]);
+  expect(line.pitchLine.normal).toEqual([0, 1, 0]);
+  expect(line.pitchLine.point[0]).toBeCloseTo(0, 1);
+  expect(line.pitchLine.point[1]).toBeCloseTo(0, 6);
+});
+
+test("hand-built gears are estimated, and irregular ones come with a warning", async () => {
+  const [, , regular, irregular] = await evaluateParts();
+
+  const good = detectPitchFeaturesFromGeometry(regular, 2);
+  expect(good.features[0].teethNumber).toBe(12);
+  expect(good.features[0].pitchCircle.radius).toBeGreaterThan(12);
+  expect(good.features[0].pitchCircle.radius).toBeLessThan(15);
+  expect(good.warnings).toEqual([]);
+
+  const shaky = detectPitchFeaturesFromGeometry(irregular, 3);
+  expect(shaky.features[0].teethNumber).toBe(12);
+  expect(shaky.confidence).toBeLessThan(LOW_CONFIDENCE);
+  expect(shaky.warnings[0]).toContain("Part 3: pitch circle estimated from geometry with low confidence");
+});
+
+test("plain prisms are not mistaken for gears", async () => {
+  const geometries = await evaluateParts();
+  expect(detectPitchFeaturesFromGeometry(geometries[4], 4).features).toEqual([]);
+});
+
+test("metadata beats params, and params beat geometry", async () => {
+  const geometries = await evaluateParts();
+  const metadata = [
+    {
+      type: "pitch_circle",
+      source: "metadata",
+      partIndex: 0,
+      module: 1,
+      teethNumber: 20,
+      pitchCircle: { center: [40, 0, 0], radius: 10, diameter: 20, axis: [0, 0, 1] },
+    },
+  ];
+  const params = [
+    { kind: "gear", partIndex: 0, module: 5, teeth: 5, center: [0, 0, 0] },
+    { kind: "rack", partIndex: 1, module: 2, point: [0, 0, 0] },
+  ];
+
+  const result = detectPitchFeatures({ geometries, metadata, params });
+
+  expect(result.features.map((feature) => [feature.partIndex, feature.source])).toEqual([
+    [0, "metadata"],
+    [1, "params"],
+    [2, "geometry"],
+    [3, "geometry"],
+  ]);
+  expect(result.source).toBe("geometry");
+  expect(result.confidence).toBeLessThan(LOW_CONFIDENCE);
+});
+
+test("params without a position are accepted with a warning", () => {
+  const result = detectPitchFeaturesFromParams({ params: [{ kind: "gear", module: 2, teeth: 15 }] });
+  expect(result.features[0].pitchCircle.radius).toBe(15);
+  expect(result.source).toBe("params");
+  expect(result.warnings).toEqual(["Part: gear center not given; assuming the origin."]);
+});
@@ -0,0 +1,79 @@
+import { expect, test } from "bun:test";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+import { getMechanismSpec, registerMechanismSpec } from "../src/lib/kinematics/registry";
+import { extractDeclaredFeatures, mergeDeclaredAndDetectedFeatures } from "../src/lib/kinematics/features";
+
+const rackAndPinion = `
+const main = () => {
+  const pinion = window.jscad.tspi.gear({}, 20, 8, 0, 1, 20).getModel().translate([5, 20, 0]);
+  const rack = window.jscad.tspi.rack({}, 0, 8, 1, 10, 20, 0, 2).getModel().rotateZ(90).translate([-3, 0, 0]);
+  return [pinion, rack];
+};
+module.exports = { main };
+`;
+
+const pitchCircle = (partIndex, radius) => ({
+  type: "pitch_circle",
+  source: "params",
+  partIndex,
+  pitchCircle: { center: [0, 0, 0], radius, diameter: radius * 2, axis: [0, 0, 1] },
+});
+
+test("library pitch features follow transforms applied after getModel()", async () => {
+  const evaluation = await evaluateJscadCode(rackAndPinion);
+  expect(evaluation.ok).toBe(true);
+  if (!evaluation.ok) return;
+
+  const [gear, rack] = evaluation.features;
+  expect(gear.type).toBe("pitch_circle");
+  expect(gear.partIndex).toBe(0);
+  expect(gear.source).toBe("metadata");
+  expect(gear.pitchCircle.center.map((v) => Math.round(v * 1e6) / 1e6)).toEqual([5, 20, 0]);
+  expect(gear.pitchCircle.radius).toBeCloseTo(10, 6);
+
+  expect(rack.type).toBe("pitch_line");
+  expect(rack.partIndex).toBe(1);
+  expect(rack.pitchLine.point[0]).toBeCloseTo(-3, 6);
+  expect(rack.pitchLine.direction[1]).toBeCloseTo(1, 6);
+  expect(rack.pitchLine.normal[0]).toBeCloseTo(-1, 6);
+
+  expect(evaluation.geometries.every((geometry) => !("kinematics" in geometry))).toBe(true);
+});
+
+test("mechanism specs are validated on registration", () => {
+  const spec = {
+    name: "pinion-rack",
+    input: { part: "pinion", domain: [0, 360] },
+    parts: [
+      { id: "pinion", motion: "rotation", features: [pitchCircle(undefined, 10)] },
+      { id: "rack", motion: "translation", features: [] },
+    ],
+    constraints: [{ type: "gear_rack", id: "mesh", gear: "pinion", rack: "rack" }],
+  };
+  registerMechanismSpec("pinion-rack", spec);
+  expect(getMechanismSpec("pinion-rack")).toBe(spec);
+  expect(extractDeclaredFeatures(spec)[0].partId).toBe("pinion");
+
+  expect(() =>
+    registerMechanismSpec("broken", {
+      ...spec,
+      constraints: [{ type: "gear_gear", id: "mesh", a: "pinion", b: "idler" }],
+    })
+  ).toThrow('Constraint "mesh" references unknown part "idler".');
+  expect(getMechanismSpec("broken")).toBeUndefined();
+});
+
+test("declared features win over detected ones for the same part", () => {
+  const declared = [{ ...pitchCircle(0, 10), source: "metadata" }];
+  const detected = [
+    { ...pitchCircle(0, 9.7), source: "geometry", confidence: 0.6 },
+    { ...pitchCircle(1, 20), source: "geometry", confidence: 0.5 },
+    { ...pitchCircle(1, 20.5), source: "params" },
+  ];
+
+  const merged = mergeDeclaredAndDetectedFeatures(declared, detected);
+  expect(merged.map((feature) => [feature.partIndex, feature.source])).toEqual([
+    [0, "metadata"],
+    [1, "params"],
+  ]);
+});
@@ -0,0 +1,104 @@
+import { expect, test } from "bun:test";
+import { buildConstraintGraphFromSpec } from "../src/lib/kinematics/constraints";
+import { progressToInput, sampleConstraintResiduals, solveMechanismRom } from "../src/lib/kinematics/solver";
+
+const gear = (id, center, radius, motion = "rotation") => ({
+  id,
+  motion,
+  features: [
+    {
+      type: "pitch_circle",
+      source: "metadata",
+      module: 1,
+      pitchCircle: { center, radius, diameter: radius * 2, axis: [0, 0, 1] },
+    },
+  ],
+});
+
+// 60 mm rack whose pitch line runs under a 10 mm pinion at the origin.
+const rack = {
+  id: "rack",
+  motion: "translation",
+  features: [
+    {
+      type: "pitch_line",
+      source: "metadata",
+      module: 1,
+      circularPitch: Math.PI,
+      length: 60,
+      pitchLine: { point: [-30, -10, 0], direction: [1, 0, 0], normal: [0, 1, 0] },
+    },
+  ],
+};
+
+const rackAndPinion = {
+  name: "rack-and-pinion",
+  input: { part: "pinion", domain: [-720, 720] },
+  parts: [gear("pinion", [0, 0, 0], 10), rack],
+  constraints: [{ type: "gear_rack", id: "mesh", gear: "pinion", rack: "rack" }],
+};
+
+test("rack travel is limited to its toothed length", () => {
+  const solution = solveMechanismRom(rackAndPinion);
+
+  // Contact stays half a pitch inside each end: travel ±(30 - π/2) at 10π/180 mm per degree.
+  const limit = (30 - Math.PI / 2) / ((10 * Math.PI) / 180);
+  expect(solution.ok).toBe(true);
+  expect(solution.uMin).toBeCloseTo(-limit, 6);
+  expect(solution.uMax).toBeCloseTo(limit, 6);
+  expect(solution.activeConstraints).toEqual(["mesh:engagement"]);
+  expect(solution.firstFailingSample).toMatchObject({ u: -720, constraintId: "mesh:engagement" });
+  expect(solution.ratios.rack).toBeCloseTo(0.1745, 4);
+
+  const report = sampleConstraintResiduals(buildConstraintGraphFromSpec(rackAndPinion).constraints, solution, 5);
+  expect(report.passed).toBe(true);
+  expect(report.samples.map((sample) => sample.progress)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+  expect(progressToInput(solution, 0.5)).toBeCloseTo(0, 6);
+});
+
+test("limits on driven gears are mapped back through the gear ratio", () => {
+  const solution = solveMechanismRom({
+    name: "pair",
+    input: { part: "a", domain: [-360, 360] },
+    parts: [gear("a", [0, 0, 0], 10), gear("b", [30, 0, 0], 20)],
+    constraints: [
+      { type: "gear_gear", id: "ab", a: "a", b: "b" },
+      { type: "angle_limit", id: "b-stop", part: "b", min: -90, max: 45 },
+    ],
+  });
+
+  expect(solution.ok).toBe(true);
+  expect(solution.ratios.b).toBe(-0.5);
+  expect([solution.uMin, solution.uMax]).toEqual([-90, 180]);
+  expect(solution.activeConstraints).toEqual(["b-stop"]);
+});
+
+test("a misplaced gear fails with the offending residual", () => {
+  const solution = solveMechanismRom({
+    name: "gap",
+    input: { part: "a", domain: [0, 360] },
+    parts: [gear("a", [0, 0, 0], 10), gear("b", [31, 0, 0], 20)],
+    constraints: [{ type: "gear_gear", id: "ab", a: "a", b: "b" }],
+  });
+
+  expect(solution.ok).toBe(false);
+  expect(solution.firstFailingSample).toEqual({ u: 0, constraintId: "ab", residual: 1 });
+  expect(solution.diagnostics[0]).toContain('"ab" residual 1 exceeds 0.05');
+});
+
+test("a closed loop of three gears is locked", () => {
+  const h = 20 * Math.sin(Math.PI / 3);
+  const solution = solveMechanismRom({
+    name: "triangle",
+    input: { part: "a", domain: [0, 360] },
+    parts: [gear("a", [0, 0, 0], 10), gear("b", [20, 0, 0], 10), gear("c", [10, h, 0], 10)],
+    constraints: [
+      { type: "gear_gear", id: "ab", a: "a", b: "b" },
+      { type: "gear_gear", id: "bc", a: "b", b: "c" },
+      { type: "gear_gear", id: "ca", a: "c", b: "a" },
+    ],
+  });
+
+  expect(solution.ok).toBe(false);
+  expect(solution.diagnostics.some((line) => line.startsWith("Over-constrained"))).toBe(true);
+});
@@ -0,0 +1,200 @@
+import { afterEach, expect, test } from "bun:test";
+import { formatModelSpec, parseModelSpec } from "../src/lib/llm-providers";
+import { resolveLlmProvider } from "../src/server/llm";
+import { toAnthropicMessages } from "../src/server/llm/anthropic";
+import { toGeminiContents, toGeminiSchema } from "../src/server/llm/gemini";
+
+const originalFetch = globalThis.fetch;
+const originalAnthropicBaseUrl = process.env.ANTHROPIC_BASE_URL;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  if (originalAnthropicBaseUrl === undefined) {
+    delete process.env.ANTHROPIC_BASE_URL;
+  } else {
+    process.env.ANTHROPIC_BASE_URL = originalAnthropicBaseUrl;
+  }
+});
+
+function captureFetch(responseBody) {
+  const calls = [];
+  globalThis.fetch = async (url, init) => {
+    calls.push({ url: String(url), init, body: JSON.parse(init.body) });
+    return new Response(JSON.stringify(responseBody), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+  return calls;
+}
+
+const toolConversation = [
+  { role: "system", content: "You are a CAD agent." },
+  { role: "user", content: "make a cube" },
+  {
+    role: "assistant",
+    content: "Reading first.",
+    tool_calls: [{ id: "call-1", type: "function", function: { name: "read_code", arguments: "{}" } }],
+  },
+  { role: "tool", tool_call_id: "call-1", content: '{"code":"cube()"}' },
+];
+
+const readCodeTool = {
+  type: "function",
+  function: {
+    name: "read_code",
+    description: "Read the code",
+    parameters: {
+      type: "object",
+      properties: { limit: { type: ["number", "null"] } },
+      additionalProperties: false,
+    },
+  },
+};
+
+test("parseModelSpec keeps bare ids on OpenRouter and reads provider prefixes", () => {
+  expect(parseModelSpec("meta-llama/llama-3:free")).toEqual({
+    provider: "openrouter",
+    model: "meta-llama/llama-3:free",
+    reasoning: undefined,
+  });
+  expect(parseModelSpec("anthropic:claude-sonnet-4-5|reasoning=low")).toEqual({
+    provider: "anthropic",
+    model: "claude-sonnet-4-5",
+    reasoning: { effort: "low" },
+  });
+  expect(parseModelSpec(undefined).reasoning).toEqual({ effort: "high" });
+  expect(formatModelSpec(parseModelSpec("gemini:gemini-2.5-flash|reasoning=high"))).toBe(
+    "gemini:gemini-2.5-flash|reasoning=high"
+  );
+});
+
+test("anthropic translation moves system prompt and maps tool calls to blocks", () => {
+  const { system, messages } = toAnthropicMessages(toolConversation);
+
+  expect(system).toBe("You are a CAD agent.");
+  expect(messages.map((message) => message.role)).toEqual(["user", "assistant", "user"]);
+  expect(messages[1].content[1]).toEqual({
+    type: "tool_use",
+    id: "call-1",
+    name: "read_code",
+    input: {},
+  });
+  expect(messages[2].content[0]).toMatchObject({ type: "tool_result", tool_use_id: "call-1" });
+});
+
+test("gemini translation maps tool calls to function parts and narrows schemas", () => {
+  const { system, contents } = toGeminiContents(toolConversation);
+
+  expect(system).toBe("You are a CAD agent.");
+  expect(contents.map((content) => content.role)).toEqual(["user", "model", "user"]);
+  expect(contents[1].parts[1]).toEqual({ functionCall: { name: "read_code", args: {} } });
+  expect(contents[2].parts[0]).toEqual({
+    functionResponse: { name: "read_code", response: { content: { code: "cube()" } } },
+  });
+
+  expect(toGeminiSchema(readCodeTool.function.parameters)).toEqual({
+    type: "object",
+    properties: { limit: { anyOf: [{ type: "number" }, { type: "null" }] } },
+  });
+});
+
+test("anthropic provider sends thinking budget and returns tool calls", async () => {
+  const calls = captureFetch({
+    content: [
+      { type: "thinking", thinking: "...", signature: "sig" },
+      { type: "tool_use", id: "toolu_1", name: "read_code", input: {} },
+    ],
+  });
+  delete process.env.ANTHROPIC_BASE_URL;
+  const llm = resolveLlmProvider({ model: "anthropic:claude-sonnet-4-5|reasoning=low", apiKey: "test-key" });
+
+  const { message } = await llm.client.complete({
+    model: llm.model,
+    messages: toolConversation.slice(0, 2),
+    tools: [readCodeTool],
+    reasoning: llm.reasoning,
+    temperature: 0.3,
+    maxTokens: 4096,
+  });
+
+  expect(calls[0].url).toBe("https://api.anthropic.com/v1/messages");
+  expect(calls[0].init.headers["x-api-key"]).toBe("test-key");
+  expect(calls[0].body.thinking).toEqual({ type: "enabled", budget_tokens: 1024 });
+  expect(calls[0].body.temperature).toBeUndefined();
+  expect(message.tool_calls).toEqual([
+    { id: "toolu_1", type: "function", function: { name: "read_code", arguments: "{}" } },
+  ]);
+  expect(message.providerContent.provider).toBe("anthropic");
+});
+
+test("openai-compatible provider uses the configured base url and reasoning_effort", async () => {
+  const calls = captureFetch({ choices: [{ message: { role: "assistant", content: "done" } }] });
+  const llm = resolveLlmProvider({
+    model: "openai-compatible:qwen2.5-coder|reasoning=high",
+    baseUrl: "http://127.0.0.1:11434/v1/",
+  });
+
+  const { message } = await llm.client.complete({
+    model: llm.model,
+    messages: [{ role: "user", content: "hi" }],
+    tools: [],
+    reasoning: llm.reasoning,
+    temperature: 0.3,
+    maxTokens: 256,
+  });
+
+  expect(calls[0].url).toBe("http://127.0.0.1:11434/v1/chat/completions");
+  expect(calls[0].init.headers.Authorization).toBeUndefined();
+  expect(calls[0].body.reasoning_effort).toBe("high");
+  expect(message.content).toBe("done");
+});
+
+test("provider usage is normalized, including OpenRouter cost and Gemini thoughts", async () => {
+  captureFetch({
+    choices: [{ message: { role: "assistant", content: "ok" } }],
+    usage: {
+      prompt_tokens: 120,
+      completion_tokens: 30,
+      completion_tokens_details: { reasoning_tokens: 12 },
+      cost: 0.0042,
+    },
+  });
+  const openRouter = resolveLlmProvider({ model: "google/gemini-3-flash-preview", apiKey: "test-key" });
+  const request = {
+    model: openRouter.model,
+    messages: [{ role: "user", content: "hi" }],
+    tools: [],
+    temperature: 0.3,
+    maxTokens: 256,
+  };
+  expect((await openRouter.client.complete(request)).usage).toEqual({
+    promptTokens: 120,
+    completionTokens: 30,
+    reasoningTokens: 12,
+    cost: 0.0042,
+  });
+
+  captureFetch({
+    candidates: [{ content: { parts: [{ text: "ok" }] } }],
+    usageMetadata: { promptTokenCount: 80, candidatesTokenCount: 10, thoughtsTokenCount: 25 },
+  });
+  const gemini = resolveLlmProvider({ model: "gemini:gemini-2.5-flash", apiKey: "test-key" });
+  expect((await gemini.client.complete({ ...request, model: gemini.model })).usage).toEqual({
+    promptTokens: 80,
+    completionTokens: 35,
+    reasoningTokens: 25,
+  });
+});
+
+test("missing keys fail with a provider-specific message", () => {
+  const previous = process.env.GEMINI_API_KEY;
+  delete process.env.GEMINI_API_KEY;
+  try {
+    expect(() => resolveLlmProvider({ model: "gemini:gemini-2.5-flash" })).toThrow(
+      "Google Gemini API key is missing"
+    );
+  } finally {
+    if (previous !== undefined) process.env.GEMINI_API_KEY = previous;
+  }
+});
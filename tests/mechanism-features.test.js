@@ -0,0 +1,90 @@
+import { expect, test } from "bun:test";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+import { checkPitchMesh, resolvePartFeatures, solveMechanismRomTool } from "../src/server/mechanism-features";
+
+// A module 1, 20-tooth pinion (pitch radius 10) on a 10-tooth rack whose pitch line runs along x = -3.
+const rackAndPinion = (pinionX) => `
+const main = () => {
+  const pinion = window.jscad.tspi.gear({}, 20, 8, 0, 1, 20).getModel().translate([${pinionX}, 15, 0]);
+  const rack = window.jscad.tspi.rack({}, 0, 8, 1, 10, 20, 0, 2).getModel().rotateZ(90).translate([-3, 0, 0]);
+  return [pinion, rack];
+};
+module.exports = { main };
+`;
+
+async function evaluate(code) {
+  const evaluation = await evaluateJscadCode(code);
+  if (!evaluation.ok) throw new Error(evaluation.error);
+  return evaluation;
+}
+
+test("pitch mesh residuals come with thresholds and fail when the parts are apart", async () => {
+  for (const [pinionX, passed] of [
+    [-13, true],
+    [5, false],
+  ]) {
+    const code = rackAndPinion(pinionX);
+    const evaluation = await evaluate(code);
+    const pinion = await resolvePartFeatures(code, evaluation, "pinion");
+    const rack = await resolvePartFeatures(code, evaluation, "rack");
+    if (!pinion.ok || !rack.ok) throw new Error("parts not resolved");
+    expect(pinion.detection.source).toBe("metadata");
+    expect(rack.detection.features[0].type).toBe("pitch_line");
+
+    const mesh = checkPitchMesh(
+      { id: "pinion", features: pinion.detection.features },
+      { id: "rack", features: rack.detection.features }
+    );
+    expect(mesh.meshType).toBe("gear-to-rack");
+    expect(mesh.passed).toBe(passed);
+    const [residual] = mesh.residuals;
+    expect(residual.expected).toBeCloseTo(10, 4);
+    expect(residual.threshold).toBe(0.05);
+    expect(residual.residual).toBeCloseTo(passed ? 0 : 18, 4);
+  }
+});
+
+test("solve_mechanism_rom bounds the input by rack engagement and maps progress onto it", async () => {
+  const code = rackAndPinion(-13);
+  const result = await solveMechanismRomTool(code, await evaluate(code), {
+    parts: [{ geometry: "pinion" }, { geometry: "rack" }],
+    constraints: [{ type: "gear_rack", gear: "pinion", rack: "rack" }],
+  });
+
+  expect(result.success).toBe(true);
+  expect(result.inputPart).toBe("pinion");
+  expect(result.parts.map((part) => [part.id, part.motion, part.featureSource])).toEqual([
+    ["pinion", "rotation", "metadata"],
+    ["rack", "translation", "metadata"],
+  ]);
+  expect(result.activeConstraints).toEqual(["gear_rack-1:engagement"]);
+  // Contact sits 15 mm along a ~31.4 mm toothed length, with half a pitch kept in reserve at each end.
+  expect(result.uMax).toBeCloseTo((15 - Math.PI / 2) / (Math.PI / 18), 2);
+  expect(result.uMin).toBeCloseTo(-(10 * Math.PI - 15 - Math.PI / 2) / (Math.PI / 18), 2);
+  expect(result.progressMapping.input).toStartWith(`pinion = ${result.uMin} + `);
+  expect(result.romSampleReport.samples).toHaveLength(11);
+  expect(result.romSampleReport.passed).toBe(true);
+});
+
+test("solve_mechanism_rom reports conflicting limits and unknown parts", async () => {
+  const code = rackAndPinion(-13);
+  const evaluation = await evaluate(code);
+
+  const conflicting = await solveMechanismRomTool(code, evaluation, {
+    parts: [{ geometry: "pinion" }, { geometry: "rack" }],
+    constraints: [
+      { type: "gear_rack", gear: "pinion", rack: "rack" },
+      { type: "angle_limit", id: "stop", part: "pinion", min: 200, max: 300 },
+    ],
+  });
+  expect(conflicting.success).toBe(false);
+  expect(conflicting.uMin).toBeNull();
+  expect(conflicting.diagnostics.join(" ")).toContain('"stop"');
+
+  const unknown = await solveMechanismRomTool(code, evaluation, {
+    parts: [{ geometry: "pinion" }],
+    constraints: [{ type: "gear_rack", gear: "pinion", rack: "idler" }],
+  });
+  expect(unknown.success).toBe(false);
+  expect(unknown.error).toContain('"idler"');
+});
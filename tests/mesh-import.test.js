@@ -0,0 +1,136 @@
+import { expect, test } from "bun:test";
+import { createZip } from "../src/lib/animation-export";
+import {
+  assetPath,
+  parseAssetSpec,
+  meshBounds,
+  parse3mf,
+  parseMeshFile,
+  parseObj,
+  parseStl,
+} from "../src/lib/mesh-import";
+import { exportParts, serialize3mf } from "../src/lib/model-export";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+
+const cubeCode = `
+const { primitives } = require('@jscad/modeling')
+const main = () => [primitives.cuboid({ size: [10, 20, 30], center: [5, 10, 15] })]
+module.exports = { main }
+`;
+
+async function cubePart() {
+  const evaluation = await evaluateJscadCode(cubeCode);
+  if (!evaluation.ok) throw new Error(evaluation.error);
+  return exportParts(evaluation.geometries)[0];
+}
+
+function binaryStl(part) {
+  const count = part.triangles.length / 3;
+  const view = new DataView(new ArrayBuffer(84 + count * 50));
+  view.setUint32(80, count, true);
+  for (let i = 0; i < count; i++) {
+    for (let corner = 0; corner < 3; corner++) {
+      const vertex = part.triangles[i * 3 + corner];
+      for (let axis = 0; axis < 3; axis++) {
+        view.setFloat32(84 + i * 50 + 12 + corner * 12 + axis * 4, part.vertices[vertex * 3 + axis], true);
+      }
+    }
+  }
+  return view.buffer;
+}
+
+function asciiStl(part) {
+  const lines = ["solid cube"];
+  for (let i = 0; i < part.triangles.length; i += 3) {
+    lines.push("  facet normal 0 0 0", "    outer loop");
+    for (let corner = 0; corner < 3; corner++) {
+      const vertex = part.triangles[i + corner];
+      lines.push(`      vertex ${part.vertices.slice(vertex * 3, vertex * 3 + 3).join(" ")}`);
+    }
+    lines.push("    endloop", "  endfacet");
+  }
+  lines.push("endsolid cube");
+  return new TextEncoder().encode(lines.join("\n"));
+}
+
+test("binary and ASCII STL weld into the same indexed mesh", async () => {
+  const part = await cubePart();
+  for (const mesh of [parseStl(binaryStl(part)), parseStl(asciiStl(part))]) {
+    expect(mesh.positions).toHaveLength(8 * 3);
+    expect(mesh.triangles).toHaveLength(12 * 3);
+    expect(meshBounds(mesh)).toEqual({ min: [0, 0, 0], max: [10, 20, 30] });
+  }
+});
+
+test("OBJ faces are fan-triangulated and accept negative and slashed indices", () => {
+  const mesh = parseObj(`
+# unit square and a triangle above it
+v 0 0 0
+v 1 0 0
+v 1 1 0
+v 0 1 0
+f 1/1/1 2/2/1 3/3/1 4/4/1
+v 0 0 1
+f -5 -4 -1
+`);
+  expect(mesh.triangles).toEqual([0, 1, 2, 0, 2, 3, 0, 1, 4]);
+  expect(() => parseObj("v 0 0 0\nf 1 2 3")).toThrow("missing vertex");
+});
+
+test("3MF round-trips the exporter's packages", async () => {
+  const part = await cubePart();
+  const mesh = await parseMeshFile("cube.3mf", serialize3mf([part, { ...part, name: "Copy" }]).buffer);
+  // Both build items land on the same vertices, so they weld into one vertex set.
+  expect(mesh.positions).toHaveLength(8 * 3);
+  expect(mesh.triangles).toHaveLength(24 * 3);
+});
+
+test("3MF applies units, build item transforms and component transforms", async () => {
+  const model = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="centimeter" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <resources>
+    <object id="1" type="model">
+      <mesh>
+        <vertices>
+          <vertex x="0" y="0" z="0"/><vertex x="1" y="0" z="0"/><vertex x="0" y="1" z="0"/>
+        </vertices>
+        <triangles><triangle v1="0" v2="1" v3="2"/></triangles>
+      </mesh>
+    </object>
+    <object id="2" type="model">
+      <components><component objectid="1" transform="1 0 0 0 1 0 0 0 1 0 0 2"/></components>
+    </object>
+  </resources>
+  <build><item objectid="2" transform="2 0 0 0 2 0 0 0 2 5 0 0"/></build>
+</model>`;
+  const encoder = new TextEncoder();
+  const zip = createZip([{ name: "3D/3dmodel.model", data: encoder.encode(model) }]);
+  const mesh = await parse3mf(zip);
+  // Component lifts z by 2, the item doubles and shifts x by 5, then cm → mm.
+  expect(meshBounds(mesh)).toEqual({ min: [50, 0, 40], max: [70, 20, 40] });
+});
+
+test("asset paths are slugged and matched from require() specs", () => {
+  expect(assetPath("Vendor PCB (rev B).STL")).toBe("assets/vendor-pcb-rev-b.stl");
+  expect(parseAssetSpec("./assets/vendor-pcb-rev-b.stl")).toEqual({ path: "assets/vendor-pcb-rev-b.stl" });
+  expect(parseAssetSpec("./assets/gasket.dxf#Outer%20Ring")).toEqual({ path: "assets/gasket.dxf", layer: "Outer Ring" });
+  expect(parseAssetSpec("./lib/helpers.js")).toBeNull();
+});
+
+test("server runtime resolves required assets as geom3 solids", async () => {
+  const mesh = parseStl(binaryStl(await cubePart()));
+  const url = `data:application/json,${encodeURIComponent(JSON.stringify(mesh))}`;
+  const code = `
+const { booleans, primitives } = require('@jscad/modeling')
+const board = require('./assets/board.stl')
+const main = () => [booleans.subtract(primitives.cuboid({ size: [40, 40, 40] }), board)]
+module.exports = { main }
+`;
+  const evaluation = await evaluateJscadCode(code, { assets: { "assets/board.stl": url } });
+  expect(evaluation.ok).toBe(true);
+  if (evaluation.ok) expect(evaluation.geometries[0].polygons.length).toBeGreaterThan(6);
+
+  const missing = await evaluateJscadCode(code);
+  expect(missing.ok).toBe(false);
+  if (!missing.ok) expect(missing.error).toContain("Unknown asset: ./assets/board.stl");
+});
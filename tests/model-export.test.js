@@ -0,0 +1,67 @@
+import { expect, test } from "bun:test";
+import { build3mfModel, exportParts, serialize3mf, serializeAmf } from "../src/lib/model-export";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+
+const code = `
+const { primitives, transforms, colors } = require('@jscad/modeling')
+const main = () => [
+  Object.assign(colors.colorize([1, 0, 0], primitives.cuboid({ size: [2, 2, 2] })), { name: 'Base & lid' }),
+  transforms.translate([5, 0, 0], primitives.cuboid({ size: [2, 2, 2] })),
+  primitives.circle({ radius: 1 }),
+]
+module.exports = { main }
+`;
+
+async function parts() {
+  const evaluation = await evaluateJscadCode(code);
+  if (!evaluation.ok) throw new Error(evaluation.error);
+  return exportParts(evaluation.geometries);
+}
+
+test("each solid becomes a named, indexed part with its colorize color", async () => {
+  const [base, second, ...rest] = await parts();
+  expect(rest).toHaveLength(0);
+  expect(base.name).toBe("Base & lid");
+  expect(base.color).toEqual([1, 0, 0, 1]);
+  expect(base.vertices).toHaveLength(8 * 3);
+  expect(base.triangles).toHaveLength(12 * 3);
+  expect(second.name).toBe("Part 2");
+  expect(second.color).toBeUndefined();
+});
+
+test("inside-out parts are rewound outward", () => {
+  const triangle = (a, b, c) => ({ vertices: [a, b, c] });
+  // A tetrahedron with every face wound inward.
+  const inward = {
+    polygons: [
+      triangle([0, 0, 0], [1, 0, 0], [0, 0, 1]),
+      triangle([0, 0, 0], [0, 1, 0], [1, 0, 0]),
+      triangle([0, 0, 0], [0, 0, 1], [0, 1, 0]),
+      triangle([1, 0, 0], [0, 1, 0], [0, 0, 1]),
+    ].map((polygon) => ({ vertices: [...polygon.vertices].reverse() })),
+  };
+  const [part] = exportParts([inward]);
+  expect(part.triangles.slice(0, 3)).toEqual([0, 2, 1]);
+});
+
+test("3MF keeps parts as separate objects and colors as base materials", async () => {
+  const exported = await parts();
+  const model = build3mfModel(exported, "Demo");
+  expect(model).toContain('<base name="Base &amp; lid" displaycolor="#FF0000FF"/>');
+  expect(model).toContain('<object id="2" type="model" name="Base &amp; lid" pid="1" pindex="0">');
+  expect(model).toContain('<object id="3" type="model" name="Part 2">');
+  expect(model.match(/<item objectid=/g)).toHaveLength(2);
+
+  const text = new TextDecoder().decode(serialize3mf(exported));
+  expect(text).toContain("[Content_Types].xml");
+  expect(text).toContain("_rels/.rels");
+  expect(text).toContain("3D/3dmodel.model");
+});
+
+test("AMF writes one material per colored part", async () => {
+  const amf = serializeAmf(await parts());
+  expect(amf).toContain('<material id="1">');
+  expect(amf).toContain("<color><r>1</r><g>0</g><b>0</b><a>1</a></color>");
+  expect(amf).toContain('<volume materialid="1">');
+  expect(amf.match(/<object id=/g)).toHaveLength(2);
+});
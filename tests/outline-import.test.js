@@ -0,0 +1,118 @@
+import { expect, test } from "bun:test";
+import { measurements } from "@jscad/modeling";
+import {
+  joinOpenOutlines,
+  outlineBounds,
+  outlineLoops,
+  parseDxf,
+  parseOutlineFile,
+  parseSvg,
+  parseSvgPathData,
+} from "../src/lib/outline-import";
+import { serializeDxf } from "../src/lib/vector-export";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+
+const round = (points) => points.map(([x, y]) => [Number(x.toFixed(6)) + 0, Number(y.toFixed(6)) + 0]);
+
+const gasketSvg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"
+     width="40mm" height="20mm" viewBox="0 0 80 40">
+  <defs><rect id="unused" width="500" height="500"/></defs>
+  <g inkscape:groupmode="layer" inkscape:label="Outer">
+    <rect x="0" y="0" width="80" height="40"/>
+  </g>
+  <g inkscape:groupmode="layer" inkscape:label="Holes" transform="translate(20 20)">
+    <circle cx="0" cy="0" r="10"/>
+    <path d="M 30 -5 h 10 v 10 h -10 z"/>
+  </g>
+  <g inkscape:groupmode="layer" inkscape:label="Hidden" style="display:none"><rect width="5" height="5"/></g>
+</svg>`;
+
+test("SVG shapes are scaled to millimetres, flipped upright and grouped by layer", () => {
+  const layers = parseSvg(gasketSvg);
+  expect(layers.map((layer) => layer.name)).toEqual(["Outer", "Holes"]);
+  expect(outlineBounds(layers)).toEqual({ min: [0, -20], max: [40, 0] });
+  const [circle, square] = layers[1].outlines;
+  expect(outlineBounds([{ name: "", outlines: [circle] }]).min.map((v) => Number(v.toFixed(6)))).toEqual([5, -15]);
+  expect(round(square.points)).toEqual([
+    [25, -7.5],
+    [30, -7.5],
+    [30, -12.5],
+    [25, -12.5],
+  ]);
+});
+
+test("SVG path data flattens curves and arcs and keeps subpaths apart", () => {
+  const [circle, line] = parseSvgPathData("M 0 5 A 5 5 0 1 0 10 5 A 5 5 0 1 0 0 5 Z M 20 0 Q 25 10 30 0");
+  expect(circle.closed).toBe(true);
+  const { min, max } = outlineBounds([{ name: "", outlines: [circle] }]);
+  expect(round([min, max])).toEqual([
+    [0, 0],
+    [10, 10],
+  ]);
+  expect(line.closed).toBe(false);
+  expect(round([line.points[line.points.length - 1]])).toEqual([[30, 0]]);
+  expect(Math.max(...line.points.map(([, y]) => y))).toBeCloseTo(5);
+});
+
+function dxf(units, entities) {
+  return ["0", "SECTION", "2", "HEADER", "9", "$INSUNITS", "70", String(units), "0", "ENDSEC",
+    "0", "SECTION", "2", "ENTITIES", ...entities, "0", "ENDSEC", "0", "EOF"].join("\n");
+}
+
+test("DXF entities honour $INSUNITS, bulges and layers, and loose lines join into loops", () => {
+  const layers = parseDxf(
+    dxf(1, [
+      "0", "LWPOLYLINE", "8", "outer", "90", "4", "70", "1",
+      "10", "0", "20", "0", "10", "2", "20", "0", "10", "2", "20", "1", "42", "1", "10", "0", "20", "1",
+      "0", "CIRCLE", "8", "holes", "10", "0.5", "20", "0.5", "40", "0.25",
+      "0", "LINE", "8", "holes", "10", "1", "20", "0.25", "11", "1.5", "21", "0.25",
+      "0", "LINE", "8", "holes", "10", "1.25", "20", "0.75", "11", "1.5", "21", "0.25",
+      "0", "LINE", "8", "holes", "10", "1", "20", "0.25", "11", "1.25", "21", "0.75",
+    ])
+  );
+  expect(layers.map((layer) => layer.name)).toEqual(["outer", "holes"]);
+  // The bulge of 1 turns the top edge into a half circle bulging upwards by half its 2in width.
+  expect(round([outlineBounds([layers[0]]).max])).toEqual([[50.8, 50.8]]);
+  expect(layers[1].outlines.map((outline) => outline.closed)).toEqual([true, true]);
+  expect(layers[1].outlines[1].points).toHaveLength(3);
+});
+
+test("DXF files written by the vector exporter import back unchanged", () => {
+  const square = { points: [[0, 0], [10, 0], [10, 10], [0, 10]], closed: true };
+  const layers = parseOutlineFile("part.dxf", serializeDxf([{ name: "Part 1", outlines: [square] }])).layers;
+  expect(layers).toEqual([{ name: "Part_1", outlines: [square] }]);
+});
+
+test("closed loops wind counter-clockwise outside and clockwise for holes", () => {
+  const outer = { points: [[0, 0], [0, 10], [10, 10], [10, 0]], closed: true };
+  const hole = { points: [[2, 2], [4, 2], [4, 4], [2, 4]], closed: true };
+  const [outerLoop, holeLoop] = outlineLoops({ layers: [{ name: "0", outlines: [outer, hole] }] });
+  expect(outerLoop).toEqual([...outer.points].reverse());
+  expect(holeLoop).toEqual([...hole.points].reverse());
+  expect(() => outlineLoops({ layers: [{ name: "0", outlines: [outer] }] }, "cut")).toThrow('Unknown layer "cut". Layers: 0');
+  expect(joinOpenOutlines([{ points: [[0, 0], [1, 0]], closed: false }])[0].closed).toBe(false);
+});
+
+test("server runtime extrudes required drawings and selects layers", async () => {
+  const url = `data:application/json,${encodeURIComponent(JSON.stringify({ layers: parseSvg(gasketSvg) }))}`;
+  const evaluate = async (spec) => {
+    const evaluation = await evaluateJscadCode(
+      `
+const { extrusions } = require('@jscad/modeling')
+const gasket = require('${spec}')
+const main = () => [extrusions.extrudeLinear({ height: 2 }, gasket)]
+module.exports = { main }
+`,
+      { assets: { "assets/gasket.svg": url } }
+    );
+    if (!evaluation.ok) throw new Error(evaluation.error);
+    return measurements.measureVolume(evaluation.geometries[0]);
+  };
+
+  const holes = Math.PI * 25 + 25;
+  expect(await evaluate("./assets/gasket.svg#Outer")).toBeCloseTo(800 * 2, 3);
+  // The 64-gon is slightly smaller than the true circle.
+  expect(await evaluate("./assets/gasket.svg")).toBeCloseTo((800 - holes) * 2, 0);
+  await expect(evaluate("./assets/gasket.svg#Missing")).rejects.toThrow('Unknown layer "Missing"');
+});
@@ -0,0 +1,96 @@
+import { expect, test } from "bun:test";
+import { findProjectModule, normalizeModulePath, resolveProjectPath } from "../src/lib/project-files";
+import { createMockProvider, mockText, mockToolCalls } from "../src/server/llm";
+import { runCodegen } from "../src/server/routers/codegen";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+
+const fasteners = `
+const { primitives } = require('@jscad/modeling')
+const { HEAD_HEIGHT } = require('./sizes')
+function bolt(length) {
+  return primitives.cylinder({ radius: 1.5, height: length + HEAD_HEIGHT, segments: 16 })
+}
+module.exports = { bolt }
+`;
+
+const mainCode = `
+const { bolt } = require('./lib/fasteners')
+const main = () => [bolt(10)]
+module.exports = { main }
+`;
+
+test("relative specs resolve against the requiring file", () => {
+  expect(resolveProjectPath("main.jscad", "./lib/fasteners")).toBe("lib/fasteners");
+  expect(resolveProjectPath("lib/fasteners.jscad", "../assets/pcb.stl")).toBe("assets/pcb.stl");
+  expect(resolveProjectPath("lib/a/b.jscad", "../../main.jscad")).toBe("main.jscad");
+  expect(resolveProjectPath("main.jscad", "./assets/plan.dxf#a/b")).toBe("assets/plan.dxf#a/b");
+  expect(() => resolveProjectPath("lib/fasteners.jscad", "../../outside")).toThrow("escapes the project");
+
+  const files = { "lib/fasteners.jscad": "", "lib/gears/index.js": "" };
+  expect(findProjectModule(files, "lib/fasteners")).toBe("lib/fasteners.jscad");
+  expect(findProjectModule(files, "lib/gears")).toBe("lib/gears/index.js");
+  expect(findProjectModule(files, "lib/missing")).toBeUndefined();
+});
+
+test("module paths are normalized and validated", () => {
+  expect(normalizeModulePath("./lib/Fasteners")).toBe("lib/fasteners.jscad");
+  expect(normalizeModulePath("/util.js")).toBe("util.js");
+  expect(normalizeModulePath("main")).toBe("main.jscad");
+  expect(normalizeModulePath("../escape.jscad")).toBeNull();
+  expect(normalizeModulePath("assets/pcb.jscad")).toBeNull();
+  expect(normalizeModulePath("lib/has space.jscad")).toBeNull();
+});
+
+test("server evaluator loads nested project modules", async () => {
+  const evaluation = await evaluateJscadCode(mainCode, {
+    files: {
+      "lib/fasteners.jscad": fasteners,
+      "lib/sizes.jscad": "module.exports = { HEAD_HEIGHT: 2 }",
+    },
+  });
+  expect(evaluation.ok).toBe(true);
+  if (!evaluation.ok) return;
+  expect(evaluation.geometries).toHaveLength(1);
+  const zs = evaluation.geometries[0].polygons.flatMap((polygon) => polygon.vertices.map((vertex) => vertex[2]));
+  expect(Math.max(...zs) - Math.min(...zs)).toBeCloseTo(12);
+});
+
+test("missing and circular project modules report the file involved", async () => {
+  const missing = await evaluateJscadCode(mainCode);
+  expect(missing).toEqual({ ok: false, error: "Unknown module: ./lib/fasteners (no project file lib/fasteners.jscad)" });
+
+  const circular = await evaluateJscadCode(mainCode, {
+    files: {
+      "lib/fasteners.jscad": "require('./sizes')\nmodule.exports = {}",
+      "lib/sizes.jscad": "require('./fasteners')\nmodule.exports = {}",
+    },
+  });
+  expect(circular).toEqual({ ok: false, error: "Circular project module reference: lib/fasteners.jscad" });
+});
+
+test("agent tools read, create and edit project modules by path", async () => {
+  const llm = createMockProvider([
+    mockToolCalls([
+      {
+        name: "write_code",
+        args: { path: "lib/fasteners", code: fasteners.replace("require('./sizes')", "({ HEAD_HEIGHT: 2 })") },
+      },
+    ]),
+    mockToolCalls([{ name: "edit_code", args: { path: "lib/fasteners.jscad", edits: [{ search: "radius: 1.5", replace: "radius: 2" }] } }]),
+    mockToolCalls([{ name: "read_code" }, { name: "read_code", args: { path: "lib/nope.jscad" } }]),
+    mockText("Moved the bolt into lib/fasteners.jscad."),
+  ]);
+
+  const result = await runCodegen({ prompt: "split out the bolt", currentCode: mainCode, maxIterations: 4 }, undefined, {
+    llm,
+  });
+
+  expect(result.code).toBe(mainCode);
+  expect(Object.keys(result.files)).toEqual(["lib/fasteners.jscad"]);
+  expect(result.files["lib/fasteners.jscad"]).toContain("radius: 2");
+  const [write, edit, read, missing] = result.toolResults.map((entry) => entry.result);
+  expect(write).toMatchObject({ success: true, path: "lib/fasteners.jscad", runtime: { ok: true } });
+  expect(edit).toMatchObject({ success: true, appliedEdits: 1, runtime: { ok: true } });
+  expect(read.files).toEqual(["main.jscad", "lib/fasteners.jscad"]);
+  expect(missing).toMatchObject({ success: false, error: "File lib/nope.jscad does not exist. Create it with write_code first." });
+});
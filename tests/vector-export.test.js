@@ -0,0 +1,65 @@
+import { expect, test } from "bun:test";
+import { outlineLayers, sectionOutlines, serializeDxf, serializeSvg, zSectionPlane } from "../src/lib/vector-export";
+import { evaluateJscadCode } from "../src/server/jscad-runtime";
+
+async function evaluate(code) {
+  const evaluation = await evaluateJscadCode(code);
+  if (!evaluation.ok) throw new Error(evaluation.error);
+  return evaluation.geometries;
+}
+
+test("geom2 parts export as closed outlines with their transforms", async () => {
+  const geometries = await evaluate(`
+const { primitives, booleans, transforms, colors } = require('@jscad/modeling')
+const main = () => [
+  colors.colorize([0, 0, 1], transforms.translate([10, 0], booleans.subtract(
+    primitives.rectangle({ size: [20, 10] }),
+    primitives.rectangle({ size: [4, 4] })
+  ))),
+]
+module.exports = { main }
+`);
+  const [layer] = outlineLayers(geometries);
+  expect(layer.name).toBe("Part 1");
+  expect(layer.outlines).toHaveLength(2);
+  expect(layer.outlines.every((outline) => outline.closed && outline.points.length === 4)).toBe(true);
+  const xs = layer.outlines.flatMap((outline) => outline.points.map(([x]) => x));
+  expect(Math.min(...xs)).toBeCloseTo(0, 9);
+  expect(Math.max(...xs)).toBeCloseTo(20, 9);
+
+  const svg = serializeSvg([layer]);
+  expect(svg).toContain('width="20mm" height="10mm" viewBox="0 -5 20 10"');
+  expect(svg).toContain('stroke="rgb(0,0,255)"');
+  expect(svg.match(/ Z"/g)).toHaveLength(2);
+
+  const dxf = serializeDxf([layer]).split("\n");
+  expect(dxf[dxf.indexOf("$INSUNITS") + 2]).toBe("4");
+  expect(dxf.filter((line) => line === "POLYLINE")).toHaveLength(2);
+  expect(dxf[dxf.indexOf("LAYER", dxf.indexOf("LAYER") + 1) + 2]).toBe("Part_1");
+  expect(dxf[dxf.length - 2]).toBe("EOF");
+});
+
+test("sections through solids close into loops, one layer per part", async () => {
+  const geometries = await evaluate(`
+const { primitives, transforms } = require('@jscad/modeling')
+const main = () => [
+  primitives.cylinder({ radius: 5, height: 10, segments: 32 }),
+  transforms.translate([20, 0, 0], primitives.cuboid({ size: [4, 6, 2] })),
+]
+module.exports = { main }
+`);
+  const cylinder = sectionOutlines(geometries[0], zSectionPlane(1.5));
+  expect(cylinder).toHaveLength(1);
+  expect(cylinder[0].closed).toBe(true);
+  expect(cylinder[0].points).toHaveLength(32);
+  for (const [x, y] of cylinder[0].points) expect(Math.hypot(x, y)).toBeCloseTo(5, 9);
+
+  expect(outlineLayers(geometries, zSectionPlane(3)).map((layer) => layer.name)).toEqual(["Part 1"]);
+
+  // A plane along Y cuts the box into a 6 x 2 rectangle.
+  const side = sectionOutlines(geometries[1], { origin: [20, 0, 0], normal: [1, 0, 0] });
+  expect(side).toHaveLength(1);
+  expect(side[0].points).toHaveLength(4);
+  const extent = (axis) => Math.max(...side[0].points.map((p) => p[axis])) - Math.min(...side[0].points.map((p) => p[axis]));
+  expect([extent(0), extent(1)].sort()).toEqual([2, 6]);
+});
@@ -0,0 +1,96 @@
+import { expect, test } from "bun:test";
+import {
+  createUnifiedDiff,
+  diffVersions,
+  resolveVersionReference,
+} from "../src/server/version-history";
+
+const bracket = (height) => `const { cuboid } = require('@jscad/modeling').primitives
+function getParameterDefinitions() {
+  return [{ name: 'width', type: 'float', initial: 20 }]
+}
+function main(params) {
+  const { width = 20 } = params || {}
+  return [cuboid({ size: [width, 10, ${height}], center: [0, 0, ${height / 2}] })]
+}
+module.exports = { main, getParameterDefinitions }`;
+
+const versions = [
+  { versionNumber: 6, jscadCode: bracket(12), parameters: { width: 20 } },
+  { versionNumber: 7, jscadCode: bracket(15), parameters: { width: 24 } },
+];
+
+test("unified diff reports changed lines with hunk headers", () => {
+  const { diff, added, removed } = createUnifiedDiff("a\nb\nc\nd", "a\nB\nc\nd\ne", { from: "v1", to: "v2" });
+  expect(added).toBe(2);
+  expect(removed).toBe(1);
+  expect(diff).toBe(["--- v1", "+++ v2", "@@ -1,4 +1,5 @@", " a", "-b", "+B", " c", " d", "+e"].join("\n"));
+  expect(createUnifiedDiff("same", "same", { from: "a", to: "b" }).diff).toBe("");
+});
+
+test("unified diff stays exact for scattered edits and falls back on very large rewrites", () => {
+  const lines = (count, edit) => Array.from({ length: count }, (_, i) => edit(i) ?? `line ${i}`).join("\n");
+
+  // The hunks replay the edit: every tenth line changed, one line inserted.
+  const from = lines(3000, () => undefined);
+  const to = lines(3000, (i) => (i % 10 === 5 ? `changed ${i}` : undefined)) + "\nappended";
+  const scattered = createUnifiedDiff(from, to, { from: "a", to: "b" });
+  expect(scattered.removed).toBe(300);
+  expect(scattered.added).toBe(301);
+
+  // A one-line change in a long file only diffs the differing middle.
+  const long = lines(20000, () => undefined);
+  const single = createUnifiedDiff(long, lines(20000, (i) => (i === 10000 ? "edited" : undefined)), { from: "a", to: "b" });
+  expect(single).toMatchObject({ added: 1, removed: 1 });
+  expect(single.diff).toContain("@@ -9998,7 +9998,7 @@");
+
+  // Two unrelated 10k-line files skip the line diff instead of tracing it.
+  const started = Date.now();
+  const rewrite = createUnifiedDiff(lines(10000, (i) => `old ${i}`), lines(10000, (i) => `new ${i}`), { from: "a", to: "b" });
+  expect(rewrite).toMatchObject({ added: 10000, removed: 10000 });
+  expect(Date.now() - started).toBeLessThan(2000);
+});
+
+test("version references resolve numbers, latest, previous and current", () => {
+  const current = { versionNumber: 8, jscadCode: bracket(15) };
+  expect(resolveVersionReference(versions, 7)).toMatchObject({ ok: true, label: "v7" });
+  expect(resolveVersionReference(versions, "latest")).toMatchObject({ ok: true, label: "v7" });
+  expect(resolveVersionReference(versions, "current", current)).toMatchObject({ ok: true, label: "current" });
+  // The working code matches v7, so "previous" skips to v6.
+  expect(resolveVersionReference(versions, "previous", current)).toMatchObject({ ok: true, label: "v6" });
+  expect(resolveVersionReference(versions, "v9")).toMatchObject({ ok: false, availableVersions: [7, 6] });
+});
+
+test("version diff summarizes parameter and geometry changes", async () => {
+  const from = resolveVersionReference(versions, 6);
+  const to = resolveVersionReference(versions, 7);
+  if (!from.ok || !to.ok) throw new Error("versions not resolved");
+
+  const diff = await diffVersions(from, to);
+  expect(diff.linesAdded).toBe(1);
+  expect(diff.unifiedDiff).toContain("+  return [cuboid({ size: [width, 10, 15], center: [0, 0, 7.5] })]");
+  expect(diff.parameterChanges).toEqual([{ name: "width", from: 20, to: 24 }]);
+  expect(diff.metadataChanges.dimensions).toEqual({ from: [20, 10, 12], to: [24, 10, 15], delta: [4, 0, 3] });
+  expect(diff.metadataChanges.volume).toMatchObject({ from: 2400, to: 3600, delta: 1200, percent: 50 });
+  expect(diff.evaluationErrors).toBeUndefined();
+});
+
+test("version diff resolves assets the versions require", async () => {
+  const tetrahedron = { positions: [0, 0, 0, 10, 0, 0, 0, 10, 0, 0, 0, 10], triangles: [0, 2, 1, 0, 1, 3, 0, 3, 2, 1, 2, 3] };
+  const assets = { "assets/tet.stl": `data:application/json,${encodeURIComponent(JSON.stringify(tetrahedron))}` };
+  const withAsset = (scale) => `const { transforms } = require('@jscad/modeling')
+const tet = require('./assets/tet.stl')
+const main = () => [transforms.scale([${scale}, 1, 1], tet)]
+module.exports = { main }`;
+  const history = [
+    { versionNumber: 1, jscadCode: withAsset(1) },
+    { versionNumber: 2, jscadCode: withAsset(2) },
+  ];
+  const from = resolveVersionReference(history, 1);
+  const to = resolveVersionReference(history, 2);
+  if (!from.ok || !to.ok) throw new Error("versions not resolved");
+
+  const diff = await diffVersions(from, to, { assets });
+  expect(diff.evaluationErrors).toBeUndefined();
+  expect(diff.metadataChanges.dimensions).toEqual({ from: [10, 10, 10], to: [20, 10, 10], delta: [10, 0, 0] });
+});